@@ -0,0 +1,209 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Eye, RotateCcw } from "lucide-react";
+import type { OutboxEmail } from "@shared/schema";
+
+interface EmailTemplateSummary {
+  name: string;
+  version: number;
+  description: string;
+}
+
+interface EmailPreview {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/** Rendered HTML goes in a sandboxed frame so the message's styles and links stay out of the app */
+function EmailPreviewDialog({ title, description, preview, onOpenChange }: {
+  title: string;
+  description: string;
+  preview: EmailPreview | undefined;
+  onOpenChange: (open: boolean) => void;
+}) {
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+        {!preview ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm"><span className="text-muted-foreground">Subject:</span> {preview.subject}</p>
+            <iframe
+              title="Email HTML"
+              sandbox=""
+              srcDoc={preview.html}
+              className="w-full h-[320px] rounded border bg-white"
+            />
+            <pre className="text-xs whitespace-pre-wrap rounded border bg-muted p-3">{preview.text}</pre>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function TemplatePreviewDialog({ template, onOpenChange }: { template: EmailTemplateSummary; onOpenChange: (open: boolean) => void }) {
+  const { data: preview } = useQuery<EmailPreview>({
+    queryKey: ["/api/admin/email-templates", template.name, "preview"],
+  });
+  return (
+    <EmailPreviewDialog
+      title={`${template.name} (v${template.version})`}
+      description="Rendered with sample values."
+      preview={preview}
+      onOpenChange={onOpenChange}
+    />
+  );
+}
+
+export function EmailPanel() {
+  const { toast } = useToast();
+  const [previewTemplate, setPreviewTemplate] = useState<EmailTemplateSummary | null>(null);
+  const [viewEmail, setViewEmail] = useState<OutboxEmail | null>(null);
+
+  const { data: templates = [] } = useQuery<EmailTemplateSummary[]>({
+    queryKey: ["/api/admin/email-templates"],
+  });
+  const { data: emails = [], isLoading: emailsLoading } = useQuery<OutboxEmail[]>({
+    queryKey: ["/api/admin/emails"],
+    refetchInterval: (query) =>
+      query.state.data?.some((e) => e.status === "queued" || e.status === "retrying") ? 5000 : false,
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/admin/emails/${id}/retry`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/emails"] });
+    },
+    onError: (err: any) => {
+      toast({ title: "Failed to retry email", description: err.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-8">
+      <section>
+        <h3 className="text-sm font-medium mb-2">Templates</h3>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Version</TableHead>
+              <TableHead>Sent when</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {templates.map((template) => (
+              <TableRow key={template.name}>
+                <TableCell className="font-mono text-xs">{template.name}</TableCell>
+                <TableCell>v{template.version}</TableCell>
+                <TableCell className="text-muted-foreground">{template.description}</TableCell>
+                <TableCell className="text-right">
+                  <Button size="sm" variant="ghost" onClick={() => setPreviewTemplate(template)}>
+                    <Eye className="h-4 w-4 mr-1" />
+                    Preview
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </section>
+
+      <section>
+        <h3 className="text-sm font-medium mb-2">Outbox</h3>
+        {emailsLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : emails.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No emails sent yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>To</TableHead>
+                <TableHead>Template</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead>Last Error</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {emails.map((email) => (
+                <TableRow key={email.id}>
+                  <TableCell className="font-medium">{email.toAddress}</TableCell>
+                  <TableCell className="font-mono text-xs text-muted-foreground">
+                    {email.template} v{email.templateVersion}
+                  </TableCell>
+                  <TableCell>
+                    <Badge
+                      variant={email.status === "failed" ? "destructive" : email.status === "sent" ? "default" : "secondary"}
+                      title={email.transport ? `via ${email.transport}` : undefined}
+                    >
+                      {email.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">{email.attempts}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground truncate max-w-[240px]" title={email.lastError || undefined}>
+                    {email.lastError || "-"}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">{new Date(email.createdAt).toLocaleString()}</TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button size="sm" variant="ghost" onClick={() => setViewEmail(email)}>
+                      <Eye className="h-4 w-4 mr-1" />
+                      View
+                    </Button>
+                    {email.status === "failed" && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => retryMutation.mutate(email.id)}
+                        disabled={retryMutation.isPending}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Retry
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </section>
+
+      {previewTemplate && (
+        <TemplatePreviewDialog template={previewTemplate} onOpenChange={(open) => !open && setPreviewTemplate(null)} />
+      )}
+      {viewEmail && (
+        <EmailPreviewDialog
+          title={`To ${viewEmail.toAddress}`}
+          description={`${viewEmail.template} v${viewEmail.templateVersion}, as it was sent.`}
+          preview={viewEmail}
+          onOpenChange={(open) => !open && setViewEmail(null)}
+        />
+      )}
+    </div>
+  );
+}
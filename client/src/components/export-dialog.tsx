@@ -0,0 +1,184 @@
+import { useState, useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+import type { ExportFormat, TaskType } from "@shared/schema";
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  taskTypes: TaskType[];
+}
+
+const EMPTY_FORM = {
+  format: "jsonl" as ExportFormat,
+  taskType: "all",
+  from: "",
+  to: "",
+  paid: "all",
+  reviewerStatus: "all",
+};
+
+function saveBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export function ExportDialog({ open, onOpenChange, taskTypes }: ExportDialogProps) {
+  const { toast } = useToast();
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  useEffect(() => {
+    if (open) setForm(EMPTY_FORM);
+  }, [open]);
+
+  const set = <K extends keyof typeof EMPTY_FORM>(key: K, value: (typeof EMPTY_FORM)[K]) =>
+    setForm((f) => ({ ...f, [key]: value }));
+
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        format: form.format,
+        taskType: form.taskType !== "all" ? form.taskType : undefined,
+        from: form.from || undefined,
+        to: form.to || undefined,
+        paid: form.paid !== "all" ? form.paid === "paid" : undefined,
+        reviewerStatus: form.reviewerStatus !== "all" ? form.reviewerStatus : undefined,
+      };
+      const res = await apiRequest("POST", "/api/admin/exports", body);
+      if (form.format === "hf") {
+        return { kind: "job" as const, ...(await res.json()) };
+      }
+      const disposition = res.headers.get("Content-Disposition") || "";
+      const fileName = disposition.match(/filename="([^"]+)"/)?.[1] || `export.${form.format}`;
+      saveBlob(await res.blob(), fileName);
+      return { kind: "file" as const, fileName };
+    },
+    onSuccess: (result) => {
+      if (result.kind === "job") {
+        queryClient.invalidateQueries({ queryKey: ["/api/admin/jobs"] });
+        toast({ title: "Export queued", description: `Writing dataset to ${result.prefix} — track progress in the Jobs tab.` });
+      } else {
+        toast({ title: "Export downloaded", description: result.fileName });
+      }
+      onOpenChange(false);
+    },
+    onError: (err: any) => {
+      toast({ title: "Export failed", description: err.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Export Dataset</DialogTitle>
+          <DialogDescription>
+            Manifest of approved sessions with each speaker's processed WAV, anonymized speaker ID and demographics.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            exportMutation.mutate();
+          }}
+        >
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <Select value={form.format} onValueChange={(v) => set("format", v as ExportFormat)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="jsonl">JSONL</SelectItem>
+                  <SelectItem value="csv">CSV</SelectItem>
+                  <SelectItem value="hf">Hugging Face (S3)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Task</Label>
+              <Select value={form.taskType} onValueChange={(v) => set("taskType", v)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Tasks</SelectItem>
+                  {taskTypes.map((t) => (
+                    <SelectItem key={t.id} value={t.id}>
+                      {t.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="export-from">Recorded From</Label>
+              <Input id="export-from" type="date" value={form.from} onChange={(e) => set("from", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="export-to">Recorded Until</Label>
+              <Input id="export-to" type="date" value={form.to} onChange={(e) => set("to", e.target.value)} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Paid</Label>
+              <Select value={form.paid} onValueChange={(v) => set("paid", v)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All</SelectItem>
+                  <SelectItem value="paid">Paid</SelectItem>
+                  <SelectItem value="unpaid">Unpaid</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Reviewer</Label>
+              <Select value={form.reviewerStatus} onValueChange={(v) => set("reviewerStatus", v)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Reviews</SelectItem>
+                  <SelectItem value="approved">Approved</SelectItem>
+                  <SelectItem value="unsure">Unsure</SelectItem>
+                  <SelectItem value="rejected">Rejected</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={exportMutation.isPending}>
+              {exportMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {form.format === "hf" ? "Start Export" : "Download"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,150 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Unlock } from "lucide-react";
+import type { RateLimitBucket } from "@shared/schema";
+
+interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+interface RateLimitPolicySummary {
+  name: string;
+  description: string;
+  ip?: RateLimitRule;
+  account?: RateLimitRule;
+  failuresOnly?: boolean;
+  lockout: { baseMs: number; maxMs: number };
+}
+
+interface RateLimitOverview {
+  policies: RateLimitPolicySummary[];
+  lockouts: (RateLimitBucket & { active: boolean })[];
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes} min`;
+  const hours = minutes / 60;
+  return `${Number.isInteger(hours) ? hours : hours.toFixed(1)} h`;
+}
+
+function formatRule(rule: RateLimitRule | undefined): string {
+  return rule ? `${rule.limit} per ${formatDuration(rule.windowMs)}` : "-";
+}
+
+export function RateLimitPanel() {
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<RateLimitOverview>({
+    queryKey: ["/api/admin/rate-limits"],
+    refetchInterval: 30000,
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/admin/rate-limits/${id}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/rate-limits"] });
+      toast({ title: "Lockout cleared" });
+    },
+    onError: (err: any) => {
+      toast({ title: "Failed to clear lockout", description: err.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <section>
+        <h3 className="text-sm font-medium mb-2">Policies</h3>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Policy</TableHead>
+              <TableHead>Counts</TableHead>
+              <TableHead>Per address</TableHead>
+              <TableHead>Per account</TableHead>
+              <TableHead>Lockout</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data.policies.map((policy) => (
+              <TableRow key={policy.name}>
+                <TableCell className="font-mono text-xs">{policy.name}</TableCell>
+                <TableCell className="text-muted-foreground">{policy.description}</TableCell>
+                <TableCell>{formatRule(policy.ip)}</TableCell>
+                <TableCell>{formatRule(policy.account)}</TableCell>
+                <TableCell className="text-muted-foreground">
+                  {formatDuration(policy.lockout.baseMs)}, doubling to {formatDuration(policy.lockout.maxMs)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </section>
+
+      <section>
+        <h3 className="text-sm font-medium mb-2">Lockouts</h3>
+        {data.lockouts.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">Nobody has been locked out.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Subject</TableHead>
+                <TableHead>Policy</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Strikes</TableHead>
+                <TableHead>Locked Until</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.lockouts.map((lockout) => (
+                <TableRow key={lockout.id}>
+                  <TableCell className="font-medium">{lockout.subject}</TableCell>
+                  <TableCell className="font-mono text-xs text-muted-foreground">{lockout.policy}</TableCell>
+                  <TableCell>
+                    <Badge variant={lockout.active ? "destructive" : "secondary"}>
+                      {lockout.active ? "locked" : "expired"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">{lockout.strikes}</TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {lockout.lockedUntil ? new Date(lockout.lockedUntil).toLocaleString() : "-"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => clearMutation.mutate(lockout.id)}
+                      disabled={clearMutation.isPending}
+                      title={lockout.active ? "Unlock now and forget earlier strikes" : "Forget earlier strikes"}
+                    >
+                      <Unlock className="h-4 w-4 mr-1" />
+                      Clear
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,388 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogHeader,
+  AlertDialogFooter,
+  AlertDialogTitle,
+  AlertDialogDescription,
+  AlertDialogAction,
+  AlertDialogCancel,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Plus, Trash2, FileSearch, Play } from "lucide-react";
+import {
+  RETENTION_ARTIFACT_TYPES,
+  RETENTION_ARTIFACT_LABELS,
+  RETENTION_SESSION_STATUSES,
+  RETENTION_ACTIONS,
+  type RetentionRule,
+  type RetentionSweep,
+  type RetentionActionRecord,
+  type RetentionArtifactType,
+  type RetentionSessionStatus,
+  type RetentionAction,
+} from "@shared/schema";
+
+const ANY_STATUS = "any";
+
+function statusLabel(status: RetentionSessionStatus | null) {
+  return status ? status.replace("_", " ") : "any status";
+}
+
+function NewRuleRow() {
+  const { toast } = useToast();
+  const [artifactType, setArtifactType] = useState<RetentionArtifactType>("raw_upload");
+  const [sessionStatus, setSessionStatus] = useState<RetentionSessionStatus | typeof ANY_STATUS>(ANY_STATUS);
+  const [action, setAction] = useState<RetentionAction>("archive");
+  const [afterDays, setAfterDays] = useState("30");
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/retention/rules", {
+        artifactType,
+        sessionStatus: sessionStatus === ANY_STATUS ? null : sessionStatus,
+        action,
+        afterDays: parseInt(afterDays, 10),
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/retention/rules"] });
+    },
+    onError: (err: any) => {
+      toast({ title: "Failed to add rule", description: err.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <TableRow>
+      <TableCell>
+        <Select value={artifactType} onValueChange={(v) => setArtifactType(v as RetentionArtifactType)}>
+          <SelectTrigger className="h-8 w-[240px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RETENTION_ARTIFACT_TYPES.map((type) => (
+              <SelectItem key={type} value={type}>{RETENTION_ARTIFACT_LABELS[type]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </TableCell>
+      <TableCell>
+        <Select
+          value={artifactType === "orphaned_object" ? ANY_STATUS : sessionStatus}
+          onValueChange={(v) => setSessionStatus(v as RetentionSessionStatus | typeof ANY_STATUS)}
+          disabled={artifactType === "orphaned_object"}
+        >
+          <SelectTrigger className="h-8 w-[150px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY_STATUS}>any status</SelectItem>
+            {RETENTION_SESSION_STATUSES.map((status) => (
+              <SelectItem key={status} value={status}>{statusLabel(status)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </TableCell>
+      <TableCell>
+        <Select value={action} onValueChange={(v) => setAction(v as RetentionAction)}>
+          <SelectTrigger className="h-8 w-[110px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RETENTION_ACTIONS.map((a) => (
+              <SelectItem key={a} value={a}>{a}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </TableCell>
+      <TableCell>
+        <Input type="number" min={1} className="h-8 w-[90px]" value={afterDays} onChange={(e) => setAfterDays(e.target.value)} />
+      </TableCell>
+      <TableCell />
+      <TableCell className="text-right">
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => createMutation.mutate()}
+          disabled={createMutation.isPending || !(parseInt(afterDays, 10) >= 1)}
+        >
+          {createMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Plus className="h-4 w-4 mr-1" />}
+          Add
+        </Button>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+function SweepReportDialog({ sweep, onOpenChange }: { sweep: RetentionSweep; onOpenChange: (open: boolean) => void }) {
+  const { data: actions = [], isLoading } = useQuery<RetentionActionRecord[]>({
+    queryKey: ["/api/admin/retention/sweeps", sweep.id, "actions"],
+  });
+
+  const counts = new Map<string, number>();
+  for (const a of actions) {
+    const key = `${a.action} · ${RETENTION_ARTIFACT_LABELS[a.artifactType] ?? a.artifactType}`;
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{sweep.dryRun ? "Dry run report" : "Sweep log"}</DialogTitle>
+          <DialogDescription>
+            {sweep.dryRun
+              ? "Objects the current rules would delete or archive. Nothing has been changed."
+              : "Objects this sweep deleted or archived."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : actions.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">No objects matched.</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2">
+              {Array.from(counts, ([label, count]) => (
+                <Badge key={label} variant={label.startsWith("delete") ? "destructive" : "secondary"}>
+                  {label}: {count}
+                </Badge>
+              ))}
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Object</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {actions.map((a) => (
+                  <TableRow key={a.id}>
+                    <TableCell>{a.action}</TableCell>
+                    <TableCell className="text-xs text-muted-foreground whitespace-nowrap">{a.artifactType}</TableCell>
+                    <TableCell className="font-mono text-xs break-all">{a.s3Key}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function RetentionPanel() {
+  const { toast } = useToast();
+  const [reportSweep, setReportSweep] = useState<RetentionSweep | null>(null);
+  const [applySweep, setApplySweep] = useState<RetentionSweep | null>(null);
+
+  const { data: rules = [], isLoading: rulesLoading } = useQuery<RetentionRule[]>({
+    queryKey: ["/api/admin/retention/rules"],
+  });
+  const { data: sweeps = [] } = useQuery<RetentionSweep[]>({
+    queryKey: ["/api/admin/retention/sweeps"],
+    refetchInterval: (query) =>
+      query.state.data?.some((s) => s.status === "queued" || s.status === "running") ? 3000 : false,
+  });
+
+  const invalidateSweeps = () => queryClient.invalidateQueries({ queryKey: ["/api/admin/retention/sweeps"] });
+
+  const updateRuleMutation = useMutation({
+    mutationFn: async ({ id, ...data }: { id: string; enabled?: boolean; afterDays?: number }) => {
+      const res = await apiRequest("PATCH", `/api/admin/retention/rules/${id}`, data);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/retention/rules"] });
+    },
+    onError: (err: any) => {
+      toast({ title: "Failed to update rule", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/admin/retention/rules/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/retention/rules"] });
+    },
+  });
+
+  const dryRunMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/retention/dry-run");
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Dry run queued", description: "The report appears below when it finishes." });
+      invalidateSweeps();
+    },
+    onError: (err: any) => {
+      toast({ title: "Failed to start dry run", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async (sweepId: string) => {
+      const res = await apiRequest("POST", `/api/admin/retention/sweeps/${sweepId}/apply`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Sweep queued" });
+      setApplySweep(null);
+      invalidateSweeps();
+    },
+    onError: (err: any) => {
+      toast({ title: "Failed to apply sweep", description: err.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-8">
+      <section>
+        <h3 className="text-sm font-medium mb-2">Rules</h3>
+        {rulesLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Artifact</TableHead>
+                <TableHead>Session status</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>After (days)</TableHead>
+                <TableHead>Enabled</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map((rule) => (
+                <TableRow key={rule.id}>
+                  <TableCell>{RETENTION_ARTIFACT_LABELS[rule.artifactType] ?? rule.artifactType}</TableCell>
+                  <TableCell className="text-muted-foreground">{statusLabel(rule.sessionStatus)}</TableCell>
+                  <TableCell>
+                    <Badge variant={rule.action === "delete" ? "destructive" : "secondary"}>{rule.action}</Badge>
+                  </TableCell>
+                  <TableCell>{rule.afterDays}</TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={rule.enabled}
+                      onCheckedChange={(enabled) => updateRuleMutation.mutate({ id: rule.id, enabled })}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button size="sm" variant="ghost" onClick={() => deleteRuleMutation.mutate(rule.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              <NewRuleRow />
+            </TableBody>
+          </Table>
+        )}
+      </section>
+
+      <section>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm font-medium">Sweeps</h3>
+          <Button size="sm" onClick={() => dryRunMutation.mutate()} disabled={dryRunMutation.isPending}>
+            {dryRunMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <FileSearch className="h-4 w-4 mr-1" />}
+            Dry run
+          </Button>
+        </div>
+        {sweeps.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No sweeps yet. Start with a dry run to see what the rules would remove.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Kind</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Objects</TableHead>
+                <TableHead>Error</TableHead>
+                <TableHead>Started</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sweeps.map((sweep) => (
+                <TableRow key={sweep.id}>
+                  <TableCell>{sweep.dryRun ? "Dry run" : "Applied"}</TableCell>
+                  <TableCell>
+                    <Badge variant={sweep.status === "failed" ? "destructive" : sweep.status === "completed" ? "default" : "secondary"}>
+                      {sweep.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>{sweep.objectCount ?? "-"}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground truncate max-w-[240px]" title={sweep.error || undefined}>
+                    {sweep.error || "-"}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">{new Date(sweep.createdAt).toLocaleString()}</TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    {sweep.status === "completed" && (
+                      <Button size="sm" variant="ghost" onClick={() => setReportSweep(sweep)}>
+                        <FileSearch className="h-4 w-4 mr-1" />
+                        Report
+                      </Button>
+                    )}
+                    {sweep.dryRun && sweep.status === "completed" && !!sweep.objectCount && (
+                      <Button size="sm" variant="ghost" className="text-destructive" onClick={() => setApplySweep(sweep)}>
+                        <Play className="h-4 w-4 mr-1" />
+                        Apply
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </section>
+
+      {reportSweep && <SweepReportDialog sweep={reportSweep} onOpenChange={(open) => !open && setReportSweep(null)} />}
+
+      <AlertDialog open={!!applySweep} onOpenChange={(open) => !open && setApplySweep(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Apply this dry run?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Up to {applySweep?.objectCount} object(s) from the report will be deleted or archived. Objects the rules
+              no longer select are skipped. Deleted audio cannot be recovered.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => applySweep && applyMutation.mutate(applySweep.id)}
+            >
+              Apply
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
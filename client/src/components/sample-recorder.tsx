@@ -4,33 +4,13 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { useAuthContext } from "@/lib/auth-context";
+import { uploadToS3WithRetry } from "@/lib/s3-upload";
+import { createLocalRecording, appendLocalChunk, updateLocalRecording, deleteLocalRecording } from "@/lib/recording-store";
+import { UnsentRecordings } from "@/components/unsent-recordings";
 import { Loader2, ArrowLeft, ChevronRight, Mic } from "lucide-react";
 import { ONBOARDING_PROMPTS } from "@shared/schema";
 
-async function uploadToS3WithRetry(
-  url: string,
-  body: Blob,
-  contentType: string,
-  maxRetries = 3,
-): Promise<void> {
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      const res = await fetch(url, {
-        method: "PUT",
-        body,
-        headers: { "Content-Type": contentType },
-      });
-      if (res.ok) return;
-      throw new Error(`S3 upload returned ${res.status}: ${res.statusText}`);
-    } catch (err: any) {
-      if (attempt === maxRetries) {
-        throw new Error(`Upload failed after ${maxRetries} attempts: ${err.message}`);
-      }
-      await new Promise((r) => setTimeout(r, 1000 * Math.pow(2, attempt - 1)));
-    }
-  }
-}
-
 type RecorderState = "idle" | "recording" | "uploading" | "done" | "error";
 
 interface SampleRecorderProps {
@@ -43,6 +23,7 @@ export default function SampleRecorder({ onComplete }: SampleRecorderProps) {
   const [uploadProgress, setUploadProgress] = useState(0);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const { toast } = useToast();
+  const { user } = useAuthContext();
 
   const streamRef = useRef<MediaStream | null>(null);
   const recorderRef = useRef<MediaRecorder | null>(null);
@@ -89,12 +70,32 @@ export default function SampleRecorder({ onComplete }: SampleRecorderProps) {
       recorderRef.current = recorder;
       const chunks: Blob[] = [];
 
+      // Mirror chunks into IndexedDB so a reload mid-upload doesn't lose the take
+      const localCopy = user
+        ? createLocalRecording({
+            kind: "sample",
+            userId: user.id,
+            mimeType,
+            fileName: "sample-0.webm",
+            promptIndex: 0,
+            promptText: prompt.text,
+          }).catch(() => null)
+        : Promise.resolve(null);
+      const backup = (fn: (localId: string) => Promise<void>) =>
+        localCopy
+          .then((local) => (local ? fn(local.id) : undefined))
+          .catch((err) => console.warn("Local sample backup failed:", err));
+
       recorder.ondataavailable = (e) => {
-        if (e.data.size > 0) chunks.push(e.data);
+        if (e.data.size > 0) {
+          chunks.push(e.data);
+          backup((id) => appendLocalChunk(id, e.data));
+        }
       };
 
       const blobPromise = new Promise<Blob>((resolve, reject) => {
         recorder.onstop = () => {
+          backup((id) => updateLocalRecording(id, { stoppedAt: Date.now(), duration: prompt.duration * 1000 }));
           resolve(new Blob(chunks, { type: mimeType }));
         };
         recorder.onerror = () => reject(new Error("Recording error"));
@@ -144,14 +145,15 @@ export default function SampleRecorder({ onComplete }: SampleRecorderProps) {
       await uploadToS3WithRetry(uploadUrl, blob, "audio/webm");
       setUploadProgress(50);
 
-      // Process WebM -> WAV
-      await apiRequest("POST", `/api/onboarding/samples/${sampleId}/process`);
+      // Queue WebM -> WAV conversion on the server
+      await apiRequest("POST", `/api/onboarding/samples/${sampleId}/upload-complete`);
+      await backup(deleteLocalRecording);
       setUploadProgress(100);
 
       setState("done");
       toast({
         title: "Sample recorded",
-        description: "Your voice sample has been uploaded and processed.",
+        description: "Your voice sample has been uploaded.",
       });
 
       await onComplete();
@@ -165,7 +167,7 @@ export default function SampleRecorder({ onComplete }: SampleRecorderProps) {
         variant: "destructive",
       });
     }
-  }, [cleanup, onComplete, toast]);
+  }, [cleanup, onComplete, toast, user]);
 
   const prompt = ONBOARDING_PROMPTS[0];
 
@@ -175,6 +177,10 @@ export default function SampleRecorder({ onComplete }: SampleRecorderProps) {
         <CardTitle className="text-2xl">Record a Voice Sample</CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
+        {user && state === "idle" && (
+          <UnsentRecordings userId={user.id} kinds={["sample"]} onRecovered={() => onComplete()} />
+        )}
+
         {/* Prompt */}
         <Card className="border">
           <CardContent className="p-4">
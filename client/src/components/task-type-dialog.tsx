@@ -0,0 +1,292 @@
+import { useState, useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+import { AUDIO_OUTPUT_PROFILE_IDS, AUDIO_OUTPUT_PROFILES, DEFAULT_OUTPUT_PROFILE, type AudioOutputProfileId, type TaskType } from "@shared/schema";
+
+interface TaskTypeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Task type to edit — omit to create a new one */
+  taskType?: TaskType | null;
+}
+
+const EMPTY_FORM = {
+  id: "",
+  name: "",
+  description: "",
+  instructions: "",
+  hourlyRate: "",
+  payType: "hourly",
+  estimatedMinutes: "",
+  requiresPartner: true,
+  sampleAudio: "",
+  sampleAudioDescription: "",
+  availableFrom: "",
+  availableUntil: "",
+  sortOrder: "0",
+  outputProfiles: [DEFAULT_OUTPUT_PROFILE] as AudioOutputProfileId[],
+  language: "",
+};
+
+export function TaskTypeDialog({ open, onOpenChange, taskType }: TaskTypeDialogProps) {
+  const { toast } = useToast();
+  const [form, setForm] = useState(EMPTY_FORM);
+  const isEdit = !!taskType;
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(
+      taskType
+        ? {
+            id: taskType.id,
+            name: taskType.name,
+            description: taskType.description,
+            instructions: taskType.instructions.join("\n"),
+            hourlyRate: String(taskType.hourlyRate),
+            payType: taskType.payType,
+            estimatedMinutes: taskType.estimatedMinutes != null ? String(taskType.estimatedMinutes) : "",
+            requiresPartner: taskType.requiresPartner,
+            sampleAudio: taskType.sampleAudio || "",
+            sampleAudioDescription: taskType.sampleAudioDescription || "",
+            availableFrom: taskType.availableFrom || "",
+            availableUntil: taskType.availableUntil || "",
+            sortOrder: String(taskType.sortOrder),
+            outputProfiles: taskType.outputProfiles,
+            language: taskType.language || "",
+          }
+        : EMPTY_FORM
+    );
+  }, [open, taskType]);
+
+  const set = <K extends keyof typeof EMPTY_FORM>(key: K, value: (typeof EMPTY_FORM)[K]) =>
+    setForm((f) => ({ ...f, [key]: value }));
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        name: form.name.trim(),
+        description: form.description.trim(),
+        instructions: form.instructions.split("\n").map((l) => l.trim()).filter(Boolean),
+        hourlyRate: parseInt(form.hourlyRate, 10),
+        payType: form.payType,
+        estimatedMinutes: form.estimatedMinutes ? parseInt(form.estimatedMinutes, 10) : null,
+        requiresPartner: form.requiresPartner,
+        sampleAudio: form.sampleAudio.trim() || null,
+        sampleAudioDescription: form.sampleAudioDescription.trim() || null,
+        availableFrom: form.availableFrom || null,
+        availableUntil: form.availableUntil || null,
+        sortOrder: parseInt(form.sortOrder, 10) || 0,
+        outputProfiles: form.outputProfiles,
+        language: form.language.trim().toLowerCase() || null,
+      };
+      const res = isEdit
+        ? await apiRequest("PATCH", `/api/admin/task-types/${taskType!.id}`, body)
+        : await apiRequest("POST", "/api/admin/task-types", { ...body, id: form.id.trim() });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/task-types"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/task-types"] });
+      toast({ title: isEdit ? "Task updated" : "Task created" });
+      onOpenChange(false);
+    },
+    onError: (err: any) => {
+      toast({ title: "Failed to save task", description: err.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isEdit ? `Edit "${taskType!.name}"` : "New Task"}</DialogTitle>
+          <DialogDescription>
+            {isEdit
+              ? "Changes to the name, instructions or pay create a new version. Existing sessions keep the version they were recorded under."
+              : "Create a new task for contributors to record."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveMutation.mutate();
+          }}
+        >
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="task-id">ID</Label>
+              <Input
+                id="task-id"
+                value={form.id}
+                onChange={(e) => set("id", e.target.value)}
+                placeholder="emotion-joy"
+                disabled={isEdit}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="task-name">Name</Label>
+              <Input id="task-name" value={form.name} onChange={(e) => set("name", e.target.value)} required />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="task-description">Description</Label>
+            <Input id="task-description" value={form.description} onChange={(e) => set("description", e.target.value)} required />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="task-instructions">Instructions (one per line)</Label>
+            <Textarea
+              id="task-instructions"
+              value={form.instructions}
+              onChange={(e) => set("instructions", e.target.value)}
+              rows={6}
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="task-rate">Rate ($)</Label>
+              <Input
+                id="task-rate"
+                type="number"
+                min={0}
+                value={form.hourlyRate}
+                onChange={(e) => set("hourlyRate", e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Pay Type</Label>
+              <Select value={form.payType} onValueChange={(v) => set("payType", v)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="hourly">Hourly</SelectItem>
+                  <SelectItem value="fixed">Fixed</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="task-minutes">Est. Minutes</Label>
+              <Input
+                id="task-minutes"
+                type="number"
+                min={1}
+                value={form.estimatedMinutes}
+                onChange={(e) => set("estimatedMinutes", e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="task-sample">Sample Audio URL</Label>
+              <Input
+                id="task-sample"
+                value={form.sampleAudio}
+                onChange={(e) => set("sampleAudio", e.target.value)}
+                placeholder="/samples/emotion-joy.wav"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="task-sample-desc">Sample Description</Label>
+              <Input
+                id="task-sample-desc"
+                value={form.sampleAudioDescription}
+                onChange={(e) => set("sampleAudioDescription", e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="task-from">Available From</Label>
+              <Input id="task-from" type="date" value={form.availableFrom} onChange={(e) => set("availableFrom", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="task-until">Available Until</Label>
+              <Input id="task-until" type="date" value={form.availableUntil} onChange={(e) => set("availableUntil", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="task-order">Sort Order</Label>
+              <Input id="task-order" type="number" value={form.sortOrder} onChange={(e) => set("sortOrder", e.target.value)} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="task-language">Spoken Language</Label>
+              <Input
+                id="task-language"
+                value={form.language}
+                onChange={(e) => set("language", e.target.value)}
+                placeholder="es"
+                maxLength={2}
+              />
+            </div>
+            <div className="flex items-center gap-2 pb-2">
+              <Switch
+                id="task-partner"
+                checked={form.requiresPartner}
+                onCheckedChange={(checked) => set("requiresPartner", checked)}
+              />
+              <Label htmlFor="task-partner">Requires partner</Label>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Output Formats</Label>
+            <p className="text-xs text-muted-foreground">Rendered for every track into the processed folder.</p>
+            <div className="grid grid-cols-2 gap-2">
+              {AUDIO_OUTPUT_PROFILE_IDS.map((id) => (
+                <div key={id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`task-profile-${id}`}
+                    checked={form.outputProfiles.includes(id)}
+                    onCheckedChange={(checked) =>
+                      set(
+                        "outputProfiles",
+                        checked
+                          ? AUDIO_OUTPUT_PROFILE_IDS.filter((p) => p === id || form.outputProfiles.includes(p))
+                          : form.outputProfiles.filter((p) => p !== id),
+                      )
+                    }
+                  />
+                  <Label htmlFor={`task-profile-${id}`} className="font-normal">
+                    {AUDIO_OUTPUT_PROFILES[id].label}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saveMutation.isPending}>
+              {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {isEdit ? "Save Changes" : "Create Task"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
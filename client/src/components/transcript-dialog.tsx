@@ -0,0 +1,114 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, RotateCcw } from "lucide-react";
+import type { Transcript } from "@shared/schema";
+
+interface TranscriptDialogProps {
+  recordingId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Language the task asked for — a different detected language is flagged */
+  expectedLanguage?: string | null;
+  title?: string;
+}
+
+function formatOffset(ms: number) {
+  const totalSec = ms / 1000;
+  const m = Math.floor(totalSec / 60);
+  const s = (totalSec % 60).toFixed(1).padStart(4, "0");
+  return `${m}:${s}`;
+}
+
+/** Mismatch badge shared by the transcript dialog and the admin search results */
+export function TranscriptLanguageBadge({ language, expectedLanguage }: { language: string | null; expectedLanguage?: string | null }) {
+  const mismatch = !!expectedLanguage && language !== expectedLanguage;
+  return (
+    <Badge
+      variant={mismatch ? "destructive" : "outline"}
+      className="text-[10px] px-1.5 py-0 uppercase"
+      title={mismatch ? `Expected ${expectedLanguage}, detected ${language ?? "unknown"}` : "Detected language"}
+    >
+      {language ?? "??"}
+      {mismatch && ` ≠ ${expectedLanguage}`}
+    </Badge>
+  );
+}
+
+export function TranscriptDialog({ recordingId, open, onOpenChange, expectedLanguage, title }: TranscriptDialogProps) {
+  const { toast } = useToast();
+  const queryKey = ["/api/recordings", recordingId, "transcript"];
+
+  const { data: transcript, isLoading, error } = useQuery<Transcript>({
+    queryKey,
+    enabled: open,
+  });
+  const notFound = !!error && String(error.message).startsWith("404");
+
+  const transcribeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/admin/recordings/${recordingId}/transcribe`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Transcription queued", description: "Reopen this transcript once the job has finished." });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/jobs"] });
+      queryClient.removeQueries({ queryKey });
+    },
+    onError: (err: any) => {
+      toast({ title: "Failed to queue transcription", description: err.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title ?? "Transcript"}</DialogTitle>
+          <DialogDescription className="flex items-center gap-2">
+            {transcript ? (
+              <>
+                <span>
+                  {transcript.words.length} words via {transcript.provider}, {new Date(transcript.updatedAt).toLocaleString()}
+                </span>
+                <TranscriptLanguageBadge language={transcript.language} expectedLanguage={expectedLanguage} />
+              </>
+            ) : (
+              "Automatic transcript of this speaker's track."
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : transcript ? (
+          <p className="text-sm leading-relaxed">
+            {transcript.words.length > 0
+              ? transcript.words.map((w, i) => (
+                  <span key={i} title={`${formatOffset(w.startMs)}–${formatOffset(w.endMs)}`} className="hover:bg-muted rounded">
+                    {w.word}{" "}
+                  </span>
+                ))
+              : transcript.text || <span className="text-muted-foreground">No speech recognised.</span>}
+          </p>
+        ) : (
+          <p className="text-sm text-muted-foreground py-4">
+            {notFound ? "This recording has not been transcribed yet." : (error as Error | null)?.message}
+          </p>
+        )}
+
+        <div className="flex justify-end">
+          <Button size="sm" variant="outline" onClick={() => transcribeMutation.mutate()} disabled={transcribeMutation.isPending}>
+            {transcribeMutation.isPending ? <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" /> : <RotateCcw className="mr-1 h-3.5 w-3.5" />}
+            {transcript ? "Re-transcribe" : "Transcribe"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
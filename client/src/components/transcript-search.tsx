@@ -0,0 +1,131 @@
+import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { TranscriptDialog, TranscriptLanguageBadge } from "@/components/transcript-dialog";
+import { Loader2, Search, FileText } from "lucide-react";
+import type { TaskType, TranscriptSearchResult } from "@shared/schema";
+
+const SNIPPET_CONTEXT = 60;
+
+/** The stretch of text around the first match, with the match highlighted */
+function Snippet({ text, query }: { text: string; query: string }) {
+  const index = query ? text.toLowerCase().indexOf(query.toLowerCase()) : -1;
+  if (index === -1) {
+    return <>{text.length > SNIPPET_CONTEXT * 2 ? `${text.slice(0, SNIPPET_CONTEXT * 2)}…` : text}</>;
+  }
+  const start = Math.max(0, index - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, index + query.length + SNIPPET_CONTEXT);
+  return (
+    <>
+      {start > 0 && "…"}
+      {text.slice(start, index)}
+      <mark className="bg-yellow-200 dark:bg-yellow-800 rounded px-0.5">{text.slice(index, index + query.length)}</mark>
+      {text.slice(index + query.length, end)}
+      {end < text.length && "…"}
+    </>
+  );
+}
+
+export function TranscriptSearch({ taskTypes }: { taskTypes: TaskType[] }) {
+  const [input, setInput] = useState("");
+  const [query, setQuery] = useState("");
+  const [mismatchOnly, setMismatchOnly] = useState(false);
+  const [openRecordingId, setOpenRecordingId] = useState<string | null>(null);
+
+  // Debounce so every keystroke doesn't hit the database
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(input.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [input]);
+
+  const { data: results = [], isLoading } = useQuery<TranscriptSearchResult[]>({
+    queryKey: ["/api/admin/transcripts", query, mismatchOnly],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (query) params.set("q", query);
+      if (mismatchOnly) params.set("mismatch", "true");
+      const res = await apiRequest("GET", `/api/admin/transcripts?${params}`);
+      return res.json();
+    },
+  });
+
+  const taskTypeName = (id: string | null) => (id ? taskTypes.find((t) => t.id === id)?.name ?? id : "-");
+  const openResult = results.find((r) => r.recordingId === openRecordingId);
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <div className="relative flex-1 min-w-[200px]">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search transcript text..."
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            className="pl-9 h-9"
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch id="transcript-mismatch" checked={mismatchOnly} onCheckedChange={setMismatchOnly} />
+          <Label htmlFor="transcript-mismatch" className="font-normal">Wrong language only</Label>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      ) : results.length === 0 ? (
+        <p className="text-center text-muted-foreground py-8">No matching transcripts.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Folder</TableHead>
+              <TableHead>Task</TableHead>
+              <TableHead>Language</TableHead>
+              <TableHead>Text</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {results.map((result) => (
+              <TableRow key={result.recordingId}>
+                <TableCell className="font-mono text-xs whitespace-nowrap">
+                  {result.processedFolder ?? "-"} {result.speakerId}
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground">{taskTypeName(result.taskType)}</TableCell>
+                <TableCell>
+                  <TranscriptLanguageBadge language={result.language} expectedLanguage={result.expectedLanguage} />
+                </TableCell>
+                <TableCell className="text-sm max-w-[480px]">
+                  <Snippet text={result.text} query={query} />
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button size="sm" variant="ghost" onClick={() => setOpenRecordingId(result.recordingId)}>
+                    <FileText className="h-4 w-4 mr-1" />
+                    View
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {openRecordingId && (
+        <TranscriptDialog
+          recordingId={openRecordingId}
+          open={!!openRecordingId}
+          onOpenChange={(open) => !open && setOpenRecordingId(null)}
+          expectedLanguage={openResult?.expectedLanguage}
+          title={openResult ? `Transcript — ${openResult.processedFolder ?? ""} ${openResult.speakerId ?? ""}` : undefined}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,181 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { uploadToS3WithRetry } from "@/lib/s3-upload";
+import {
+  getLocalRecordings,
+  loadLocalRecordingBlob,
+  deleteLocalRecording,
+  type LocalRecording,
+  type LocalRecordingKind,
+} from "@/lib/recording-store";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, UploadCloud, Trash2 } from "lucide-react";
+
+interface UnsentRecordingsProps {
+  userId: string;
+  kinds?: LocalRecordingKind[];
+  onRecovered?: (recording: LocalRecording) => void;
+}
+
+/**
+ * Close out the streaming upload the recording started with. Returns true when the
+ * server already has the full file (the tab died after finalizing but before cleanup).
+ */
+async function settleStreamingUpload(uploadRecordingId: string): Promise<boolean> {
+  try {
+    const res = await apiRequest("GET", `/api/recordings/${uploadRecordingId}/multipart`);
+    const { completed } = await res.json();
+    if (completed) {
+      await apiRequest("POST", `/api/recordings/${uploadRecordingId}/upload-complete`);
+      return true;
+    }
+    await apiRequest("DELETE", `/api/recordings/${uploadRecordingId}/multipart`);
+  } catch (err: any) {
+    // 404: the row is already gone, so there is nothing to close out
+    if (!String(err.message).startsWith("404")) throw err;
+  }
+  return false;
+}
+
+async function recoverRecording(recording: LocalRecording): Promise<void> {
+  if (recording.kind === "room" && recording.uploadRecordingId) {
+    if (await settleStreamingUpload(recording.uploadRecordingId)) {
+      await deleteLocalRecording(recording.id);
+      return;
+    }
+  }
+
+  const blob = await loadLocalRecordingBlob(recording);
+  if (blob.size === 0) {
+    await deleteLocalRecording(recording.id);
+    throw new Error("No audio was captured before the recording was interrupted");
+  }
+  const duration = recording.duration ?? (recording.stoppedAt ? recording.stoppedAt - recording.createdAt : null);
+
+  if (recording.kind === "sample") {
+    const urlRes = await apiRequest("POST", "/api/onboarding/sample-upload-url", {
+      promptIndex: recording.promptIndex ?? 0,
+      promptText: recording.promptText,
+      fileName: recording.fileName,
+      duration,
+      fileSize: blob.size,
+    });
+    const { uploadUrl, sampleId } = await urlRes.json();
+    await uploadToS3WithRetry(uploadUrl, blob, "audio/webm");
+    await apiRequest("POST", `/api/onboarding/samples/${sampleId}/upload-complete`);
+  } else {
+    const urlRes = await apiRequest("POST", "/api/recordings/upload-url", {
+      roomId: recording.roomId,
+      fileName: recording.fileName,
+      duration,
+      fileSize: blob.size,
+      format: "webm",
+      sampleRate: 48000,
+      channels: 1,
+      recordingType: recording.recordingType,
+      speakerId: recording.speakerId,
+      startedAt: recording.startedAt,
+    });
+    const { uploadUrl, recordingId } = await urlRes.json();
+    await uploadToS3WithRetry(uploadUrl, blob, "audio/webm");
+    await apiRequest("POST", `/api/recordings/${recordingId}/upload-complete`);
+  }
+
+  await deleteLocalRecording(recording.id);
+}
+
+/** Prompt to send recordings left in this browser by a crashed tab or failed upload */
+export function UnsentRecordings({ userId, kinds = ["room", "sample"], onRecovered }: UnsentRecordingsProps) {
+  const { toast } = useToast();
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const queryKey = ["local-recordings", userId];
+  const { data: recordings = [] } = useQuery<LocalRecording[]>({
+    queryKey,
+    queryFn: () => getLocalRecordings(userId).catch(() => []),
+  });
+  const unsent = recordings.filter((r) => kinds.includes(r.kind));
+
+  const recoverMutation = useMutation({
+    mutationFn: async (recording: LocalRecording) => {
+      setBusyId(recording.id);
+      await recoverRecording(recording);
+      return recording;
+    },
+    onSuccess: (recording) => {
+      toast({ title: "Recording recovered", description: "Your audio has been uploaded and is being processed." });
+      onRecovered?.(recording);
+    },
+    onError: (err: any) => {
+      toast({ title: "Recovery failed", description: err.message, variant: "destructive" });
+    },
+    onSettled: () => {
+      setBusyId(null);
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  const discardMutation = useMutation({
+    mutationFn: async (recording: LocalRecording) => {
+      setBusyId(recording.id);
+      if (recording.kind === "room" && recording.uploadRecordingId) {
+        await apiRequest("DELETE", `/api/recordings/${recording.uploadRecordingId}/multipart`).catch(() => {});
+      }
+      await deleteLocalRecording(recording.id);
+    },
+    onSettled: () => {
+      setBusyId(null);
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  if (unsent.length === 0) return null;
+
+  return (
+    <Card className="border-orange-500/40 shadow-md">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">Unsent Recordings</CardTitle>
+        <CardDescription>
+          These recordings were saved in this browser but never finished uploading.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {unsent.map((rec) => (
+          <div key={rec.id} className="flex items-center justify-between p-3 rounded-lg bg-muted/50">
+            <div>
+              <p className="text-sm font-medium">
+                {rec.kind === "sample" ? "Voice sample" : `Call recording (${rec.speakerId ?? "track"})`}
+              </p>
+              <p className="text-xs text-muted-foreground mt-0.5">
+                Recorded {new Date(rec.createdAt).toLocaleString()}
+                {!rec.stoppedAt && " — interrupted"}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" onClick={() => recoverMutation.mutate(rec)} disabled={busyId !== null}>
+                {busyId === rec.id && recoverMutation.isPending ? (
+                  <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                ) : (
+                  <UploadCloud className="mr-1 h-3 w-3" />
+                )}
+                Upload
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => discardMutation.mutate(rec)}
+                disabled={busyId !== null}
+                title="Discard recording"
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,35 @@
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Mail } from "lucide-react";
+
+/** Shown until the address is verified; partners can't invite an unverified account */
+export function VerifyEmailBanner({ email }: { email: string }) {
+  const { toast } = useToast();
+
+  const resend = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/resend-verification");
+    },
+    onSuccess: () => {
+      toast({ title: "Verification email sent", description: `Check ${email} for the link.` });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Could not send email", description: err.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="p-3 rounded-lg bg-primary/5 border border-primary/15 flex items-center gap-3">
+      <Mail className="h-4 w-4 text-primary shrink-0" />
+      <p className="text-sm flex-1">
+        Confirm <strong>{email}</strong> so partners can invite you to recording tasks.
+      </p>
+      <Button size="sm" variant="outline" onClick={() => resend.mutate()} disabled={resend.isPending || resend.isSuccess}>
+        {resend.isPending && <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />}
+        {resend.isSuccess ? "Sent" : "Resend Link"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { useState, useRef, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { ZoomIn, ZoomOut } from "lucide-react";
+import type { WaveformPeaks } from "@shared/schema";
+
+interface WaveformViewProps {
+  peaks: WaveformPeaks;
+  currentTime: number;
+  onSeek: (time: number) => void;
+  height?: number;
+}
+
+const MAX_ZOOM = 64;
+/** 8-bit peaks at full scale — anything touching these was clipped in the source */
+const CLIP_MIN = -128;
+const CLIP_MAX = 127;
+
+/** Length of the audio the peaks describe, in seconds */
+export function peaksDuration(peaks: WaveformPeaks) {
+  return (peaks.length * peaks.samples_per_pixel) / peaks.sample_rate;
+}
+
+function drawPeaks(canvas: HTMLCanvasElement, peaks: WaveformPeaks, cssWidth: number, cssHeight: number) {
+  const dpr = window.devicePixelRatio || 1;
+  canvas.width = Math.round(cssWidth * dpr);
+  canvas.height = Math.round(cssHeight * dpr);
+  canvas.style.width = `${cssWidth}px`;
+  canvas.style.height = `${cssHeight}px`;
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+  ctx.scale(dpr, dpr);
+  ctx.clearRect(0, 0, cssWidth, cssHeight);
+
+  const color = getComputedStyle(canvas).color;
+  const mid = cssHeight / 2;
+  const scale = mid / 128;
+  const peaksPerPixel = peaks.length / cssWidth;
+
+  for (let x = 0; x < cssWidth; x++) {
+    // Each canvas column covers one or more stored peak pairs
+    const start = Math.floor(x * peaksPerPixel);
+    const end = Math.max(start + 1, Math.floor((x + 1) * peaksPerPixel));
+    let min = 0;
+    let max = 0;
+    for (let i = start; i < end && i < peaks.length; i++) {
+      const lo = peaks.data[i * 2];
+      const hi = peaks.data[i * 2 + 1];
+      if (lo < min) min = lo;
+      if (hi > max) max = hi;
+    }
+    ctx.fillStyle = min <= CLIP_MIN || max >= CLIP_MAX ? "#ef4444" : color;
+    ctx.fillRect(x, mid - max * scale, 1, Math.max(1, (max - min) * scale));
+  }
+}
+
+/** Zoomable min/max waveform with a playhead; click anywhere to seek */
+export function WaveformView({ peaks, currentTime, onSeek, height = 32 }: WaveformViewProps) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [viewWidth, setViewWidth] = useState(0);
+  const [zoom, setZoom] = useState(1);
+
+  const duration = peaksDuration(peaks);
+  // Zooming past one stored peak per pixel adds nothing
+  const maxZoom = viewWidth > 0 ? Math.max(1, Math.min(MAX_ZOOM, Math.floor(peaks.length / viewWidth))) : 1;
+  const contentWidth = viewWidth * zoom;
+
+  useEffect(() => {
+    if (containerRef.current) setViewWidth(containerRef.current.clientWidth);
+  }, []);
+
+  useEffect(() => {
+    if (canvasRef.current && contentWidth > 0) {
+      drawPeaks(canvasRef.current, peaks, contentWidth, height);
+    }
+  }, [peaks, contentWidth, height]);
+
+  // Keep the playhead in view while playing at high zoom
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || zoom === 1 || duration === 0) return;
+    const x = (currentTime / duration) * contentWidth;
+    if (x < container.scrollLeft || x > container.scrollLeft + viewWidth) {
+      container.scrollLeft = Math.max(0, x - viewWidth / 4);
+    }
+  }, [currentTime, duration, contentWidth, viewWidth, zoom]);
+
+  const changeZoom = (next: number) => {
+    const container = containerRef.current;
+    const clamped = Math.max(1, Math.min(maxZoom, next));
+    if (!container || clamped === zoom) return;
+    // Zoom around the playhead so the current position stays on screen
+    const anchor = duration > 0 ? currentTime / duration : 0;
+    setZoom(clamped);
+    requestAnimationFrame(() => {
+      container.scrollLeft = Math.max(0, anchor * viewWidth * clamped - viewWidth / 2);
+    });
+  };
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = e.clientX - rect.left;
+    onSeek(Math.max(0, Math.min(duration, (x / contentWidth) * duration)));
+  };
+
+  return (
+    <div className="flex items-center gap-1 flex-1 min-w-[200px]">
+      <div ref={containerRef} className="flex-1 overflow-x-auto overflow-y-hidden rounded bg-muted/50">
+        <div className="relative cursor-pointer" style={{ width: contentWidth || "100%", height }} onClick={handleClick}>
+          <canvas ref={canvasRef} className="block text-primary/70" />
+          <div
+            className="absolute inset-y-0 w-px bg-foreground pointer-events-none"
+            style={{ left: duration > 0 ? (currentTime / duration) * contentWidth : 0 }}
+          />
+        </div>
+      </div>
+      <div className="flex flex-col shrink-0">
+        <Button size="sm" variant="ghost" className="h-4 w-4 p-0" onClick={() => changeZoom(zoom * 2)} disabled={zoom >= maxZoom} title="Zoom in">
+          <ZoomIn className="h-3 w-3" />
+        </Button>
+        <Button size="sm" variant="ghost" className="h-4 w-4 p-0" onClick={() => changeZoom(zoom / 2)} disabled={zoom <= 1} title="Zoom out">
+          <ZoomOut className="h-3 w-3" />
+        </Button>
+      </div>
+    </div>
+  );
+}
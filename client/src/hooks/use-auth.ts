@@ -9,6 +9,7 @@ interface AuthUser {
   onboardingData: Record<string, string> | null;
   onboardingCompletedAt: string | null;
   samplesCompletedAt: string | null;
+  emailVerifiedAt: string | null;
 }
 
 export function useAuth() {
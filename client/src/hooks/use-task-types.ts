@@ -0,0 +1,25 @@
+import { useQuery } from "@tanstack/react-query";
+import type { TaskType, TaskTypeDefinition } from "@shared/schema";
+
+export type VersionedTaskDefinition = TaskTypeDefinition & { id: string; version: number };
+
+export function useTaskTypes(enabled = true) {
+  const { data: taskTypes = [], isLoading } = useQuery<TaskType[]>({
+    queryKey: ["/api/task-types"],
+    enabled,
+  });
+
+  const getTaskType = (id: string | null | undefined) => taskTypes.find((t) => t.id === id);
+
+  return { taskTypes, getTaskType, isLoading };
+}
+
+/** The task definition a session was recorded under — may differ from the current catalog entry */
+export function useSessionTaskDefinition(session: { taskType: string; taskTypeVersion: number | null } | null | undefined) {
+  const version = session?.taskTypeVersion ?? 1;
+  const { data } = useQuery<VersionedTaskDefinition>({
+    queryKey: ["/api/task-types", session?.taskType, "versions", String(version)],
+    enabled: !!session,
+  });
+  return data ?? null;
+}
@@ -0,0 +1,150 @@
+import { apiRequest } from "@/lib/queryClient";
+import { uploadToS3WithRetry } from "@/lib/s3-upload";
+
+/** S3 rejects non-final parts smaller than 5 MiB */
+const MIN_PART_SIZE = 5 * 1024 * 1024;
+
+export interface MultipartUploadOptions {
+  roomId: string;
+  fileName: string;
+  recordingType: string;
+  speakerId: string;
+  contentType: string;
+  format?: string;
+  sampleRate?: number;
+  channels?: number;
+}
+
+/**
+ * Streams a MediaRecorder's output to S3 as a multipart upload while recording.
+ *
+ * Timeslice chunks are buffered until they fill a part, then uploaded in order.
+ * A part stays in memory only until S3 has it, so a long call never accumulates
+ * in the browser. If parts fail (e.g. network drop), `finish()` asks the server
+ * which parts S3 already holds and re-sends only the missing ones.
+ */
+export class MultipartRecordingUpload {
+  recordingId: string | null = null;
+
+  private started: Promise<string> | null = null;
+  private pending: Blob[] = [];
+  private pendingSize = 0;
+  private nextPartNumber = 1;
+  /** Parts sent (or being sent) but not yet confirmed by S3 */
+  private unacked = new Map<number, Blob>();
+  private queue: Promise<void> = Promise.resolve();
+  private finished = false;
+
+  constructor(private options: MultipartUploadOptions) {}
+
+  /** Create the recording row and S3 multipart upload. Safe to call again after a failure. */
+  begin(): Promise<string> {
+    if (!this.started) {
+      this.started = apiRequest("POST", "/api/recordings/multipart", {
+        roomId: this.options.roomId,
+        fileName: this.options.fileName,
+        format: this.options.format || "webm",
+        sampleRate: this.options.sampleRate || 48000,
+        channels: this.options.channels || 1,
+        recordingType: this.options.recordingType,
+        speakerId: this.options.speakerId,
+      })
+        .then((res) => res.json())
+        .then(({ recordingId }) => {
+          this.recordingId = recordingId;
+          return recordingId as string;
+        })
+        .catch((err) => {
+          this.started = null;
+          throw err;
+        });
+    }
+    return this.started;
+  }
+
+  addChunk(chunk: Blob) {
+    if (this.finished || chunk.size === 0) return;
+    this.pending.push(chunk);
+    this.pendingSize += chunk.size;
+    if (this.pendingSize >= MIN_PART_SIZE) {
+      this.flushPart();
+    }
+  }
+
+  /** Parts cut from the stream so far, uploaded or not */
+  get partCount() {
+    return this.nextPartNumber - 1;
+  }
+
+  private flushPart() {
+    if (this.pending.length === 0) return;
+    const part = new Blob(this.pending, { type: this.options.contentType });
+    const partNumber = this.nextPartNumber++;
+    this.pending = [];
+    this.pendingSize = 0;
+    this.unacked.set(partNumber, part);
+
+    // Parts go up one at a time; a failure leaves the part in `unacked` for finish() to retry
+    this.queue = this.queue.then(() =>
+      this.uploadPart(partNumber, part).catch((err) => {
+        console.warn(`Part ${partNumber} upload failed, will retry on finish:`, err.message);
+      }),
+    );
+  }
+
+  private async uploadPart(partNumber: number, body: Blob) {
+    const recordingId = await this.begin();
+    const res = await apiRequest("POST", `/api/recordings/${recordingId}/multipart/parts/${partNumber}`);
+    const { url } = await res.json();
+    await uploadToS3WithRetry(url, body);
+    this.unacked.delete(partNumber);
+  }
+
+  /**
+   * Upload the final part, fill in anything S3 is missing, and ask the server to
+   * assemble the object and queue processing. Can be called again if it throws.
+   */
+  async finish(meta: { duration: number; startedAt: number | null }): Promise<string> {
+    this.finished = true;
+    this.flushPart();
+    await this.queue;
+
+    if (this.partCount === 0) {
+      throw new Error("No audio was recorded");
+    }
+
+    const recordingId = await this.begin();
+
+    if (this.unacked.size > 0) {
+      const res = await apiRequest("GET", `/api/recordings/${recordingId}/multipart`);
+      const { parts } = (await res.json()) as { parts: { partNumber: number }[] };
+      const landed = new Set(parts.map((p) => p.partNumber));
+
+      const missing = Array.from(this.unacked.keys()).sort((a, b) => a - b);
+      for (const partNumber of missing) {
+        if (landed.has(partNumber)) {
+          this.unacked.delete(partNumber);
+        } else {
+          await this.uploadPart(partNumber, this.unacked.get(partNumber)!);
+        }
+      }
+    }
+
+    await apiRequest("POST", `/api/recordings/${recordingId}/multipart/complete`, {
+      duration: meta.duration,
+      startedAt: meta.startedAt,
+      partCount: this.partCount,
+    });
+    return recordingId;
+  }
+
+  /** Give up on the upload and discard whatever reached S3 */
+  async abort() {
+    this.finished = true;
+    this.pending = [];
+    this.unacked.clear();
+    if (this.recordingId) {
+      await apiRequest("DELETE", `/api/recordings/${this.recordingId}/multipart`).catch(() => {});
+    }
+  }
+}
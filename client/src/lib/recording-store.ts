@@ -0,0 +1,147 @@
+/**
+ * Crash-safe copy of in-progress recordings in IndexedDB.
+ *
+ * Every MediaRecorder chunk is written here as it arrives, and the entry is only
+ * deleted once the server has accepted the upload. If the tab crashes, reloads or
+ * the upload fails, the dashboard finds the leftover entry and offers to send it.
+ *
+ * Persistence is best-effort: when IndexedDB is unavailable (private mode, quota)
+ * recording carries on and only the recovery safety net is lost.
+ */
+
+const DB_NAME = "voice-atlas-recordings";
+const DB_VERSION = 1;
+const RECORDINGS = "recordings";
+const CHUNKS = "chunks";
+
+export type LocalRecordingKind = "room" | "sample";
+
+export interface LocalRecording {
+  id: string;
+  kind: LocalRecordingKind;
+  userId: string;
+  mimeType: string;
+  fileName: string;
+  createdAt: number;
+  /** Set once the recorder stops; null means the tab went away mid-recording */
+  stoppedAt: number | null;
+  duration: number | null;
+  /** Recorder start on the server's clock, for track alignment */
+  startedAt: number | null;
+  // Room tracks
+  roomId?: string;
+  recordingType?: string;
+  speakerId?: string;
+  /** Server recording row of the streaming upload, so recovery can close it out */
+  uploadRecordingId?: string | null;
+  // Onboarding samples
+  promptIndex?: number;
+  promptText?: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(RECORDINGS)) {
+          db.createObjectStore(RECORDINGS, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(CHUNKS)) {
+          const chunks = db.createObjectStore(CHUNKS, { autoIncrement: true });
+          chunks.createIndex("recordingId", "recordingId");
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((err) => {
+      dbPromise = null;
+      throw err;
+    });
+  }
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export async function createLocalRecording(
+  data: Omit<LocalRecording, "id" | "createdAt" | "stoppedAt" | "duration" | "startedAt">,
+): Promise<LocalRecording> {
+  const db = await openDb();
+  const recording: LocalRecording = {
+    ...data,
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+    stoppedAt: null,
+    duration: null,
+    startedAt: null,
+  };
+  const tx = db.transaction(RECORDINGS, "readwrite");
+  tx.objectStore(RECORDINGS).put(recording);
+  await transactionDone(tx);
+  return recording;
+}
+
+export async function updateLocalRecording(id: string, updates: Partial<LocalRecording>): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(RECORDINGS, "readwrite");
+  const store = tx.objectStore(RECORDINGS);
+  const existing = await requestToPromise<LocalRecording | undefined>(store.get(id));
+  if (existing) store.put({ ...existing, ...updates, id });
+  await transactionDone(tx);
+}
+
+/** Chunks are kept in insertion order, which is recording order */
+export async function appendLocalChunk(recordingId: string, chunk: Blob): Promise<void> {
+  if (chunk.size === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(CHUNKS, "readwrite");
+  tx.objectStore(CHUNKS).add({ recordingId, chunk });
+  await transactionDone(tx);
+}
+
+export async function getLocalRecordings(userId: string): Promise<LocalRecording[]> {
+  const db = await openDb();
+  const all = await requestToPromise<LocalRecording[]>(
+    db.transaction(RECORDINGS, "readonly").objectStore(RECORDINGS).getAll(),
+  );
+  return all.filter((r) => r.userId === userId).sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/** Reassemble everything captured for a recording into one file */
+export async function loadLocalRecordingBlob(recording: LocalRecording): Promise<Blob> {
+  const db = await openDb();
+  const index = db.transaction(CHUNKS, "readonly").objectStore(CHUNKS).index("recordingId");
+  const rows = await requestToPromise<{ recordingId: string; chunk: Blob }[]>(index.getAll(recording.id));
+  return new Blob(rows.map((r) => r.chunk), { type: recording.mimeType });
+}
+
+export async function deleteLocalRecording(id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([RECORDINGS, CHUNKS], "readwrite");
+  tx.objectStore(RECORDINGS).delete(id);
+  const index = tx.objectStore(CHUNKS).index("recordingId");
+  const keys = await requestToPromise(index.getAllKeys(id));
+  for (const key of keys) tx.objectStore(CHUNKS).delete(key);
+  await transactionDone(tx);
+}
@@ -0,0 +1,71 @@
+import DailyIframe, { type DailyParticipant } from "@daily-co/daily-js";
+import type { RtcCall, RtcParticipant } from "@/lib/rtc";
+import { createEmitter } from "@/lib/rtc-emitter";
+
+function toParticipant(p: DailyParticipant): RtcParticipant {
+  return {
+    id: p.session_id,
+    local: p.local,
+    userName: p.user_name || null,
+    audio: p.audio !== false,
+    audioPlayable: !p.local && p.tracks?.audio?.state === "playable",
+  };
+}
+
+/** Audio-only Daily call object, tuned for recording-quality mono speech */
+export function createDailyCall(): RtcCall {
+  const emitter = createEmitter();
+  const callObject = DailyIframe.createCallObject({
+    audioSource: true,
+    videoSource: false,
+    dailyConfig: {
+      micAudioMode: {
+        bitrate: 320000,
+        stereo: false,
+      },
+      userMediaAudioConstraints: {
+        sampleRate: 48000,
+        channelCount: 1,
+        echoCancellation: true,
+        noiseSuppression: false,
+        autoGainControl: false,
+      },
+    },
+  });
+
+  callObject.on("joined-meeting", () => emitter.emit("joined-meeting"));
+  callObject.on("left-meeting", () => emitter.emit("left-meeting"));
+  callObject.on("error", (e) => emitter.emit("error", { message: e?.errorMsg || "Call error occurred" }));
+  callObject.on("participant-joined", (e) => e && emitter.emit("participant-joined", { participant: toParticipant(e.participant) }));
+  callObject.on("participant-updated", (e) => e && emitter.emit("participant-updated", { participant: toParticipant(e.participant) }));
+  callObject.on("participant-left", (e) => e && emitter.emit("participant-left", { participant: toParticipant(e.participant) }));
+  callObject.on("track-started", (e) => {
+    if (!e?.participant || e.participant.local || e.track?.kind !== "audio") return;
+    emitter.emit("track-started", { participantId: e.participant.session_id, track: e.track });
+  });
+  callObject.on("track-stopped", (e) => {
+    if (!e?.participant || e.participant.local || e.track?.kind !== "audio") return;
+    emitter.emit("track-stopped", { participantId: e.participant.session_id });
+  });
+  callObject.on("recording-started", () => emitter.emit("recording-started"));
+  callObject.on("recording-stopped", () => emitter.emit("recording-stopped"));
+  callObject.on("recording-error", () => emitter.emit("recording-stopped"));
+  callObject.on("app-message", (e) => e && emitter.emit("app-message", { fromId: e.fromId, data: e.data }));
+
+  return {
+    async join({ url, token }) {
+      await callObject.join({ url, token });
+    },
+    async leave() {
+      await callObject.leave();
+    },
+    destroy() {
+      emitter.clear();
+      callObject.destroy();
+    },
+    participants: () => Object.values(callObject.participants()).map(toParticipant),
+    setLocalAudio: (enabled) => callObject.setLocalAudio(enabled),
+    sendAppMessage: (data) => callObject.sendAppMessage(data),
+    on: emitter.on,
+  };
+}
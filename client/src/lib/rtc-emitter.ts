@@ -0,0 +1,17 @@
+import type { RtcCallEvents } from "@/lib/rtc";
+
+/** Minimal typed event emitter shared by the call adapters */
+export function createEmitter() {
+  const handlers = new Map<string, ((payload: any) => void)[]>();
+  return {
+    on<E extends keyof RtcCallEvents>(event: E, handler: (payload: RtcCallEvents[E]) => void) {
+      handlers.set(event, [...(handlers.get(event) ?? []), handler]);
+    },
+    emit<E extends keyof RtcCallEvents>(event: E, ...payload: RtcCallEvents[E] extends void ? [] : [RtcCallEvents[E]]) {
+      for (const handler of handlers.get(event) ?? []) handler(payload[0]);
+    },
+    clear() {
+      handlers.clear();
+    },
+  };
+}
@@ -0,0 +1,130 @@
+import type { RtcCall, RtcParticipant } from "@/lib/rtc";
+import { createEmitter } from "@/lib/rtc-emitter";
+
+/** A participant as the server's mock provider sends it */
+interface MockParticipant {
+  id: string;
+  userId: string | null;
+  audio: boolean;
+}
+
+/**
+ * Client for the server's mock provider (`RTC_PROVIDER=mock`): presence, mute and app
+ * messages over an event stream, no media. Remote participants count as playable while
+ * unmuted so the room page's "partner is here" checks behave as they do on Daily.
+ */
+export function createMockCall(): RtcCall {
+  const emitter = createEmitter();
+  const remote = new Map<string, RtcParticipant>();
+  let self: RtcParticipant | null = null;
+  let source: EventSource | null = null;
+  let roomUrl = "";
+  let roomToken = "";
+
+  const toRemote = (p: MockParticipant): RtcParticipant => ({
+    id: p.id,
+    local: false,
+    userName: null,
+    audio: p.audio,
+    audioPlayable: p.audio,
+  });
+
+  function post(method: string, path: string, body: Record<string, unknown>) {
+    if (!self) return;
+    fetch(`${roomUrl}/participants/${self.id}${path}`, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify({ ...body, token: roomToken }),
+    }).catch((err) => console.warn("Mock call request failed:", err));
+  }
+
+  function disconnect() {
+    source?.close();
+    source = null;
+    self = null;
+    remote.clear();
+  }
+
+  return {
+    join({ url, token }) {
+      roomUrl = url;
+      roomToken = token;
+      return new Promise<void>((resolve, reject) => {
+        source = new EventSource(`${url}/events?token=${encodeURIComponent(token)}`, { withCredentials: true });
+
+        source.addEventListener("joined", (e) => {
+          // Also sent again when EventSource reconnects (e.g. after a server restart)
+          const rejoined = self !== null;
+          const { self: me, participants } = JSON.parse((e as MessageEvent).data);
+          self = { id: me.id, local: true, userName: null, audio: me.audio, audioPlayable: false };
+          remote.clear();
+          for (const p of participants as MockParticipant[]) remote.set(p.id, toRemote(p));
+          if (!rejoined) {
+            emitter.emit("joined-meeting");
+            resolve();
+          }
+        });
+        source.addEventListener("participant-joined", (e) => {
+          const participant = toRemote(JSON.parse((e as MessageEvent).data).participant);
+          remote.set(participant.id, participant);
+          emitter.emit("participant-joined", { participant });
+        });
+        source.addEventListener("participant-updated", (e) => {
+          const updated: MockParticipant = JSON.parse((e as MessageEvent).data).participant;
+          if (self && updated.id === self.id) {
+            self = { ...self, audio: updated.audio };
+            emitter.emit("participant-updated", { participant: self });
+          } else {
+            const participant = toRemote(updated);
+            remote.set(participant.id, participant);
+            emitter.emit("participant-updated", { participant });
+          }
+        });
+        source.addEventListener("participant-left", (e) => {
+          const participant = toRemote(JSON.parse((e as MessageEvent).data).participant);
+          remote.delete(participant.id);
+          emitter.emit("participant-left", { participant });
+        });
+        source.addEventListener("app-message", (e) => {
+          emitter.emit("app-message", JSON.parse((e as MessageEvent).data));
+        });
+        source.addEventListener("ended", () => {
+          disconnect();
+          emitter.emit("left-meeting");
+        });
+        source.onerror = () => {
+          // Before joining this is a refused token; after, EventSource reconnects on its own
+          if (!self) {
+            disconnect();
+            reject(new Error("Could not join the room"));
+          }
+        };
+      });
+    },
+
+    async leave() {
+      if (!source) return;
+      disconnect();
+      emitter.emit("left-meeting");
+    },
+
+    destroy() {
+      disconnect();
+      emitter.clear();
+    },
+
+    participants: () => (self ? [self, ...Array.from(remote.values())] : []),
+
+    setLocalAudio(enabled) {
+      if (self) self = { ...self, audio: enabled };
+      post("PATCH", "", { audio: enabled });
+    },
+
+    sendAppMessage(data) {
+      post("POST", "/messages", { data });
+    },
+
+    on: emitter.on,
+  };
+}
@@ -0,0 +1,55 @@
+import { createDailyCall } from "@/lib/rtc-daily";
+import { createMockCall } from "@/lib/rtc-mock";
+
+export interface RtcParticipant {
+  /** Stable for the length of the participant's connection */
+  id: string;
+  local: boolean;
+  userName: string | null;
+  audio: boolean;
+  /** Whether we are receiving audio from them (always false for ourselves) */
+  audioPlayable: boolean;
+}
+
+export interface RtcCallEvents {
+  "joined-meeting": void;
+  "left-meeting": void;
+  error: { message: string };
+  "participant-joined": { participant: RtcParticipant };
+  "participant-updated": { participant: RtcParticipant };
+  "participant-left": { participant: RtcParticipant };
+  /** A remote participant's audio track became playable */
+  "track-started": { participantId: string; track: MediaStreamTrack };
+  "track-stopped": { participantId: string };
+  "recording-started": void;
+  "recording-stopped": void;
+  "app-message": { fromId: string; data: any };
+}
+
+/**
+ * One browser's side of a call, whichever provider the server created the room with.
+ * Mirrors the subset of Daily's call object the room page uses.
+ */
+export interface RtcCall {
+  join(opts: { url: string; token: string }): Promise<void>;
+  leave(): Promise<void>;
+  destroy(): void;
+  participants(): RtcParticipant[];
+  setLocalAudio(enabled: boolean): void;
+  /** Deliver `data` to every other participant */
+  sendAppMessage(data: unknown): void;
+  on<E extends keyof RtcCallEvents>(event: E, handler: (payload: RtcCallEvents[E]) => void): void;
+}
+
+/** A call object for the provider named by the server's token response */
+export function createRtcCall(provider: string): RtcCall {
+  switch (provider) {
+    case "mock":
+      return createMockCall();
+    case "daily":
+      return createDailyCall();
+    default:
+      throw new Error(`Unsupported video provider: ${provider}`);
+  }
+}
+
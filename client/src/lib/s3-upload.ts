@@ -0,0 +1,25 @@
+/** PUT a blob to a presigned S3 URL, retrying transient failures with backoff */
+export async function uploadToS3WithRetry(
+  url: string,
+  body: Blob,
+  contentType?: string,
+  maxRetries = 3,
+): Promise<void> {
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    try {
+      const res = await fetch(url, {
+        method: "PUT",
+        body,
+        headers: contentType ? { "Content-Type": contentType } : undefined,
+      });
+      if (res.ok) return;
+      throw new Error(`S3 upload returned ${res.status}: ${res.statusText}`);
+    } catch (err: any) {
+      if (attempt === maxRetries) {
+        throw new Error(`Upload failed after ${maxRetries} attempts: ${err.message}`);
+      }
+      // Wait before retry: 1s, 2s, 4s
+      await new Promise((r) => setTimeout(r, 1000 * Math.pow(2, attempt - 1)));
+    }
+  }
+}
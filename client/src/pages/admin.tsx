@@ -11,6 +11,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import {
   AlertDialog,
   AlertDialogContent,
@@ -22,16 +23,158 @@ import {
   AlertDialogCancel,
 } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, ArrowLeft, Check, X, Download, Shield, ShieldOff, Play, Square, Search, ArrowUpDown, ChevronDown, ChevronUp, Copy } from "lucide-react";
-import { TASK_TYPES } from "@shared/schema";
-import type { User, Room, Recording, TaskSession } from "@shared/schema";
+import { Loader2, ArrowLeft, Check, X, Download, Shield, Play, Square, Search, ArrowUpDown, ChevronDown, ChevronUp, Copy, Plus, Pencil, Pause, Archive, ArchiveRestore, RotateCcw, FileDown, FileText } from "lucide-react";
+import { TaskTypeDialog } from "@/components/task-type-dialog";
+import { ExportDialog } from "@/components/export-dialog";
+import { WaveformView } from "@/components/waveform";
+import { TranscriptDialog } from "@/components/transcript-dialog";
+import { TranscriptSearch } from "@/components/transcript-search";
+import { RetentionPanel } from "@/components/retention-panel";
+import { EmailPanel } from "@/components/email-panel";
+import { RateLimitPanel } from "@/components/rate-limit-panel";
+import { getTaskTypeAvailability, getAudioQualityIssues, getSpeechTimeBySpeaker, AUDIO_OUTPUT_PROFILES, ROLES, ROLE_DESCRIPTIONS, hasPermission, isStaffRole, type AudioQualityIssue, type Permission } from "@shared/schema";
+import type { User, Room, Recording, TaskSession, TaskType, Job, FolderArtifact, RecordingArtifact, WaveformPeaks, DuplicateMatchSummary } from "@shared/schema";
 
-type EnrichedSession = TaskSession & { userEmail: string; recordings: Recording[] };
+type EnrichedSession = TaskSession & {
+  userEmail: string;
+  recordings: Recording[];
+  recordingArtifacts: RecordingArtifact[];
+  artifacts: FolderArtifact[];
+  duplicateMatches: DuplicateMatchSummary[];
+};
+
+const QUALITY_ISSUE_LABELS: Record<AudioQualityIssue, string> = {
+  too_quiet: "Quiet",
+  too_loud: "Hot",
+  clipping: "Clipping",
+  noisy: "Noisy",
+  mostly_silent: "Silent",
+};
+
+function formatMetric(value: number | null, unit: string, digits = 1) {
+  return value == null ? "-" : `${value.toFixed(digits)} ${unit}`;
+}
+
+function formatClock(ms: number) {
+  const totalSec = Math.round(ms / 1000);
+  const m = Math.floor(totalSec / 60);
+  const s = totalSec % 60;
+  return `${m}:${s.toString().padStart(2, "0")}`;
+}
+
+/** Per-speaker voiced time from VAD, shown under the wall-clock duration */
+function TalkTime({ recordings }: { recordings: Recording[] }) {
+  const totals = getSpeechTimeBySpeaker(recordings);
+  const speakers = Object.keys(totals);
+  if (speakers.length === 0) return null;
+
+  return (
+    <div className="text-[10px] tabular-nums" title="Speech time detected per speaker">
+      {speakers.map((speakerId) => `${speakerId} ${formatClock(totals[speakerId])}`).join(" · ")}
+    </div>
+  );
+}
+
+function QualityBadges({ rec }: { rec: Recording }) {
+  if (!rec.qualityMeasuredAt) return null;
+
+  const issues = getAudioQualityIssues(rec);
+  const summary = [
+    `Loudness: ${formatMetric(rec.loudnessLufs, "LUFS")}`,
+    `True peak: ${formatMetric(rec.truePeakDb, "dBTP")}`,
+    `Clipping: ${rec.clippingRatio == null ? "-" : `${(rec.clippingRatio * 100).toFixed(2)}%`}`,
+    `SNR: ${formatMetric(rec.snrDb, "dB")}`,
+    `Noise floor: ${formatMetric(rec.noiseFloorDb, "dBFS")}`,
+    `Silence: ${rec.silenceRatio == null ? "-" : `${Math.round(rec.silenceRatio * 100)}%`}`,
+    `Duration: ${rec.probedDurationMs == null ? "-" : `${(rec.probedDurationMs / 1000).toFixed(1)}s`}`,
+  ].join("\n");
+
+  if (issues.length === 0) {
+    return (
+      <Badge variant="outline" className="text-[10px] px-1.5 py-0" title={summary}>
+        {formatMetric(rec.loudnessLufs, "LUFS", 0)}
+      </Badge>
+    );
+  }
+
+  return (
+    <>
+      {issues.map((issue) => (
+        <Badge key={issue} variant="destructive" className="text-[10px] px-1.5 py-0" title={summary}>
+          {QUALITY_ISSUE_LABELS[issue]}
+        </Badge>
+      ))}
+    </>
+  );
+}
+
+function artifactDownloadPath(artifact: FolderArtifact) {
+  return `/api/admin/folders/${encodeURIComponent(artifact.folder)}/artifacts/${artifact.kind}/download`;
+}
+
+function MixRow({ artifacts, onDownload }: { artifacts: FolderArtifact[]; onDownload: (path: string) => void }) {
+  const stereo = artifacts.find((a) => a.kind === "stereo_mix");
+  const mono = artifacts.find((a) => a.kind === "mono_mix");
+  if (!stereo && !mono) return null;
+
+  return (
+    <div className="flex items-center gap-1">
+      <AudioPlayer src={artifactDownloadPath((stereo || mono)!)} />
+      {stereo && (
+        <Button size="sm" variant="ghost" className="h-7 px-1.5 text-[10px]" onClick={() => onDownload(artifactDownloadPath(stereo))}>
+          <Download className="h-3.5 w-3.5 mr-0.5" />
+          L/R
+        </Button>
+      )}
+      {mono && (
+        <Button size="sm" variant="ghost" className="h-7 px-1.5 text-[10px]" onClick={() => onDownload(artifactDownloadPath(mono))}>
+          <Download className="h-3.5 w-3.5 mr-0.5" />
+          Mix
+        </Button>
+      )}
+      <span className="text-xs text-muted-foreground">conversation</span>
+    </div>
+  );
+}
+
+/** Lowest SNR across a session's measured tracks — the weakest track decides how usable the session is */
+function worstSnr(session: EnrichedSession) {
+  let worst = Infinity;
+  for (const rec of session.recordings) {
+    if (rec.snrDb != null && rec.snrDb < worst) worst = rec.snrDb;
+  }
+  return worst;
+}
+
+function quietestLoudness(session: EnrichedSession) {
+  let quietest = Infinity;
+  for (const rec of session.recordings) {
+    if (rec.loudnessLufs != null && rec.loudnessLufs < quietest) quietest = rec.loudnessLufs;
+  }
+  return quietest;
+}
+
+function RecordingRow({
+  rec,
+  artifacts,
+  expectedLanguage,
+  onDownload,
+  onDownloadPath,
+}: {
+  rec: Recording;
+  artifacts: RecordingArtifact[];
+  expectedLanguage?: string | null;
+  onDownload: (id: string) => void;
+  onDownloadPath: (path: string) => void;
+}) {
+  const [transcriptOpen, setTranscriptOpen] = useState(false);
 
-function RecordingRow({ rec, onDownload }: { rec: Recording; onDownload: (id: string) => void }) {
   return (
     <div className="flex items-center gap-1">
-      <AudioPlayer recordingId={rec.id} />
+      <AudioPlayer
+        src={`/api/recordings/${rec.id}/download`}
+        peaksSrc={rec.peaksS3Key ? `/api/recordings/${rec.id}/waveform` : undefined}
+      />
       <Button
         size="sm"
         variant="ghost"
@@ -40,19 +183,94 @@ function RecordingRow({ rec, onDownload }: { rec: Recording; onDownload: (id: st
       >
         <Download className="h-3.5 w-3.5" />
       </Button>
+      {artifacts.map((artifact) => (
+        <Button
+          key={artifact.profile}
+          size="sm"
+          variant="ghost"
+          className="h-7 px-1.5 text-[10px]"
+          title={AUDIO_OUTPUT_PROFILES[artifact.profile]?.label ?? artifact.profile}
+          onClick={() => onDownloadPath(`/api/recordings/${rec.id}/artifacts/${artifact.profile}/download`)}
+        >
+          {AUDIO_OUTPUT_PROFILES[artifact.profile]?.shortLabel ?? artifact.profile}
+        </Button>
+      ))}
+      {rec.wavS3Key && (
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-7 w-7 p-0"
+          title="Transcript"
+          onClick={() => setTranscriptOpen(true)}
+        >
+          <FileText className="h-3.5 w-3.5" />
+        </Button>
+      )}
+      {transcriptOpen && (
+        <TranscriptDialog
+          recordingId={rec.id}
+          open={transcriptOpen}
+          onOpenChange={setTranscriptOpen}
+          expectedLanguage={expectedLanguage}
+          title={`Transcript — ${rec.processedFolder ?? rec.fileName} ${rec.speakerId ?? ""}`}
+        />
+      )}
       <span className="text-xs text-muted-foreground">
         {rec.recordingType}
         {rec.duration ? ` ${Math.round(rec.duration / 1000)}s` : ""}
       </span>
+      <QualityBadges rec={rec} />
+      {rec.alignmentMethod && (
+        <Badge
+          variant={rec.alignmentMethod === "none" ? "secondary" : "outline"}
+          className="text-[10px] px-1.5 py-0"
+          title={`Alignment via ${rec.alignmentMethod}${rec.alignmentConfidence != null ? `, confidence ${rec.alignmentConfidence}` : ""}`}
+        >
+          {rec.alignmentMethod === "none" ? "Unaligned" : `Trim ${Math.round(rec.alignmentOffsetMs ?? 0)}ms`}
+        </Badge>
+      )}
+      {rec.speakerSimilarity != null && (
+        <Badge
+          variant={rec.speakerMismatch ? "destructive" : "outline"}
+          className="text-[10px] px-1.5 py-0"
+          title={`Voice similarity to the uploader's onboarding sample: ${rec.speakerSimilarity}`}
+        >
+          {rec.speakerMismatch ? "Voice mismatch" : "Voice"} {Math.round(rec.speakerSimilarity * 100)}%
+        </Badge>
+      )}
+      {rec.verificationStatus === "failed" && (
+        <Badge variant="destructive" className="text-[10px] px-1.5 py-0" title={rec.verificationError ?? undefined}>
+          Upload failed
+        </Badge>
+      )}
+      {rec.verificationStatus === "pending" && (
+        <Badge variant="secondary" className="text-[10px] px-1.5 py-0" title="Upload not verified yet">
+          Unverified
+        </Badge>
+      )}
     </div>
   );
 }
 
-function AudioCell({ recordings, onDownload }: { recordings: Recording[]; onDownload: (id: string) => void }) {
+function AudioCell({
+  recordings,
+  recordingArtifacts = [],
+  artifacts = [],
+  expectedLanguage,
+  onDownload,
+  onDownloadPath,
+}: {
+  recordings: Recording[];
+  recordingArtifacts?: RecordingArtifact[];
+  artifacts?: FolderArtifact[];
+  expectedLanguage?: string | null;
+  onDownload: (id: string) => void;
+  onDownloadPath: (path: string) => void;
+}) {
   const [expanded, setExpanded] = useState(false);
   const MAX_VISIBLE = 2;
 
-  if (recordings.length === 0) {
+  if (recordings.length === 0 && artifacts.length === 0) {
     return <span className="text-xs text-muted-foreground">-</span>;
   }
 
@@ -61,8 +279,16 @@ function AudioCell({ recordings, onDownload }: { recordings: Recording[]; onDown
 
   return (
     <div className="flex flex-col gap-1">
+      <MixRow artifacts={artifacts} onDownload={onDownloadPath} />
       {visible.map((rec) => (
-        <RecordingRow key={rec.id} rec={rec} onDownload={onDownload} />
+        <RecordingRow
+          key={rec.id}
+          rec={rec}
+          artifacts={recordingArtifacts.filter((a) => a.recordingId === rec.id)}
+          expectedLanguage={expectedLanguage}
+          onDownload={onDownload}
+          onDownloadPath={onDownloadPath}
+        />
       ))}
       {hiddenCount > 0 && (
         <button
@@ -86,8 +312,11 @@ function formatTime(seconds: number) {
   return `${m}:${s.toString().padStart(2, "0")}`;
 }
 
-function AudioPlayer({ recordingId }: { recordingId: string }) {
+/** Lazy player: `src` is an API route that returns a presigned `{ downloadUrl }` */
+/** `peaksSrc` switches the progress bar to a waveform once playback starts */
+function AudioPlayer({ src, peaksSrc }: { src: string; peaksSrc?: string }) {
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [peaks, setPeaks] = useState<WaveformPeaks | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
@@ -117,10 +346,19 @@ function AudioPlayer({ recordingId }: { recordingId: string }) {
 
     setIsLoading(true);
     try {
-      const res = await apiRequest("GET", `/api/recordings/${recordingId}/download`);
+      const res = await apiRequest("GET", src);
       const { downloadUrl } = await res.json();
       setAudioUrl(downloadUrl);
 
+      if (peaksSrc) {
+        apiRequest("GET", peaksSrc)
+          .then((r) => r.json())
+          .then(setPeaks)
+          .catch(() => {
+            // Fall back to the plain progress bar
+          });
+      }
+
       const audio = new Audio(downloadUrl);
       audioRef.current = audio;
       setupListeners(audio);
@@ -133,14 +371,15 @@ function AudioPlayer({ recordingId }: { recordingId: string }) {
     }
   };
 
-  const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const time = parseFloat(e.target.value);
+  const seekTo = (time: number) => {
     if (audioRef.current) {
       audioRef.current.currentTime = time;
       setCurrentTime(time);
     }
   };
 
+  const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => seekTo(parseFloat(e.target.value));
+
   useEffect(() => {
     return () => {
       if (audioRef.current) {
@@ -163,20 +402,24 @@ function AudioPlayer({ recordingId }: { recordingId: string }) {
           <Play className="h-3 w-3" />
         )}
       </Button>
-      <div className="relative flex-1 h-1 bg-muted rounded-full overflow-hidden cursor-pointer" style={{ minWidth: 80 }}>
-        <div className="absolute inset-y-0 left-0 bg-primary rounded-full transition-all" style={{ width: `${progress}%` }} />
-        <input
-          ref={sliderRef}
-          type="range"
-          min={0}
-          max={duration || 0}
-          step={0.1}
-          value={currentTime}
-          onChange={handleSeek}
-          className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-          disabled={!audioUrl}
-        />
-      </div>
+      {peaks ? (
+        <WaveformView peaks={peaks} currentTime={currentTime} onSeek={seekTo} />
+      ) : (
+        <div className="relative flex-1 h-1 bg-muted rounded-full overflow-hidden cursor-pointer" style={{ minWidth: 80 }}>
+          <div className="absolute inset-y-0 left-0 bg-primary rounded-full transition-all" style={{ width: `${progress}%` }} />
+          <input
+            ref={sliderRef}
+            type="range"
+            min={0}
+            max={duration || 0}
+            step={0.1}
+            value={currentTime}
+            onChange={handleSeek}
+            className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+            disabled={!audioUrl}
+          />
+        </div>
+      )}
       {duration > 0 && (
         <span className="text-[10px] text-muted-foreground tabular-nums shrink-0">
           {formatTime(currentTime)}/{formatTime(duration)}
@@ -236,6 +479,56 @@ function OnboardingSamplePlayer({ userId }: { userId: string }) {
   );
 }
 
+function formatSignedOffset(ms: number) {
+  return `${ms < 0 ? "-" : "+"}${formatClock(Math.abs(ms))}`;
+}
+
+/** Flags a session whose audio overlaps an earlier upload from another contributor */
+function DuplicateBadge({ session }: { session: EnrichedSession }) {
+  if (session.duplicateMatches.length === 0) return null;
+
+  const speakerFor = (recordingId: string) =>
+    session.recordings.find((r) => r.id === recordingId)?.speakerId ?? "track";
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button type="button" className="ml-2 align-middle">
+          <Badge variant="destructive" className="text-[10px] px-1.5 py-0">
+            Possible duplicate
+          </Badge>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96 space-y-3" align="start">
+        <p className="text-sm font-medium">Audio overlaps earlier uploads</p>
+        {session.duplicateMatches.map((match) => (
+          <div
+            key={`${match.recordingId}:${match.matchedRecordingId ?? match.matchedSampleId}`}
+            className="flex items-center justify-between gap-3 text-xs"
+          >
+            <div className="min-w-0">
+              <div className="truncate">
+                <span className="font-mono">{speakerFor(match.recordingId)}</span> matches{" "}
+                {match.matchedUserEmail ?? match.matchedUserId}
+              </div>
+              <div className="text-muted-foreground">
+                {match.matchedSampleId ? "onboarding sample" : match.matchedFolder ?? "unprocessed"}
+                {" · "}
+                {Math.round(match.score * 100)}% of hashes at {formatSignedOffset(match.offsetMs)}
+              </div>
+            </div>
+            {match.matchedRecordingId ? (
+              <AudioPlayer src={`/api/recordings/${match.matchedRecordingId}/download`} />
+            ) : (
+              <OnboardingSamplePlayer userId={match.matchedUserId} />
+            )}
+          </div>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
 function ReviewerStatusSelect({ session }: { session: EnrichedSession }) {
   const { toast } = useToast();
 
@@ -275,7 +568,7 @@ function ReviewerStatusSelect({ session }: { session: EnrichedSession }) {
   );
 }
 
-function PaidCheckbox({ session }: { session: EnrichedSession }) {
+function PaidCheckbox({ session, disabled }: { session: EnrichedSession; disabled?: boolean }) {
   const { toast } = useToast();
 
   const mutation = useMutation({
@@ -295,11 +588,27 @@ function PaidCheckbox({ session }: { session: EnrichedSession }) {
     <Checkbox
       checked={session.paid}
       onCheckedChange={(checked) => mutation.mutate(checked === true)}
-      disabled={mutation.isPending}
+      disabled={disabled || mutation.isPending}
     />
   );
 }
 
+/** The permission each tab needs, in the order the tabs appear */
+const TAB_PERMISSIONS = {
+  tasks: "sessions.view",
+  "task-types": "task_types.manage",
+  users: "users.view",
+  rooms: "sessions.view",
+  recordings: "sessions.view",
+  transcripts: "sessions.view",
+  retention: "retention.manage",
+  emails: "emails.manage",
+  lockouts: "rate_limits.manage",
+  jobs: "jobs.manage",
+} satisfies Record<string, Permission>;
+
+type AdminTab = keyof typeof TAB_PERMISSIONS;
+
 export default function Admin() {
   const { user } = useAuthContext();
   const [, setLocation] = useLocation();
@@ -310,28 +619,54 @@ export default function Admin() {
   const [statusFilter, setStatusFilter] = useState("all");
   const [reviewerFilter, setReviewerFilter] = useState("all");
   const [paidFilter, setPaidFilter] = useState("all");
+  const [qualityFilter, setQualityFilter] = useState("all");
   const [sortBy, setSortBy] = useState("newest");
 
-  if (user?.role !== "admin") {
+  if (!isStaffRole(user?.role)) {
     setLocation("/");
     return null;
   }
 
+  const can = (permission: Permission) => hasPermission(user?.role, permission);
+  const canSeeTab = (tab: AdminTab) => can(TAB_PERMISSIONS[tab]);
+  // Resetting or blocking a staff account needs the same permission as changing its role
+  const canActOn = (role: string) => !isStaffRole(role) || can("users.manage_roles");
+  const firstTab = (Object.keys(TAB_PERMISSIONS) as AdminTab[]).find(canSeeTab);
+
   const { data: users = [], isLoading: usersLoading } = useQuery<(Omit<User, "password">)[]>({
     queryKey: ["/api/admin/users"],
+    enabled: can("users.view"),
   });
 
   const { data: allRooms = [], isLoading: roomsLoading } = useQuery<Room[]>({
     queryKey: ["/api/admin/rooms"],
+    enabled: can("sessions.view"),
   });
 
   const { data: allRecordings = [], isLoading: recordingsLoading } = useQuery<Recording[]>({
     queryKey: ["/api/admin/recordings"],
+    enabled: can("sessions.view"),
   });
 
   const { data: allTaskSessions = [], isLoading: sessionsLoading } = useQuery<EnrichedSession[]>({
     queryKey: ["/api/admin/task-sessions"],
+    enabled: can("sessions.view"),
+  });
+
+  // Reviewers still need task names, which every signed-in user can read
+  const { data: allTaskTypes = [], isLoading: taskTypesLoading } = useQuery<TaskType[]>({
+    queryKey: [can("task_types.manage") ? "/api/admin/task-types" : "/api/task-types"],
+  });
+
+  const { data: jobData, isLoading: jobsLoading } = useQuery<{ jobs: Job[]; counts: Record<string, number> }>({
+    queryKey: ["/api/admin/jobs"],
+    refetchInterval: 10000,
+    enabled: can("jobs.manage"),
   });
+  const allJobs = jobData?.jobs ?? [];
+  const jobCounts = jobData?.counts ?? {};
+
+  const taskTypeName = (id: string) => allTaskTypes.find((t) => t.id === id)?.name;
 
   const filteredSessions = useMemo(() => {
     let list = [...allTaskSessions];
@@ -343,7 +678,7 @@ export default function Admin() {
         (s) =>
           s.userEmail?.toLowerCase().includes(q) ||
           s.partnerEmail?.toLowerCase().includes(q) ||
-          TASK_TYPES.find((t) => t.id === s.taskType)?.name.toLowerCase().includes(q)
+          taskTypeName(s.taskType)?.toLowerCase().includes(q)
       );
     }
 
@@ -366,17 +701,29 @@ export default function Admin() {
       list = list.filter((s) => (paidFilter === "paid" ? s.paid : !s.paid));
     }
 
+    // Audio quality filter
+    if (qualityFilter !== "all") {
+      list = list.filter((s) => {
+        const measured = s.recordings.filter((r) => r.qualityMeasuredAt);
+        if (qualityFilter === "unmeasured") return measured.length === 0;
+        const hasIssues = measured.some((r) => getAudioQualityIssues(r).length > 0);
+        return qualityFilter === "issues" ? hasIssues : measured.length > 0 && !hasIssues;
+      });
+    }
+
     // Sort
     list.sort((a, b) => {
       switch (sortBy) {
         case "oldest":
           return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
         case "task":
-          return (TASK_TYPES.find((t) => t.id === a.taskType)?.name || "").localeCompare(
-            TASK_TYPES.find((t) => t.id === b.taskType)?.name || ""
-          );
+          return (taskTypeName(a.taskType) || "").localeCompare(taskTypeName(b.taskType) || "");
         case "status":
           return a.status.localeCompare(b.status);
+        case "snr":
+          return worstSnr(a) - worstSnr(b);
+        case "loudness":
+          return quietestLoudness(a) - quietestLoudness(b);
         case "newest":
         default:
           return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
@@ -384,7 +731,7 @@ export default function Admin() {
     });
 
     return list;
-  }, [allTaskSessions, searchQuery, statusFilter, reviewerFilter, paidFilter, sortBy]);
+  }, [allTaskSessions, allTaskTypes, searchQuery, statusFilter, reviewerFilter, paidFilter, qualityFilter, sortBy]);
 
   const approveMutation = useMutation({
     mutationFn: async (userId: string) => {
@@ -420,6 +767,38 @@ export default function Admin() {
   });
 
   const [blockConfirmUserId, setBlockConfirmUserId] = useState<string | null>(null);
+  const [taskTypeDialogOpen, setTaskTypeDialogOpen] = useState(false);
+  const [exportDialogOpen, setExportDialogOpen] = useState(false);
+  const [editingTaskType, setEditingTaskType] = useState<TaskType | null>(null);
+
+  const taskTypeStatusMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: { paused?: boolean; archived?: boolean } }) => {
+      const res = await apiRequest("PATCH", `/api/admin/task-types/${id}`, data);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/task-types"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/task-types"] });
+      toast({ title: "Task updated" });
+    },
+    onError: (err: any) => {
+      toast({ title: "Failed to update task", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const retryJobMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/admin/jobs/${id}/retry`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/jobs"] });
+      toast({ title: "Job re-queued" });
+    },
+    onError: (err: any) => {
+      toast({ title: "Failed to retry job", description: err.message, variant: "destructive" });
+    },
+  });
 
   const roleMutation = useMutation({
     mutationFn: async ({ userId, role }: { userId: string; role: string }) => {
@@ -430,11 +809,14 @@ export default function Admin() {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
       toast({ title: "Role updated" });
     },
+    onError: (err: any) => {
+      toast({ title: "Failed to change role", description: err.message, variant: "destructive" });
+    },
   });
 
-  const downloadRecording = async (recordingId: string) => {
+  const downloadFromPath = async (path: string) => {
     try {
-      const res = await apiRequest("GET", `/api/recordings/${recordingId}/download`);
+      const res = await apiRequest("GET", path);
       const { downloadUrl } = await res.json();
       window.open(downloadUrl, "_blank");
     } catch (err: any) {
@@ -442,6 +824,8 @@ export default function Admin() {
     }
   };
 
+  const downloadRecording = (recordingId: string) => downloadFromPath(`/api/recordings/${recordingId}/download`);
+
   const approveSessionMutation = useMutation({
     mutationFn: async (sessionId: string) => {
       const res = await apiRequest("PATCH", `/api/admin/task-sessions/${sessionId}/approve`);
@@ -507,19 +891,35 @@ export default function Admin() {
       </header>
 
       <main className="container mx-auto px-4 py-8 max-w-7xl animate-fade-in">
-        <Tabs defaultValue="tasks">
+        <Tabs defaultValue={firstTab}>
           <TabsList className="mb-6">
-            <TabsTrigger value="tasks">Tasks ({allTaskSessions.length})</TabsTrigger>
-            <TabsTrigger value="users">Users ({users.length})</TabsTrigger>
-            <TabsTrigger value="rooms">Rooms ({allRooms.length})</TabsTrigger>
-            <TabsTrigger value="recordings">Recordings ({allRecordings.length})</TabsTrigger>
+            {canSeeTab("tasks") && <TabsTrigger value="tasks">Tasks ({allTaskSessions.length})</TabsTrigger>}
+            {canSeeTab("task-types") && <TabsTrigger value="task-types">Task Catalog ({allTaskTypes.length})</TabsTrigger>}
+            {canSeeTab("users") && <TabsTrigger value="users">Users ({users.length})</TabsTrigger>}
+            {canSeeTab("rooms") && <TabsTrigger value="rooms">Rooms ({allRooms.length})</TabsTrigger>}
+            {canSeeTab("recordings") && <TabsTrigger value="recordings">Recordings ({allRecordings.length})</TabsTrigger>}
+            {canSeeTab("transcripts") && <TabsTrigger value="transcripts">Transcripts</TabsTrigger>}
+            {canSeeTab("retention") && <TabsTrigger value="retention">Retention</TabsTrigger>}
+            {canSeeTab("emails") && <TabsTrigger value="emails">Emails</TabsTrigger>}
+            {canSeeTab("lockouts") && <TabsTrigger value="lockouts">Lockouts</TabsTrigger>}
+            {canSeeTab("jobs") && (
+              <TabsTrigger value="jobs">
+                Jobs{jobCounts.dead ? ` (${jobCounts.dead} failed)` : ""}
+              </TabsTrigger>
+            )}
           </TabsList>
 
           {/* Tasks Tab */}
           <TabsContent value="tasks">
             <Card>
-              <CardHeader className="pb-4">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-4">
                 <CardTitle>Task Sessions</CardTitle>
+                {can("exports.create") && (
+                  <Button size="sm" variant="outline" onClick={() => setExportDialogOpen(true)}>
+                    <FileDown className="mr-1 h-4 w-4" />
+                    Export
+                  </Button>
+                )}
               </CardHeader>
               <CardContent>
                 {/* Filter bar */}
@@ -569,6 +969,17 @@ export default function Admin() {
                       <SelectItem value="unpaid">Unpaid</SelectItem>
                     </SelectContent>
                   </Select>
+                  <Select value={qualityFilter} onValueChange={setQualityFilter}>
+                    <SelectTrigger className="w-[140px] h-9">
+                      <SelectValue placeholder="Quality" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Quality</SelectItem>
+                      <SelectItem value="issues">Has Issues</SelectItem>
+                      <SelectItem value="clean">Clean</SelectItem>
+                      <SelectItem value="unmeasured">Not Measured</SelectItem>
+                    </SelectContent>
+                  </Select>
                   <Select value={sortBy} onValueChange={setSortBy}>
                     <SelectTrigger className="w-[140px] h-9">
                       <ArrowUpDown className="mr-1 h-3.5 w-3.5" />
@@ -579,6 +990,8 @@ export default function Admin() {
                       <SelectItem value="oldest">Oldest First</SelectItem>
                       <SelectItem value="task">By Task</SelectItem>
                       <SelectItem value="status">By Status</SelectItem>
+                      <SelectItem value="snr">Worst SNR</SelectItem>
+                      <SelectItem value="loudness">Quietest</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -610,11 +1023,11 @@ export default function Admin() {
                       </TableHeader>
                       <TableBody>
                         {filteredSessions.map((session) => {
-                          const taskDef = TASK_TYPES.find((t) => t.id === session.taskType);
                           return (
                             <TableRow key={session.id}>
                               <TableCell className="font-medium">
-                                {taskDef?.name || session.taskType}
+                                {taskTypeName(session.taskType) || session.taskType}
+                                <DuplicateBadge session={session} />
                               </TableCell>
                               <TableCell className="text-muted-foreground text-sm">
                                 {session.userEmail}
@@ -627,20 +1040,29 @@ export default function Admin() {
                                   const localRecs = session.recordings.filter((r) => r.recordingType === "local");
                                   const maxDuration = Math.max(0, ...localRecs.map((r) => r.duration || 0));
                                   if (maxDuration === 0) return "-";
-                                  const totalSec = Math.round(maxDuration / 1000);
-                                  const m = Math.floor(totalSec / 60);
-                                  const s = totalSec % 60;
-                                  return `${m}:${s.toString().padStart(2, "0")}`;
+                                  return formatClock(maxDuration);
                                 })()}
+                                <TalkTime recordings={session.recordings} />
                               </TableCell>
                               <TableCell>
-                                <AudioCell recordings={session.recordings.filter((r) => r.recordingType === "local")} onDownload={downloadRecording} />
+                                <AudioCell
+                                  recordings={session.recordings.filter((r) => r.recordingType === "local" || r.recordingType === "cloud")}
+                                  recordingArtifacts={session.recordingArtifacts}
+                                  artifacts={session.artifacts}
+                                  expectedLanguage={allTaskTypes.find((t) => t.id === session.taskType)?.language}
+                                  onDownload={downloadRecording}
+                                  onDownloadPath={downloadFromPath}
+                                />
                               </TableCell>
                               <TableCell>
-                                <ReviewerStatusSelect session={session} />
+                                {can("sessions.review") ? (
+                                  <ReviewerStatusSelect session={session} />
+                                ) : (
+                                  getReviewerBadge(session.reviewerStatus)
+                                )}
                               </TableCell>
                               <TableCell className="text-center">
-                                <PaidCheckbox session={session} />
+                                <PaidCheckbox session={session} disabled={!can("sessions.pay")} />
                               </TableCell>
                               <TableCell>
                                 {getStatusBadge(session.status)}
@@ -649,7 +1071,7 @@ export default function Admin() {
                                 {new Date(session.createdAt).toLocaleString([], { month: "numeric", day: "numeric", hour: "numeric", minute: "2-digit" })}
                               </TableCell>
                               <TableCell className="text-right">
-                                {session.status === "pending_review" && (
+                                {session.status === "pending_review" && can("sessions.review") && (
                                   <div className="flex items-center justify-end gap-1">
                                     <Button
                                       size="sm"
@@ -689,6 +1111,124 @@ export default function Admin() {
                 )}
               </CardContent>
             </Card>
+            <ExportDialog open={exportDialogOpen} onOpenChange={setExportDialogOpen} taskTypes={allTaskTypes} />
+          </TabsContent>
+
+          {/* Task Catalog Tab */}
+          <TabsContent value="task-types">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle>Task Catalog</CardTitle>
+                <Button
+                  size="sm"
+                  onClick={() => {
+                    setEditingTaskType(null);
+                    setTaskTypeDialogOpen(true);
+                  }}
+                >
+                  <Plus className="mr-1 h-4 w-4" />
+                  New Task
+                </Button>
+              </CardHeader>
+              <CardContent>
+                {taskTypesLoading ? (
+                  <div className="flex justify-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin" />
+                  </div>
+                ) : allTaskTypes.length === 0 ? (
+                  <p className="text-center text-muted-foreground py-8">No tasks yet.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Name</TableHead>
+                        <TableHead>ID</TableHead>
+                        <TableHead>Pay</TableHead>
+                        <TableHead>Schedule</TableHead>
+                        <TableHead>Version</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {allTaskTypes.map((t) => {
+                        const availability = getTaskTypeAvailability(t);
+                        return (
+                          <TableRow key={t.id} className={t.archived ? "opacity-60" : undefined}>
+                            <TableCell className="font-medium">{t.name}</TableCell>
+                            <TableCell>
+                              <code className="text-xs font-mono bg-muted px-1.5 py-0.5 rounded">{t.id}</code>
+                            </TableCell>
+                            <TableCell className="text-muted-foreground text-sm whitespace-nowrap">
+                              {t.payType === "fixed" ? `$${t.hourlyRate} fixed` : `$${t.hourlyRate}/hr`}
+                            </TableCell>
+                            <TableCell className="text-muted-foreground text-sm whitespace-nowrap">
+                              {t.availableFrom || t.availableUntil
+                                ? `${t.availableFrom || "…"} → ${t.availableUntil || "…"}`
+                                : "-"}
+                            </TableCell>
+                            <TableCell className="text-muted-foreground text-sm">v{t.version}</TableCell>
+                            <TableCell>
+                              {availability === "available" ? (
+                                <Badge className="bg-green-100 text-green-700 hover:bg-green-100 dark:bg-green-950 dark:text-green-300 border-0">Available</Badge>
+                              ) : availability === "paused" ? (
+                                <Badge className="bg-amber-100 text-amber-800 hover:bg-amber-100 dark:bg-amber-950 dark:text-amber-300 border-0">Paused</Badge>
+                              ) : (
+                                <Badge variant="secondary">{availability}</Badge>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-right space-x-1 whitespace-nowrap">
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => {
+                                  setEditingTaskType(t);
+                                  setTaskTypeDialogOpen(true);
+                                }}
+                              >
+                                <Pencil className="mr-1 h-4 w-4" />
+                                Edit
+                              </Button>
+                              {!t.archived && (
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() => taskTypeStatusMutation.mutate({ id: t.id, data: { paused: !t.paused } })}
+                                  disabled={taskTypeStatusMutation.isPending}
+                                >
+                                  {t.paused ? (
+                                    <><Play className="mr-1 h-4 w-4" /> Resume</>
+                                  ) : (
+                                    <><Pause className="mr-1 h-4 w-4" /> Pause</>
+                                  )}
+                                </Button>
+                              )}
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => taskTypeStatusMutation.mutate({ id: t.id, data: { archived: !t.archived } })}
+                                disabled={taskTypeStatusMutation.isPending}
+                              >
+                                {t.archived ? (
+                                  <><ArchiveRestore className="mr-1 h-4 w-4" /> Restore</>
+                                ) : (
+                                  <><Archive className="mr-1 h-4 w-4" /> Archive</>
+                                )}
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+            <TaskTypeDialog
+              open={taskTypeDialogOpen}
+              onOpenChange={setTaskTypeDialogOpen}
+              taskType={editingTaskType}
+            />
           </TabsContent>
 
           {/* Users Tab */}
@@ -754,9 +1294,28 @@ export default function Admin() {
                             )}
                           </TableCell>
                           <TableCell>
-                            <Badge variant={u.role === "admin" ? "default" : "secondary"}>
-                              {u.role}
-                            </Badge>
+                            {can("users.manage_roles") && u.id !== user?.id ? (
+                              <Select
+                                value={u.role}
+                                onValueChange={(role) => roleMutation.mutate({ userId: u.id, role })}
+                                disabled={roleMutation.isPending}
+                              >
+                                <SelectTrigger className="h-8 w-[130px] text-xs">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {ROLES.map((role) => (
+                                    <SelectItem key={role} value={role} title={ROLE_DESCRIPTIONS[role]}>
+                                      {role}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            ) : (
+                              <Badge variant={isStaffRole(u.role) ? "default" : "secondary"}>
+                                {u.role}
+                              </Badge>
+                            )}
                           </TableCell>
                           <TableCell>
                             {u.approved ? (
@@ -787,7 +1346,7 @@ export default function Admin() {
                             {new Date(u.createdAt).toLocaleDateString()}
                           </TableCell>
                           <TableCell className="text-right space-x-2">
-                            {!u.approved && (
+                            {!u.approved && can("users.approve") && (
                               <Button
                                 size="sm"
                                 variant="outline"
@@ -798,7 +1357,7 @@ export default function Admin() {
                                 Approve
                               </Button>
                             )}
-                            {!u.approved && u.samplesCompletedAt && (
+                            {!u.approved && u.samplesCompletedAt && u.id !== user?.id && can("users.approve") && canActOn(u.role) && (
                               <Button
                                 size="sm"
                                 variant="ghost"
@@ -810,7 +1369,7 @@ export default function Admin() {
                                 Retry
                               </Button>
                             )}
-                            {!u.approved && u.id !== user?.id && (
+                            {!u.approved && u.id !== user?.id && can("users.block") && canActOn(u.role) && (
                               <Button
                                 size="sm"
                                 variant="ghost"
@@ -821,25 +1380,6 @@ export default function Admin() {
                                 Block
                               </Button>
                             )}
-                            {u.id !== user?.id && (
-                              <Button
-                                size="sm"
-                                variant="ghost"
-                                onClick={() =>
-                                  roleMutation.mutate({
-                                    userId: u.id,
-                                    role: u.role === "admin" ? "user" : "admin",
-                                  })
-                                }
-                                disabled={roleMutation.isPending}
-                              >
-                                {u.role === "admin" ? (
-                                  <><ShieldOff className="mr-1 h-4 w-4" /> Remove Admin</>
-                                ) : (
-                                  <><Shield className="mr-1 h-4 w-4" /> Make Admin</>
-                                )}
-                              </Button>
-                            )}
                           </TableCell>
                         </TableRow>
                       ))}
@@ -994,6 +1534,132 @@ export default function Admin() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          {/* Transcripts Tab */}
+          <TabsContent value="transcripts">
+            <Card>
+              <CardHeader>
+                <CardTitle>Transcripts</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <TranscriptSearch taskTypes={allTaskTypes} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* Retention Tab */}
+          <TabsContent value="retention">
+            <Card>
+              <CardHeader>
+                <CardTitle>Storage Retention</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <RetentionPanel />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* Emails Tab */}
+          <TabsContent value="emails">
+            <Card>
+              <CardHeader>
+                <CardTitle>Emails</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <EmailPanel />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* Lockouts Tab */}
+          <TabsContent value="lockouts">
+            <Card>
+              <CardHeader>
+                <CardTitle>Rate Limits &amp; Lockouts</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <RateLimitPanel />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* Jobs Tab */}
+          <TabsContent value="jobs">
+            <Card>
+              <CardHeader>
+                <CardTitle>Processing Jobs</CardTitle>
+                <div className="flex flex-wrap gap-2 pt-2">
+                  {(["queued", "running", "retrying", "completed", "dead"] as const).map((status) => (
+                    <Badge key={status} variant={status === "dead" && jobCounts[status] ? "destructive" : "outline"}>
+                      {status}: {jobCounts[status] ?? 0}
+                    </Badge>
+                  ))}
+                </div>
+              </CardHeader>
+              <CardContent>
+                {jobsLoading ? (
+                  <div className="flex justify-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin" />
+                  </div>
+                ) : allJobs.length === 0 ? (
+                  <p className="text-center text-muted-foreground py-8">No jobs yet.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Type</TableHead>
+                        <TableHead>Target</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Attempts</TableHead>
+                        <TableHead>Last Error</TableHead>
+                        <TableHead>Created</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {allJobs.map((job) => (
+                        <TableRow key={job.id}>
+                          <TableCell className="font-medium">{job.type}</TableCell>
+                          <TableCell className="font-mono text-xs text-muted-foreground">{job.key || "-"}</TableCell>
+                          <TableCell>
+                            <Badge
+                              variant={
+                                job.status === "dead" ? "destructive" : job.status === "completed" ? "default" : "secondary"
+                              }
+                            >
+                              {job.status}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">
+                            {job.attempts}/{job.maxAttempts}
+                          </TableCell>
+                          <TableCell className="text-xs text-muted-foreground truncate max-w-[300px]" title={job.lastError || undefined}>
+                            {job.lastError || "-"}
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">
+                            {new Date(job.createdAt).toLocaleString()}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {(job.status === "dead" || job.status === "retrying") && (
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => retryJobMutation.mutate(job.id)}
+                                disabled={retryJobMutation.isPending}
+                              >
+                                <RotateCcw className="h-4 w-4 mr-1" />
+                                Retry now
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
         </Tabs>
       </main>
     </div>
@@ -2,7 +2,7 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { useAuthContext } from "@/lib/auth-context";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { TASK_TYPES } from "@shared/schema";
+import { getTaskTypeAvailability, isStaffRole } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -11,6 +11,9 @@ import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2, Copy, LogOut, Shield, Link2, Check, CheckCircle2, X, ArrowRight, Mic, MessageCircle, DollarSign, Users, Calendar } from "lucide-react";
 import { NotificationBell } from "@/components/notification-bell";
+import { UnsentRecordings } from "@/components/unsent-recordings";
+import { VerifyEmailBanner } from "@/components/verify-email-banner";
+import { useTaskTypes } from "@/hooks/use-task-types";
 
 interface PendingInvitation {
   id: string;
@@ -88,7 +91,8 @@ export default function Dashboard() {
               Your account is awaiting admin approval. You'll be able to start tasks once approved.
             </CardDescription>
           </CardHeader>
-          <CardContent className="flex justify-center">
+          <CardContent className="flex flex-col items-center gap-4">
+            {!user.emailVerifiedAt && <VerifyEmailBanner email={user.username} />}
             <Button variant="outline" onClick={() => logout().then(() => setLocation("/login"))}>
               <LogOut className="mr-2 h-4 w-4" />
               Sign Out
@@ -110,6 +114,9 @@ export default function Dashboard() {
     enabled: !!user?.approved,
   });
 
+  const { taskTypes, getTaskType } = useTaskTypes(!!user?.approved);
+  const listedTaskTypes = taskTypes.filter((t) => !t.archived);
+
   const acceptInvitation = useMutation({
     mutationFn: async (id: string) => {
       const res = await apiRequest("PATCH", `/api/invitations/${id}`, { status: "accepted" });
@@ -172,7 +179,7 @@ export default function Dashboard() {
           <div className="flex items-center gap-2">
             <span className="text-sm text-muted-foreground hidden sm:inline">{user?.username}</span>
             <NotificationBell />
-            {user?.role === "admin" && (
+            {isStaffRole(user?.role) && (
               <Button variant="outline" size="sm" onClick={() => setLocation("/admin")}>
                 <Shield className="mr-1.5 h-3.5 w-3.5" />
                 Admin
@@ -187,6 +194,11 @@ export default function Dashboard() {
       </header>
 
       <main className="container mx-auto px-4 py-8 max-w-4xl space-y-8 animate-fade-in">
+        {/* Recordings left in this browser by a crashed tab or failed upload */}
+        {user && <UnsentRecordings userId={user.id} />}
+
+        {user && !user.emailVerifiedAt && <VerifyEmailBanner email={user.username} />}
+
         {/* Pending Invitations */}
         {pendingInvitations.length > 0 && (
           <Card className="border-primary/30 shadow-md">
@@ -229,19 +241,19 @@ export default function Dashboard() {
         <div>
           <div className="flex items-center justify-between mb-4">
             <h2 className="text-lg font-semibold tracking-tight">Available Tasks</h2>
-            <span className="text-xs text-muted-foreground">{TASK_TYPES.filter(t => !("archived" in t && t.archived)).length} tasks</span>
+            <span className="text-xs text-muted-foreground">{listedTaskTypes.length} tasks</span>
           </div>
           <div className="space-y-2">
-            {TASK_TYPES.filter(t => !("archived" in t && t.archived)).map((task) => {
+            {listedTaskTypes.map((task) => {
               const Icon = TASK_ICONS[task.id] || Mic;
-              const isPaused = "paused" in task && task.paused;
-              const isExpired = new Date(task.availableUntil) < new Date();
-              const isDisabled = isExpired || isPaused;
-              const deadlineDate = new Date(task.availableUntil).toLocaleDateString("en-US", {
-                month: "short",
-                day: "numeric",
-                year: "numeric",
-              });
+              const availability = getTaskTypeAvailability(task);
+              const isDisabled = availability !== "available";
+              const formatDate = (value: string) =>
+                new Date(value).toLocaleDateString("en-US", {
+                  month: "short",
+                  day: "numeric",
+                  year: "numeric",
+                });
               return (
                 <div
                   key={task.id}
@@ -262,18 +274,22 @@ export default function Dashboard() {
                         <div className="flex flex-wrap items-center gap-3 mt-1.5 text-sm text-muted-foreground">
                           <span className="flex items-center gap-1">
                             <DollarSign className="h-3.5 w-3.5" />
-                            {"payType" in task && task.payType === "fixed"
-                              ? `$${task.hourlyRate}, one time${"estimatedMinutes" in task ? ` (~${task.estimatedMinutes} min)` : ""}`
+                            {task.payType === "fixed"
+                              ? `$${task.hourlyRate}, one time${task.estimatedMinutes ? ` (~${task.estimatedMinutes} min)` : ""}`
                               : `$${task.hourlyRate}/hr`}
                           </span>
                           <span className="flex items-center gap-1">
                             <Calendar className="h-3.5 w-3.5" />
-                            {isPaused ? (
+                            {availability === "paused" ? (
                               <span className="text-muted-foreground font-medium">Currently unavailable</span>
-                            ) : isExpired ? (
+                            ) : availability === "expired" ? (
                               <span className="text-destructive font-medium">Expired</span>
+                            ) : availability === "scheduled" ? (
+                              <span className="text-muted-foreground font-medium">Opens {formatDate(task.availableFrom!)}</span>
+                            ) : task.availableUntil ? (
+                              <>Until {formatDate(task.availableUntil)}</>
                             ) : (
-                              <>Until {deadlineDate}</>
+                              <>Open</>
                             )}
                           </span>
                           {task.requiresPartner && (
@@ -311,7 +327,7 @@ export default function Dashboard() {
               ) : (
                 <div className="space-y-2">
                   {activeSessions.map((session) => {
-                    const taskDef = TASK_TYPES.find((t) => t.id === session.taskType);
+                    const taskDef = getTaskType(session.taskType);
                     const Icon = TASK_ICONS[session.taskType] || Mic;
                     const statusInfo = getStatusLabel(session.status);
                     return (
@@ -361,7 +377,7 @@ export default function Dashboard() {
               <h2 className="text-lg font-semibold tracking-tight mb-4">Pending Review</h2>
               <div className="space-y-2">
                 {pendingReviewSessions.map((session) => {
-                  const taskDef = TASK_TYPES.find((t) => t.id === session.taskType);
+                  const taskDef = getTaskType(session.taskType);
                   const Icon = TASK_ICONS[session.taskType] || Mic;
                   return (
                     <Card key={session.id}>
@@ -401,7 +417,7 @@ export default function Dashboard() {
               <h2 className="text-lg font-semibold tracking-tight mb-4">Completed</h2>
               <div className="space-y-2">
                 {completedSessions.map((session) => {
-                  const taskDef = TASK_TYPES.find((t) => t.id === session.taskType);
+                  const taskDef = getTaskType(session.taskType);
                   const Icon = TASK_ICONS[session.taskType] || Mic;
                   const completedDate = new Date(session.updatedAt).toLocaleDateString("en-US", {
                     month: "short",
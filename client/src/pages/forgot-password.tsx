@@ -0,0 +1,92 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, MailCheck } from "lucide-react";
+
+export default function ForgotPassword() {
+  const [username, setUsername] = useState("");
+  const { toast } = useToast();
+
+  const requestReset = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/forgot-password", { username });
+    },
+    onError: (err: Error) => {
+      toast({
+        title: "Could not send reset link",
+        description: err.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    requestReset.mutate();
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gradient-to-br from-background via-background to-primary/5">
+      <div className="w-full max-w-md mx-4 animate-fade-in">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-12 h-12 rounded-xl bg-primary/10 mb-4">
+            <svg className="w-6 h-6 text-primary" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <path d="M12 2a3 3 0 0 0-3 3v7a3 3 0 0 0 6 0V5a3 3 0 0 0-3-3Z" />
+              <path d="M19 10v2a7 7 0 0 1-14 0v-2" />
+              <line x1="12" x2="12" y1="19" y2="22" />
+            </svg>
+          </div>
+          <h1 className="text-2xl font-bold tracking-tight">Voice Atlas</h1>
+          <p className="text-sm text-muted-foreground mt-1">Audio collection platform</p>
+        </div>
+        <Card className="shadow-lg border-border/50">
+          <CardHeader className="text-center pb-2">
+            <CardTitle className="text-lg">Forgot your password?</CardTitle>
+            <CardDescription>We'll email you a link to choose a new one</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {requestReset.isSuccess ? (
+              <div className="p-3 rounded-lg bg-primary/5 border border-primary/15 flex items-start gap-3">
+                <MailCheck className="h-5 w-5 text-primary shrink-0 mt-0.5" />
+                <p className="text-sm">
+                  If there's an account for <strong>{username}</strong>, a reset link is on its way. It expires in an hour.
+                </p>
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="username">Email</Label>
+                  <Input
+                    id="username"
+                    type="email"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    placeholder="you@example.com"
+                    required
+                    autoFocus
+                    className="h-11"
+                  />
+                </div>
+                <Button type="submit" className="w-full h-11" disabled={requestReset.isPending}>
+                  {requestReset.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Send Reset Link
+                </Button>
+              </form>
+            )}
+            <div className="mt-6 text-center text-sm text-muted-foreground">
+              Remembered it?{" "}
+              <a href="/login" className="text-primary font-medium hover:underline underline-offset-4">
+                Sign in
+              </a>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
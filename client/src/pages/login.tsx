@@ -69,7 +69,12 @@ export default function Login() {
                 />
               </div>
               <div className="space-y-2">
-                <Label htmlFor="password">Password</Label>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="password">Password</Label>
+                  <a href="/forgot-password" className="text-xs text-muted-foreground hover:text-primary hover:underline underline-offset-4">
+                    Forgot password?
+                  </a>
+                </div>
                 <Input
                   id="password"
                   type="password"
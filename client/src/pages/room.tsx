@@ -3,7 +3,8 @@ import { useParams, useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useAuthContext } from "@/lib/auth-context";
 import { apiRequest } from "@/lib/queryClient";
-import { TASK_TYPES } from "@shared/schema";
+import { MultipartRecordingUpload } from "@/lib/multipart-upload";
+import { createLocalRecording, appendLocalChunk, updateLocalRecording, deleteLocalRecording } from "@/lib/recording-store";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -21,9 +22,10 @@ import {
   AlertDialogCancel,
 } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
+import { useSessionTaskDefinition } from "@/hooks/use-task-types";
 import { Loader2, Mic, MicOff, PhoneOff, Copy, ArrowLeft, Circle, Mail, Info, ChevronDown, ChevronUp } from "lucide-react";
 import type { Room as RoomType } from "@shared/schema";
-import DailyIframe, { type DailyCall, type DailyParticipant } from "@daily-co/daily-js";
+import { createRtcCall, type RtcCall, type RtcCallEvents } from "@/lib/rtc";
 
 type CallState = "idle" | "joining" | "joined" | "leaving" | "error";
 
@@ -37,34 +39,40 @@ interface Participant {
 interface TaskSession {
   id: string;
   taskType: string;
+  taskTypeVersion: number | null;
   userId: string;
   partnerId: string | null;
   status: string;
 }
 
-async function uploadToS3WithRetry(
-  url: string,
-  body: Blob,
-  contentType: string,
-  maxRetries = 3,
-): Promise<void> {
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+/**
+ * Estimate (server clock - local clock) in ms from a few round trips, keeping the
+ * sample with the lowest RTT. Used so both participants report recording start
+ * times on the same clock for track alignment.
+ */
+async function estimateServerClockOffset(samples = 3): Promise<number | null> {
+  let best: { rtt: number; offset: number } | null = null;
+  for (let i = 0; i < samples; i++) {
     try {
-      const res = await fetch(url, {
-        method: "PUT",
-        body,
-        headers: { "Content-Type": contentType },
-      });
-      if (res.ok) return;
-      throw new Error(`S3 upload returned ${res.status}: ${res.statusText}`);
-    } catch (err: any) {
-      if (attempt === maxRetries) {
-        throw new Error(`Upload failed after ${maxRetries} attempts: ${err.message}`);
-      }
-      // Wait before retry: 1s, 2s, 4s
-      await new Promise((r) => setTimeout(r, 1000 * Math.pow(2, attempt - 1)));
+      const sentAt = Date.now();
+      const res = await apiRequest("GET", "/api/time");
+      const receivedAt = Date.now();
+      const { now } = await res.json();
+      const rtt = receivedAt - sentAt;
+      const offset = now - (sentAt + rtt / 2);
+      if (!best || rtt < best.rtt) best = { rtt, offset };
+    } catch {
+      // Alignment falls back to cross-correlation alone
     }
   }
+  return best ? Math.round(best.offset) : null;
+}
+
+/** Run an IndexedDB backup step; failures only cost crash recovery, so they never interrupt recording */
+function withLocalCopy(copy: Promise<string | null> | null, fn: (localId: string) => Promise<void>) {
+  copy
+    ?.then((localId) => (localId ? fn(localId) : undefined))
+    .catch((err) => console.warn("Local recording backup failed:", err));
 }
 
 function formatDuration(ms: number): string {
@@ -86,7 +94,7 @@ export default function RoomPage() {
   const [error, setError] = useState<string | null>(null);
   const [isCloudRecording, setIsCloudRecording] = useState(false);
   const [callDuration, setCallDuration] = useState(0);
-  const callObjectRef = useRef<DailyCall | null>(null);
+  const callObjectRef = useRef<RtcCall | null>(null);
   const joinTimeRef = useRef<number | null>(null);
   const durationIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const partnerLeaveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -99,11 +107,17 @@ export default function RoomPage() {
 
   // Local mic recorder (used by both creator and partner — each records their own mic)
   const localRecorderRef = useRef<MediaRecorder | null>(null);
-  const localChunksRef = useRef<Blob[]>([]);
-  const localBlobRef = useRef<Blob | null>(null);
+  // Streams the local track to S3 part by part while recording
+  const uploaderRef = useRef<MultipartRecordingUpload | null>(null);
+  // Resolves once the recorder has flushed its last chunk
+  const recorderStoppedRef = useRef<Promise<void> | null>(null);
+  // IndexedDB copy of the track, kept until the server has it (see UnsentRecordings on the dashboard)
+  const localCopyRef = useRef<Promise<string | null> | null>(null);
 
   const recordingStartRef = useRef<number | null>(null);
   const finalDurationRef = useRef<number>(0);
+  /** When the local MediaRecorder actually started, on the server's clock (epoch ms) */
+  const recorderStartedAtRef = useRef<number | null>(null);
   const recordingDurationIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const localStreamRef = useRef<MediaStream | null>(null);
 
@@ -118,7 +132,7 @@ export default function RoomPage() {
   const [inviteEmail, setInviteEmail] = useState("");
   const [instructionsExpanded, setInstructionsExpanded] = useState(true);
   const [showCancelDialog, setShowCancelDialog] = useState(false);
-  const [failedUploadBlobs, setFailedUploadBlobs] = useState<{ local: Blob } | null>(null);
+  const [uploadFailed, setUploadFailed] = useState(false);
   const hasRecordedRef = useRef(false);
   const [blobsReady, setBlobsReady] = useState(false);
 
@@ -157,13 +171,16 @@ export default function RoomPage() {
     enabled: !!roomId,
   });
 
-  const taskDef = taskSession ? TASK_TYPES.find((t) => t.id === taskSession.taskType) : null;
+  const taskDef = useSessionTaskDefinition(taskSession);
 
   const completeTaskMutation = useMutation({
     mutationFn: async (sessionId: string) => {
       const res = await apiRequest("PATCH", `/api/task-sessions/${sessionId}/complete`);
       return res.json();
     },
+    // 409 means a track is still being verified server-side; keep asking until it settles
+    retry: (failureCount, err) => err.message.startsWith("409") && failureCount < 20,
+    retryDelay: 3000,
     onSuccess: async () => {
       if (callObjectRef.current) {
         await callObjectRef.current.leave();
@@ -202,13 +219,7 @@ export default function RoomPage() {
   });
 
   // Handle remote audio track started — create <audio> element to play it
-  const handleTrackStarted = useCallback((event: any) => {
-    if (!event?.participant || event.participant.local) return;
-    if (event.track?.kind !== "audio") return;
-
-    const participantId = event.participant.session_id;
-    const track = event.track as MediaStreamTrack;
-
+  const handleTrackStarted = useCallback(({ participantId, track }: RtcCallEvents["track-started"]) => {
     let audioEl = audioElementsRef.current.get(participantId);
     if (!audioEl) {
       audioEl = document.createElement("audio");
@@ -222,11 +233,7 @@ export default function RoomPage() {
   }, []);
 
   // Handle remote audio track stopped — clean up <audio> element
-  const handleTrackStopped = useCallback((event: any) => {
-    if (!event?.participant || event.participant.local) return;
-    if (event.track?.kind !== "audio") return;
-
-    const participantId = event.participant.session_id;
+  const handleTrackStopped = useCallback(({ participantId }: RtcCallEvents["track-stopped"]) => {
     const audioEl = audioElementsRef.current.get(participantId);
     if (audioEl) {
       audioEl.srcObject = null;
@@ -234,25 +241,25 @@ export default function RoomPage() {
     }
   }, []);
 
-  const updateParticipants = useCallback((callObject: DailyCall) => {
-    const daily = callObject.participants();
-    const mapped: Participant[] = Object.entries(daily).map(([id, p]: [string, DailyParticipant]) => ({
-      id,
+  const updateParticipants = useCallback((callObject: RtcCall) => {
+    const current = callObject.participants();
+    const mapped: Participant[] = current.map((p) => ({
+      id: p.id,
       isLocal: p.local,
-      audioOn: p.audio !== false,
-      userName: p.user_name || (p.local ? "You" : `Participant ${id.slice(0, 4)}`),
+      audioOn: p.audio,
+      userName: p.userName || (p.local ? "You" : `Participant ${p.id.slice(0, 4)}`),
     }));
     setParticipants(mapped);
 
-    // Sync local mic muted state from Daily's actual state
-    const localP = Object.values(daily).find((p: DailyParticipant) => p.local);
+    // Sync local mic muted state from the provider's actual state
+    const localP = current.find((p) => p.local);
     if (localP) {
-      setIsMicMuted(localP.audio === false);
+      setIsMicMuted(!localP.audio);
     }
 
     // Check if any remote participant has playable audio
-    const hasRemote = Object.values(daily).some(
-      (p: DailyParticipant) => !p.local && (p.tracks?.audio?.state === "playable" || audioElementsRef.current.has(p.session_id))
+    const hasRemote = current.some(
+      (p) => !p.local && (p.audioPlayable || audioElementsRef.current.has(p.id))
     );
     setHasRemoteParticipant(hasRemote);
   }, []);
@@ -265,25 +272,9 @@ export default function RoomPage() {
 
     try {
       const tokenRes = await apiRequest("POST", `/api/rooms/${roomId}/token`);
-      const { token, roomUrl } = await tokenRes.json();
-
-      const callObject = DailyIframe.createCallObject({
-        audioSource: true,
-        videoSource: false,
-        dailyConfig: {
-          micAudioMode: {
-            bitrate: 320000,
-            stereo: false,
-          },
-          userMediaAudioConstraints: {
-            sampleRate: 48000,
-            channelCount: 1,
-            echoCancellation: true,
-            noiseSuppression: false,
-            autoGainControl: false,
-          },
-        },
-      });
+      const { token, roomUrl, provider } = await tokenRes.json();
+
+      const callObject = createRtcCall(provider);
 
       callObjectRef.current = callObject;
 
@@ -304,7 +295,7 @@ export default function RoomPage() {
       });
 
       callObject.on("error", (e) => {
-        setError(e?.errorMsg || "Call error occurred");
+        setError(e.message);
         setCallState("error");
         cleanup();
       });
@@ -322,15 +313,13 @@ export default function RoomPage() {
       callObject.on("participant-left", (event) => {
         updateParticipants(callObject);
         // If partner left, wait 30s before leaving (they may reconnect)
-        const remaining = callObject.participants();
-        const remoteCount = Object.values(remaining).filter((p: DailyParticipant) => !p.local).length;
-        if (remoteCount === 0 && event?.participant && !event.participant.local) {
+        const remoteCount = callObject.participants().filter((p) => !p.local).length;
+        if (remoteCount === 0 && !event.participant.local) {
           toast({ title: "Partner disconnected", description: "Waiting 30 seconds for them to reconnect..." });
           partnerLeaveTimerRef.current = setTimeout(() => {
             partnerLeaveTimerRef.current = null;
             // Check again — they may have rejoined
-            const current = callObject.participants();
-            const stillAlone = Object.values(current).filter((p: DailyParticipant) => !p.local).length === 0;
+            const stillAlone = callObject.participants().filter((p) => !p.local).length === 0;
             if (stillAlone) {
               callObject.leave().then(() => {
                 callObject.destroy();
@@ -351,10 +340,9 @@ export default function RoomPage() {
 
       callObject.on("recording-started", () => setIsCloudRecording(true));
       callObject.on("recording-stopped", () => setIsCloudRecording(false));
-      callObject.on("recording-error", () => setIsCloudRecording(false));
 
       // Handle messages from other participants (recording commands, upload notifications)
-      callObject.on("app-message", (msg: any) => {
+      callObject.on("app-message", (msg) => {
         messageHandlerRef.current(msg);
       });
 
@@ -411,41 +399,23 @@ export default function RoomPage() {
     }
   }, [isMicMuted]);
 
-  // Upload creator's recording and process both tracks
-  const uploadRecordings = useCallback(async (localBlob: Blob) => {
-    if (!roomId) return;
+  // Upload creator's recording and hand it to the server's processing queue
+  const uploadRecordings = useCallback(async () => {
+    const uploader = uploaderRef.current;
+    if (!roomId || !uploader) return;
     setIsUploading(true);
-    setFailedUploadBlobs(null);
+    setUploadFailed(false);
 
-    let processedFolder: string | null = null;
     let creatorUploadOk = false;
 
-    // Step 1: Upload and process creator's track
+    // Step 1: Send the last part of creator's track, finalize it and queue it for processing
     try {
-      const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-      const duration = finalDurationRef.current;
-
-      const localUrlRes = await apiRequest("POST", "/api/recordings/upload-url", {
-        roomId,
-        fileName: `local-${timestamp}.webm`,
-        duration,
-        fileSize: localBlob.size,
-        format: "webm",
-        sampleRate: 48000,
-        channels: 1,
-        recordingType: "local",
-        speakerId: "spk0",
-      });
-      const { uploadUrl: localUploadUrl, recordingId: localRecId } = await localUrlRes.json();
-      await uploadToS3WithRetry(localUploadUrl, localBlob, "audio/webm");
-
-      toast({ title: "Recording uploaded", description: "Processing audio..." });
-      const processRes = await apiRequest("POST", `/api/recordings/${localRecId}/process`);
-      const processData = await processRes.json();
-      processedFolder = processData.processedFolder;
+      await recorderStoppedRef.current;
+      await uploader.finish({ duration: finalDurationRef.current, startedAt: recorderStartedAtRef.current });
+      withLocalCopy(localCopyRef.current, deleteLocalRecording);
       creatorUploadOk = true;
     } catch (err: any) {
-      setFailedUploadBlobs({ local: localBlob });
+      setUploadFailed(true);
       toast({
         title: "Your upload failed",
         description: err.message || "Could not upload your recording. You can retry. Partner's track is still being saved.",
@@ -453,40 +423,22 @@ export default function RoomPage() {
       });
     }
 
-    // Step 2: Always try to process partner's track (their upload already happened independently)
-    try {
-      let partnerRecId = partnerRecordingIdRef.current;
-      if (!partnerRecId) {
-        if (creatorUploadOk) {
-          toast({ title: "Waiting for partner's recording...", description: "Your partner is still uploading." });
-        }
-        const waitStart = Date.now();
-        while (!partnerRecordingIdRef.current && Date.now() - waitStart < 30000) {
-          await new Promise((r) => setTimeout(r, 500));
-        }
-        partnerRecId = partnerRecordingIdRef.current;
+    // Step 2: Give the partner a chance to finish their upload before submitting.
+    // Their track is queued for processing by their own client.
+    if (creatorUploadOk && !partnerRecordingIdRef.current) {
+      toast({ title: "Waiting for partner's recording...", description: "Your partner is still uploading." });
+      const waitStart = Date.now();
+      while (!partnerRecordingIdRef.current && Date.now() - waitStart < 30000) {
+        await new Promise((r) => setTimeout(r, 500));
       }
-
-      if (partnerRecId) {
-        if (processedFolder) {
-          // Creator succeeded — process partner into the same folder
-          await apiRequest("POST", `/api/recordings/${partnerRecId}/process`, { folderNumber: processedFolder });
-        } else {
-          // Creator failed — process partner into its own folder so it's not lost
-          const partnerProcessRes = await apiRequest("POST", `/api/recordings/${partnerRecId}/process`);
-          const partnerData = await partnerProcessRes.json();
-          processedFolder = partnerData.processedFolder;
-        }
-      } else {
+      if (!partnerRecordingIdRef.current) {
         console.warn("Partner recording ID never received");
       }
-    } catch (partnerErr: any) {
-      console.warn("Failed to process partner's track:", partnerErr.message);
     }
 
     // Step 3: Complete task and leave call (only if creator upload succeeded)
     if (creatorUploadOk) {
-      toast({ title: "Recordings processed", description: `Tracks saved to folder ${processedFolder}.` });
+      toast({ title: "Recording uploaded", description: "Your audio is being processed in the background." });
       if (taskSession) {
         completeTaskMutation.mutate(taskSession.id);
       } else {
@@ -505,41 +457,84 @@ export default function RoomPage() {
 
   // Triggered by "End Call & Submit" button (creator only)
   const submitAndEndCall = useCallback(() => {
-    const localBlob = localBlobRef.current;
-    localBlobRef.current = null;
-
-    if (localBlob && localBlob.size > 0) {
-      uploadRecordings(localBlob);
+    if (uploaderRef.current) {
+      uploadRecordings();
     }
   }, [uploadRecordings]);
 
   // Helper: start recording own local mic (used by both creator and partner)
-  const startLocalMicRecording = useCallback(async (): Promise<boolean> => {
+  const startLocalMicRecording = useCallback(async (speakerId: "spk0" | "spk1"): Promise<boolean> => {
+    if (!roomId || !user) return false;
     const mimeType = MediaRecorder.isTypeSupported("audio/webm;codecs=opus")
       ? "audio/webm;codecs=opus"
       : "audio/webm";
 
     try {
-      const localStream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          sampleRate: 48000,
-          channelCount: 1,
-          echoCancellation: false,
-          noiseSuppression: false,
-          autoGainControl: false,
-        },
-      });
+      recorderStartedAtRef.current = null;
+
+      const [clockOffset, localStream] = await Promise.all([
+        estimateServerClockOffset(),
+        navigator.mediaDevices.getUserMedia({
+          audio: {
+            sampleRate: 48000,
+            channelCount: 1,
+            echoCancellation: false,
+            noiseSuppression: false,
+            autoGainControl: false,
+          },
+        }),
+      ]);
       localStreamRef.current = localStream;
 
+      const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+      const isCreatorTrack = speakerId === "spk0";
+      const fileName = `${isCreatorTrack ? "local" : "partner"}-${timestamp}.webm`;
+      const recordingType = isCreatorTrack ? "local" : "remote";
+      const uploader = new MultipartRecordingUpload({
+        roomId,
+        fileName,
+        recordingType,
+        speakerId,
+        contentType: "audio/webm",
+      });
+      uploaderRef.current = uploader;
+
+      const localCopy = createLocalRecording({ kind: "room", userId: user.id, mimeType, fileName, roomId, recordingType, speakerId })
+        .then((r) => r.id)
+        .catch((err) => {
+          console.warn("Recording will not be recoverable if this tab closes:", err);
+          return null;
+        });
+      localCopyRef.current = localCopy;
+
+      // Create the upload up front; if this fails the first part (or finish) tries again
+      uploader
+        .begin()
+        .then((uploadRecordingId) => withLocalCopy(localCopy, (id) => updateLocalRecording(id, { uploadRecordingId })))
+        .catch((err) => console.warn("Could not start upload yet:", err.message));
+
       const localRecorder = new MediaRecorder(localStream, { mimeType });
-      localChunksRef.current = [];
+      let markStopped: () => void = () => {};
+      recorderStoppedRef.current = new Promise((resolve) => {
+        markStopped = resolve;
+      });
 
       localRecorder.ondataavailable = (e) => {
-        if (e.data.size > 0) localChunksRef.current.push(e.data);
+        uploader.addChunk(e.data);
+        withLocalCopy(localCopy, (id) => appendLocalChunk(id, e.data));
+      };
+      localRecorder.onstart = () => {
+        recorderStartedAtRef.current = clockOffset != null ? Date.now() + clockOffset : null;
+        const startedAt = recorderStartedAtRef.current;
+        withLocalCopy(localCopy, (id) => updateLocalRecording(id, { startedAt }));
       };
       localRecorder.onstop = () => {
         localStream.getTracks().forEach((t) => t.stop());
-        localBlobRef.current = new Blob(localChunksRef.current, { type: mimeType });
+        const duration = finalDurationRef.current;
+        withLocalCopy(localCopy, (id) =>
+          updateLocalRecording(id, { stoppedAt: Date.now(), duration, uploadRecordingId: uploader.recordingId }),
+        );
+        markStopped();
       };
       localRecorderRef.current = localRecorder;
       localRecorder.start(1000);
@@ -561,7 +556,7 @@ export default function RoomPage() {
       });
       return false;
     }
-  }, [toast]);
+  }, [roomId, user, toast]);
 
   // Helper: stop local mic recording and compute duration
   const stopLocalMicRecording = useCallback(() => {
@@ -581,10 +576,9 @@ export default function RoomPage() {
   const startRecording = useCallback(async () => {
     if (!callObjectRef.current) return;
 
-    localBlobRef.current = null;
     partnerRecordingIdRef.current = null;
 
-    const ok = await startLocalMicRecording();
+    const ok = await startLocalMicRecording("spk0");
     if (!ok) return;
 
     hasRecordedRef.current = true;
@@ -610,33 +604,18 @@ export default function RoomPage() {
 
   // Partner: upload their local recording as spk1
   const uploadPartnerRecording = useCallback(async () => {
-    // Wait for blob from onstop handler
-    const start = Date.now();
-    while (!localBlobRef.current && Date.now() - start < 5000) {
-      await new Promise((r) => setTimeout(r, 50));
-    }
-
-    const blob = localBlobRef.current;
-    if (!blob || blob.size === 0 || !roomId) return;
+    const uploader = uploaderRef.current;
+    if (!uploader) return;
 
     try {
-      const duration = finalDurationRef.current;
-      const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-      const urlRes = await apiRequest("POST", "/api/recordings/upload-url", {
-        roomId,
-        fileName: `partner-${timestamp}.webm`,
-        duration,
-        fileSize: blob.size,
-        format: "webm",
-        sampleRate: 48000,
-        channels: 1,
-        recordingType: "remote",
-        speakerId: "spk1",
+      await recorderStoppedRef.current;
+      const recordingId = await uploader.finish({
+        duration: finalDurationRef.current,
+        startedAt: recorderStartedAtRef.current,
       });
-      const { uploadUrl, recordingId } = await urlRes.json();
-      await uploadToS3WithRetry(uploadUrl, blob, "audio/webm");
+      withLocalCopy(localCopyRef.current, deleteLocalRecording);
 
-      // Tell creator our recording ID so they can process it
+      // Let the creator know our track is in before they submit
       if (callObjectRef.current) {
         callObjectRef.current.sendAppMessage({ type: "partner-upload-complete", recordingId });
       }
@@ -644,7 +623,7 @@ export default function RoomPage() {
     } catch (err: any) {
       toast({ title: "Upload failed", description: err.message, variant: "destructive" });
     }
-  }, [roomId, toast]);
+  }, [toast]);
 
   // App-message handler — kept in ref to avoid stale closures
   useEffect(() => {
@@ -656,8 +635,7 @@ export default function RoomPage() {
 
       if (data.type === "start-recording" && !isCreator) {
         // Partner: start recording own mic
-        localBlobRef.current = null;
-        startLocalMicRecording().then((ok) => {
+        startLocalMicRecording("spk1").then((ok) => {
           if (ok) {
             hasRecordedRef.current = true;
             toast({ title: "Recording started", description: "Your partner started the recording." });
@@ -669,7 +647,7 @@ export default function RoomPage() {
         toast({ title: "Recording stopped", description: "Uploading your audio..." });
         uploadPartnerRecording();
       } else if (data.type === "partner-upload-complete" && isCreator && data.recordingId) {
-        // Creator: store partner's recording ID for processing
+        // Creator: partner's track is uploaded and queued
         partnerRecordingIdRef.current = data.recordingId;
       }
     };
@@ -921,11 +899,11 @@ export default function RoomPage() {
               </Button>
             ) : isRecording ? (
               null /* Partner sees REC badge in header; no stop button */
-            ) : failedUploadBlobs ? (
+            ) : uploadFailed ? (
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => uploadRecordings(failedUploadBlobs.local)}
+                onClick={() => uploadRecordings()}
                 disabled={isUploading}
                 className="border-orange-500 text-orange-500"
               >
@@ -951,7 +929,7 @@ export default function RoomPage() {
               </Button>
             ) : null}
 
-            {blobsReady && !failedUploadBlobs ? (
+            {blobsReady && !uploadFailed ? (
               <Button
                 variant="destructive"
                 size="sm"
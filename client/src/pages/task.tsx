@@ -3,7 +3,7 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { useParams, useLocation } from "wouter";
 import { useAuthContext } from "@/lib/auth-context";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { TASK_TYPES } from "@shared/schema";
+import { getTaskTypeAvailability, isStaffRole } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -12,6 +12,7 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
 import { NotificationBell } from "@/components/notification-bell";
+import { useTaskTypes } from "@/hooks/use-task-types";
 import {
   Loader2,
   ArrowLeft,
@@ -51,7 +52,8 @@ export default function TaskPage() {
   const [partnerEmail, setPartnerEmail] = useState("");
   const [sessionId, setSessionId] = useState<string | null>(null);
 
-  const taskDef = TASK_TYPES.find((t) => t.id === taskType);
+  const { getTaskType, isLoading: taskTypesLoading } = useTaskTypes();
+  const taskDef = getTaskType(taskType);
 
   // Create or resume task session
   const createSessionMutation = useMutation({
@@ -162,6 +164,14 @@ export default function TaskPage() {
     setLocation("/login");
   };
 
+  if (taskTypesLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
   if (!taskDef) {
     return (
       <div className="flex items-center justify-center min-h-screen bg-background">
@@ -242,7 +252,7 @@ export default function TaskPage() {
           <div className="flex items-center gap-2">
             <span className="text-sm text-muted-foreground hidden sm:inline">{user?.username}</span>
             <NotificationBell />
-            {user?.role === "admin" && (
+            {isStaffRole(user?.role) && (
               <Button variant="outline" size="sm" onClick={() => setLocation("/admin")}>
                 <Shield className="mr-1.5 h-3.5 w-3.5" />
                 Admin
@@ -263,8 +273,8 @@ export default function TaskPage() {
           <p className="text-muted-foreground mt-1">{taskDef.description}</p>
           <div className="flex items-center gap-3 mt-3 text-sm">
             <Badge className="bg-primary/10 text-primary hover:bg-primary/10 font-semibold border-0">
-              {"payType" in taskDef && taskDef.payType === "fixed"
-                ? `$${taskDef.hourlyRate}, one time${"estimatedMinutes" in taskDef ? ` (~${taskDef.estimatedMinutes} min)` : ""}`
+              {taskDef.payType === "fixed"
+                ? `$${taskDef.hourlyRate}, one time${taskDef.estimatedMinutes ? ` (~${taskDef.estimatedMinutes} min)` : ""}`
                 : `$${taskDef.hourlyRate}/hr`}
             </Badge>
             <span className="flex items-center gap-1 text-muted-foreground">
@@ -310,12 +320,12 @@ export default function TaskPage() {
               </ol>
             </div>
 
-            {"sampleAudio" in taskDef && taskDef.sampleAudio && (
+            {taskDef.sampleAudio && (
               <>
                 <Separator />
                 <div className="space-y-2">
                   <h3 className="font-semibold text-sm">Example Recording</h3>
-                  <p className="text-sm text-muted-foreground">{"sampleAudioDescription" in taskDef ? taskDef.sampleAudioDescription : "Listen to a sample to get an idea of what we're looking for."}</p>
+                  <p className="text-sm text-muted-foreground">{taskDef.sampleAudioDescription || "Listen to a sample to get an idea of what we're looking for."}</p>
                   <audio controls className="w-full" preload="metadata">
                     <source src={taskDef.sampleAudio} type="audio/wav" />
                   </audio>
@@ -359,7 +369,11 @@ export default function TaskPage() {
               </ol>
             </div>
 
-            {!hasSession && (
+            {!hasSession && getTaskTypeAvailability(taskDef) !== "available" && (
+              <p className="mt-2 text-sm text-center text-muted-foreground">This task is not currently available.</p>
+            )}
+
+            {!hasSession && getTaskTypeAvailability(taskDef) === "available" && (
               <Button
                 className="mt-2 w-full"
                 onClick={() => createSessionMutation.mutate()}
@@ -0,0 +1,68 @@
+import { useEffect, useRef } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { useAuthContext } from "@/lib/auth-context";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2, CheckCircle2, XCircle } from "lucide-react";
+
+export default function VerifyEmail() {
+  const { user } = useAuthContext();
+  const [, setLocation] = useLocation();
+  const token = new URLSearchParams(window.location.search).get("token");
+
+  const verify = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/verify-email", { token });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+    },
+  });
+
+  // Tokens are single-use, so only ever submit once (effects run twice in development)
+  const submitted = useRef(false);
+  useEffect(() => {
+    if (!token || submitted.current) return;
+    submitted.current = true;
+    verify.mutate();
+  }, [token]);
+
+  const failed = !token || verify.isError;
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gradient-to-br from-background via-background to-primary/5">
+      <Card className="w-full max-w-md mx-4 shadow-lg border-border/50 animate-fade-in">
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-2">
+            {verify.isSuccess ? (
+              <CheckCircle2 className="h-10 w-10 text-green-600" />
+            ) : failed ? (
+              <XCircle className="h-10 w-10 text-destructive" />
+            ) : (
+              <Loader2 className="h-10 w-10 animate-spin text-muted-foreground" />
+            )}
+          </div>
+          <CardTitle>
+            {verify.isSuccess ? "Email verified" : failed ? "Verification failed" : "Verifying your email…"}
+          </CardTitle>
+          <CardDescription>
+            {verify.isSuccess
+              ? "Thanks! Partners can now invite you to recording tasks."
+              : failed
+                ? "This link is invalid or has expired. Sign in to request a new one."
+                : "This only takes a moment."}
+          </CardDescription>
+        </CardHeader>
+        {(verify.isSuccess || failed) && (
+          <CardContent className="flex justify-center">
+            <Button onClick={() => setLocation(user ? "/" : "/login")}>
+              {user ? "Go to Dashboard" : "Sign In"}
+            </Button>
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+
+import { storage } from "./storage";
+import { objectStorage } from "./object-storage";
+import { runFfmpeg } from "./ffmpeg";
+import { readWavInfo } from "./audio-analysis";
+import type { Recording, AlignmentMethod } from "@shared/schema";
+
+/** Tracks are decoded to this rate for correlation — plenty for speech envelopes and ~0.1 ms resolution */
+const ANALYSIS_RATE = 8000;
+/** Only the opening of each track is analysed; the offset is a constant start delay */
+const ANALYSIS_SECONDS = 150;
+/** Envelope frame: 10 ms at the analysis rate */
+const ENVELOPE_FRAME = 80;
+/** Search radius around the client-timestamp estimate, and without one */
+const TIMESTAMP_SEARCH_MS = 1000;
+const BLIND_SEARCH_MS = 10000;
+/** Minimum overlap for a lag to be scored */
+const MIN_OVERLAP_FRAMES = 1000;
+/** Sample-level refinement window around the envelope peak (±10 ms) and its length */
+const REFINE_RADIUS = ENVELOPE_FRAME;
+const REFINE_SECONDS = 30;
+/** Envelope correlation below this is treated as "no shared signal" (e.g. both speakers on headphones) */
+const MIN_XCORR_CONFIDENCE = 0.3;
+
+export interface AlignmentResult {
+  /** Start of spk1 relative to spk0 in ms — positive means spk1 started recording later */
+  offsetMs: number;
+  method: AlignmentMethod;
+  confidence: number | null;
+}
+
+/** Latest processed spk0/spk1 tracks in a room that ended up in the same folder, if both exist */
+export async function findAlignablePair(roomId: string): Promise<[Recording, Recording] | null> {
+  const roomRecordings = await storage.getRecordingsByRoom(roomId);
+  const processed = roomRecordings
+    .filter((r) => r.wavS3Key && r.processedFolder && r.speakerId)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+  const spk0 = processed.find((r) => r.speakerId === "spk0");
+  if (!spk0) return null;
+  const spk1 = processed.find((r) => r.speakerId === "spk1" && r.processedFolder === spk0.processedFolder);
+  return spk1 ? [spk0, spk1] : null;
+}
+
+async function decodeForAnalysis(wavPath: string, rawPath: string): Promise<Int16Array> {
+  await runFfmpeg([
+    "-i", wavPath,
+    "-t", String(ANALYSIS_SECONDS),
+    "-ac", "1",
+    "-ar", String(ANALYSIS_RATE),
+    "-f", "s16le",
+    rawPath,
+  ]);
+  const buf = fs.readFileSync(rawPath);
+  const samples = new Int16Array(Math.floor(buf.length / 2));
+  for (let i = 0; i < samples.length; i++) samples[i] = buf.readInt16LE(i * 2);
+  return samples;
+}
+
+/** Zero-mean, unit-variance amplitude envelope */
+function envelope(samples: Int16Array): Float64Array {
+  const frames = Math.floor(samples.length / ENVELOPE_FRAME);
+  const env = new Float64Array(frames);
+  for (let f = 0; f < frames; f++) {
+    let sum = 0;
+    for (let i = 0; i < ENVELOPE_FRAME; i++) sum += Math.abs(samples[f * ENVELOPE_FRAME + i]);
+    env[f] = Math.log1p(sum / ENVELOPE_FRAME);
+  }
+  let mean = 0;
+  for (let i = 0; i < frames; i++) mean += env[i];
+  mean /= frames || 1;
+  let variance = 0;
+  for (let i = 0; i < frames; i++) variance += (env[i] - mean) * (env[i] - mean);
+  const std = Math.sqrt(variance / (frames || 1)) || 1;
+  for (let i = 0; i < frames; i++) env[i] = (env[i] - mean) / std;
+  return env;
+}
+
+/**
+ * Normalised cross-correlation of a[i] against b[i - lag] for lag in [minLag, maxLag].
+ * Returns the best lag and its correlation coefficient.
+ */
+function bestLag(
+  a: ArrayLike<number>,
+  b: ArrayLike<number>,
+  minLag: number,
+  maxLag: number,
+  minOverlap: number,
+  maxSpan = Infinity,
+): { lag: number; score: number } {
+  let best = { lag: 0, score: -Infinity };
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const start = Math.max(0, lag);
+    const end = Math.min(a.length, b.length + lag, start + maxSpan);
+    if (end - start < minOverlap) continue;
+
+    let dot = 0;
+    let energyA = 0;
+    let energyB = 0;
+    for (let i = start; i < end; i++) {
+      const x = a[i];
+      const y = b[i - lag];
+      dot += x * y;
+      energyA += x * x;
+      energyB += y * y;
+    }
+    const score = energyA > 0 && energyB > 0 ? dot / Math.sqrt(energyA * energyB) : 0;
+    if (score > best.score) best = { lag, score };
+  }
+  return best;
+}
+
+/** Estimate the start offset between two tracks from their audio, seeded by client timestamps when present */
+function estimateOffset(spk0: Int16Array, spk1: Int16Array, timestampOffsetMs: number | null): AlignmentResult {
+  const env0 = envelope(spk0);
+  const env1 = envelope(spk1);
+  const msPerFrame = (ENVELOPE_FRAME / ANALYSIS_RATE) * 1000;
+
+  const centerFrames = timestampOffsetMs != null ? Math.round(timestampOffsetMs / msPerFrame) : 0;
+  const radiusFrames = Math.round((timestampOffsetMs != null ? TIMESTAMP_SEARCH_MS : BLIND_SEARCH_MS) / msPerFrame);
+  const coarse = bestLag(env0, env1, centerFrames - radiusFrames, centerFrames + radiusFrames, MIN_OVERLAP_FRAMES);
+
+  if (coarse.score >= MIN_XCORR_CONFIDENCE) {
+    const centerSamples = coarse.lag * ENVELOPE_FRAME;
+    const fine = bestLag(
+      spk0,
+      spk1,
+      centerSamples - REFINE_RADIUS,
+      centerSamples + REFINE_RADIUS,
+      ANALYSIS_RATE,
+      REFINE_SECONDS * ANALYSIS_RATE,
+    );
+    const lagSamples = fine.score > -Infinity ? fine.lag : centerSamples;
+    return { offsetMs: (lagSamples / ANALYSIS_RATE) * 1000, method: "xcorr", confidence: coarse.score };
+  }
+
+  const confidence = coarse.score > -Infinity ? coarse.score : null;
+  if (timestampOffsetMs != null) {
+    return { offsetMs: timestampOffsetMs, method: "timestamps", confidence };
+  }
+  return { offsetMs: 0, method: "none", confidence };
+}
+
+async function writeAlignedWav(inputPath: string, outputPath: string, startSample: number, sampleCount: number) {
+  await runFfmpeg([
+    "-i", inputPath,
+    "-af", `atrim=start_sample=${startSample}:end_sample=${startSample + sampleCount},asetpts=PTS-STARTPTS`,
+    "-c:a", "pcm_s16le",
+    outputPath,
+  ]);
+}
+
+function alignedKey(wavS3Key: string) {
+  return wavS3Key.replace(/\.wav$/, "_aligned.wav");
+}
+
+/**
+ * Align the two speaker tracks of a room: estimate the offset, trim the track that
+ * started early, cut both to the common length and upload `*_aligned.wav` next to
+ * the originals. Returns null if the room doesn't have both tracks processed yet.
+ */
+export async function alignRoomTracks(roomId: string): Promise<AlignmentResult | null> {
+  const pair = await findAlignablePair(roomId);
+  if (!pair) return null;
+  const [spk0, spk1] = pair;
+
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "align-"));
+  const wav0 = path.join(tmpDir, "spk0.wav");
+  const wav1 = path.join(tmpDir, "spk1.wav");
+  const out0 = path.join(tmpDir, "spk0_aligned.wav");
+  const out1 = path.join(tmpDir, "spk1_aligned.wav");
+
+  try {
+    fs.writeFileSync(wav0, await objectStorage.download(spk0.wavS3Key!));
+    fs.writeFileSync(wav1, await objectStorage.download(spk1.wavS3Key!));
+
+    const timestampOffsetMs =
+      spk0.clientStartedAt && spk1.clientStartedAt
+        ? new Date(spk1.clientStartedAt).getTime() - new Date(spk0.clientStartedAt).getTime()
+        : null;
+
+    const result = estimateOffset(
+      await decodeForAnalysis(wav0, path.join(tmpDir, "spk0.raw")),
+      await decodeForAnalysis(wav1, path.join(tmpDir, "spk1.raw")),
+      timestampOffsetMs,
+    );
+    console.log(
+      `Alignment for room ${roomId}: spk1 offset ${result.offsetMs.toFixed(1)} ms via ${result.method}` +
+        (result.confidence != null ? ` (confidence ${result.confidence.toFixed(3)})` : ""),
+    );
+
+    const info0 = readWavInfo(wav0);
+    const info1 = readWavInfo(wav1);
+    const trim0Ms = Math.max(result.offsetMs, 0);
+    const trim1Ms = Math.max(-result.offsetMs, 0);
+    const start0 = Math.round((trim0Ms / 1000) * info0.sampleRate);
+    const start1 = Math.round((trim1Ms / 1000) * info1.sampleRate);
+    const length = Math.max(0, Math.min(info0.totalSamples - start0, info1.totalSamples - start1));
+    if (length === 0) {
+      throw new Error(`Tracks do not overlap after applying a ${result.offsetMs} ms offset`);
+    }
+
+    await writeAlignedWav(wav0, out0, start0, length);
+    await writeAlignedWav(wav1, out1, start1, length);
+
+    const aligned0 = alignedKey(spk0.wavS3Key!);
+    const aligned1 = alignedKey(spk1.wavS3Key!);
+    await objectStorage.upload(aligned0, fs.readFileSync(out0), "audio/wav");
+    await objectStorage.upload(aligned1, fs.readFileSync(out1), "audio/wav");
+
+    const confidence = result.confidence != null ? Math.round(result.confidence * 1000) / 1000 : null;
+    await storage.updateRecording(spk0.id, {
+      alignmentOffsetMs: trim0Ms,
+      alignmentMethod: result.method,
+      alignmentConfidence: confidence,
+      alignedWavS3Key: aligned0,
+    });
+    await storage.updateRecording(spk1.id, {
+      alignmentOffsetMs: trim1Ms,
+      alignmentMethod: result.method,
+      alignmentConfidence: confidence,
+      alignedWavS3Key: aligned1,
+    });
+
+    return result;
+  } finally {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,475 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startTestApp, type TestApp, type TestClient } from "./test-support/test-app";
+
+let app: TestApp;
+let admin: TestClient;
+
+const PASSWORD = "correct-horse";
+const TASK_TYPE = "paired-conversation";
+
+const ONBOARDING = {
+  firstName: "Ada",
+  lastName: "Lovelace",
+  phoneNumber: "+44 20 0000 0000",
+  gender: "female",
+  age: 36,
+  primaryLanguage: "English",
+  countryOfEducation: "GB",
+  countryOfResidence: "GB",
+  occupation: "Mathematician",
+};
+
+async function register(email: string, extra: Record<string, unknown> = {}): Promise<TestClient> {
+  const client = app.client();
+  const res = await client.post("/api/auth/register", { username: email, password: PASSWORD, ...extra });
+  assert.equal(res.status, 201, JSON.stringify(res.body));
+  return client;
+}
+
+async function userId(email: string): Promise<string> {
+  return (await app.storage.getUserByUsername(email))!.id;
+}
+
+/**
+ * The token from the newest link of this kind emailed to `email`. The outbox only keeps a
+ * placeholder, so this delivers the message and reads the link from what was sent.
+ */
+async function emailedToken(email: string, template: "email_verification" | "password_reset"): Promise<string> {
+  const queued = (await app.storage.getOutboxEmails()).find((e) => e.toAddress === email && e.template === template);
+  assert.ok(queued, `no ${template} email for ${email}`);
+  const { deliverOutboxEmail } = await import("./email");
+  let text = "";
+  await deliverOutboxEmail(queued.id, { finalAttempt: false }, {
+    name: "capture",
+    send: async (message) => {
+      text = message.text;
+      return { messageId: null };
+    },
+  });
+  const link = text.match(/https?:\/\/\S+token=\S+/);
+  assert.ok(link, `no link delivered in ${template} email for ${email}`);
+  return new URL(link[0]).searchParams.get("token")!;
+}
+
+async function verifyEmail(email: string) {
+  const res = await app.client().post("/api/auth/verify-email", { token: await emailedToken(email, "email_verification") });
+  assert.equal(res.status, 200, JSON.stringify(res.body));
+}
+
+async function approve(email: string) {
+  const res = await admin.patch(`/api/admin/users/${await userId(email)}/approve`);
+  assert.equal(res.status, 200);
+}
+
+/** Upload a track through the signed URL and report it finished, as the room page does */
+async function uploadTrack(client: TestClient, roomId: string, speakerId: string): Promise<string> {
+  const body = Buffer.alloc(2048, 1);
+  const urlRes = await client.post("/api/recordings/upload-url", {
+    roomId,
+    fileName: `${speakerId}.webm`,
+    fileSize: body.length,
+    duration: 60_000,
+    recordingType: speakerId === "spk0" ? "local" : "remote",
+    speakerId,
+  });
+  assert.equal(urlRes.status, 200);
+  assert.equal(await client.upload(urlRes.body.uploadUrl, body, "audio/webm"), 200);
+
+  const complete = await client.post(`/api/recordings/${urlRes.body.recordingId}/upload-complete`);
+  assert.equal(complete.status, 202);
+  return urlRes.body.recordingId;
+}
+
+before(async () => {
+  // Every client here signs up from 127.0.0.1; rate-limit.test.ts covers the real limits
+  process.env.RATE_LIMITS = JSON.stringify({ register: { ip: { limit: 1000 } } });
+  app = await startTestApp();
+  admin = await register("admin@example.com");
+  await app.storage.updateUser(await userId("admin@example.com"), { role: "admin", approved: true });
+
+  // The seeded catalog is all paused or expired, so add a task that's open
+  const created = await admin.post("/api/admin/task-types", {
+    id: TASK_TYPE,
+    name: "Paired Conversation",
+    description: "Talk with your partner.",
+    instructions: ["Find a quiet room."],
+    hourlyRate: 30,
+  });
+  assert.equal(created.status, 201);
+});
+
+after(async () => {
+  await app.close();
+});
+
+test("registration with a referral code credits the referrer", async () => {
+  const referrer = await register("referrer@example.com");
+  await approve("referrer@example.com");
+
+  const { body: code } = await referrer.post("/api/referrals/code");
+  assert.equal(code.link, `http://app.test/invite/${code.code}`);
+  assert.equal((await app.client().get(`/api/referrals/validate/${code.code}`)).status, 200);
+
+  await register("friend@example.com", { referralCode: code.code });
+
+  const friend = await app.storage.getUserByUsername("friend@example.com");
+  assert.equal(friend!.referredBy, await userId("referrer@example.com"));
+  const { body: notifications } = await referrer.get("/api/notifications");
+  assert.equal(notifications[0].type, "referral_registered");
+
+  const duplicate = await app.client().post("/api/auth/register", { username: "friend@example.com", password: PASSWORD });
+  assert.equal(duplicate.status, 409);
+});
+
+test("onboarding is saved on the user and unapproved users are kept out", async () => {
+  const client = await register("newcomer@example.com");
+
+  assert.equal((await client.post("/api/auth/onboarding", { firstName: "" })).status, 400);
+  const res = await client.post("/api/auth/onboarding", ONBOARDING);
+  assert.equal(res.status, 200);
+  assert.equal(res.body.onboardingData.firstName, "Ada");
+
+  const { body: me } = await client.get("/api/auth/me");
+  assert.ok(me.onboardingCompletedAt);
+  assert.equal(me.approved, false);
+  assert.equal((await client.post("/api/rooms", {})).status, 403);
+  assert.equal((await client.get("/api/admin/users")).status, 403);
+
+  // Logging in again picks the saved profile back up
+  const again = app.client();
+  assert.equal((await again.post("/api/auth/login", { username: "newcomer@example.com", password: "wrong-password" })).status, 401);
+  const login = await again.post("/api/auth/login", { username: "newcomer@example.com", password: PASSWORD });
+  assert.equal(login.status, 200);
+  assert.equal(login.body.onboardingData.lastName, "Lovelace");
+});
+
+test("blocking a user deletes them along with their onboarding jobs", async () => {
+  const client = await register("spammer@example.com");
+  const id = await userId("spammer@example.com");
+  const { body: sample } = await client.post("/api/onboarding/sample-upload-url", {
+    promptIndex: 0,
+    promptText: "Read this aloud.",
+    fileName: "0.webm",
+  });
+  assert.equal((await client.post(`/api/onboarding/samples/${sample.sampleId}/upload-complete`)).status, 202);
+  assert.ok((await app.storage.getJobs()).some((j) => j.userId === id));
+
+  const res = await admin.patch(`/api/admin/users/${id}/reject-block`);
+  assert.equal(res.status, 200, JSON.stringify(res.body));
+  assert.equal(await app.storage.getUserById(id), undefined);
+  assert.ok(!(await app.storage.getJobs()).some((j) => j.userId === id));
+  assert.equal((await app.client().post("/api/auth/register", { username: "spammer@example.com", password: PASSWORD })).status, 403);
+});
+
+test("deleting a staff account keeps the task versions it wrote", async () => {
+  const editor = await register("editor@example.com");
+  const id = await userId("editor@example.com");
+  await app.storage.updateUser(id, { role: "admin", approved: true });
+  const created = await editor.post("/api/admin/task-types", {
+    id: "editor-task",
+    name: "Editor Task",
+    description: "Written by a staff member who later leaves.",
+    instructions: ["Say hello."],
+    hourlyRate: 20,
+  });
+  assert.equal(created.status, 201);
+  assert.equal((await app.storage.getTaskTypeVersion("editor-task", 1))?.createdBy, id);
+
+  const superadmin = await register("head-of-data@example.com");
+  await app.storage.updateUser(await userId("head-of-data@example.com"), { role: "superadmin", approved: true });
+  assert.equal((await superadmin.patch(`/api/admin/users/${id}/reject-block`)).status, 200);
+  const version = await app.storage.getTaskTypeVersion("editor-task", 1);
+  assert.ok(version);
+  assert.equal(version.createdBy, null);
+});
+
+test("rooms are created through Daily and hand out meeting tokens", async () => {
+  const host = await register("host@example.com");
+  await approve("host@example.com");
+
+  const created = await host.post("/api/rooms", { name: "Practice Room" });
+  assert.equal(created.status, 201);
+  assert.match(created.body.name, /^Practice-Room-/);
+  const dailyRequest = app.daily.state.requests.filter((r) => r.path === "/rooms").pop();
+  assert.equal(dailyRequest?.body.name, created.body.name);
+
+  const token = await host.post(`/api/rooms/${created.body.id}/token`);
+  assert.equal(token.status, 200);
+  assert.equal(token.body.token, `token-for-${created.body.name}`);
+  assert.equal(token.body.provider, "daily");
+  assert.deepEqual((await host.get("/api/rooms")).body.map((r: any) => r.id), [created.body.id]);
+
+  // The call itself is only for the room's members and staff
+  const guest = await register("guest@example.com");
+  await approve("guest@example.com");
+  for (const client of [host, guest, admin]) {
+    const expected = client === guest ? 404 : 200;
+    assert.equal((await client.get(`/api/rooms/${created.body.id}/participants`)).status, expected);
+    assert.equal((await client.post(`/api/rooms/${created.body.id}/token`)).status, expected);
+  }
+  assert.equal((await host.post(`/api/rooms/${created.body.id}/invite`, { email: "guest@example.com" })).status, 201);
+  assert.equal((await guest.get(`/api/rooms/${created.body.id}/participants`)).status, 200);
+  assert.equal((await guest.post(`/api/rooms/${created.body.id}/token`)).status, 200);
+});
+
+test("a partner task goes from invitation to review, and through admin reject and approve", async () => {
+  const creator = await register("creator@example.com");
+  await approve("creator@example.com");
+  await creator.post("/api/auth/onboarding", ONBOARDING);
+
+  // Invite a partner who hasn't signed up yet
+  const { body: session } = await creator.post("/api/task-sessions", { taskType: TASK_TYPE });
+  const invited = await creator.post(`/api/task-sessions/${session.id}/invite-partner`, { email: "partner@example.com" });
+  assert.equal(invited.body.partnerStatus, "invited");
+  const [inviteEmail] = await app.storage.getOutboxEmails();
+  assert.equal(inviteEmail.template, "task_partner_invitation");
+  assert.equal(inviteEmail.toAddress, "partner@example.com");
+  assert.equal((await creator.post(`/api/task-sessions/${session.id}/create-room`)).status, 400);
+
+  // Signing up isn't enough: verifying the address links them; approval makes it ready to record
+  const partner = await register("partner@example.com");
+  let { body: current } = await creator.get(`/api/task-sessions/${session.id}`);
+  assert.equal(current.status, "inviting_partner");
+  await verifyEmail("partner@example.com");
+  ({ body: current } = await creator.get(`/api/task-sessions/${session.id}`));
+  assert.equal(current.status, "waiting_approval");
+  assert.equal(current.partnerId, await userId("partner@example.com"));
+
+  await approve("partner@example.com");
+  ({ body: current } = await creator.get(`/api/task-sessions/${session.id}`));
+  assert.equal(current.status, "ready_to_record");
+  const creatorNotifications = (await creator.get("/api/notifications")).body.map((n: any) => n.type);
+  assert.ok(creatorNotifications.includes("partner_registered"));
+  assert.ok(creatorNotifications.includes("partner_approved"));
+
+  const withRoom = await creator.post(`/api/task-sessions/${session.id}/create-room`);
+  assert.equal(withRoom.status, 201);
+  assert.equal(withRoom.body.status, "room_created");
+  const roomId = withRoom.body.roomId;
+
+  const { body: invitations } = await partner.get("/api/invitations/pending");
+  assert.equal(invitations.length, 1);
+  assert.equal(invitations[0].roomId, roomId);
+  assert.equal(invitations[0].inviterEmail, "creator@example.com");
+
+  // Both tracks upload; the session can't go to review until they're verified
+  const creatorTrack = await uploadTrack(creator, roomId, "spk0");
+  const partnerTrack = await uploadTrack(partner, roomId, "spk1");
+  const verifyJob = await app.storage.getLatestJobByKey("verify_upload", `verify:${creatorTrack}`);
+  assert.equal(verifyJob?.status, "queued");
+
+  const early = await creator.patch(`/api/task-sessions/${session.id}/complete`);
+  assert.equal(early.status, 409);
+  assert.deepEqual(early.body.tracks.map((t: any) => t.problem), ["pending", "pending"]);
+
+  // Stand in for the verify_upload job, which needs ffprobe
+  for (const id of [creatorTrack, partnerTrack]) {
+    await app.storage.updateRecording(id, { verificationStatus: "verified", verifiedAt: new Date() });
+  }
+  const submitted = await creator.patch(`/api/task-sessions/${session.id}/complete`);
+  assert.equal(submitted.status, 200);
+  assert.equal(submitted.body.status, "pending_review");
+
+  // Reject sends it back to the room, approve completes it
+  const rejected = await admin.patch(`/api/admin/task-sessions/${session.id}/reject`);
+  assert.equal(rejected.body.status, "room_created");
+  assert.equal((await admin.patch(`/api/admin/task-sessions/${session.id}/approve`)).status, 400);
+
+  await creator.patch(`/api/task-sessions/${session.id}/complete`);
+  const approved = await admin.patch(`/api/admin/task-sessions/${session.id}/approve`);
+  assert.equal(approved.status, 200);
+  assert.equal(approved.body.status, "completed");
+
+  const types = (await creator.get("/api/notifications")).body.map((n: any) => n.type);
+  assert.ok(types.includes("recording_rejected"));
+  assert.equal(types[0], "recording_approved");
+
+  const { body: adminSessions } = await admin.get("/api/admin/task-sessions");
+  const listed = adminSessions.find((s: any) => s.id === session.id);
+  assert.equal(listed.userEmail, "creator@example.com");
+  assert.equal(listed.recordings.length, 2);
+});
+
+test("uploads that never reached storage are refused", async () => {
+  const client = await register("flaky@example.com");
+  await approve("flaky@example.com");
+  const { body: room } = await client.post("/api/rooms", {});
+
+  const urlRes = await client.post("/api/recordings/upload-url", {
+    roomId: room.id,
+    fileName: "lost.webm",
+    recordingType: "local",
+    speakerId: "spk0",
+  });
+  const complete = await client.post(`/api/recordings/${urlRes.body.recordingId}/upload-complete`);
+  assert.equal(complete.status, 400);
+  assert.equal(complete.body.error, "Upload not found in storage");
+});
+
+test("a recording and what's derived from it are only readable by its owner and staff", async () => {
+  const owner = await register("owner@example.com");
+  await approve("owner@example.com");
+  const stranger = await register("stranger@example.com");
+  const { body: room } = await owner.post("/api/rooms", {});
+  const recordingId = await uploadTrack(owner, room.id, "spk0");
+  await app.storage.updateRecording(recordingId, {
+    wavS3Key: `processed/${recordingId}.wav`,
+    alignedWavS3Key: `processed/${recordingId}-aligned.wav`,
+  });
+  await app.storage.upsertRecordingArtifact({ recordingId, profile: "wav-16k-16", s3Key: `processed/${recordingId}-16k.wav` });
+  const { objectStorage } = await import("./object-storage");
+  await objectStorage.upload(`processed/${recordingId}.peaks.json`, Buffer.from("[]"), "application/json");
+  await app.storage.updateRecording(recordingId, { peaksS3Key: `processed/${recordingId}.peaks.json`, speechMs: 1000 });
+  await app.storage.replaceRecordingSegments(recordingId, [{ startMs: 0, endMs: 1000 }]);
+  await app.storage.upsertTranscript({ recordingId, provider: "mock", language: "en", text: "Hello there.", words: [] });
+
+  for (const path of [
+    `/api/recordings/${recordingId}/download`,
+    `/api/recordings/${recordingId}/download-wav`,
+    `/api/recordings/${recordingId}/download-aligned`,
+    `/api/recordings/${recordingId}/artifacts/wav-16k-16/download`,
+    `/api/recordings/${recordingId}/waveform`,
+    `/api/recordings/${recordingId}/segments`,
+    `/api/recordings/${recordingId}/transcript`,
+  ]) {
+    assert.equal((await owner.get(path)).status, 200, path);
+    assert.equal((await admin.get(path)).status, 200, path);
+    assert.equal((await stranger.get(path)).status, 404, path);
+  }
+});
+
+test("each room gets one processed folder, however its tracks are claimed", async () => {
+  const client = await register("archivist@example.com");
+  await approve("archivist@example.com");
+  const newRoom = async () => (await client.post("/api/rooms", {})).body.id as string;
+  const { resolveProcessedFolder } = await import("./process-recording");
+
+  // Both partners' tracks processed at once
+  const shared = await newRoom();
+  const [first, second] = await Promise.all([resolveProcessedFolder(shared), resolveProcessedFolder(shared)]);
+  assert.deepEqual(first, second);
+  assert.equal((await app.storage.getProcessedFolderByRoom(shared))?.name, first.folderName);
+  const [a, b] = await Promise.all([app.storage.claimProcessedFolder(shared, null), app.storage.claimProcessedFolder(shared, null)]);
+  assert.equal(a.id, b.id);
+
+  const other = await resolveProcessedFolder(await newRoom());
+  assert.notEqual(other.folderNumber, first.folderNumber);
+
+  const overridden = await resolveProcessedFolder(await newRoom(), "420");
+  assert.equal(overridden.folderNumber, "0420");
+
+  // Rooms processed before claims existed keep the folder their tracks already use
+  const legacyRoom = await newRoom();
+  const recordingId = await uploadTrack(client, legacyRoom, "spk0");
+  await app.storage.updateRecording(recordingId, { processedFolder: "0007_ab12_cd34" });
+  assert.deepEqual(await resolveProcessedFolder(legacyRoom, "999"), { folderName: "0007_ab12_cd34", folderNumber: "0007" });
+  assert.equal(await app.storage.getProcessedFolderByRoom(legacyRoom), undefined);
+});
+
+test("registered users verify their email before they can be invited as a partner", async () => {
+  const inviter = await register("inviter@example.com");
+  await approve("inviter@example.com");
+  const invitee = await register("invitee@example.com");
+  assert.equal((await invitee.get("/api/auth/me")).body.emailVerifiedAt, null);
+
+  const { body: session } = await inviter.post("/api/task-sessions", { taskType: TASK_TYPE });
+  const refused = await inviter.post(`/api/task-sessions/${session.id}/invite-partner`, { email: "invitee@example.com" });
+  assert.equal(refused.status, 400);
+  assert.match(refused.body.error, /verified/);
+
+  // Links are single-use; a resent one works on its own
+  assert.equal((await invitee.post("/api/auth/resend-verification")).status, 200);
+  const token = await emailedToken("invitee@example.com", "email_verification");
+  assert.equal((await invitee.post("/api/auth/verify-email", { token })).status, 200);
+  assert.equal((await invitee.post("/api/auth/verify-email", { token })).status, 400);
+  assert.ok((await invitee.get("/api/auth/me")).body.emailVerifiedAt);
+  assert.equal((await invitee.post("/api/auth/resend-verification")).status, 400);
+
+  const invited = await inviter.post(`/api/task-sessions/${session.id}/invite-partner`, { email: "invitee@example.com" });
+  assert.equal(invited.status, 200);
+  assert.equal(invited.body.status, "waiting_approval");
+});
+
+test("a forgotten password is reset once through the emailed link", async () => {
+  const oldSession = await register("forgetful@example.com");
+  const outboxSize = (await app.storage.getOutboxEmails()).length;
+
+  // Unknown addresses get the same answer and no email
+  const unknown = await app.client().post("/api/auth/forgot-password", { username: "nobody@example.com" });
+  assert.equal(unknown.status, 200);
+  assert.equal((await app.storage.getOutboxEmails()).length, outboxSize);
+
+  assert.equal((await app.client().post("/api/auth/forgot-password", { username: "forgetful@example.com" })).status, 200);
+  const token = await emailedToken("forgetful@example.com", "password_reset");
+
+  assert.equal((await app.client().post("/api/auth/reset-password", { token: "not-a-token", password: "new-password" })).status, 400);
+  assert.equal((await oldSession.get("/api/auth/me")).status, 200);
+  assert.equal((await app.client().post("/api/auth/reset-password", { token, password: "new-password" })).status, 200);
+  // Whoever was signed in with the old password is signed out
+  assert.equal((await oldSession.get("/api/auth/me")).status, 401);
+  assert.equal((await app.client().post("/api/auth/reset-password", { token, password: "another-one" })).status, 400);
+
+  const login = (password: string) => app.client().post("/api/auth/login", { username: "forgetful@example.com", password });
+  assert.equal((await login(PASSWORD)).status, 401);
+  const loggedIn = await login("new-password");
+  assert.equal(loggedIn.status, 200);
+  // Getting the link proved they own the address
+  assert.ok(loggedIn.body.emailVerifiedAt);
+});
+
+test("admins reading the outbox can't take over an account through its reset link", async () => {
+  await register("boss@example.com");
+  await app.storage.updateUser(await userId("boss@example.com"), { role: "superadmin", approved: true });
+  assert.equal((await admin.post("/api/auth/forgot-password", { username: "boss@example.com" })).status, 200);
+  const token = await emailedToken("boss@example.com", "password_reset");
+
+  const { body: emails } = await admin.get("/api/admin/emails");
+  const reset = emails.find((e: any) => e.toAddress === "boss@example.com" && e.template === "password_reset");
+  assert.equal(reset.status, "sent");
+  assert.ok(!JSON.stringify(reset).includes(token));
+
+  // Neither the stored link nor its seed works in place of the token
+  const resetPassword = (t: string) => app.client().post("/api/auth/reset-password", { token: t, password: "taken-over" });
+  assert.equal((await resetPassword(new URL(reset.params.resetLink).searchParams.get("token")!)).status, 400);
+  assert.equal((await resetPassword(reset.params.linkTokenSeed)).status, 400);
+  assert.equal((await resetPassword(token)).status, 200);
+});
+
+test("staff roles only reach the admin routes their permissions cover", async () => {
+  const superadmin = await register("superadmin@example.com");
+  await app.storage.updateUser(await userId("superadmin@example.com"), { role: "superadmin", approved: true });
+  const reviewer = await register("reviewer@example.com");
+  await register("recruit@example.com");
+  const reviewerId = await userId("reviewer@example.com");
+
+  // Admins run the site but can't hand out roles
+  assert.equal((await admin.patch(`/api/admin/users/${reviewerId}/role`, { role: "reviewer" })).status, 403);
+  assert.equal((await superadmin.patch(`/api/admin/users/${reviewerId}/role`, { role: "owner" })).status, 400);
+  assert.equal((await superadmin.patch(`/api/admin/users/${await userId("superadmin@example.com")}/role`, { role: "user" })).status, 400);
+  assert.equal((await superadmin.patch("/api/admin/users/no-such-user/role", { role: "reviewer" })).status, 404);
+  const promoted = await superadmin.patch(`/api/admin/users/${reviewerId}/role`, { role: "reviewer" });
+  assert.equal(promoted.status, 200);
+  assert.equal(promoted.body.role, "reviewer");
+
+  // Nor can they block or reset staff, and nobody can do either to themselves
+  const adminId = await userId("admin@example.com");
+  for (const action of ["reject-block", "reject-retry"]) {
+    assert.equal((await admin.patch(`/api/admin/users/${reviewerId}/${action}`)).status, 403);
+    assert.equal((await admin.patch(`/api/admin/users/${await userId("superadmin@example.com")}/${action}`)).status, 403);
+    assert.equal((await admin.patch(`/api/admin/users/${adminId}/${action}`)).status, 400);
+    assert.equal((await superadmin.patch(`/api/admin/users/${await userId("superadmin@example.com")}/${action}`)).status, 400);
+  }
+  assert.ok(await app.storage.getUserById(reviewerId));
+
+  const { body: sessions } = await reviewer.get("/api/admin/task-sessions");
+  assert.ok(Array.isArray(sessions) && sessions.length > 0);
+  assert.equal((await reviewer.get("/api/admin/users")).status, 403);
+  assert.equal((await reviewer.patch(`/api/admin/task-sessions/${sessions[0].id}/paid`, { paid: true })).status, 403);
+  assert.equal((await reviewer.patch(`/api/admin/users/${await userId("recruit@example.com")}/approve`)).status, 403);
+  assert.equal((await reviewer.get("/api/admin/jobs")).status, 403);
+
+  // Back to a plain contributor, the same session loses access straight away
+  assert.equal((await superadmin.patch(`/api/admin/users/${reviewerId}/role`, { role: "user" })).status, 200);
+  assert.equal((await reviewer.get("/api/admin/task-sessions")).status, 403);
+});
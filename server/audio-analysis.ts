@@ -0,0 +1,195 @@
+import * as fs from "node:fs";
+
+import { runFfmpeg, probeDurationMs } from "./ffmpeg";
+import type { AudioQualityMetrics } from "@shared/schema";
+
+/** Analysis window for level statistics */
+const FRAME_MS = 20;
+/** Frames quieter than this count as silence */
+const SILENCE_THRESHOLD_DB = -50;
+/** Floor used for digital-silence frames so logs/percentiles stay finite */
+const MIN_DB = -120;
+/** |sample| at or above this is treated as clipped (int16 full scale minus one LSB) */
+const CLIP_LEVEL = 32766;
+
+export interface WavInfo {
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+  dataOffset: number;
+  dataLength: number;
+}
+
+/** Walk the RIFF chunks to find the fmt and data chunks — ffmpeg may write a LIST chunk in between */
+function readWavHeader(fd: number): WavInfo {
+  const header = Buffer.alloc(12);
+  fs.readSync(fd, header, 0, 12, 0);
+  if (header.toString("ascii", 0, 4) !== "RIFF" || header.toString("ascii", 8, 12) !== "WAVE") {
+    throw new Error("Not a RIFF/WAVE file");
+  }
+
+  let offset = 12;
+  let fmt: Omit<WavInfo, "dataOffset" | "dataLength"> | null = null;
+  const chunkHeader = Buffer.alloc(8);
+
+  while (fs.readSync(fd, chunkHeader, 0, 8, offset) === 8) {
+    const id = chunkHeader.toString("ascii", 0, 4);
+    const size = chunkHeader.readUInt32LE(4);
+    if (id === "fmt ") {
+      const body = Buffer.alloc(16);
+      fs.readSync(fd, body, 0, 16, offset + 8);
+      fmt = {
+        channels: body.readUInt16LE(2),
+        sampleRate: body.readUInt32LE(4),
+        bitsPerSample: body.readUInt16LE(14),
+      };
+    } else if (id === "data") {
+      if (!fmt) throw new Error("WAV data chunk before fmt chunk");
+      return { ...fmt, dataOffset: offset + 8, dataLength: size };
+    }
+    offset += 8 + size + (size % 2);
+  }
+  throw new Error("WAV file has no data chunk");
+}
+
+/** Sample rate and per-channel sample count of a PCM WAV file */
+export function readWavInfo(wavPath: string): WavInfo & { totalSamples: number } {
+  const fd = fs.openSync(wavPath, "r");
+  try {
+    const info = readWavHeader(fd);
+    const bytesPerFrame = (info.bitsPerSample / 8) * info.channels;
+    return { ...info, totalSamples: Math.floor(info.dataLength / bytesPerFrame) };
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * The bytes from `start` to `end` of a file, one block at a time. Analyses run inside the
+ * web process (see startJobWorkers), so the reads are async: requests get served between
+ * blocks instead of waiting for a whole hour-long WAV.
+ */
+export async function* readBlocks(filePath: string, start: number, end: number, blockSize: number): AsyncGenerator<Buffer> {
+  const file = await fs.promises.open(filePath, "r");
+  try {
+    const block = Buffer.alloc(blockSize);
+    let position = start;
+    while (position < end) {
+      const { bytesRead } = await file.read(block, 0, Math.min(block.length, end - position), position);
+      if (bytesRead <= 0) break;
+      position += bytesRead;
+      yield block.subarray(0, bytesRead);
+    }
+  } finally {
+    await file.close();
+  }
+}
+
+/** Let pending I/O (HTTP requests included) run before a long computation continues */
+export function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+function percentile(sorted: Float64Array, p: number): number {
+  if (sorted.length === 0) return MIN_DB;
+  const idx = Math.min(sorted.length - 1, Math.max(0, Math.floor(p * (sorted.length - 1))));
+  return sorted[idx];
+}
+
+/**
+ * Frame-level statistics straight from 16-bit PCM: clipping, silence and an SNR
+ * estimate (loud-frame level vs. quiet-frame level). Reads the file in blocks so
+ * long sessions don't have to fit in memory.
+ */
+async function analysePcm(wavPath: string) {
+  const info = readWavInfo(wavPath);
+  if (info.bitsPerSample !== 16) {
+    throw new Error(`Unsupported WAV bit depth: ${info.bitsPerSample}`);
+  }
+
+  const frameSamples = Math.max(1, Math.round((info.sampleRate * FRAME_MS) / 1000)) * info.channels;
+  const frameBytes = frameSamples * 2;
+  const framesPerBlock = 512;
+  const totalFrames = Math.floor(info.dataLength / frameBytes);
+  const frameDb = new Float64Array(totalFrames);
+
+  let frameIndex = 0;
+  let clipped = 0;
+  let totalSamples = 0;
+  const end = info.dataOffset + totalFrames * frameBytes;
+
+  for await (const block of readBlocks(wavPath, info.dataOffset, end, frameBytes * framesPerBlock)) {
+    for (let f = 0; f + frameBytes <= block.length; f += frameBytes) {
+      let sumSquares = 0;
+      for (let i = 0; i < frameSamples; i++) {
+        const sample = block.readInt16LE(f + i * 2);
+        if (sample >= CLIP_LEVEL || sample <= -CLIP_LEVEL) clipped++;
+        sumSquares += sample * sample;
+      }
+      totalSamples += frameSamples;
+      const rms = Math.sqrt(sumSquares / frameSamples) / 32768;
+      frameDb[frameIndex++] = rms > 0 ? Math.max(MIN_DB, 20 * Math.log10(rms)) : MIN_DB;
+    }
+  }
+
+  let silentFrames = 0;
+  for (let i = 0; i < frameIndex; i++) {
+    if (frameDb[i] < SILENCE_THRESHOLD_DB) silentFrames++;
+  }
+
+  const sorted = frameDb.slice(0, frameIndex).sort();
+  const noiseFloorDb = percentile(sorted, 0.1);
+  const signalDb = percentile(sorted, 0.95);
+
+  return {
+    clippingRatio: totalSamples > 0 ? clipped / totalSamples : 0,
+    silenceRatio: frameIndex > 0 ? silentFrames / frameIndex : 1,
+    noiseFloorDb,
+    snrDb: signalDb - noiseFloorDb,
+  };
+}
+
+/** Integrated loudness (EBU R128) and true peak via ffmpeg's loudnorm analysis pass */
+async function measureLoudness(wavPath: string): Promise<{ loudnessLufs: number | null; truePeakDb: number | null }> {
+  const log = await runFfmpeg([
+    "-hide_banner", "-nostats",
+    "-i", wavPath,
+    "-af", "loudnorm=print_format=json",
+    "-f", "null", "-",
+  ]);
+
+  const jsonStart = log.lastIndexOf("{");
+  const jsonEnd = log.lastIndexOf("}");
+  if (jsonStart === -1 || jsonEnd < jsonStart) {
+    return { loudnessLufs: null, truePeakDb: null };
+  }
+
+  const report = JSON.parse(log.slice(jsonStart, jsonEnd + 1));
+  const parse = (value: unknown) => {
+    const n = parseFloat(String(value));
+    return Number.isFinite(n) ? n : null;
+  };
+  return { loudnessLufs: parse(report.input_i), truePeakDb: parse(report.input_tp) };
+}
+
+/** Measure quality metrics for a processed 16-bit PCM WAV */
+export async function measureAudioQuality(wavPath: string): Promise<AudioQualityMetrics> {
+  const [loudness, probedDurationMs] = await Promise.all([
+    measureLoudness(wavPath),
+    probeDurationMs(wavPath),
+  ]);
+  const pcm = await analysePcm(wavPath);
+
+  const round = (n: number, digits: number) => Math.round(n * Math.pow(10, digits)) / Math.pow(10, digits);
+
+  return {
+    loudnessLufs: loudness.loudnessLufs,
+    truePeakDb: loudness.truePeakDb,
+    clippingRatio: round(pcm.clippingRatio, 6),
+    noiseFloorDb: round(pcm.noiseFloorDb, 2),
+    snrDb: round(pcm.snrDb, 2),
+    silenceRatio: round(pcm.silenceRatio, 4),
+    probedDurationMs,
+    qualityMeasuredAt: new Date(),
+  };
+}
@@ -0,0 +1,85 @@
+import * as crypto from "node:crypto";
+import { storage } from "./storage";
+import { linkTokenFromSeed, sendEmailVerificationEmail, sendPasswordResetEmail } from "./email";
+import type { AuthToken, AuthTokenPurpose, User } from "@shared/schema";
+
+const SIGNING_SECRET = process.env.SESSION_SECRET || "dev-secret-change-in-production";
+
+const TOKEN_LIFETIMES: Record<AuthTokenPurpose, { ms: number; label: string }> = {
+  password_reset: { ms: 60 * 60 * 1000, label: "1 hour" },
+  email_verification: { ms: 48 * 60 * 60 * 1000, label: "48 hours" },
+};
+
+/**
+ * Tokens are looked up by this HMAC, so a copy of the auth_tokens table (a backup, a
+ * read replica) can't be turned back into working links without the session secret.
+ */
+function hashToken(token: string): string {
+  return crypto.createHmac("sha256", SIGNING_SECRET).update(token).digest("hex");
+}
+
+/**
+ * Store a new single-use token for the user. Returns the seed the emailed link's token is
+ * derived from (see linkTokenFromSeed); the token itself is never stored.
+ */
+export async function issueAuthToken(userId: string, purpose: AuthTokenPurpose): Promise<string> {
+  const seed = crypto.randomBytes(32).toString("base64url");
+  await storage.createAuthToken({
+    userId,
+    purpose,
+    tokenHash: hashToken(linkTokenFromSeed(seed)),
+    expiresAt: new Date(Date.now() + TOKEN_LIFETIMES[purpose].ms),
+  });
+  return seed;
+}
+
+/** Use up a token from a link. Undefined if it is unknown, expired, already used or for another purpose */
+export async function consumeAuthToken(token: string, purpose: AuthTokenPurpose): Promise<AuthToken | undefined> {
+  return storage.consumeAuthToken(hashToken(token), purpose);
+}
+
+export async function sendEmailVerification(user: Pick<User, "id" | "username">) {
+  const tokenSeed = await issueAuthToken(user.id, "email_verification");
+  return sendEmailVerificationEmail({
+    to: user.username,
+    tokenSeed,
+    expiresIn: TOKEN_LIFETIMES.email_verification.label,
+  });
+}
+
+export async function sendPasswordReset(user: Pick<User, "id" | "username">) {
+  const tokenSeed = await issueAuthToken(user.id, "password_reset");
+  return sendPasswordResetEmail({
+    to: user.username,
+    tokenSeed,
+    expiresIn: TOKEN_LIFETIMES.password_reset.label,
+  });
+}
+
+/**
+ * Record that the user owns their address, and link any task sessions that invited it as
+ * a partner before they had a verified account.
+ */
+export async function markEmailVerified(user: User): Promise<User> {
+  const verified = await storage.updateUser(user.id, { emailVerifiedAt: new Date() });
+
+  const pendingTaskSessions = await storage.getTaskSessionsByPartnerEmail(verified.username);
+  for (const session of pendingTaskSessions) {
+    await storage.updateTaskSession(session.id, {
+      partnerId: verified.id,
+      partnerStatus: verified.approved ? "approved" : "registered",
+      status: verified.approved ? "ready_to_record" : "waiting_approval",
+    });
+    await storage.createNotification({
+      userId: session.userId,
+      type: "partner_registered",
+      title: "Partner Registered!",
+      message: verified.approved
+        ? `${verified.username} has joined! You can now create a room.`
+        : `${verified.username} has signed up! They are now waiting for admin approval.`,
+      data: { taskSessionId: session.id },
+    });
+  }
+
+  return verified;
+}
@@ -4,10 +4,9 @@ import session from "express-session";
 import connectPgSimple from "connect-pg-simple";
 import bcrypt from "bcrypt";
 import type { Express, Request, Response, NextFunction } from "express";
-import { pool, db } from "./db";
-import { users } from "@shared/schema";
-import { eq } from "drizzle-orm";
-import type { User } from "@shared/schema";
+import { pool } from "./db";
+import { storage, DatabaseStorage } from "./storage";
+import { hasPermission, type Permission, type User } from "@shared/schema";
 
 const SALT_ROUNDS = 12;
 
@@ -23,6 +22,8 @@ declare global {
       samplesCompletedAt: Date | null;
       shortKey: string | null;
       referredBy: string | null;
+      emailVerifiedAt: Date | null;
+      sessionVersion: number;
       createdAt: Date;
     }
   }
@@ -33,9 +34,8 @@ export function setupAuth(app: Express) {
 
   app.use(
     session({
-      store: new PgSession({
-        pool,
-      }),
+      // Sessions live next to the rest of the data; the in-memory storage keeps them in process too
+      store: storage instanceof DatabaseStorage ? new PgSession({ pool }) : undefined,
       secret: process.env.SESSION_SECRET || "dev-secret-change-in-production",
       resave: false,
       saveUninitialized: false,
@@ -54,10 +54,7 @@ export function setupAuth(app: Express) {
   passport.use(
     new LocalStrategy(async (username, password, done) => {
       try {
-        const [user] = await db
-          .select()
-          .from(users)
-          .where(eq(users.username, username));
+        const user = await storage.getUserByUsername(username);
 
         if (!user) {
           return done(null, false, { message: "Invalid username or password" });
@@ -76,13 +73,15 @@ export function setupAuth(app: Express) {
   );
 
   passport.serializeUser((user, done) => {
-    done(null, user.id);
+    done(null, { id: user.id, sessionVersion: user.sessionVersion });
   });
 
-  passport.deserializeUser(async (id: string, done) => {
+  // Sessions from before session versions hold just the id, and count as version 0
+  passport.deserializeUser(async (serialized: string | { id: string; sessionVersion: number }, done) => {
     try {
-      const [user] = await db.select().from(users).where(eq(users.id, id));
-      if (!user) {
+      const { id, sessionVersion } = typeof serialized === "string" ? { id: serialized, sessionVersion: 0 } : serialized;
+      const user = await storage.getUserById(id);
+      if (!user || user.sessionVersion !== sessionVersion) {
         return done(null, false);
       }
       done(null, userToSession(user));
@@ -103,6 +102,8 @@ function userToSession(user: User): Express.User {
     samplesCompletedAt: user.samplesCompletedAt,
     shortKey: user.shortKey,
     referredBy: user.referredBy,
+    emailVerifiedAt: user.emailVerifiedAt,
+    sessionVersion: user.sessionVersion,
     createdAt: user.createdAt,
   };
 }
@@ -124,14 +125,73 @@ export function requireApproved(req: Request, res: Response, next: NextFunction)
   next();
 }
 
-export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+/** Staff routes: the user's role must grant `permission` (see ROLE_PERMISSIONS) */
+export function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    if (!hasPermission(req.user!.role, permission)) {
+      return res.status(403).json({ error: "You don't have permission to do that" });
+    }
+    next();
+  };
+}
+
+/**
+ * Reads of one recording (`:id`) and what was derived from it: only its owner, or staff who
+ * can view sessions. Anyone else gets the same 404 as for an id that doesn't exist.
+ */
+export async function requireRecordingAccess(req: Request, res: Response, next: NextFunction) {
   if (!req.isAuthenticated()) {
     return res.status(401).json({ error: "Authentication required" });
   }
-  if (req.user!.role !== "admin") {
-    return res.status(403).json({ error: "Admin access required" });
+  try {
+    const recording = await storage.getRecordingById(req.params.id as string);
+    if (!recording || (recording.userId !== req.user!.id && !hasPermission(req.user!.role, "sessions.view"))) {
+      return res.status(404).json({ error: "Recording not found" });
+    }
+    next();
+  } catch (error) {
+    console.error("Recording access check error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
+
+/**
+ * A room (`:id`) and its call: only its creator, someone invited to it who hasn't declined,
+ * either member of its task session, or staff who can view sessions. Anyone else gets a 404.
+ */
+export async function requireRoomAccess(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+  if (!req.user!.approved) {
+    return res.status(403).json({ error: "Account not yet approved" });
+  }
+  try {
+    const roomId = req.params.id as string;
+    const userId = req.user!.id;
+    const room = await storage.getRoomById(roomId);
+    if (!room) {
+      return res.status(404).json({ error: "Room not found" });
+    }
+    if (room.createdBy === userId || hasPermission(req.user!.role, "sessions.view")) {
+      return next();
+    }
+    const invitation = await storage.getRoomInvitationForUser(roomId, userId);
+    if (invitation && invitation.status !== "declined") {
+      return next();
+    }
+    const sessions = await storage.getTaskSessionsByRoom(roomId);
+    if (sessions.some((s) => s.userId === userId || s.partnerId === userId)) {
+      return next();
+    }
+    res.status(404).json({ error: "Room not found" });
+  } catch (error) {
+    console.error("Room access check error:", error);
+    res.status(500).json({ error: "Internal server error" });
   }
-  next();
 }
 
 export async function hashPassword(password: string): Promise<string> {
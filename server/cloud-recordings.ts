@@ -0,0 +1,86 @@
+import { storage } from "./storage";
+import { objectStorage } from "./object-storage";
+import { getRawAudioTracks } from "./daily";
+import type { Recording } from "@shared/schema";
+
+/**
+ * Bucket Daily is configured to write raw tracks to (raw-tracks requires a customer bucket).
+ * Unset means our own bucket.
+ */
+const DAILY_RECORDINGS_BUCKET = process.env.DAILY_RECORDINGS_BUCKET || undefined;
+
+/** A local track counts as delivered once its upload was finalized and handed to verification */
+async function hasDeliveredLocalTrack(roomRecordings: Recording[], speakerId: string): Promise<boolean> {
+  for (const rec of roomRecordings) {
+    if (rec.recordingType === "cloud" || rec.speakerId !== speakerId) continue;
+    if (rec.processedFolder || rec.verificationStatus === "verified") return true;
+    if (rec.verificationStatus === "failed") continue;
+    const verifyJob = await storage.getLatestJobByKey("verify_upload", `verify:${rec.id}`);
+    if (verifyJob && verifyJob.status !== "dead") return true;
+    // Uploads finalized before verification existed went straight to processing
+    const processJob = await storage.getLatestJobByKey("process_recording", `recording:${rec.id}`);
+    if (processJob && processJob.status !== "dead") return true;
+  }
+  return false;
+}
+
+/**
+ * Pull a finished Daily raw-tracks recording into our bucket as `recordingType: "cloud"`
+ * rows on the room. Cloud tracks are kept as a redundant capture; only those for a
+ * speaker whose own upload never arrived are returned for processing.
+ */
+export async function ingestDailyRecording(dailyRecordingId: string): Promise<{ ingested: Recording[]; fallbacks: Recording[] }> {
+  const { recording, tracks } = await getRawAudioTracks(dailyRecordingId);
+
+  const room = await storage.getRoomByDailyRoomName(recording.room_name);
+  if (!room) {
+    console.warn(`Daily recording ${dailyRecordingId} is for unknown room ${recording.room_name}`);
+    return { ingested: [], fallbacks: [] };
+  }
+
+  const existing = await storage.getRecordingsByRoom(room.id);
+  const ingested: Recording[] = [];
+
+  for (const track of tracks) {
+    if (!track.userId) {
+      console.warn(`Skipping cloud track ${track.s3Key}: participant ${track.participantId} has no user_id`);
+      continue;
+    }
+
+    const s3Key = `recordings/${room.id}/cloud/${recording.id}/${track.participantId}.webm`;
+    const already = existing.find((r) => r.s3Key === s3Key);
+    if (already) {
+      ingested.push(already);
+      continue;
+    }
+
+    await objectStorage.copy(track.s3Key, s3Key, DAILY_RECORDINGS_BUCKET);
+    const row = await storage.createRecording({
+      roomId: room.id,
+      userId: track.userId,
+      s3Key,
+      s3Bucket: objectStorage.bucket,
+      fileName: `cloud-${recording.id}-${track.participantId}.webm`,
+      duration: Math.round(recording.duration * 1000),
+      fileSize: track.size,
+      format: "webm",
+      sampleRate: 48000,
+      channels: 1,
+      recordingType: "cloud",
+      // The room creator is always spk0, whoever joined them is spk1
+      speakerId: track.userId === room.createdBy ? "spk0" : "spk1",
+      // Daily stamps the recording start on its own (NTP-synced) clock
+      clientStartedAt: new Date(recording.start_ts * 1000),
+    });
+    console.log(`Ingested cloud track ${track.s3Key} → ${s3Key} (${row.speakerId})`);
+    ingested.push(row);
+  }
+
+  const fallbacks: Recording[] = [];
+  for (const row of ingested) {
+    if (!(await hasDeliveredLocalTrack(existing, row.speakerId!))) {
+      fallbacks.push(row);
+    }
+  }
+  return { ingested, fallbacks };
+}
@@ -0,0 +1,111 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import * as crypto from "node:crypto";
+import { startDailyStandIn, type DailyStandIn } from "./test-support/daily-stand-in";
+
+let standIn: DailyStandIn;
+let daily: typeof import("./daily");
+
+const WEBHOOK_SECRET = Buffer.from("daily-webhook-secret").toString("base64");
+
+before(async () => {
+  standIn = await startDailyStandIn();
+  // daily.ts reads its configuration at import time
+  process.env.DAILY_API_URL = standIn.url;
+  process.env.DAILY_API_KEY = standIn.apiKey;
+  process.env.DAILY_WEBHOOK_SECRET = WEBHOOK_SECRET;
+  daily = await import("./daily");
+});
+
+after(async () => {
+  await standIn.close();
+});
+
+test("createDailyRoom enables raw-tracks recording", async () => {
+  const room = await daily.createDailyRoom("Joy Task");
+
+  assert.match(room.name, /^Joy-Task-[a-z0-9]+$/);
+  const request = standIn.state.requests.find((r) => r.path === "/rooms");
+  assert.equal(request?.body.properties.enable_recording, "raw-tracks");
+});
+
+test("createMeetingToken stamps the user id and starts cloud recording", async () => {
+  const token = await daily.createMeetingToken("room-a", new Date(Date.now() + 60_000), "user-1");
+
+  assert.equal(token, "token-for-room-a");
+  const request = standIn.state.requests.filter((r) => r.path === "/meeting-tokens").pop();
+  assert.equal(request?.body.properties.user_id, "user-1");
+  assert.equal(request?.body.properties.start_cloud_recording, true);
+});
+
+test("the RTC provider ends rooms and lists who is present", async () => {
+  standIn.state.presence.set("room-b", [{ id: "p-1", userId: "user-1", joinTime: "2026-01-01T00:00:00.000Z" }]);
+
+  assert.deepEqual(await daily.dailyRtcProvider.listParticipants("room-b"), [
+    { id: "p-1", userId: "user-1", joinedAt: new Date("2026-01-01T00:00:00.000Z") },
+  ]);
+  await daily.dailyRtcProvider.endRoom("room-b");
+  const request = standIn.state.requests.pop();
+  assert.deepEqual([request?.method, request?.path], ["DELETE", "/rooms/room-b"]);
+});
+
+test("getRawAudioTracks keeps audio tracks and attributes them to users", async () => {
+  standIn.state.recordings.set("rec-1", {
+    id: "rec-1",
+    room_name: "room-a",
+    mtgSessionId: "mtg-1",
+    start_ts: 1700000000,
+    status: "finished",
+    duration: 120,
+    tracks: [
+      { participantId: "p-creator", type: "audio", s3Key: "domain/room-a/p-creator-audio.webm", size: 1000 },
+      { participantId: "p-creator", type: "video", s3Key: "domain/room-a/p-creator-video.webm", size: 5000 },
+      { participantId: "p-partner", type: "audio", s3Key: "domain/room-a/p-partner-audio.webm", size: 900 },
+      { participantId: "p-guest", type: "audio", s3Key: "domain/room-a/p-guest-audio.webm", size: 10 },
+    ],
+  });
+  standIn.state.participants.set("mtg-1", [
+    { participant_id: "p-creator", user_id: "user-1" },
+    { participant_id: "p-partner", user_id: "user-2" },
+  ]);
+
+  const { recording, tracks } = await daily.getRawAudioTracks("rec-1");
+
+  assert.equal(recording.room_name, "room-a");
+  assert.deepEqual(
+    tracks.map((t) => [t.participantId, t.userId]),
+    [["p-creator", "user-1"], ["p-partner", "user-2"], ["p-guest", null]],
+  );
+});
+
+test("getRawAudioTracks refuses recordings that are still in progress", async () => {
+  standIn.state.recordings.set("rec-2", {
+    id: "rec-2",
+    room_name: "room-b",
+    mtgSessionId: "mtg-2",
+    start_ts: 1700000000,
+    status: "in-progress",
+    duration: 0,
+    tracks: [],
+  });
+
+  await assert.rejects(daily.getRawAudioTracks("rec-2"), /in-progress/);
+});
+
+test("getRawAudioTracks surfaces API errors", async () => {
+  await assert.rejects(daily.getRawAudioTracks("missing"), /404/);
+});
+
+test("verifyDailyWebhookSignature accepts only correctly signed bodies", () => {
+  const body = JSON.stringify({ type: "recording.ready-to-download", payload: { recording_id: "rec-1" } });
+  const timestamp = "1700000000";
+  const signature = crypto
+    .createHmac("sha256", Buffer.from(WEBHOOK_SECRET, "base64"))
+    .update(`${timestamp}.${body}`)
+    .digest("base64");
+
+  assert.equal(daily.verifyDailyWebhookSignature(body, timestamp, signature), true);
+  assert.equal(daily.verifyDailyWebhookSignature(body + " ", timestamp, signature), false);
+  assert.equal(daily.verifyDailyWebhookSignature(body, "1700000001", signature), false);
+  assert.equal(daily.verifyDailyWebhookSignature(body, timestamp, undefined), false);
+});
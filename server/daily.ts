@@ -1,5 +1,11 @@
-const DAILY_API_URL = "https://api.daily.co/v1";
+import * as crypto from "node:crypto";
+
+import type { RtcProvider } from "./rtc";
+
+// Overridable so tests (and staging) can point at a local stand-in for the Daily REST API
+const DAILY_API_URL = process.env.DAILY_API_URL || "https://api.daily.co/v1";
 const DAILY_API_KEY = process.env.DAILY_API_KEY || "";
+const DAILY_WEBHOOK_SECRET = process.env.DAILY_WEBHOOK_SECRET || "";
 
 const DEFAULT_ROOM_EXPIRY_HOURS = 5;
 
@@ -10,7 +16,7 @@ export function sanitizeRoomName(name: string): string {
     .replace(/^-|-$/g, "");
 }
 
-function generateRoomName(customName?: string): string {
+export function generateRoomName(customName?: string): string {
   const random = Math.random().toString(36).substring(2, 8);
   if (customName && customName.trim()) {
     return `${sanitizeRoomName(customName.trim())}-${random}`;
@@ -60,9 +66,14 @@ export async function createDailyRoom(customName?: string): Promise<{
   };
 }
 
+/**
+ * Meeting token for a room. `userId` is stamped on the participant so cloud recordings
+ * can be attributed back to our users.
+ */
 export async function createMeetingToken(
   roomName: string,
-  expiresAt: Date
+  expiresAt: Date,
+  userId?: string
 ): Promise<string> {
   const exp = Math.floor(expiresAt.getTime() / 1000);
 
@@ -76,6 +87,7 @@ export async function createMeetingToken(
       properties: {
         room_name: roomName,
         exp,
+        ...(userId ? { user_id: userId } : {}),
         eject_at_token_exp: true,
         enable_screenshare: false,
         start_video_off: true,
@@ -98,3 +110,137 @@ export async function createMeetingToken(
   const data = await response.json();
   return data.token;
 }
+
+export async function deleteDailyRoom(roomName: string): Promise<void> {
+  const response = await fetch(`${DAILY_API_URL}/rooms/${encodeURIComponent(roomName)}`, {
+    method: "DELETE",
+    headers: { Authorization: `Bearer ${DAILY_API_KEY}` },
+  });
+
+  // Already gone (expired or deleted) is what we wanted
+  if (!response.ok && response.status !== 404) {
+    const errorText = await response.text();
+    throw new Error(`Daily.co room deletion failed: ${response.status} ${errorText}`);
+  }
+}
+
+async function dailyGet<T>(path: string): Promise<T> {
+  const response = await fetch(`${DAILY_API_URL}${path}`, {
+    headers: { Authorization: `Bearer ${DAILY_API_KEY}` },
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Daily.co GET ${path} failed: ${response.status} ${errorText}`);
+  }
+  return response.json();
+}
+
+export interface DailyRecordingTrack {
+  participantId: string;
+  type: "audio" | "video";
+  /** Object key in the bucket Daily writes raw tracks to */
+  s3Key: string;
+  size: number;
+}
+
+export interface DailyRecording {
+  id: string;
+  room_name: string;
+  mtgSessionId: string;
+  /** Recording start, epoch seconds */
+  start_ts: number;
+  status: "finished" | "in-progress" | "canceled";
+  /** Seconds */
+  duration: number;
+  tracks: DailyRecordingTrack[];
+}
+
+interface DailyMeetingParticipant {
+  participant_id: string;
+  user_id: string | null;
+}
+
+interface DailyPresenceParticipant {
+  id: string;
+  userId: string | null;
+  joinTime: string | null;
+}
+
+export async function getRoomPresence(roomName: string): Promise<DailyPresenceParticipant[]> {
+  const { data } = await dailyGet<{ data: DailyPresenceParticipant[] }>(
+    `/rooms/${encodeURIComponent(roomName)}/presence`
+  );
+  return data;
+}
+
+export async function getDailyRecording(recordingId: string): Promise<DailyRecording> {
+  return dailyGet<DailyRecording>(`/recordings/${encodeURIComponent(recordingId)}`);
+}
+
+export async function getMeetingParticipants(meetingId: string): Promise<DailyMeetingParticipant[]> {
+  const { data } = await dailyGet<{ data: DailyMeetingParticipant[] }>(
+    `/meetings/${encodeURIComponent(meetingId)}/participants`
+  );
+  return data;
+}
+
+/**
+ * Audio tracks of a finished raw-tracks recording, each attributed to the `user_id`
+ * from the participant's meeting token (null for participants who joined without one).
+ */
+export async function getRawAudioTracks(recordingId: string): Promise<{
+  recording: DailyRecording;
+  tracks: (DailyRecordingTrack & { userId: string | null })[];
+}> {
+  const recording = await getDailyRecording(recordingId);
+  if (recording.status !== "finished") {
+    throw new Error(`Daily recording ${recordingId} is ${recording.status}, not finished`);
+  }
+
+  const participants = await getMeetingParticipants(recording.mtgSessionId);
+  const userByParticipant = new Map(participants.map((p) => [p.participant_id, p.user_id]));
+
+  const tracks = recording.tracks
+    .filter((t) => t.type === "audio")
+    .map((t) => ({ ...t, userId: userByParticipant.get(t.participantId) ?? null }));
+  return { recording, tracks };
+}
+
+export const dailyRtcProvider: RtcProvider = {
+  name: "daily",
+  async createRoom(customName) {
+    const room = await createDailyRoom(customName);
+    return { name: room.name, url: room.url, expiresAt: room.expiresAt };
+  },
+  createToken: (room, userId) => createMeetingToken(room.name, room.expiresAt, userId),
+  endRoom: deleteDailyRoom,
+  async listParticipants(roomName) {
+    const presence = await getRoomPresence(roomName);
+    return presence.map((p) => ({
+      id: p.id,
+      userId: p.userId ?? null,
+      joinedAt: p.joinTime ? new Date(p.joinTime) : null,
+    }));
+  },
+};
+
+/**
+ * Check a webhook's `X-Webhook-Signature`: base64 HMAC-SHA256 over `{timestamp}.{body}`,
+ * keyed with the base64-decoded secret Daily issued for the webhook.
+ */
+export function verifyDailyWebhookSignature(
+  rawBody: Buffer | string,
+  timestamp: string | undefined,
+  signature: string | undefined,
+  secret = DAILY_WEBHOOK_SECRET
+): boolean {
+  if (!secret || !timestamp || !signature) return false;
+
+  const expected = crypto
+    .createHmac("sha256", Buffer.from(secret, "base64"))
+    .update(`${timestamp}.${rawBody.toString()}`)
+    .digest();
+  const given = Buffer.from(signature, "base64");
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
@@ -0,0 +1,126 @@
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/**
+ * A named email. Bump `version` whenever the copy changes: the outbox records which version
+ * each message was rendered from, alongside the rendered message itself.
+ */
+export interface EmailTemplate<P extends Record<string, string>> {
+  version: number;
+  description: string;
+  /** Rendered by the admin panel preview */
+  sampleParams: P;
+  render(params: P): RenderedEmail;
+}
+
+function defineTemplate<P extends Record<string, string>>(template: EmailTemplate<P>): EmailTemplate<P> {
+  return template;
+}
+
+/** Params come from users (names, room names), so everything interpolated into HTML goes through this */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function button(href: string, label: string): string {
+  return `<p><a href="${escapeHtml(href)}" style="display:inline-block;padding:12px 24px;background:#000;color:#fff;text-decoration:none;border-radius:6px;">${label}</a></p>
+      <p style="color:#666;font-size:14px;">Or copy this link: ${escapeHtml(href)}</p>`;
+}
+
+export const EMAIL_TEMPLATES = {
+  task_partner_invitation: defineTemplate({
+    version: 1,
+    description: "Sent when a contributor invites a partner who has no account yet",
+    sampleParams: {
+      inviterName: "Ada",
+      taskName: "Whispered Conversation",
+      inviteLink: "https://neon.audio/invite/ABC123",
+    },
+    render: (p) => ({
+      subject: `${p.inviterName} invited you to record on Voice Atlas`,
+      html: `
+      <h2>You've been invited to participate in a recording task</h2>
+      <p><strong>${escapeHtml(p.inviterName)}</strong> wants you to join them for a <strong>"${escapeHtml(p.taskName)}"</strong> recording on Voice Atlas.</p>
+      <p>To get started, create your account using the link below:</p>
+      ${button(p.inviteLink, "Sign Up &amp; Join")}
+    `,
+      text: `${p.inviterName} invited you to join them for a "${p.taskName}" recording on Voice Atlas. Sign up here: ${p.inviteLink}`,
+    }),
+  }),
+
+  room_invitation: defineTemplate({
+    version: 1,
+    description: "Sent when someone is invited into a recording room",
+    sampleParams: {
+      inviterName: "Ada",
+      roomName: "Whispered-Conversation-a1b2c3",
+      joinUrl: "https://neon.audio/room/00000000-0000-0000-0000-000000000000",
+    },
+    render: (p) => ({
+      subject: `${p.inviterName} invited you to a conversation on Voice Atlas`,
+      html: `
+      <h2>You've been invited to a conversation</h2>
+      <p><strong>${escapeHtml(p.inviterName)}</strong> has invited you to join the room <strong>"${escapeHtml(p.roomName)}"</strong>.</p>
+      ${button(p.joinUrl, "Join Room")}
+    `,
+      text: `${p.inviterName} invited you to join "${p.roomName}". Join here: ${p.joinUrl}`,
+    }),
+  }),
+
+  email_verification: defineTemplate({
+    version: 1,
+    description: "Sent after registering, and again on request, to confirm the address",
+    sampleParams: {
+      verifyLink: "https://neon.audio/verify-email?token=sample",
+      expiresIn: "48 hours",
+    },
+    render: (p) => ({
+      subject: "Confirm your email address for Voice Atlas",
+      html: `
+      <h2>Confirm your email address</h2>
+      <p>Thanks for signing up for Voice Atlas. Confirm this is your address so partners can invite you to recording tasks:</p>
+      ${button(p.verifyLink, "Confirm Email")}
+      <p style="color:#666;font-size:14px;">This link expires in ${escapeHtml(p.expiresIn)}. If you didn't create an account, you can ignore this email.</p>
+    `,
+      text: `Confirm your email address for Voice Atlas: ${p.verifyLink}\n\nThis link expires in ${p.expiresIn}. If you didn't create an account, you can ignore this email.`,
+    }),
+  }),
+
+  password_reset: defineTemplate({
+    version: 1,
+    description: "Sent from the forgot password page",
+    sampleParams: {
+      resetLink: "https://neon.audio/reset-password?token=sample",
+      expiresIn: "1 hour",
+    },
+    render: (p) => ({
+      subject: "Reset your Voice Atlas password",
+      html: `
+      <h2>Reset your password</h2>
+      <p>Someone asked to reset the password for your Voice Atlas account. Choose a new one here:</p>
+      ${button(p.resetLink, "Reset Password")}
+      <p style="color:#666;font-size:14px;">This link expires in ${escapeHtml(p.expiresIn)} and can be used once. If you didn't ask for this, you can ignore this email.</p>
+    `,
+      text: `Reset your Voice Atlas password: ${p.resetLink}\n\nThis link expires in ${p.expiresIn} and can be used once. If you didn't ask for this, you can ignore this email.`,
+    }),
+  }),
+};
+
+export type EmailTemplateName = keyof typeof EMAIL_TEMPLATES;
+export type EmailTemplateParams<N extends EmailTemplateName> = (typeof EMAIL_TEMPLATES)[N]["sampleParams"];
+
+export function isEmailTemplateName(name: string): name is EmailTemplateName {
+  return Object.prototype.hasOwnProperty.call(EMAIL_TEMPLATES, name);
+}
+
+export function renderEmailTemplate<N extends EmailTemplateName>(name: N, params: EmailTemplateParams<N>): RenderedEmail {
+  return (EMAIL_TEMPLATES[name] as EmailTemplate<EmailTemplateParams<N>>).render(params);
+}
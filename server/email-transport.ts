@@ -0,0 +1,89 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { SESClient, SendEmailCommand } from "@aws-sdk/client-ses";
+import nodemailer from "nodemailer";
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  /** Hand the message to the provider. Throws if it was not accepted, so the send is retried. */
+  send(message: EmailMessage): Promise<{ messageId: string | null }>;
+}
+
+const sesClient = new SESClient({
+  region: process.env.AWS_REGION || "us-west-2",
+  credentials: {
+    accessKeyId: process.env.AWS_ACCESS_KEY_ID || "",
+    secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || "",
+  },
+});
+
+export const sesEmailTransport: EmailTransport = {
+  name: "ses",
+  async send(message) {
+    const result = await sesClient.send(new SendEmailCommand({
+      Source: message.from,
+      Destination: { ToAddresses: [message.to] },
+      Message: {
+        Subject: { Data: message.subject },
+        Body: {
+          Html: { Data: message.html },
+          Text: { Data: message.text },
+        },
+      },
+    }));
+    return { messageId: result.MessageId ?? null };
+  },
+};
+
+/** Any SMTP relay, configured as a URL: smtp(s)://user:pass@host:port */
+export function createSmtpEmailTransport(url: string): EmailTransport {
+  const transporter = nodemailer.createTransport(url);
+  return {
+    name: "smtp",
+    async send(message) {
+      const info = await transporter.sendMail(message);
+      return { messageId: info.messageId ?? null };
+    },
+  };
+}
+
+/**
+ * Writes each message to `dir` as JSON (plus the HTML body, to open in a browser) and logs
+ * a line to the console. For development and tests, where nothing should leave the machine.
+ */
+export function createFileEmailTransport(dir: string): EmailTransport {
+  dir = path.resolve(dir);
+  let sequence = 0;
+  return {
+    name: "file",
+    async send(message) {
+      const messageId = `${Date.now()}-${++sequence}`;
+      await fs.promises.mkdir(dir, { recursive: true });
+      await fs.promises.writeFile(path.join(dir, `${messageId}.json`), JSON.stringify(message, null, 2));
+      await fs.promises.writeFile(path.join(dir, `${messageId}.html`), message.html);
+      console.log(`Email to ${message.to} written to ${dir}: ${message.subject}`);
+      return { messageId };
+    },
+  };
+}
+
+/** Transport chosen by EMAIL_TRANSPORT; SES unless configured otherwise */
+export function getEmailTransport(): EmailTransport {
+  switch (process.env.EMAIL_TRANSPORT) {
+    case "smtp":
+      return createSmtpEmailTransport(process.env.SMTP_URL || "smtp://localhost:25");
+    case "file":
+      return createFileEmailTransport(process.env.EMAIL_FILE_DIR || "data/emails");
+    case "ses":
+    default:
+      return sesEmailTransport;
+  }
+}
@@ -0,0 +1,94 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { EMAIL_TEMPLATES, renderEmailTemplate, type EmailTemplateName } from "./email-templates";
+import { createFileEmailTransport, type EmailTransport } from "./email-transport";
+
+const outDir = fs.mkdtempSync(path.join(os.tmpdir(), "email-test-"));
+let email: typeof import("./email");
+let storage: typeof import("./storage").storage;
+
+before(async () => {
+  // The outbox needs storage, which picks its driver on import
+  process.env.STORAGE_DRIVER = "memory";
+  email = await import("./email");
+  ({ storage } = await import("./storage"));
+});
+
+after(() => {
+  fs.rmSync(outDir, { recursive: true, force: true });
+});
+
+const failingTransport: EmailTransport = {
+  name: "failing",
+  async send() {
+    throw new Error("Connection refused");
+  },
+};
+
+test("every template renders its sample params", () => {
+  for (const name of Object.keys(EMAIL_TEMPLATES) as EmailTemplateName[]) {
+    const template = EMAIL_TEMPLATES[name];
+    const rendered = renderEmailTemplate(name, template.sampleParams);
+    assert.ok(template.version >= 1, name);
+    assert.ok(rendered.subject && rendered.html && rendered.text, name);
+  }
+});
+
+test("params are escaped in HTML but not in the text part", () => {
+  const rendered = renderEmailTemplate("room_invitation", {
+    inviterName: "<script>alert(1)</script>",
+    roomName: `Tom & Jerry's "room"`,
+    joinUrl: "https://neon.audio/room/1?a=1&b=2",
+  });
+  assert.ok(!rendered.html.includes("<script>"));
+  assert.ok(rendered.html.includes("&lt;script&gt;"));
+  assert.ok(rendered.html.includes("Tom &amp; Jerry&#39;s &quot;room&quot;"));
+  assert.ok(rendered.html.includes('href="https://neon.audio/room/1?a=1&amp;b=2"'));
+  assert.ok(rendered.text.includes(`Tom & Jerry's "room"`));
+});
+
+test("queued emails are stored rendered and delivered by a job", async () => {
+  const queued = await email.queueEmail("task_partner_invitation", "partner@example.com", EMAIL_TEMPLATES.task_partner_invitation.sampleParams);
+  assert.equal(queued.status, "queued");
+  assert.equal(queued.templateVersion, EMAIL_TEMPLATES.task_partner_invitation.version);
+  assert.match(queued.subject, /Ada invited you/);
+
+  const job = await storage.getLatestJobByKey("send_email", `email:${queued.id}`);
+  assert.deepEqual(job?.payload, { emailId: queued.id });
+
+  const sent = await email.deliverOutboxEmail(queued.id, { finalAttempt: false }, createFileEmailTransport(outDir));
+  assert.equal(sent.status, "sent");
+  assert.equal(sent.transport, "file");
+  assert.ok(sent.sentAt);
+
+  const written = JSON.parse(fs.readFileSync(path.join(outDir, `${sent.messageId}.json`), "utf8"));
+  assert.equal(written.to, "partner@example.com");
+  assert.equal(written.html, queued.html);
+
+  // A re-run of the job after it was sent doesn't send again
+  const again = await email.deliverOutboxEmail(queued.id, { finalAttempt: false }, failingTransport);
+  assert.equal(again.status, "sent");
+  assert.equal(again.attempts, 1);
+});
+
+test("failed deliveries are recorded, then marked failed on the last attempt", async () => {
+  const queued = await email.queueEmail("room_invitation", "someone@example.com", EMAIL_TEMPLATES.room_invitation.sampleParams);
+
+  await assert.rejects(email.deliverOutboxEmail(queued.id, { finalAttempt: false }, failingTransport), /Connection refused/);
+  let current = await storage.getOutboxEmailById(queued.id);
+  assert.equal(current?.status, "retrying");
+  assert.equal(current?.attempts, 1);
+  assert.equal(current?.lastError, "Connection refused");
+
+  await assert.rejects(email.deliverOutboxEmail(queued.id, { finalAttempt: true }, failingTransport));
+  current = await storage.getOutboxEmailById(queued.id);
+  assert.equal(current?.status, "failed");
+  assert.equal(current?.attempts, 2);
+
+  const retried = await email.retryOutboxEmail(queued.id);
+  assert.equal(retried.status, "queued");
+  assert.deepEqual((await storage.getOutboxEmails({ status: "failed" })).map((e) => e.id), []);
+});
@@ -1,39 +1,107 @@
-import { SESClient, SendEmailCommand } from "@aws-sdk/client-ses";
-
-const sesClient = new SESClient({
-  region: process.env.AWS_REGION || "us-west-2",
-  credentials: {
-    accessKeyId: process.env.AWS_ACCESS_KEY_ID || "",
-    secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || "",
-  },
-});
+import * as crypto from "node:crypto";
+import { storage } from "./storage";
+import { enqueueJob } from "./jobs";
+import { getEmailTransport, type EmailTransport } from "./email-transport";
+import { EMAIL_TEMPLATES, renderEmailTemplate, type EmailTemplateName, type EmailTemplateParams } from "./email-templates";
+import type { OutboxEmail } from "@shared/schema";
 
+// Named for SES, where it was first used; it is the sender for every transport
 const FROM_EMAIL = process.env.SES_FROM_EMAIL || "noreply@neon.audio";
 const APP_URL = process.env.APP_URL || "https://neon.audio";
+/** With the job queue's backoff this keeps retrying for about an hour */
+const EMAIL_MAX_ATTEMPTS = 8;
+const LINK_TOKEN_SECRET = process.env.SESSION_SECRET || "dev-secret-change-in-production";
+/** Stands in for the token in the stored copy of a link; the real one is filled in when sending */
+const LINK_TOKEN_PLACEHOLDER = "{token}";
 
-async function sendEmail(params: {
-  to: string;
-  subject: string;
-  html: string;
-  text: string;
-}): Promise<void> {
-  const command = new SendEmailCommand({
-    Source: FROM_EMAIL,
-    Destination: { ToAddresses: [params.to] },
-    Message: {
-      Subject: { Data: params.subject },
-      Body: {
-        Html: { Data: params.html },
-        Text: { Data: params.text },
-      },
-    },
+const defaultTransport = getEmailTransport();
+
+/**
+ * The token carried by a password reset or verification link. The outbox keeps only the
+ * seed, so neither admins reading sent mail nor a copy of the database can rebuild a
+ * working link without the session secret.
+ */
+export function linkTokenFromSeed(seed: string): string {
+  return crypto.createHmac("sha256", LINK_TOKEN_SECRET).update(`link:${seed}`).digest("base64url");
+}
+
+/**
+ * Render a template into the outbox and queue its delivery. Resolves once the message is
+ * stored; sending happens in the `send_email` job, which retries failed deliveries.
+ * With `linkTokenSeed`, the `{token}` placeholder in the message becomes the seed's link token.
+ */
+export async function queueEmail<N extends EmailTemplateName>(
+  template: N,
+  to: string,
+  params: EmailTemplateParams<N>,
+  opts: { linkTokenSeed?: string } = {},
+): Promise<OutboxEmail> {
+  const rendered = renderEmailTemplate(template, params);
+  const email = await storage.createOutboxEmail({
+    template,
+    templateVersion: EMAIL_TEMPLATES[template].version,
+    toAddress: to,
+    ...rendered,
+    params: opts.linkTokenSeed ? { ...params, linkTokenSeed: opts.linkTokenSeed } : params,
   });
+  await enqueueJob("send_email", { emailId: email.id }, { key: `email:${email.id}`, maxAttempts: EMAIL_MAX_ATTEMPTS });
+  return email;
+}
+
+/** Queue another delivery of a message that ran out of attempts */
+export async function retryOutboxEmail(emailId: string): Promise<OutboxEmail> {
+  const email = await storage.updateOutboxEmail(emailId, { status: "queued", lastError: null });
+  await enqueueJob("send_email", { emailId }, { key: `email:${emailId}`, maxAttempts: EMAIL_MAX_ATTEMPTS });
+  return email;
+}
+
+/**
+ * Hand an outbox message to the transport. A failure is recorded on the message and
+ * rethrown so the job is retried; `finalAttempt` marks it failed rather than retrying.
+ */
+export async function deliverOutboxEmail(
+  emailId: string,
+  opts: { finalAttempt: boolean },
+  transport: EmailTransport = defaultTransport,
+): Promise<OutboxEmail> {
+  const email = await storage.getOutboxEmailById(emailId);
+  if (!email) {
+    throw new Error(`Email not found: ${emailId}`);
+  }
+  // A job re-run after a crash between sending and completing must not send twice
+  if (email.status === "sent") {
+    return email;
+  }
 
+  const attempts = email.attempts + 1;
+  const seed = email.params.linkTokenSeed;
+  const token = typeof seed === "string" ? linkTokenFromSeed(seed) : null;
+  const withToken = (body: string) => (token ? body.replaceAll(LINK_TOKEN_PLACEHOLDER, token) : body);
   try {
-    await sesClient.send(command);
-    console.log(`Email sent to ${params.to}: ${params.subject}`);
-  } catch (error) {
-    console.error("SES send error:", error);
+    const { messageId } = await transport.send({
+      from: FROM_EMAIL,
+      to: email.toAddress,
+      subject: email.subject,
+      html: withToken(email.html),
+      text: withToken(email.text),
+    });
+    console.log(`Email sent to ${email.toAddress}: ${email.subject}`);
+    return storage.updateOutboxEmail(email.id, {
+      status: "sent",
+      attempts,
+      lastError: null,
+      transport: transport.name,
+      messageId,
+      sentAt: new Date(),
+    });
+  } catch (error: any) {
+    await storage.updateOutboxEmail(email.id, {
+      status: opts.finalAttempt ? "failed" : "retrying",
+      attempts,
+      lastError: error?.message || String(error),
+      transport: transport.name,
+    });
+    throw error;
   }
 }
 
@@ -42,18 +110,11 @@ export async function sendTaskPartnerInvitationEmail(params: {
   inviterName: string;
   taskName: string;
   inviteLink: string;
-}): Promise<void> {
-  await sendEmail({
-    to: params.to,
-    subject: `${params.inviterName} invited you to record on Voice Atlas`,
-    html: `
-      <h2>You've been invited to participate in a recording task</h2>
-      <p><strong>${params.inviterName}</strong> wants you to join them for a <strong>"${params.taskName}"</strong> recording on Voice Atlas.</p>
-      <p>To get started, create your account using the link below:</p>
-      <p><a href="${params.inviteLink}" style="display:inline-block;padding:12px 24px;background:#000;color:#fff;text-decoration:none;border-radius:6px;">Sign Up &amp; Join</a></p>
-      <p style="color:#666;font-size:14px;">Or copy this link: ${params.inviteLink}</p>
-    `,
-    text: `${params.inviterName} invited you to join them for a "${params.taskName}" recording on Voice Atlas. Sign up here: ${params.inviteLink}`,
+}): Promise<OutboxEmail> {
+  return queueEmail("task_partner_invitation", params.to, {
+    inviterName: params.inviterName,
+    taskName: params.taskName,
+    inviteLink: params.inviteLink,
   });
 }
 
@@ -62,18 +123,32 @@ export async function sendRoomInvitationEmail(params: {
   inviterName: string;
   roomName: string;
   roomId: string;
-}): Promise<void> {
-  const joinUrl = `${APP_URL}/room/${params.roomId}`;
-
-  await sendEmail({
-    to: params.to,
-    subject: `${params.inviterName} invited you to a conversation on Voice Atlas`,
-    html: `
-      <h2>You've been invited to a conversation</h2>
-      <p><strong>${params.inviterName}</strong> has invited you to join the room <strong>"${params.roomName}"</strong>.</p>
-      <p><a href="${joinUrl}" style="display:inline-block;padding:12px 24px;background:#000;color:#fff;text-decoration:none;border-radius:6px;">Join Room</a></p>
-      <p style="color:#666;font-size:14px;">Or copy this link: ${joinUrl}</p>
-    `,
-    text: `${params.inviterName} invited you to join "${params.roomName}". Join here: ${joinUrl}`,
+}): Promise<OutboxEmail> {
+  return queueEmail("room_invitation", params.to, {
+    inviterName: params.inviterName,
+    roomName: params.roomName,
+    joinUrl: `${APP_URL}/room/${params.roomId}`,
   });
 }
+
+export async function sendEmailVerificationEmail(params: {
+  to: string;
+  tokenSeed: string;
+  expiresIn: string;
+}): Promise<OutboxEmail> {
+  return queueEmail("email_verification", params.to, {
+    verifyLink: `${APP_URL}/verify-email?token=${LINK_TOKEN_PLACEHOLDER}`,
+    expiresIn: params.expiresIn,
+  }, { linkTokenSeed: params.tokenSeed });
+}
+
+export async function sendPasswordResetEmail(params: {
+  to: string;
+  tokenSeed: string;
+  expiresIn: string;
+}): Promise<OutboxEmail> {
+  return queueEmail("password_reset", params.to, {
+    resetLink: `${APP_URL}/reset-password?token=${LINK_TOKEN_PLACEHOLDER}`,
+    expiresIn: params.expiresIn,
+  }, { linkTokenSeed: params.tokenSeed });
+}
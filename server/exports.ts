@@ -0,0 +1,233 @@
+import * as crypto from "node:crypto";
+
+import { storage } from "./storage";
+import { objectStorage } from "./object-storage";
+import type { ExportFilters, Recording, Transcript, User } from "@shared/schema";
+
+/** Per-speaker track within an exported session */
+export interface ExportSpeaker {
+  speakerRole: string;
+  anonymizedSpeakerId: string;
+  recordingId: string;
+  wavS3Key: string;
+  alignedWavS3Key: string | null;
+  durationMs: number | null;
+  speechMs: number | null;
+  transcriptLanguage: string | null;
+  transcript: string | null;
+  sampleRate: number;
+  channels: number;
+  gender: string | null;
+  age: number | null;
+  primaryLanguage: string | null;
+  country: string | null;
+}
+
+export interface ExportRow {
+  sessionId: string;
+  taskType: string;
+  taskTypeVersion: number;
+  taskName: string | null;
+  recordedAt: string;
+  folder: string | null;
+  stereoMixS3Key: string | null;
+  speakers: ExportSpeaker[];
+}
+
+const ANONYMIZATION_SECRET =
+  process.env.EXPORT_ANONYMIZATION_SECRET || process.env.SESSION_SECRET || "dev-secret-change-in-production";
+
+/** Stable across exports so the same person keeps the same ID in every delivery, but not reversible */
+function anonymizeSpeaker(userId: string): string {
+  return "spk_" + crypto.createHmac("sha256", ANONYMIZATION_SECRET).update(userId).digest("hex").slice(0, 12);
+}
+
+/** Latest processed track per speaker role — earlier attempts in the same room are superseded */
+function latestTrackPerSpeaker(roomRecordings: Recording[]): Recording[] {
+  const bySpeaker = new Map<string, Recording>();
+  const sorted = roomRecordings
+    .filter((r) => r.wavS3Key && r.speakerId)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  for (const rec of sorted) {
+    if (!bySpeaker.has(rec.speakerId!)) bySpeaker.set(rec.speakerId!, rec);
+  }
+  return Array.from(bySpeaker.values()).sort((a, b) => a.speakerId!.localeCompare(b.speakerId!));
+}
+
+/** Join approved sessions, their processed tracks and speaker demographics into manifest rows */
+export async function buildExportManifest(filters: ExportFilters): Promise<ExportRow[]> {
+  const sessions = await storage.getCompletedTaskSessions(filters);
+  const roomIds = sessions.map((s) => s.roomId!);
+  const [allRecordings, allArtifacts] = await Promise.all([
+    storage.getRecordingsByRoomIds(roomIds),
+    storage.getFolderArtifactsByRoomIds(roomIds),
+  ]);
+
+  const transcriptsByRecording = new Map<string, Transcript>();
+  for (const t of await storage.getTranscriptsByRecordingIds(allRecordings.map((r) => r.id))) {
+    transcriptsByRecording.set(t.recordingId, t);
+  }
+
+  const userIds = Array.from(new Set(allRecordings.map((r) => r.userId)));
+  const usersById = new Map<string, User>();
+  for (const u of await storage.getUsersByIds(userIds)) usersById.set(u.id, u);
+
+  const rows: ExportRow[] = [];
+  for (const session of sessions) {
+    const tracks = latestTrackPerSpeaker(allRecordings.filter((r) => r.roomId === session.roomId));
+    if (tracks.length === 0) continue;
+
+    const taskDef = await storage.getTaskDefinitionForSession(session);
+    const stereo = allArtifacts.find((a) => a.roomId === session.roomId && a.kind === "stereo_mix");
+
+    rows.push({
+      sessionId: session.id,
+      taskType: session.taskType,
+      taskTypeVersion: session.taskTypeVersion ?? 1,
+      taskName: taskDef?.name ?? null,
+      recordedAt: new Date(session.createdAt).toISOString(),
+      folder: tracks[0].processedFolder,
+      stereoMixS3Key: stereo?.s3Key ?? null,
+      speakers: tracks.map((rec) => {
+        const demographics = (usersById.get(rec.userId)?.onboardingData ?? {}) as Record<string, any>;
+        return {
+          speakerRole: rec.speakerId!,
+          anonymizedSpeakerId: anonymizeSpeaker(rec.userId),
+          recordingId: rec.id,
+          wavS3Key: rec.wavS3Key!,
+          alignedWavS3Key: rec.alignedWavS3Key,
+          durationMs: rec.probedDurationMs ?? rec.duration,
+          speechMs: rec.speechMs,
+          transcriptLanguage: transcriptsByRecording.get(rec.id)?.language ?? null,
+          transcript: transcriptsByRecording.get(rec.id)?.text ?? null,
+          sampleRate: rec.sampleRate,
+          channels: rec.channels,
+          gender: demographics.gender ?? null,
+          age: typeof demographics.age === "number" ? demographics.age : null,
+          primaryLanguage: demographics.primaryLanguage ?? null,
+          country: demographics.countryOfResidence ?? null,
+        };
+      }),
+    });
+  }
+  return rows;
+}
+
+export function toJsonl(rows: ExportRow[]): string {
+  return rows.map((row) => JSON.stringify(row)).join("\n") + (rows.length > 0 ? "\n" : "");
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const str = String(value);
+  return /[",\n\r]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+const SPEAKER_CSV_FIELDS: (keyof ExportSpeaker)[] = [
+  "anonymizedSpeakerId",
+  "recordingId",
+  "wavS3Key",
+  "alignedWavS3Key",
+  "durationMs",
+  "speechMs",
+  "transcriptLanguage",
+  "transcript",
+  "sampleRate",
+  "channels",
+  "gender",
+  "age",
+  "primaryLanguage",
+  "country",
+];
+
+/** One line per session; speaker fields are flattened as `spk0_gender`, `spk1_wavS3Key`, … */
+export function toCsv(rows: ExportRow[]): string {
+  const roles = Array.from(new Set(rows.flatMap((r) => r.speakers.map((s) => s.speakerRole)))).sort();
+  const header = [
+    "sessionId", "taskType", "taskTypeVersion", "taskName", "recordedAt", "folder", "stereoMixS3Key",
+    ...roles.flatMap((role) => SPEAKER_CSV_FIELDS.map((field) => `${role}_${field}`)),
+  ];
+
+  const lines = [header.join(",")];
+  for (const row of rows) {
+    const cells: unknown[] = [
+      row.sessionId, row.taskType, row.taskTypeVersion, row.taskName, row.recordedAt, row.folder, row.stereoMixS3Key,
+    ];
+    for (const role of roles) {
+      const speaker = row.speakers.find((s) => s.speakerRole === role);
+      for (const field of SPEAKER_CSV_FIELDS) cells.push(speaker ? speaker[field] : null);
+    }
+    lines.push(cells.map(csvCell).join(","));
+  }
+  return lines.join("\n") + "\n";
+}
+
+function datasetCard(exportId: string, filters: ExportFilters, rowCount: number, trackCount: number): string {
+  return `---
+configs:
+- config_name: default
+  data_files:
+  - split: train
+    path: "data/**"
+task_categories:
+- automatic-speech-recognition
+---
+
+# Conversation recordings export ${exportId}
+
+${rowCount} sessions, ${trackCount} speaker tracks (48 kHz mono 16-bit WAV).
+
+Filters: \`${JSON.stringify(filters)}\`
+
+Load with:
+
+\`\`\`python
+from datasets import load_dataset
+ds = load_dataset("audiofolder", data_dir=".")
+\`\`\`
+
+Each row of \`data/metadata.jsonl\` is one speaker track. Tracks from the same
+conversation share \`session_id\`; \`speaker_id\` is an anonymized, stable speaker ID.
+\`transcription\` is the automatic transcript of the track, when one was made.
+`;
+}
+
+/**
+ * Write a Hugging Face `audiofolder` layout under `exports/{exportId}/` in S3: WAVs are
+ * copied into `data/` next to a `metadata.jsonl` keyed by `file_name`, plus a dataset card.
+ */
+export async function exportHuggingFaceDataset(exportId: string, filters: ExportFilters) {
+  const rows = await buildExportManifest(filters);
+  const prefix = `exports/${exportId}`;
+  const metadata: string[] = [];
+
+  for (const row of rows) {
+    for (const speaker of row.speakers) {
+      const fileName = `${row.sessionId}_${speaker.speakerRole}.wav`;
+      await objectStorage.copy(speaker.alignedWavS3Key || speaker.wavS3Key, `${prefix}/data/${fileName}`);
+      metadata.push(JSON.stringify({
+        file_name: fileName,
+        session_id: row.sessionId,
+        task_type: row.taskType,
+        task_type_version: row.taskTypeVersion,
+        speaker_role: speaker.speakerRole,
+        speaker_id: speaker.anonymizedSpeakerId,
+        duration_s: speaker.durationMs != null ? speaker.durationMs / 1000 : null,
+        speech_s: speaker.speechMs != null ? speaker.speechMs / 1000 : null,
+        transcription: speaker.transcript,
+        transcription_language: speaker.transcriptLanguage,
+        sample_rate: speaker.sampleRate,
+        gender: speaker.gender,
+        age: speaker.age,
+        primary_language: speaker.primaryLanguage,
+        country: speaker.country,
+      }));
+    }
+  }
+
+  await objectStorage.upload(`${prefix}/data/metadata.jsonl`, Buffer.from(metadata.join("\n") + "\n"), "application/x-ndjson");
+  await objectStorage.upload(`${prefix}/README.md`, Buffer.from(datasetCard(exportId, filters, rows.length, metadata.length)), "text/markdown");
+
+  console.log(`Exported ${rows.length} sessions (${metadata.length} tracks) to ${prefix}/`);
+  return { prefix, sessions: rows.length, tracks: metadata.length };
+}
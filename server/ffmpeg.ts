@@ -0,0 +1,112 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as childProcess from "node:child_process";
+import * as os from "node:os";
+
+/** Run ffmpeg and return its stderr (where ffmpeg writes filter reports). Throws on non-zero exit. */
+export async function runFfmpeg(args: string[]): Promise<string> {
+  if (!args.includes("-y")) {
+    args = ["-y", ...args];
+  }
+
+  console.log("ffmpeg", args.join(" "));
+
+  const stderrPath = path.join(os.tmpdir(), `ffmpeg_process_${Date.now()}_${Math.random().toString(36).slice(2, 8)}.log`);
+
+  const child = childProcess.spawn("ffmpeg", args, {
+    stdio: ["pipe", "pipe", fs.openSync(stderrPath, "w")],
+  });
+
+  const exitCode = await new Promise<number | null>((resolve) => {
+    child.on("error", (err) => {
+      console.error("ffmpeg spawn error:", err.message);
+      resolve(1);
+    });
+    child.on("close", resolve);
+  });
+
+  if (exitCode) {
+    const log = fs.existsSync(stderrPath)
+      ? fs.readFileSync(stderrPath, "utf-8").slice(-500)
+      : "(no log)";
+    throw new Error(`ffmpeg exited with code ${exitCode}: ${log}`);
+  }
+
+  let log = "";
+  try {
+    log = fs.readFileSync(stderrPath, "utf-8");
+    fs.rmSync(stderrPath);
+  } catch {}
+  return log;
+}
+
+/** The fields of ffprobe's JSON output that the probes below ask for with -show_entries */
+interface FfprobeOutput {
+  streams?: { codec_name?: string; sample_rate?: string; channels?: number }[];
+  format?: { format_name?: string; duration?: string };
+  packets?: { pts_time?: string; duration_time?: string }[];
+}
+
+/** Run ffprobe on a file and return its parsed JSON output. Rejects if ffprobe fails. */
+async function runFfprobe(filePath: string, args: string[]): Promise<FfprobeOutput> {
+  const stdout = await new Promise<string>((resolve, reject) => {
+    childProcess.execFile(
+      "ffprobe",
+      ["-v", "error", ...args, "-of", "json=compact=1", filePath],
+      { maxBuffer: 64 * 1024 * 1024 },
+      (err, stdout) => (err ? reject(err) : resolve(stdout)),
+    );
+  });
+  return JSON.parse(stdout);
+}
+
+/** Duration of a media file in milliseconds, as reported by ffprobe's container/stream metadata */
+export async function probeDurationMs(filePath: string): Promise<number | null> {
+  const info = await runFfprobe(filePath, ["-show_entries", "format=duration"]);
+  const seconds = parseFloat(info.format?.duration ?? "");
+  return Number.isFinite(seconds) ? Math.round(seconds * 1000) : null;
+}
+
+export interface AudioStreamInfo {
+  formatName: string;
+  codec: string;
+  sampleRate: number;
+  channels: number;
+  durationMs: number | null;
+}
+
+/**
+ * Container, codec and real duration of a file's first audio stream, or null if it has none.
+ * MediaRecorder WebM carries no duration in its header, so when the container reports none
+ * the packets are read through to the end.
+ */
+export async function probeAudioStream(filePath: string): Promise<AudioStreamInfo | null> {
+  const info = await runFfprobe(filePath, [
+    "-select_streams", "a:0",
+    "-show_entries", "stream=codec_name,sample_rate,channels:format=format_name,duration",
+  ]);
+  const stream = info.streams?.[0];
+  if (!stream) return null;
+
+  let seconds = parseFloat(info.format?.duration ?? "");
+  if (!Number.isFinite(seconds)) {
+    const { packets = [] } = await runFfprobe(filePath, [
+      "-select_streams", "a:0",
+      "-show_entries", "packet=pts_time,duration_time",
+    ]);
+    seconds = 0;
+    for (const packet of packets) {
+      const pts = parseFloat(packet.pts_time ?? "");
+      const duration = parseFloat(packet.duration_time ?? "");
+      if (Number.isFinite(pts)) seconds = Math.max(seconds, pts + (Number.isFinite(duration) ? duration : 0));
+    }
+  }
+
+  return {
+    formatName: info.format?.format_name ?? "",
+    codec: stream.codec_name ?? "",
+    sampleRate: parseInt(stream.sample_rate ?? "", 10),
+    channels: stream.channels ?? 0,
+    durationMs: seconds > 0 ? Math.round(seconds * 1000) : null,
+  };
+}
@@ -0,0 +1,95 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { writeTestWav } from "./test-support/wav";
+import { computeFingerprint, type AudioFingerprintData } from "./fingerprint";
+
+const TRUE_OFFSET_SEC = 0.731;
+
+let dir: string;
+
+function lcg(seed: number) {
+  return () => {
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    return seed / 2 ** 32;
+  };
+}
+
+/** Harmonic "voice" whose pitch and loudness change every 100 ms, with pauses */
+function speechLike(seed: number) {
+  const random = lcg(seed);
+  const pitch = Array.from({ length: 300 }, () => 150 + random() * 250);
+  const level = Array.from({ length: 300 }, () => (random() < 0.25 ? 0 : 0.1 + random() * 0.3));
+  return (t: number) => {
+    const i = Math.min(299, Math.floor(t / 0.1));
+    let s = 0;
+    for (let h = 1; h <= 8; h++) s += Math.sin(2 * Math.PI * pitch[i] * h * t) / h;
+    return level[i] * s * 0.3;
+  };
+}
+
+/** Strongest common frame offset between two fingerprints, as a plain hash join */
+function bestAlignment(a: AudioFingerprintData, b: AudioFingerprintData) {
+  const framesByHash = new Map<number, number[]>();
+  b.hashes.forEach((hash, i) => framesByHash.set(hash, [...(framesByHash.get(hash) ?? []), b.frames[i]]));
+
+  const hitsByDelta = new Map<number, number>();
+  a.hashes.forEach((hash, i) => {
+    for (const frame of framesByHash.get(hash) ?? []) {
+      const delta = frame - a.frames[i];
+      hitsByDelta.set(delta, (hitsByDelta.get(delta) ?? 0) + 1);
+    }
+  });
+
+  let best = { delta: 0, hits: 0 };
+  hitsByDelta.forEach((hits, delta) => {
+    if (hits > best.hits) best = { delta, hits };
+  });
+  return best;
+}
+
+let original: AudioFingerprintData;
+let reupload: AudioFingerprintData;
+let unrelated: AudioFingerprintData;
+
+before(async () => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "fingerprint-test-"));
+  const voice = speechLike(1);
+  const noise = lcg(99);
+
+  writeTestWav(path.join(dir, "original.wav"), 20, voice);
+  // Trimmed, quieter and hissier copy of the same take
+  writeTestWav(path.join(dir, "reupload.wav"), 19, (t) => voice(t + TRUE_OFFSET_SEC) * 0.6 + (noise() - 0.5) * 0.002);
+  writeTestWav(path.join(dir, "unrelated.wav"), 20, speechLike(2));
+
+  original = await computeFingerprint(path.join(dir, "original.wav"));
+  reupload = await computeFingerprint(path.join(dir, "reupload.wav"));
+  unrelated = await computeFingerprint(path.join(dir, "unrelated.wav"));
+});
+
+after(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test("fingerprints keep one frame per hash and skip silence", () => {
+  assert.equal(original.hashes.length, original.frames.length);
+  assert.ok(original.hashes.length > 50);
+  assert.ok(original.durationMs >= 19_900 && original.durationMs <= 20_000);
+  assert.ok(original.hashes.every((hash) => hash !== 0 && hash !== -1));
+});
+
+test("a trimmed, re-levelled copy aligns at its true offset", () => {
+  const { delta, hits } = bestAlignment(reupload, original);
+
+  assert.ok(hits >= 25, `expected many aligned hits, got ${hits}`);
+  assert.ok(Math.abs(delta * reupload.frameMs - TRUE_OFFSET_SEC * 1000) <= reupload.frameMs);
+});
+
+test("unrelated audio shares only chance hashes", () => {
+  const matched = bestAlignment(reupload, original).hits;
+  const { hits } = bestAlignment(unrelated, original);
+
+  assert.ok(hits < matched / 5, `unrelated audio aligned ${hits} hashes`);
+});
@@ -0,0 +1,135 @@
+import { storage } from "./storage";
+import { FFT_SIZE, FRAMES_PER_YIELD, fft, hannWindow, readDecimated } from "./spectrum";
+import { yieldToEventLoop } from "./audio-analysis";
+import type { DuplicateMatch } from "@shared/schema";
+
+/** Working rate for fingerprinting — the 300–2000 Hz bands don't need more */
+const TARGET_RATE = 8000;
+/** 16 ms hop: re-encoded copies land within half a hop of the original frames */
+const HOP_SIZE = 128;
+const BAND_COUNT = 33;
+const MIN_FREQ = 300;
+const MAX_FREQ = 2000;
+/** Frames quieter than this carry no reliable bits (silence hashes to noise or all-zero) */
+const MIN_FRAME_DB = -50;
+/** Only hashes ≡ 0 mod this are kept. Content-based, so copies keep the same subset. */
+const HASH_SUBSAMPLE = 8;
+/** Aligned hash hits needed before a pair counts as a suspected duplicate */
+const MIN_MATCH_HITS = 25;
+/** …and the share of the shorter recording's hashes they must cover */
+const MIN_MATCH_SCORE = 0.1;
+
+export interface AudioFingerprintData {
+  /** 32-bit sub-fingerprints that survived subsampling */
+  hashes: number[];
+  /** Frame index of each hash, for offset alignment between recordings */
+  frames: number[];
+  frameMs: number;
+  durationMs: number;
+}
+
+/**
+ * Haitsma–Kalker style fingerprint: each frame's 32 bits are the signs of band-energy
+ * differences across 33 log-spaced bands and across time. The bits survive re-encoding,
+ * resampling and gain changes, so a re-uploaded copy reproduces most sub-fingerprints
+ * exactly at a constant frame offset.
+ */
+export async function computeFingerprint(wavPath: string): Promise<AudioFingerprintData> {
+  const { samples, sampleRate } = await readDecimated(wavPath, TARGET_RATE);
+  const frameMs = (HOP_SIZE / sampleRate) * 1000;
+  const durationMs = Math.round((samples.length / sampleRate) * 1000);
+
+  const window = hannWindow();
+
+  // FFT bin range of each band
+  const edges: number[] = [];
+  for (let b = 0; b <= BAND_COUNT; b++) {
+    const freq = MIN_FREQ * Math.pow(MAX_FREQ / MIN_FREQ, b / BAND_COUNT);
+    edges.push(Math.round((freq * FFT_SIZE) / sampleRate));
+  }
+
+  const re = new Float64Array(FFT_SIZE);
+  const im = new Float64Array(FFT_SIZE);
+  const energies = new Float64Array(BAND_COUNT);
+  const previous = new Float64Array(BAND_COUNT);
+  const hashes: number[] = [];
+  const frames: number[] = [];
+
+  for (let frame = 0; frame * HOP_SIZE + FFT_SIZE <= samples.length; frame++) {
+    if (frame > 0 && frame % FRAMES_PER_YIELD === 0) await yieldToEventLoop();
+    const offset = frame * HOP_SIZE;
+    let sumSquares = 0;
+    for (let i = 0; i < FFT_SIZE; i++) {
+      const s = samples[offset + i];
+      sumSquares += s * s;
+      re[i] = s * window[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+
+    for (let b = 0; b < BAND_COUNT; b++) {
+      let e = 0;
+      for (let k = edges[b]; k < Math.max(edges[b + 1], edges[b] + 1); k++) e += re[k] * re[k] + im[k] * im[k];
+      energies[b] = e;
+    }
+
+    const rms = Math.sqrt(sumSquares / FFT_SIZE);
+    const voiced = rms > 0 && 20 * Math.log10(rms) >= MIN_FRAME_DB;
+    if (frame > 0 && voiced) {
+      let hash = 0;
+      for (let b = 0; b < 32; b++) {
+        const diff = energies[b] - energies[b + 1] - (previous[b] - previous[b + 1]);
+        if (diff > 0) hash |= 1 << b;
+      }
+      if (hash !== 0 && hash !== -1 && (hash >>> 0) % HASH_SUBSAMPLE === 0) {
+        hashes.push(hash);
+        frames.push(frame);
+      }
+    }
+    previous.set(energies);
+  }
+
+  return { hashes, frames, frameMs, durationMs };
+}
+
+type FingerprintOwner =
+  | { recordingId: string; userId: string; roomId: string }
+  | { sampleId: string; userId: string };
+
+/**
+ * Add a fingerprint to the index and record every earlier upload it overlaps with.
+ * Tracks from the same room (the partner's mic bleed, Daily's cloud copy) and a
+ * contributor's own onboarding retakes are expected to match and are skipped.
+ */
+export async function indexAndMatchFingerprint(owner: FingerprintOwner, fingerprint: AudioFingerprintData): Promise<DuplicateMatch[]> {
+  const stored = await storage.replaceAudioFingerprint({
+    recordingId: "recordingId" in owner ? owner.recordingId : null,
+    sampleId: "sampleId" in owner ? owner.sampleId : null,
+    userId: owner.userId,
+    roomId: "roomId" in owner ? owner.roomId : null,
+    durationMs: fingerprint.durationMs,
+    hashCount: fingerprint.hashes.length,
+  }, fingerprint.hashes, fingerprint.frames);
+
+  if (fingerprint.hashes.length < MIN_MATCH_HITS) return [];
+
+  const candidates = await storage.findFingerprintCandidates(stored, fingerprint.hashes, fingerprint.frames, MIN_MATCH_HITS);
+  const matches: DuplicateMatch[] = [];
+  for (const candidate of candidates) {
+    const score = candidate.hits / Math.max(1, Math.min(fingerprint.hashes.length, candidate.hashCount));
+    if (score < MIN_MATCH_SCORE) continue;
+    matches.push(await storage.createDuplicateMatch({
+      fingerprintId: stored.id,
+      matchedFingerprintId: candidate.fingerprintId,
+      score: Math.min(1, Math.round(score * 1000) / 1000),
+      hits: candidate.hits,
+      offsetMs: Math.round(candidate.frameDelta * fingerprint.frameMs),
+    }));
+  }
+
+  if (matches.length > 0) {
+    const label = "recordingId" in owner ? `recording ${owner.recordingId}` : `sample ${owner.sampleId}`;
+    console.warn(`Suspected duplicate: ${label} matches ${matches.length} earlier upload(s)`);
+  }
+  return matches;
+}
@@ -2,11 +2,20 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
 import { setupAuth } from "./auth";
+import { startJobWorkers } from "./jobs";
+import { pruneRateLimitBuckets } from "./rate-limit";
 import { createServer } from "http";
 
 const app = express();
 const httpServer = createServer(app);
 
+// Behind Caddy the client's address comes from X-Forwarded-For, and rate limits key on it.
+// TRUST_PROXY is Express's "trust proxy" setting: a hop count, or addresses/subnets to trust.
+if (process.env.TRUST_PROXY) {
+  const hops = Number(process.env.TRUST_PROXY);
+  app.set("trust proxy", Number.isInteger(hops) ? hops : process.env.TRUST_PROXY);
+}
+
 declare module "http" {
   interface IncomingMessage {
     rawBody: unknown;
@@ -93,4 +102,16 @@ app.use((req, res, next) => {
       log(`serving on port ${port}`);
     },
   );
+
+  if (process.env.JOB_WORKERS_DISABLED !== "true") {
+    startJobWorkers();
+    log("background job workers started", "jobs");
+  }
+
+  // Rate limit counters for clients that have gone quiet
+  setInterval(() => {
+    pruneRateLimitBuckets()
+      .then((pruned) => pruned > 0 && log(`pruned ${pruned} rate limit bucket(s)`, "rate-limit"))
+      .catch((error) => console.error("Rate limit prune error:", error));
+  }, 60 * 60 * 1000).unref();
 })();
@@ -0,0 +1,221 @@
+import os from "os";
+import { storage } from "./storage";
+import { processRecording, processOnboardingSample } from "./process-recording";
+import { alignRoomTracks, findAlignablePair } from "./align-tracks";
+import { mixRoomTracks } from "./mixdown";
+import { exportHuggingFaceDataset } from "./exports";
+import { ingestDailyRecording } from "./cloud-recordings";
+import { transcribeRecording, getTranscriptionProvider } from "./transcription";
+import { verifyRecordingSpeaker, getSpeakerEmbeddingProvider } from "./speaker-verification";
+import { runRetentionSweep } from "./retention";
+import { verifyUpload } from "./upload-verification";
+import { deliverOutboxEmail } from "./email";
+import type { Job, ExportFilters } from "@shared/schema";
+
+/**
+ * Postgres-backed background job queue.
+ *
+ * Jobs live in the `jobs` table so they survive restarts and deploys. Workers poll
+ * for due jobs and claim them with `FOR UPDATE SKIP LOCKED`; failures are retried
+ * with exponential backoff until `maxAttempts`, after which the job is marked
+ * `dead` and left for an admin to inspect and re-queue.
+ */
+
+type JobHandler = (payload: any, job: Job) => Promise<unknown>;
+
+const handlers: Record<string, JobHandler> = {
+  verify_upload: async (payload: { recordingId: string }, job) => {
+    const recording = await verifyUpload(payload.recordingId);
+    if (recording.verificationStatus === "verified") {
+      await enqueueJob("process_recording", { recordingId: recording.id }, {
+        key: `recording:${recording.id}`,
+        userId: job.userId ?? undefined,
+      });
+    }
+    return {
+      status: recording.verificationStatus,
+      error: recording.verificationError,
+      durationMs: recording.duration,
+      checksum: recording.checksumSha256,
+    };
+  },
+  process_recording: async (payload: { recordingId: string; folderNumber?: string }) => {
+    const recording = await processRecording(payload.recordingId, payload.folderNumber);
+
+    if (getTranscriptionProvider()) {
+      await enqueueJob("transcribe_recording", { recordingId: recording.id }, { key: `transcribe:${recording.id}` });
+    }
+    if (getSpeakerEmbeddingProvider()) {
+      await enqueueJob("verify_speaker", { recordingId: recording.id }, { key: `verify-speaker:${recording.id}` });
+    }
+
+    // Whichever speaker's track finishes second kicks off alignment of the pair
+    const pair = await findAlignablePair(recording.roomId);
+    if (pair) {
+      await enqueueJob("align_tracks", { roomId: recording.roomId }, { key: `align:${pair[0].id}:${pair[1].id}` });
+    }
+    return { processedFolder: recording.processedFolder, wavS3Key: recording.wavS3Key };
+  },
+  align_tracks: async (payload: { roomId: string }) => {
+    const result = await alignRoomTracks(payload.roomId);
+
+    const pair = await findAlignablePair(payload.roomId);
+    if (pair) {
+      await enqueueJob("mix_tracks", { roomId: payload.roomId }, { key: `mix:${pair[0].id}:${pair[1].id}` });
+    }
+    return result;
+  },
+  mix_tracks: async (payload: { roomId: string }) => {
+    const artifacts = await mixRoomTracks(payload.roomId);
+    return artifacts ? artifacts.map((a) => ({ kind: a.kind, s3Key: a.s3Key })) : null;
+  },
+  transcribe_recording: async (payload: { recordingId: string }) => {
+    const transcript = await transcribeRecording(payload.recordingId);
+    return { provider: transcript.provider, language: transcript.language, words: transcript.words.length };
+  },
+  verify_speaker: async (payload: { recordingId: string }) => {
+    const recording = await verifyRecordingSpeaker(payload.recordingId);
+    return recording
+      ? { similarity: recording.speakerSimilarity, mismatch: recording.speakerMismatch }
+      : { skipped: "no onboarding sample" };
+  },
+  retention_sweep: async (payload: { sweepId: string }) => {
+    const sweep = await runRetentionSweep(payload.sweepId);
+    return { dryRun: sweep.dryRun, objectCount: sweep.objectCount, error: sweep.error };
+  },
+  export_dataset: async (payload: { exportId: string; filters: ExportFilters }) => {
+    return exportHuggingFaceDataset(payload.exportId, payload.filters);
+  },
+  ingest_cloud_recording: async (payload: { dailyRecordingId: string }) => {
+    const { ingested, fallbacks } = await ingestDailyRecording(payload.dailyRecordingId);
+
+    // Cloud tracks only enter the pipeline for speakers whose local upload is missing
+    for (const rec of fallbacks) {
+      await enqueueJob("verify_upload", { recordingId: rec.id }, { key: `verify:${rec.id}` });
+    }
+    return { ingested: ingested.map((r) => r.id), fallbacks: fallbacks.map((r) => r.id) };
+  },
+  process_onboarding_sample: async (payload: { sampleId: string }) => {
+    const sample = await processOnboardingSample(payload.sampleId);
+    return { wavS3Key: sample.wavS3Key };
+  },
+  send_email: async (payload: { emailId: string }, job) => {
+    const email = await deliverOutboxEmail(payload.emailId, { finalAttempt: job.attempts >= job.maxAttempts });
+    return { transport: email.transport, messageId: email.messageId };
+  },
+};
+
+export type JobType =
+  | "verify_upload"
+  | "process_recording"
+  | "process_onboarding_sample"
+  | "align_tracks"
+  | "mix_tracks"
+  | "transcribe_recording"
+  | "verify_speaker"
+  | "retention_sweep"
+  | "export_dataset"
+  | "ingest_cloud_recording"
+  | "send_email";
+
+const POLL_INTERVAL_MS = 2000;
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 30 * 60 * 1000;
+/** A running job whose lock is older than this is assumed to belong to a crashed worker */
+const LOCK_TIMEOUT_MS = 15 * 60 * 1000;
+
+function backoffDelay(attempts: number): number {
+  return Math.min(BASE_BACKOFF_MS * Math.pow(2, Math.max(attempts - 1, 0)), MAX_BACKOFF_MS);
+}
+
+/**
+ * Enqueue a job. When `key` is given, an existing job with the same type and key is
+ * returned instead of creating a duplicate — unless that job is dead, in which case
+ * a fresh one is queued.
+ */
+export async function enqueueJob(
+  type: JobType,
+  payload: Record<string, unknown>,
+  opts: { key?: string; userId?: string; maxAttempts?: number } = {}
+): Promise<Job> {
+  if (opts.key) {
+    const existing = await storage.getLatestJobByKey(type, opts.key);
+    if (existing && existing.status !== "dead") {
+      return existing;
+    }
+  }
+  return storage.createJob({
+    type,
+    key: opts.key ?? null,
+    payload,
+    userId: opts.userId ?? null,
+    maxAttempts: opts.maxAttempts,
+  });
+}
+
+async function runJob(job: Job): Promise<void> {
+  const handler = handlers[job.type];
+  if (!handler) {
+    await storage.failJob(job.id, `No handler registered for job type "${job.type}"`, null);
+    return;
+  }
+
+  try {
+    const result = await handler(job.payload, job);
+    await storage.completeJob(job.id, result ?? null);
+    console.log(`Job ${job.id} (${job.type}) completed on attempt ${job.attempts}`);
+  } catch (error: any) {
+    const message = error?.message || String(error);
+    const retryAt = job.attempts < job.maxAttempts ? new Date(Date.now() + backoffDelay(job.attempts)) : null;
+    await storage.failJob(job.id, message, retryAt);
+    if (retryAt) {
+      console.warn(`Job ${job.id} (${job.type}) failed on attempt ${job.attempts}, retrying at ${retryAt.toISOString()}:`, message);
+    } else {
+      console.error(`Job ${job.id} (${job.type}) failed permanently after ${job.attempts} attempts:`, message);
+    }
+  }
+}
+
+/** Start polling workers. Returns a function that stops them after in-flight jobs finish. */
+export function startJobWorkers(concurrency = parseInt(process.env.JOB_WORKER_CONCURRENCY || "1", 10)) {
+  let stopped = false;
+  const timers: NodeJS.Timeout[] = [];
+
+  const loop = (index: number, workerId: string) => {
+    const tick = async () => {
+      if (stopped) return;
+      try {
+        let job = await storage.claimNextJob(workerId);
+        while (job && !stopped) {
+          await runJob(job);
+          job = await storage.claimNextJob(workerId);
+        }
+      } catch (error) {
+        console.error(`Job worker ${workerId} error:`, error);
+      }
+      if (!stopped) timers[index] = setTimeout(tick, POLL_INTERVAL_MS);
+    };
+    tick();
+  };
+
+  const reaper = setInterval(async () => {
+    try {
+      const released = await storage.releaseStaleJobs(new Date(Date.now() - LOCK_TIMEOUT_MS));
+      if (released > 0) console.warn(`Released ${released} stale job lock(s)`);
+    } catch (error) {
+      console.error("Job reaper error:", error);
+    }
+  }, 60 * 1000);
+
+  for (let i = 0; i < Math.max(concurrency, 1); i++) {
+    loop(i, `${os.hostname()}:${process.pid}:${i}`);
+  }
+
+  return () => {
+    stopped = true;
+    clearInterval(reaper);
+    for (let i = 0; i < timers.length; i++) {
+      if (timers[i]) clearTimeout(timers[i]);
+    }
+  };
+}
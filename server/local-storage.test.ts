@@ -0,0 +1,85 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import express from "express";
+import { createLocalObjectStorage } from "./local-storage";
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), "local-storage-test-"));
+const driver = createLocalObjectStorage(root, "test-secret");
+let server: Server;
+let baseUrl: string;
+
+before(async () => {
+  const app = express();
+  driver.registerRoutes!(app);
+  server = createServer(app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+test("objects round-trip, copy, list by prefix and delete", async () => {
+  await driver.upload("processed/1/a.wav", Buffer.from("wav bytes"), "audio/wav");
+  await driver.copy("processed/1/a.wav", "exports/x/a.wav");
+
+  assert.equal((await driver.download("exports/x/a.wav")).toString(), "wav bytes");
+  assert.deepEqual(await driver.head("exports/x/a.wav"), { size: 9, contentType: "audio/wav" });
+  assert.deepEqual((await driver.list("processed/")).map((o) => o.key), ["processed/1/a.wav"]);
+
+  await driver.delete("processed/1/a.wav");
+  assert.equal(await driver.head("processed/1/a.wav"), null);
+  await assert.rejects(driver.copy("exports/x/a.wav", "b.wav", "some-daily-bucket"));
+});
+
+test("keys can't escape the storage root", async () => {
+  await assert.rejects(driver.upload("../outside.txt", Buffer.from("x"), "text/plain"), /Invalid object key/);
+  await assert.rejects(driver.download("recordings/../../meta/x"), /Invalid object key/);
+});
+
+test("signed upload and download URLs are served by the app", async () => {
+  const uploadUrl = await driver.generateUploadUrl({ key: "recordings/room/a.webm", contentType: "audio/webm", metadata: {} });
+
+  const wrongType = await fetch(baseUrl + uploadUrl, { method: "PUT", body: "x", headers: { "Content-Type": "audio/wav" } });
+  assert.equal(wrongType.status, 403);
+  const tampered = await fetch(baseUrl + uploadUrl.replace("a.webm", "b.webm"), {
+    method: "PUT",
+    body: "x",
+    headers: { "Content-Type": "audio/webm" },
+  });
+  assert.equal(tampered.status, 403);
+
+  const put = await fetch(baseUrl + uploadUrl, { method: "PUT", body: "webm bytes", headers: { "Content-Type": "audio/webm" } });
+  assert.equal(put.status, 200);
+  assert.deepEqual(await driver.head("recordings/room/a.webm"), { size: 10, contentType: "audio/webm" });
+
+  const get = await fetch(baseUrl + (await driver.generateDownloadUrl("recordings/room/a.webm")));
+  assert.equal(get.status, 200);
+  assert.equal(get.headers.get("content-type"), "audio/webm");
+  assert.equal(await get.text(), "webm bytes");
+});
+
+test("multipart uploads assemble the parts that landed, in order", async () => {
+  const key = "recordings/room/long.webm";
+  const uploadId = await driver.createMultipartUpload({ key, contentType: "audio/webm", metadata: {} });
+
+  for (const [partNumber, body] of [[2, "world"], [1, "hello "]] as const) {
+    const res = await fetch(baseUrl + (await driver.generateUploadPartUrl(key, uploadId, partNumber)), { method: "PUT", body });
+    assert.equal(res.status, 200);
+  }
+
+  const parts = await driver.listUploadedParts(key, uploadId);
+  assert.deepEqual(parts.map((p) => [p.partNumber, p.size]), [[1, 6], [2, 5]]);
+
+  await driver.completeMultipartUpload(key, uploadId, parts);
+  assert.equal((await driver.download(key)).toString(), "hello world");
+  assert.deepEqual(await driver.head(key), { size: 11, contentType: "audio/webm" });
+  await assert.rejects(driver.listUploadedParts(key, uploadId));
+});
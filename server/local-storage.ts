@@ -0,0 +1,319 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as crypto from "node:crypto";
+import { pipeline } from "node:stream/promises";
+import type { Express, Request } from "express";
+
+import type { ObjectStorageDriver, StoredObject, UploadedPart } from "./object-storage";
+
+const SIGNING_SECRET =
+  process.env.LOCAL_STORAGE_SECRET || process.env.SESSION_SECRET || "dev-secret-change-in-production";
+const URL_TTL_MS = 60 * 60 * 1000;
+const ROUTE_PREFIX = "/api/local-storage";
+
+/** Sidecar kept next to each object, standing in for S3's object metadata */
+interface ObjectMeta {
+  contentType: string | null;
+  metadata: Record<string, string>;
+  storageClass: "standard" | "archive";
+}
+
+type SignedOperation = "put" | "get" | "part";
+
+/**
+ * Objects as plain files under `root`, for development, tests and on-prem installs without
+ * S3. Signed URLs point at routes in this app, so the browser uploads and plays audio the
+ * same way it does against S3.
+ *
+ * Layout: `objects/<key>` holds the bytes, `meta/<key>.json` the content type and storage
+ * class, and `multipart/<uploadId>/` the parts of uploads in progress.
+ */
+export function createLocalObjectStorage(root: string, secret = SIGNING_SECRET): ObjectStorageDriver {
+  root = path.resolve(root);
+  const objectsDir = path.join(root, "objects");
+  const metaDir = path.join(root, "meta");
+  const multipartDir = path.join(root, "multipart");
+
+  /** Keys come from the database and signed URLs, but never let one escape the store */
+  function resolveKey(dir: string, key: string, suffix = ""): string {
+    const resolved = path.resolve(dir, key + suffix);
+    if (!key || !resolved.startsWith(dir + path.sep)) {
+      throw new Error(`Invalid object key: ${key}`);
+    }
+    return resolved;
+  }
+
+  function uploadDir(uploadId: string): string {
+    if (!/^[a-f0-9]{32}$/.test(uploadId)) {
+      throw new Error(`Invalid upload id: ${uploadId}`);
+    }
+    return path.join(multipartDir, uploadId);
+  }
+
+  function readMeta(key: string): ObjectMeta {
+    try {
+      return JSON.parse(fs.readFileSync(resolveKey(metaDir, key, ".json"), "utf8"));
+    } catch {
+      return { contentType: null, metadata: {}, storageClass: "standard" };
+    }
+  }
+
+  function writeMeta(key: string, meta: ObjectMeta) {
+    const metaPath = resolveKey(metaDir, key, ".json");
+    fs.mkdirSync(path.dirname(metaPath), { recursive: true });
+    fs.writeFileSync(metaPath, JSON.stringify(meta));
+  }
+
+  /** Write through a temp file so readers never see half an object */
+  function writeObject(key: string, body: Buffer) {
+    const objectPath = resolveKey(objectsDir, key);
+    fs.mkdirSync(path.dirname(objectPath), { recursive: true });
+    const tmpPath = `${objectPath}.${crypto.randomBytes(4).toString("hex")}.tmp`;
+    fs.writeFileSync(tmpPath, body);
+    fs.renameSync(tmpPath, objectPath);
+  }
+
+  function sign(op: SignedOperation, fields: string[], expires: number): string {
+    return crypto.createHmac("sha256", secret).update([op, ...fields, expires].join("\n")).digest("hex");
+  }
+
+  function signedUrl(op: SignedOperation, params: Record<string, string>): string {
+    const expires = Date.now() + URL_TTL_MS;
+    const query = new URLSearchParams({ ...params, expires: String(expires) });
+    query.set("sig", sign(op, Object.values(params), expires));
+    return `${ROUTE_PREFIX}/${op}?${query}`;
+  }
+
+  /** The signed parameters of a request, or null if the signature is wrong or expired */
+  function verify(req: Request, op: SignedOperation, names: string[]): Record<string, string> | null {
+    const values: Record<string, string> = {};
+    for (const name of names) {
+      const value = req.query[name];
+      if (typeof value !== "string") return null;
+      values[name] = value;
+    }
+    const expires = Number(req.query.expires);
+    const sig = typeof req.query.sig === "string" ? req.query.sig : "";
+    if (!Number.isFinite(expires) || expires < Date.now()) return null;
+
+    const expected = Buffer.from(sign(op, names.map((n) => values[n]), expires));
+    const actual = Buffer.from(sig);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+    return values;
+  }
+
+  async function listFiles(dir: string, prefix: string): Promise<StoredObject[]> {
+    const objects: StoredObject[] = [];
+    const walk = async (current: string) => {
+      let entries: fs.Dirent[];
+      try {
+        entries = await fs.promises.readdir(current, { withFileTypes: true });
+      } catch (error: any) {
+        if (error?.code === "ENOENT") return;
+        throw error;
+      }
+      for (const entry of entries) {
+        const fullPath = path.join(current, entry.name);
+        const key = path.relative(dir, fullPath).split(path.sep).join("/");
+        if (entry.isDirectory()) {
+          // Only descend into directories that can hold keys under the prefix
+          if ((key + "/").startsWith(prefix) || prefix.startsWith(key + "/")) await walk(fullPath);
+        } else if (key.startsWith(prefix) && !entry.name.endsWith(".tmp")) {
+          const stat = await fs.promises.stat(fullPath);
+          objects.push({ key, lastModified: stat.mtime, size: stat.size });
+        }
+      }
+    };
+    await walk(dir);
+    return objects.sort((a, b) => (a.key < b.key ? -1 : 1));
+  }
+
+  const driver: ObjectStorageDriver = {
+    name: "local",
+    bucket: "local",
+
+    async generateUploadUrl(params) {
+      // The content type is signed, as it is for S3, so the upload can't change it
+      return signedUrl("put", { key: params.key, contentType: params.contentType });
+    },
+
+    async generateDownloadUrl(key) {
+      return signedUrl("get", { key });
+    },
+
+    async download(key) {
+      return fs.promises.readFile(resolveKey(objectsDir, key));
+    },
+
+    async upload(key, body, contentType) {
+      writeObject(key, body);
+      writeMeta(key, { contentType, metadata: {}, storageClass: "standard" });
+    },
+
+    async copy(sourceKey, destKey, sourceBucket) {
+      if (sourceBucket && sourceBucket !== driver.bucket) {
+        throw new Error(`Local storage can't copy from bucket ${sourceBucket}`);
+      }
+      writeObject(destKey, await fs.promises.readFile(resolveKey(objectsDir, sourceKey)));
+      writeMeta(destKey, { ...readMeta(sourceKey), storageClass: "standard" });
+    },
+
+    async head(key) {
+      try {
+        const stat = await fs.promises.stat(resolveKey(objectsDir, key));
+        return { size: stat.size, contentType: readMeta(key).contentType };
+      } catch (error: any) {
+        if (error?.code === "ENOENT") return null;
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      await fs.promises.rm(resolveKey(objectsDir, key), { force: true });
+      await fs.promises.rm(resolveKey(metaDir, key, ".json"), { force: true });
+    },
+
+    // Disk has no cheaper tier; only the storage class is recorded
+    async archive(key) {
+      if (!(await driver.head(key))) {
+        throw new Error(`Object not found: ${key}`);
+      }
+      writeMeta(key, { ...readMeta(key), storageClass: "archive" });
+    },
+
+    async list(prefix) {
+      return listFiles(objectsDir, prefix);
+    },
+
+    async createMultipartUpload(params) {
+      const uploadId = crypto.randomBytes(16).toString("hex");
+      const dir = uploadDir(uploadId);
+      fs.mkdirSync(dir, { recursive: true });
+      fs.writeFileSync(path.join(dir, "upload.json"), JSON.stringify({
+        key: params.key,
+        contentType: params.contentType,
+        metadata: params.metadata,
+      }));
+      return uploadId;
+    },
+
+    async generateUploadPartUrl(key, uploadId, partNumber) {
+      return signedUrl("part", { key, uploadId, partNumber: String(partNumber) });
+    },
+
+    async listUploadedParts(key, uploadId) {
+      const dir = uploadDir(uploadId);
+      if (!fs.existsSync(dir)) {
+        throw new Error(`Multipart upload not found: ${uploadId}`);
+      }
+      const parts: UploadedPart[] = [];
+      for (const name of fs.readdirSync(dir)) {
+        if (!/^\d+$/.test(name)) continue;
+        const body = fs.readFileSync(path.join(dir, name));
+        parts.push({
+          partNumber: Number(name),
+          etag: `"${crypto.createHash("md5").update(body).digest("hex")}"`,
+          size: body.length,
+        });
+      }
+      return parts.sort((a, b) => a.partNumber - b.partNumber);
+    },
+
+    async completeMultipartUpload(key, uploadId, parts) {
+      const dir = uploadDir(uploadId);
+      const upload = JSON.parse(fs.readFileSync(path.join(dir, "upload.json"), "utf8"));
+      if (upload.key !== key) {
+        throw new Error(`Upload ${uploadId} is not for ${key}`);
+      }
+      const sorted = parts.slice().sort((a, b) => a.partNumber - b.partNumber);
+      const bodies = sorted.map((p) => {
+        const partPath = path.join(dir, String(p.partNumber));
+        if (!fs.existsSync(partPath)) {
+          throw new Error(`Part ${p.partNumber} of upload ${uploadId} was never uploaded`);
+        }
+        return fs.readFileSync(partPath);
+      });
+      writeObject(key, Buffer.concat(bodies));
+      writeMeta(key, { contentType: upload.contentType, metadata: upload.metadata, storageClass: "standard" });
+      fs.rmSync(dir, { recursive: true, force: true });
+    },
+
+    async abortMultipartUpload(key, uploadId) {
+      fs.rmSync(uploadDir(uploadId), { recursive: true, force: true });
+    },
+
+    registerRoutes(app: Express) {
+      app.put(`${ROUTE_PREFIX}/put`, async (req, res) => {
+        try {
+          const params = verify(req, "put", ["key", "contentType"]);
+          if (!params) {
+            return res.status(403).json({ error: "Invalid or expired upload URL" });
+          }
+          const contentType = (req.headers["content-type"] ?? "").split(";")[0].trim();
+          if (contentType !== params.contentType) {
+            return res.status(403).json({ error: "Content type does not match the signed upload" });
+          }
+
+          const objectPath = resolveKey(objectsDir, params.key);
+          const tmpPath = `${objectPath}.${crypto.randomBytes(4).toString("hex")}.tmp`;
+          fs.mkdirSync(path.dirname(objectPath), { recursive: true });
+          await pipeline(req, fs.createWriteStream(tmpPath));
+          fs.renameSync(tmpPath, objectPath);
+          writeMeta(params.key, { contentType: params.contentType, metadata: {}, storageClass: "standard" });
+          res.status(200).end();
+        } catch (error) {
+          console.error("Local storage upload error:", error);
+          res.status(500).json({ error: "Upload failed" });
+        }
+      });
+
+      app.put(`${ROUTE_PREFIX}/part`, async (req, res) => {
+        try {
+          const params = verify(req, "part", ["key", "uploadId", "partNumber"]);
+          if (!params || !/^\d+$/.test(params.partNumber)) {
+            return res.status(403).json({ error: "Invalid or expired upload URL" });
+          }
+          const dir = uploadDir(params.uploadId);
+          if (!fs.existsSync(dir)) {
+            return res.status(404).json({ error: "Multipart upload not found" });
+          }
+
+          const partPath = path.join(dir, params.partNumber);
+          const tmpPath = `${partPath}.tmp`;
+          await pipeline(req, fs.createWriteStream(tmpPath));
+          fs.renameSync(tmpPath, partPath);
+          const etag = crypto.createHash("md5").update(fs.readFileSync(partPath)).digest("hex");
+          res.setHeader("ETag", `"${etag}"`);
+          res.status(200).end();
+        } catch (error) {
+          console.error("Local storage part upload error:", error);
+          res.status(500).json({ error: "Upload failed" });
+        }
+      });
+
+      app.get(`${ROUTE_PREFIX}/get`, async (req, res) => {
+        try {
+          const params = verify(req, "get", ["key"]);
+          if (!params) {
+            return res.status(403).json({ error: "Invalid or expired download URL" });
+          }
+          const objectPath = resolveKey(objectsDir, params.key);
+          if (!fs.existsSync(objectPath)) {
+            return res.status(404).json({ error: "Object not found" });
+          }
+          const { contentType } = readMeta(params.key);
+          // sendFile handles Range requests, which <audio> needs to seek
+          res.sendFile(objectPath, {
+            dotfiles: "allow",
+            headers: contentType ? { "Content-Type": contentType } : undefined,
+          });
+        } catch (error) {
+          console.error("Local storage download error:", error);
+          res.status(500).json({ error: "Download failed" });
+        }
+      });
+    },
+  };
+
+  return driver;
+}
@@ -0,0 +1,1097 @@
+import * as crypto from "node:crypto";
+import { getTableColumns, is, SQL, type Table } from "drizzle-orm";
+import {
+  type User, type Room, type Recording, type OnboardingSample, type ReferralCode, type RoomInvitation, type Notification,
+  type TaskSession, type TaskType, type InsertTaskType, type TaskTypeDefinition, type TaskTypeVersion, type Job, type JobStatus,
+  type RecordingArtifact, type ProcessedFolder, type RecordingSegment, type Transcript, type TranscriptWord,
+  type TranscriptSearchResult, type AudioFingerprint, type DuplicateMatch, type DuplicateMatchSummary, type SpeakerEmbedding,
+  type AudioOutputProfileId, type FolderArtifact, type FolderArtifactKind, type ExportFilters, type RetentionRule,
+  type InsertRetentionRule, type RetentionSweep, type RetentionActionRecord, type BlockedEmail,
+  type OutboxEmail, type EmailStatus, type AuthToken, type AuthTokenPurpose, type RateLimitBucket,
+  users, rooms, recordings, onboardingSamples, referralCodes, roomInvitations, notifications, taskSessions, blockedEmails,
+  taskTypes, taskTypeVersions, jobs, processedFolders, recordingArtifacts, recordingSegments, transcripts, audioFingerprints,
+  duplicateMatches, speakerEmbeddings, folderArtifacts, retentionRules, retentionSweeps, retentionActions, emailOutbox,
+  authTokens, rateLimitBuckets, TASK_TYPE_DEFINITION_FIELDS, pickTaskTypeDefinition,
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+
+/**
+ * A row as Postgres would return it after an insert: column defaults from the schema,
+ * generated ids and timestamps, and null for everything left out.
+ */
+function newRow<T>(table: Table, values: Record<string, unknown>): T {
+  const row: Record<string, unknown> = {};
+  for (const [name, column] of Object.entries(getTableColumns(table))) {
+    if (values[name] !== undefined) {
+      row[name] = values[name];
+    } else if (is(column.default, SQL)) {
+      // The only SQL defaults in the schema are gen_random_uuid() and now()
+      row[name] = column.columnType === "PgTimestamp" ? new Date() : crypto.randomUUID();
+    } else if (column.default !== undefined) {
+      row[name] = structuredClone(column.default);
+    } else {
+      row[name] = null;
+    }
+  }
+  return row as T;
+}
+
+/** Newest first; rows created in the same millisecond keep reverse insertion order, like a serial tiebreak */
+function newestFirst<T>(rows: T[], field: (row: T) => Date): T[] {
+  return rows
+    .map((row, i) => ({ row, i }))
+    .sort((a, b) => field(b.row).getTime() - field(a.row).getTime() || b.i - a.i)
+    .map(({ row }) => row);
+}
+
+function oldestFirst<T>(rows: T[], field: (row: T) => Date): T[] {
+  return newestFirst(rows, field).reverse();
+}
+
+/** Apply a partial update in place, ignoring undefined like Drizzle's `set` does */
+function assign<T extends object, D extends Partial<T>>(row: T, data: D): T {
+  for (const [key, value] of Object.entries(data)) {
+    if (value !== undefined) (row as any)[key] = value;
+  }
+  return row;
+}
+
+/**
+ * IStorage backed by plain arrays, for tests and running the app without Postgres.
+ * Mirrors DatabaseStorage's ordering and upsert semantics. Foreign keys are only enforced
+ * for deleting users, where DatabaseStorage.deleteUser has to clear every reference first.
+ */
+export class MemoryStorage implements IStorage {
+  private users: User[] = [];
+  private rooms: Room[] = [];
+  private recordings: Recording[] = [];
+  private processedFolders: ProcessedFolder[] = [];
+  private processedFolderSeq = 0;
+  private onboardingSamples: OnboardingSample[] = [];
+  private referralCodes: ReferralCode[] = [];
+  private roomInvitations: RoomInvitation[] = [];
+  private notifications: Notification[] = [];
+  private taskTypes: TaskType[] = [];
+  private taskTypeVersions: TaskTypeVersion[] = [];
+  private taskSessions: TaskSession[] = [];
+  private recordingArtifacts: RecordingArtifact[] = [];
+  private recordingSegments: RecordingSegment[] = [];
+  private transcripts: Transcript[] = [];
+  private audioFingerprints: AudioFingerprint[] = [];
+  private fingerprintHashes = new Map<number, { fingerprintId: string; frame: number }[]>();
+  private duplicateMatches: DuplicateMatch[] = [];
+  private speakerEmbeddings: SpeakerEmbedding[] = [];
+  private folderArtifacts: FolderArtifact[] = [];
+  private jobs: Job[] = [];
+  private retentionRules: RetentionRule[] = [];
+  private retentionSweeps: RetentionSweep[] = [];
+  private retentionActions: RetentionActionRecord[] = [];
+  private emailOutbox: OutboxEmail[] = [];
+  private authTokens: AuthToken[] = [];
+  private rateLimitBuckets: RateLimitBucket[] = [];
+  private blockedEmails: BlockedEmail[] = [];
+
+  // Users
+  async createUser(data: { username: string; password: string }): Promise<User> {
+    if (this.users.some((u) => u.username === data.username)) {
+      throw new Error(`duplicate key value violates unique constraint "users_username_unique"`);
+    }
+    const shortKey = crypto.randomBytes(6).toString("base64url").slice(0, 8);
+    const user = newRow<User>(users, { ...data, shortKey });
+    this.users.push(user);
+    return { ...user };
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const user = this.users.find((u) => u.username === username);
+    return user && { ...user };
+  }
+
+  async getUserById(id: string): Promise<User | undefined> {
+    const user = this.users.find((u) => u.id === id);
+    return user && { ...user };
+  }
+
+  async getUsers(): Promise<User[]> {
+    return newestFirst(this.users, (u) => u.createdAt).map((u) => ({ ...u }));
+  }
+
+  async updateUser(id: string, data: Partial<Omit<User, "id">>): Promise<User> {
+    const user = this.users.find((u) => u.id === id)!;
+    return user && { ...assign(user, data) };
+  }
+
+  async approveUser(id: string): Promise<User> {
+    return this.updateUser(id, { approved: true });
+  }
+
+  // Rooms
+  async createRoom(data: {
+    name: string;
+    dailyRoomUrl: string;
+    dailyRoomName: string;
+    rtcProvider: string;
+    createdBy: string;
+    expiresAt: Date;
+  }): Promise<Room> {
+    const room = newRow<Room>(rooms, data);
+    this.rooms.push(room);
+    return { ...room };
+  }
+
+  async getRoomById(id: string): Promise<Room | undefined> {
+    const room = this.rooms.find((r) => r.id === id);
+    return room && { ...room };
+  }
+
+  async getRoomByName(name: string): Promise<Room | undefined> {
+    const room = this.rooms.find((r) => r.name === name);
+    return room && { ...room };
+  }
+
+  async getRoomByDailyRoomName(dailyRoomName: string): Promise<Room | undefined> {
+    const room = this.rooms.find((r) => r.dailyRoomName === dailyRoomName);
+    return room && { ...room };
+  }
+
+  async getRooms(): Promise<Room[]> {
+    return newestFirst(this.rooms, (r) => r.createdAt).map((r) => ({ ...r }));
+  }
+
+  async getRoomsByUser(userId: string): Promise<Room[]> {
+    return newestFirst(this.rooms.filter((r) => r.createdBy === userId), (r) => r.createdAt).map((r) => ({ ...r }));
+  }
+
+  // Recordings
+  async createRecording(data: Parameters<IStorage["createRecording"]>[0]): Promise<Recording> {
+    const recording = newRow<Recording>(recordings, data);
+    this.recordings.push(recording);
+    return { ...recording };
+  }
+
+  async getRecordingsByRoom(roomId: string): Promise<Recording[]> {
+    return newestFirst(this.recordings.filter((r) => r.roomId === roomId), (r) => r.createdAt).map((r) => ({ ...r }));
+  }
+
+  async getRecordingsByUser(userId: string): Promise<Recording[]> {
+    return newestFirst(this.recordings.filter((r) => r.userId === userId), (r) => r.createdAt).map((r) => ({ ...r }));
+  }
+
+  async getRecordings(): Promise<Recording[]> {
+    return newestFirst(this.recordings, (r) => r.createdAt).map((r) => ({ ...r }));
+  }
+
+  async getRecordingById(id: string): Promise<Recording | undefined> {
+    const recording = this.recordings.find((r) => r.id === id);
+    return recording && { ...recording };
+  }
+
+  async updateRecording(id: string, data: Partial<Omit<Recording, "id" | "createdAt">>): Promise<Recording> {
+    const recording = this.recordings.find((r) => r.id === id)!;
+    return recording && { ...assign(recording, data) };
+  }
+
+  async deleteRecording(id: string): Promise<void> {
+    this.recordings = this.recordings.filter((r) => r.id !== id);
+  }
+
+  // Processed Folders
+  async getProcessedFolderByRoom(roomId: string): Promise<ProcessedFolder | undefined> {
+    const folder = this.processedFolders.find((f) => f.roomId === roomId);
+    return folder && { ...folder };
+  }
+
+  async claimProcessedFolder(roomId: string, nameSuffix: string | null, number?: number): Promise<ProcessedFolder> {
+    // Checked and claimed without yielding, like the unique room_id in Postgres
+    const existing = this.processedFolders.find((f) => f.roomId === roomId);
+    if (existing) return { ...existing };
+
+    if (number === undefined) {
+      number = ++this.processedFolderSeq;
+    }
+    const padded = String(number).padStart(4, "0");
+    const folder = newRow<ProcessedFolder>(processedFolders, {
+      roomId,
+      number,
+      name: nameSuffix ? `${padded}_${nameSuffix}` : padded,
+    });
+    this.processedFolders.push(folder);
+    return { ...folder };
+  }
+
+  // Onboarding Samples
+  async createOnboardingSample(data: Parameters<IStorage["createOnboardingSample"]>[0]): Promise<OnboardingSample> {
+    const sample = newRow<OnboardingSample>(onboardingSamples, data);
+    this.onboardingSamples.push(sample);
+    return { ...sample };
+  }
+
+  async getOnboardingSampleById(id: string): Promise<OnboardingSample | undefined> {
+    const sample = this.onboardingSamples.find((s) => s.id === id);
+    return sample && { ...sample };
+  }
+
+  async getOnboardingSamplesByUser(userId: string): Promise<OnboardingSample[]> {
+    return this.onboardingSamples
+      .filter((s) => s.userId === userId)
+      .sort((a, b) => a.promptIndex - b.promptIndex)
+      .map((s) => ({ ...s }));
+  }
+
+  async updateOnboardingSample(id: string, data: Partial<Omit<OnboardingSample, "id" | "createdAt">>): Promise<OnboardingSample> {
+    const sample = this.onboardingSamples.find((s) => s.id === id)!;
+    return sample && { ...assign(sample, data) };
+  }
+
+  async getTotalProcessedCount(): Promise<number> {
+    return (
+      this.recordings.filter((r) => r.processedFolder != null).length +
+      this.onboardingSamples.filter((s) => s.processedFolder != null).length
+    );
+  }
+
+  // Referral Codes
+  async createReferralCode(userId: string): Promise<ReferralCode> {
+    const code = crypto.randomBytes(6).toString("base64url").slice(0, 8);
+    const referral = newRow<ReferralCode>(referralCodes, { code, userId });
+    this.referralCodes.push(referral);
+    return { ...referral };
+  }
+
+  async getReferralCodeByUser(userId: string): Promise<ReferralCode | undefined> {
+    const referral = this.referralCodes.find((c) => c.userId === userId);
+    return referral && { ...referral };
+  }
+
+  async getReferralCodeByCode(code: string): Promise<ReferralCode | undefined> {
+    const referral = this.referralCodes.find((c) => c.code === code);
+    return referral && { ...referral };
+  }
+
+  // Room Invitations
+  async createRoomInvitation(data: { roomId: string; invitedBy: string; invitedUserId: string }): Promise<RoomInvitation> {
+    const invitation = newRow<RoomInvitation>(roomInvitations, data);
+    this.roomInvitations.push(invitation);
+    return { ...invitation };
+  }
+
+  async getPendingInvitationsForUser(userId: string): Promise<(RoomInvitation & { roomName: string; inviterEmail: string })[]> {
+    const pending = this.roomInvitations.filter((i) => i.invitedUserId === userId && i.status === "pending");
+    const rows: (RoomInvitation & { roomName: string; inviterEmail: string })[] = [];
+    for (const invitation of newestFirst(pending, (i) => i.createdAt)) {
+      const room = this.rooms.find((r) => r.id === invitation.roomId);
+      const inviter = this.users.find((u) => u.id === invitation.invitedBy);
+      if (!room || !inviter) continue;
+      rows.push({ ...invitation, roomName: room.name, inviterEmail: inviter.username });
+    }
+    return rows;
+  }
+
+  async getRoomInvitationForUser(roomId: string, userId: string): Promise<RoomInvitation | undefined> {
+    const [invitation] = newestFirst(this.roomInvitations.filter((i) => i.roomId === roomId && i.invitedUserId === userId), (i) => i.createdAt);
+    return invitation && { ...invitation };
+  }
+
+  async updateRoomInvitation(id: string, data: Partial<Omit<RoomInvitation, "id" | "createdAt">>): Promise<RoomInvitation> {
+    const invitation = this.roomInvitations.find((i) => i.id === id)!;
+    return invitation && { ...assign(invitation, data) };
+  }
+
+  // Notifications
+  async createNotification(data: { userId: string; type: string; title: string; message: string; data?: unknown }): Promise<Notification> {
+    const notification = newRow<Notification>(notifications, data);
+    this.notifications.push(notification);
+    return { ...notification };
+  }
+
+  async getNotificationsByUser(userId: string): Promise<Notification[]> {
+    return newestFirst(this.notifications.filter((n) => n.userId === userId), (n) => n.createdAt)
+      .slice(0, 50)
+      .map((n) => ({ ...n }));
+  }
+
+  async getUnreadNotificationCount(userId: string): Promise<number> {
+    return this.notifications.filter((n) => n.userId === userId && !n.read).length;
+  }
+
+  async markNotificationRead(id: string): Promise<void> {
+    const notification = this.notifications.find((n) => n.id === id);
+    if (notification) notification.read = true;
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<void> {
+    for (const notification of this.notifications) {
+      if (notification.userId === userId) notification.read = true;
+    }
+  }
+
+  // Task Types
+  async getTaskTypes(): Promise<TaskType[]> {
+    return oldestFirst(this.taskTypes, (t) => t.createdAt)
+      .sort((a, b) => a.sortOrder - b.sortOrder)
+      .map((t) => ({ ...t }));
+  }
+
+  async getTaskTypeById(id: string): Promise<TaskType | undefined> {
+    const taskType = this.taskTypes.find((t) => t.id === id);
+    return taskType && { ...taskType };
+  }
+
+  async createTaskType(data: InsertTaskType, createdBy?: string): Promise<TaskType> {
+    const taskType = newRow<TaskType>(taskTypes, { ...data, version: 1 });
+    this.taskTypes.push(taskType);
+    this.taskTypeVersions.push(newRow<TaskTypeVersion>(taskTypeVersions, {
+      taskTypeId: taskType.id,
+      version: 1,
+      definition: pickTaskTypeDefinition(taskType),
+      createdBy: createdBy ?? null,
+    }));
+    return { ...taskType };
+  }
+
+  async updateTaskType(id: string, data: Partial<Omit<InsertTaskType, "id">>, updatedBy?: string): Promise<TaskType> {
+    const current = this.taskTypes.find((t) => t.id === id);
+    if (!current) {
+      throw new Error(`Task type not found: ${id}`);
+    }
+
+    // Same versioning rule as DatabaseStorage: only definition changes bump the version
+    const definitionChanged = TASK_TYPE_DEFINITION_FIELDS.some(
+      (field) => field in data && JSON.stringify(data[field] ?? null) !== JSON.stringify(current[field] ?? null)
+    );
+    const version = definitionChanged ? current.version + 1 : current.version;
+    assign(current, { ...data, version, updatedAt: new Date() } as Partial<TaskType>);
+
+    if (definitionChanged) {
+      this.taskTypeVersions.push(newRow<TaskTypeVersion>(taskTypeVersions, {
+        taskTypeId: id,
+        version,
+        definition: pickTaskTypeDefinition(current),
+        createdBy: updatedBy ?? null,
+      }));
+    }
+    return { ...current };
+  }
+
+  async getTaskTypeVersion(taskTypeId: string, version: number): Promise<TaskTypeVersion | undefined> {
+    const snapshot = this.taskTypeVersions.find((v) => v.taskTypeId === taskTypeId && v.version === version);
+    return snapshot && { ...snapshot };
+  }
+
+  async getTaskDefinitionForSession(session: Pick<TaskSession, "taskType" | "taskTypeVersion">): Promise<(TaskTypeDefinition & { id: string; version: number }) | undefined> {
+    const version = session.taskTypeVersion ?? 1;
+    const snapshot = await this.getTaskTypeVersion(session.taskType, version);
+    if (snapshot) {
+      return { ...snapshot.definition, id: session.taskType, version };
+    }
+    const current = await this.getTaskTypeById(session.taskType);
+    return current ? { ...pickTaskTypeDefinition(current), id: current.id, version: current.version } : undefined;
+  }
+
+  async seedTaskTypes(defs: InsertTaskType[]): Promise<void> {
+    if (this.taskTypes.length > 0) return;
+    for (let i = 0; i < defs.length; i++) {
+      await this.createTaskType({ ...defs[i], sortOrder: defs[i].sortOrder ?? i });
+    }
+  }
+
+  // Task Sessions
+  async createTaskSession(data: { taskType: string; taskTypeVersion?: number; userId: string; partnerEmail?: string; partnerStatus?: string; status?: string }): Promise<TaskSession> {
+    const session = newRow<TaskSession>(taskSessions, data);
+    this.taskSessions.push(session);
+    return { ...session };
+  }
+
+  async getTaskSessionById(id: string): Promise<TaskSession | undefined> {
+    const session = this.taskSessions.find((s) => s.id === id);
+    return session && { ...session };
+  }
+
+  async getTaskSessionsByUser(userId: string): Promise<TaskSession[]> {
+    return newestFirst(this.taskSessions.filter((s) => s.userId === userId), (s) => s.createdAt).map((s) => ({ ...s }));
+  }
+
+  async getActiveTaskSessionByUserAndType(userId: string, taskType: string): Promise<TaskSession | undefined> {
+    const [session] = newestFirst(
+      this.taskSessions.filter(
+        (s) => s.userId === userId && s.taskType === taskType && !["completed", "pending_review", "cancelled"].includes(s.status)
+      ),
+      (s) => s.createdAt,
+    );
+    return session && { ...session };
+  }
+
+  async updateTaskSession(id: string, data: Partial<Omit<TaskSession, "id" | "createdAt">>): Promise<TaskSession> {
+    const session = this.taskSessions.find((s) => s.id === id)!;
+    return session && { ...assign(session, { ...data, updatedAt: new Date() }) };
+  }
+
+  async getTaskSessionsByRoom(roomId: string): Promise<TaskSession[]> {
+    return this.taskSessions.filter((s) => s.roomId === roomId).map((s) => ({ ...s }));
+  }
+
+  async getTaskSessionsByPartner(partnerId: string): Promise<TaskSession[]> {
+    return this.taskSessions.filter((s) => s.partnerId === partnerId).map((s) => ({ ...s }));
+  }
+
+  async getTaskSessionsByPartnerEmail(email: string): Promise<TaskSession[]> {
+    return this.taskSessions
+      .filter((s) => s.partnerEmail === email && s.partnerStatus === "invited")
+      .map((s) => ({ ...s }));
+  }
+
+  async updateTaskSessionsForApprovedPartner(partnerId: string): Promise<void> {
+    for (const session of this.taskSessions) {
+      if (session.partnerId === partnerId && session.partnerStatus === "registered") {
+        assign(session, { partnerStatus: "approved", status: "ready_to_record", updatedAt: new Date() });
+      }
+    }
+  }
+
+  async getAllTaskSessionsWithUsers(): Promise<(TaskSession & { userEmail: string; recordings: Recording[]; recordingArtifacts: RecordingArtifact[]; artifacts: FolderArtifact[]; duplicateMatches: DuplicateMatchSummary[] })[]> {
+    const rows: (TaskSession & { userEmail: string; recordings: Recording[]; recordingArtifacts: RecordingArtifact[]; artifacts: FolderArtifact[]; duplicateMatches: DuplicateMatchSummary[] })[] = [];
+    for (const session of newestFirst(this.taskSessions, (s) => s.updatedAt)) {
+      const user = this.users.find((u) => u.id === session.userId);
+      if (!user) continue;
+
+      const roomRecordings = session.roomId ? await this.getRecordingsByRoom(session.roomId) : [];
+      const recordingIds = roomRecordings.map((r) => r.id);
+      rows.push({
+        ...session,
+        userEmail: user.username,
+        recordings: roomRecordings,
+        recordingArtifacts: await this.getRecordingArtifactsByRecordingIds(recordingIds),
+        duplicateMatches: await this.getDuplicateMatchesForRecordings(recordingIds),
+        artifacts: session.roomId ? await this.getFolderArtifactsByRoomIds([session.roomId]) : [],
+      });
+    }
+    return rows;
+  }
+
+  async getRecordingsByRoomIds(roomIds: string[]): Promise<Recording[]> {
+    return newestFirst(this.recordings.filter((r) => roomIds.includes(r.roomId)), (r) => r.createdAt).map((r) => ({ ...r }));
+  }
+
+  async getCompletedTaskSessions(filters: ExportFilters): Promise<TaskSession[]> {
+    // `to` is inclusive of the whole day
+    const end = filters.to ? new Date(filters.to) : null;
+    end?.setUTCDate(end.getUTCDate() + 1);
+
+    return oldestFirst(
+      this.taskSessions.filter((s) =>
+        s.status === "completed" &&
+        s.roomId != null &&
+        (!filters.taskType || s.taskType === filters.taskType) &&
+        (!filters.from || s.createdAt >= new Date(filters.from)) &&
+        (!end || s.createdAt < end) &&
+        (filters.paid === undefined || s.paid === filters.paid) &&
+        (!filters.reviewerStatus || s.reviewerStatus === filters.reviewerStatus)
+      ),
+      (s) => s.createdAt,
+    ).map((s) => ({ ...s }));
+  }
+
+  async getUsersByIds(ids: string[]): Promise<User[]> {
+    return this.users.filter((u) => ids.includes(u.id)).map((u) => ({ ...u }));
+  }
+
+  // Recording Artifacts
+  async upsertRecordingArtifact(data: { recordingId: string; profile: AudioOutputProfileId; s3Key: string; fileSize?: number | null }): Promise<RecordingArtifact> {
+    const existing = this.recordingArtifacts.find((a) => a.recordingId === data.recordingId && a.profile === data.profile);
+    if (existing) {
+      return { ...assign(existing, { s3Key: data.s3Key, fileSize: data.fileSize ?? null, updatedAt: new Date() }) };
+    }
+    const artifact = newRow<RecordingArtifact>(recordingArtifacts, data);
+    this.recordingArtifacts.push(artifact);
+    return { ...artifact };
+  }
+
+  async getRecordingArtifact(recordingId: string, profile: AudioOutputProfileId): Promise<RecordingArtifact | undefined> {
+    const artifact = this.recordingArtifacts.find((a) => a.recordingId === recordingId && a.profile === profile);
+    return artifact && { ...artifact };
+  }
+
+  async getRecordingArtifactsByRecordingIds(recordingIds: string[]): Promise<RecordingArtifact[]> {
+    return this.recordingArtifacts.filter((a) => recordingIds.includes(a.recordingId)).map((a) => ({ ...a }));
+  }
+
+  // Recording Segments
+  async replaceRecordingSegments(recordingId: string, segments: { startMs: number; endMs: number }[]): Promise<RecordingSegment[]> {
+    this.recordingSegments = this.recordingSegments.filter((s) => s.recordingId !== recordingId);
+    const rows = segments.map((s, seq) =>
+      newRow<RecordingSegment>(recordingSegments, { recordingId, seq, startMs: s.startMs, endMs: s.endMs })
+    );
+    this.recordingSegments.push(...rows);
+    return rows.map((s) => ({ ...s }));
+  }
+
+  async getRecordingSegments(recordingId: string): Promise<RecordingSegment[]> {
+    return this.recordingSegments
+      .filter((s) => s.recordingId === recordingId)
+      .sort((a, b) => a.seq - b.seq)
+      .map((s) => ({ ...s }));
+  }
+
+  // Transcripts
+  async upsertTranscript(data: { recordingId: string; provider: string; language: string | null; text: string; words: TranscriptWord[] }): Promise<Transcript> {
+    const existing = this.transcripts.find((t) => t.recordingId === data.recordingId);
+    if (existing) {
+      return { ...assign(existing, { ...data, updatedAt: new Date() }) };
+    }
+    const transcript = newRow<Transcript>(transcripts, data);
+    this.transcripts.push(transcript);
+    return { ...transcript };
+  }
+
+  async getTranscriptByRecordingId(recordingId: string): Promise<Transcript | undefined> {
+    const transcript = this.transcripts.find((t) => t.recordingId === recordingId);
+    return transcript && { ...transcript };
+  }
+
+  async getTranscriptsByRecordingIds(recordingIds: string[]): Promise<Transcript[]> {
+    return this.transcripts.filter((t) => recordingIds.includes(t.recordingId)).map((t) => ({ ...t }));
+  }
+
+  async searchTranscripts(filter: { query?: string; languageMismatch?: boolean; limit?: number }): Promise<TranscriptSearchResult[]> {
+    const query = filter.query?.toLowerCase();
+    const results: TranscriptSearchResult[] = [];
+    for (const transcript of newestFirst(this.transcripts, (t) => t.updatedAt)) {
+      if (query && !transcript.text.toLowerCase().includes(query)) continue;
+      const recording = this.recordings.find((r) => r.id === transcript.recordingId);
+      if (!recording) continue;
+
+      // Left joins: one row per session in the room, or one row with no session
+      const sessions: (TaskSession | undefined)[] = this.taskSessions.filter((s) => s.roomId === recording.roomId);
+      for (const session of sessions.length > 0 ? sessions : [undefined]) {
+        const taskType = session && this.taskTypes.find((t) => t.id === session.taskType);
+        const expectedLanguage = taskType?.language ?? null;
+        if (filter.languageMismatch && (expectedLanguage == null || transcript.language === expectedLanguage)) continue;
+        results.push({
+          recordingId: transcript.recordingId,
+          provider: transcript.provider,
+          language: transcript.language,
+          expectedLanguage,
+          text: transcript.text,
+          speakerId: recording.speakerId,
+          processedFolder: recording.processedFolder,
+          taskType: session?.taskType ?? null,
+          updatedAt: transcript.updatedAt,
+        });
+      }
+    }
+    return results.slice(0, filter.limit ?? 50);
+  }
+
+  // Audio Fingerprints
+  /** Remove the fingerprints selected by `where`, with their hashes and matches */
+  private deleteAudioFingerprints(where: (fingerprint: AudioFingerprint) => boolean) {
+    const ids = new Set(this.audioFingerprints.filter(where).map((f) => f.id));
+    if (ids.size === 0) return;
+    this.duplicateMatches = this.duplicateMatches.filter((m) => !ids.has(m.fingerprintId) && !ids.has(m.matchedFingerprintId));
+    this.fingerprintHashes.forEach((occurrences, hash) => {
+      this.fingerprintHashes.set(hash, occurrences.filter((o) => !ids.has(o.fingerprintId)));
+    });
+    this.audioFingerprints = this.audioFingerprints.filter((f) => !ids.has(f.id));
+  }
+
+  async replaceAudioFingerprint(data: Omit<AudioFingerprint, "id" | "createdAt">, hashes: number[], frames: number[]): Promise<AudioFingerprint> {
+    this.deleteAudioFingerprints((f) =>
+      data.recordingId ? f.recordingId === data.recordingId : f.sampleId === data.sampleId
+    );
+    const fingerprint = newRow<AudioFingerprint>(audioFingerprints, data);
+    this.audioFingerprints.push(fingerprint);
+    hashes.forEach((hash, i) => {
+      const occurrences = this.fingerprintHashes.get(hash) ?? [];
+      occurrences.push({ fingerprintId: fingerprint.id, frame: frames[i] });
+      this.fingerprintHashes.set(hash, occurrences);
+    });
+    return { ...fingerprint };
+  }
+
+  async findFingerprintCandidates(fingerprint: AudioFingerprint, hashes: number[], frames: number[], minHits: number): Promise<{ fingerprintId: string; hashCount: number; frameDelta: number; hits: number }[]> {
+    const byId = new Map(this.audioFingerprints.map((f) => [f.id, f]));
+    const eligible = (f: AudioFingerprint) =>
+      f.id !== fingerprint.id &&
+      (fingerprint.roomId == null || f.roomId !== fingerprint.roomId) &&
+      !(fingerprint.sampleId != null && f.sampleId != null && f.userId === fingerprint.userId);
+
+    // Hits per (fingerprint, frame delta), then the best-aligned delta per fingerprint
+    const hits = new Map<string, number>();
+    hashes.forEach((hash, i) => {
+      for (const occurrence of this.fingerprintHashes.get(hash) ?? []) {
+        const other = byId.get(occurrence.fingerprintId);
+        if (!other || !eligible(other)) continue;
+        const key = `${occurrence.fingerprintId}|${occurrence.frame - frames[i]}`;
+        hits.set(key, (hits.get(key) ?? 0) + 1);
+      }
+    });
+
+    const best = new Map<string, { fingerprintId: string; hashCount: number; frameDelta: number; hits: number }>();
+    hits.forEach((count, key) => {
+      if (count < minHits) return;
+      const [fingerprintId, delta] = key.split("|");
+      const current = best.get(fingerprintId);
+      if (!current || count > current.hits) {
+        best.set(fingerprintId, { fingerprintId, hashCount: byId.get(fingerprintId)!.hashCount, frameDelta: Number(delta), hits: count });
+      }
+    });
+    return Array.from(best.values());
+  }
+
+  async createDuplicateMatch(data: Omit<DuplicateMatch, "id" | "createdAt">): Promise<DuplicateMatch> {
+    const existing = this.duplicateMatches.find(
+      (m) => m.fingerprintId === data.fingerprintId && m.matchedFingerprintId === data.matchedFingerprintId
+    );
+    if (existing) {
+      return { ...assign(existing, { score: data.score, hits: data.hits, offsetMs: data.offsetMs }) };
+    }
+    const match = newRow<DuplicateMatch>(duplicateMatches, data);
+    this.duplicateMatches.push(match);
+    return { ...match };
+  }
+
+  async getDuplicateMatchesForRecordings(recordingIds: string[]): Promise<DuplicateMatchSummary[]> {
+    const oursById = new Map(
+      this.audioFingerprints.filter((f) => f.recordingId && recordingIds.includes(f.recordingId)).map((f) => [f.id, f])
+    );
+    const summaries = new Map<string, DuplicateMatchSummary>();
+    for (const match of this.duplicateMatches) {
+      const oursIsNewer = oursById.has(match.fingerprintId);
+      if (!oursIsNewer && !oursById.has(match.matchedFingerprintId)) continue;
+
+      const mine = oursById.get(oursIsNewer ? match.fingerprintId : match.matchedFingerprintId)!;
+      const other = this.audioFingerprints.find((f) => f.id === (oursIsNewer ? match.matchedFingerprintId : match.fingerprintId));
+      const otherUser = other && this.users.find((u) => u.id === other.userId);
+      if (!other || !otherUser) continue;
+      const key = `${mine.id}:${other.id}`;
+      if (summaries.has(key)) continue;
+      summaries.set(key, {
+        recordingId: mine.recordingId!,
+        matchedRecordingId: other.recordingId,
+        matchedSampleId: other.sampleId,
+        matchedUserId: other.userId,
+        matchedUserEmail: otherUser.username,
+        matchedFolder: this.recordings.find((r) => r.id === other.recordingId)?.processedFolder ?? null,
+        score: match.score,
+        offsetMs: oursIsNewer ? match.offsetMs : -match.offsetMs,
+      });
+    }
+    return Array.from(summaries.values());
+  }
+
+  // Speaker Embeddings
+  async getSpeakerEmbedding(owner: { recordingId: string } | { sampleId: string }): Promise<SpeakerEmbedding | undefined> {
+    const embedding = this.speakerEmbeddings.find((e) =>
+      "recordingId" in owner ? e.recordingId === owner.recordingId : e.sampleId === owner.sampleId
+    );
+    return embedding && { ...embedding };
+  }
+
+  async upsertSpeakerEmbedding(data: Omit<SpeakerEmbedding, "id" | "createdAt">): Promise<SpeakerEmbedding> {
+    const existing = this.speakerEmbeddings.find((e) =>
+      data.recordingId ? e.recordingId === data.recordingId : e.sampleId === data.sampleId
+    );
+    if (existing) {
+      return { ...assign(existing, { provider: data.provider, embedding: data.embedding, createdAt: new Date() }) };
+    }
+    const embedding = newRow<SpeakerEmbedding>(speakerEmbeddings, data);
+    this.speakerEmbeddings.push(embedding);
+    return { ...embedding };
+  }
+
+  // Folder Artifacts
+  async upsertFolderArtifact(data: { folder: string; roomId: string; kind: FolderArtifactKind; s3Key: string; durationMs?: number | null; sourceRecordingIds: string[] }): Promise<FolderArtifact> {
+    const existing = this.folderArtifacts.find((a) => a.folder === data.folder && a.kind === data.kind);
+    if (existing) {
+      return {
+        ...assign(existing, {
+          s3Key: data.s3Key,
+          durationMs: data.durationMs ?? null,
+          sourceRecordingIds: data.sourceRecordingIds,
+          updatedAt: new Date(),
+        }),
+      };
+    }
+    const artifact = newRow<FolderArtifact>(folderArtifacts, data);
+    this.folderArtifacts.push(artifact);
+    return { ...artifact };
+  }
+
+  async getFolderArtifact(folder: string, kind: FolderArtifactKind): Promise<FolderArtifact | undefined> {
+    const artifact = this.folderArtifacts.find((a) => a.folder === folder && a.kind === kind);
+    return artifact && { ...artifact };
+  }
+
+  async getFolderArtifactsByRoomIds(roomIds: string[]): Promise<FolderArtifact[]> {
+    return this.folderArtifacts.filter((a) => roomIds.includes(a.roomId)).map((a) => ({ ...a }));
+  }
+
+  // Jobs
+  async createJob(data: { type: string; key?: string | null; payload: unknown; maxAttempts?: number; userId?: string | null }): Promise<Job> {
+    const job = newRow<Job>(jobs, data);
+    this.jobs.push(job);
+    return { ...job };
+  }
+
+  async getJobById(id: string): Promise<Job | undefined> {
+    const job = this.jobs.find((j) => j.id === id);
+    return job && { ...job };
+  }
+
+  async getLatestJobByKey(type: string, key: string): Promise<Job | undefined> {
+    const [job] = newestFirst(this.jobs.filter((j) => j.type === type && j.key === key), (j) => j.createdAt);
+    return job && { ...job };
+  }
+
+  async getJobs(filter: { status?: JobStatus; type?: string; limit?: number } = {}): Promise<Job[]> {
+    return newestFirst(
+      this.jobs.filter((j) => (!filter.status || j.status === filter.status) && (!filter.type || j.type === filter.type)),
+      (j) => j.createdAt,
+    )
+      .slice(0, filter.limit ?? 200)
+      .map((j) => ({ ...j }));
+  }
+
+  async getJobCountsByStatus(): Promise<Record<string, number>> {
+    const counts: Record<string, number> = {};
+    for (const job of this.jobs) {
+      counts[job.status] = (counts[job.status] ?? 0) + 1;
+    }
+    return counts;
+  }
+
+  async claimNextJob(workerId: string): Promise<Job | undefined> {
+    // Single process, so there's nothing to lock: take the earliest runnable job
+    const now = new Date();
+    const [job] = oldestFirst(
+      this.jobs.filter((j) => (j.status === "queued" || j.status === "retrying") && j.runAt <= now),
+      (j) => j.runAt,
+    );
+    if (!job) return undefined;
+    return {
+      ...assign(job, {
+        status: "running",
+        attempts: job.attempts + 1,
+        lockedAt: new Date(),
+        lockedBy: workerId,
+        updatedAt: new Date(),
+      }),
+    };
+  }
+
+  async completeJob(id: string, result: unknown): Promise<Job> {
+    const job = this.jobs.find((j) => j.id === id)!;
+    return {
+      ...assign(job, { status: "completed", result, lockedAt: null, lockedBy: null, completedAt: new Date(), updatedAt: new Date() }),
+    };
+  }
+
+  async failJob(id: string, error: string, retryAt: Date | null): Promise<Job> {
+    const job = this.jobs.find((j) => j.id === id)!;
+    return {
+      ...assign(job, {
+        status: retryAt ? "retrying" : "dead",
+        lastError: error,
+        runAt: retryAt ?? undefined,
+        lockedAt: null,
+        lockedBy: null,
+        updatedAt: new Date(),
+      }),
+    };
+  }
+
+  async requeueJob(id: string): Promise<Job> {
+    const job = this.jobs.find((j) => j.id === id)!;
+    return {
+      ...assign(job, { status: "queued", attempts: 0, runAt: new Date(), lockedAt: null, lockedBy: null, updatedAt: new Date() }),
+    };
+  }
+
+  async releaseStaleJobs(lockedBefore: Date): Promise<number> {
+    const stale = this.jobs.filter((j) => j.status === "running" && j.lockedAt && j.lockedAt < lockedBefore);
+    for (const job of stale) {
+      assign(job, {
+        status: job.attempts >= job.maxAttempts ? "dead" : "retrying",
+        lastError: "Worker lock expired",
+        lockedAt: null,
+        lockedBy: null,
+        runAt: new Date(),
+        updatedAt: new Date(),
+      });
+    }
+    return stale.length;
+  }
+
+  // Retention
+  async getRetentionRules(): Promise<RetentionRule[]> {
+    return oldestFirst(this.retentionRules, (r) => r.createdAt).map((r) => ({ ...r }));
+  }
+
+  async createRetentionRule(data: InsertRetentionRule): Promise<RetentionRule> {
+    const rule = newRow<RetentionRule>(retentionRules, data);
+    this.retentionRules.push(rule);
+    return { ...rule };
+  }
+
+  async updateRetentionRule(id: string, data: Partial<Pick<RetentionRule, "action" | "afterDays" | "enabled">>): Promise<RetentionRule | undefined> {
+    const rule = this.retentionRules.find((r) => r.id === id);
+    return rule && { ...assign(rule, { ...data, updatedAt: new Date() }) };
+  }
+
+  async deleteRetentionRule(id: string): Promise<void> {
+    this.retentionRules = this.retentionRules.filter((r) => r.id !== id);
+  }
+
+  /** Left join on room: one row per session in the room, or a single row without one */
+  private withSessions<T>(rows: T[], roomId: (row: T) => string): { row: T; session: Pick<TaskSession, "status" | "reviewerStatus"> | null }[] {
+    return rows.flatMap((row): { row: T; session: Pick<TaskSession, "status" | "reviewerStatus"> | null }[] => {
+      const sessions = this.taskSessions.filter((s) => s.roomId === roomId(row));
+      return sessions.length > 0
+        ? sessions.map((s) => ({ row, session: { status: s.status, reviewerStatus: s.reviewerStatus } }))
+        : [{ row, session: null }];
+    });
+  }
+
+  async getRecordingsForRetention(): Promise<{ recording: Recording; session: Pick<TaskSession, "status" | "reviewerStatus"> | null }[]> {
+    return this.withSessions(this.recordings, (r) => r.roomId).map(({ row, session }) => ({ recording: { ...row }, session }));
+  }
+
+  async getFolderArtifactsForRetention(): Promise<{ artifact: FolderArtifact; session: Pick<TaskSession, "status" | "reviewerStatus"> | null }[]> {
+    return this.withSessions(this.folderArtifacts, (a) => a.roomId).map(({ row, session }) => ({ artifact: { ...row }, session }));
+  }
+
+  async getReferencedObjectKeys(): Promise<Set<string>> {
+    const keys = new Set<string>();
+    const add = (key: string | null) => {
+      if (key) keys.add(key);
+    };
+    for (const recording of this.recordings) {
+      add(recording.s3Key);
+      add(recording.wavS3Key);
+      add(recording.wavS3Key && recording.wavS3Key.replace(/\.wav$/, ".webm"));
+      add(recording.peaksS3Key);
+      add(recording.alignedWavS3Key);
+    }
+    this.recordingArtifacts.forEach((a) => add(a.s3Key));
+    this.folderArtifacts.forEach((a) => add(a.s3Key));
+    for (const sample of this.onboardingSamples) {
+      add(sample.s3Key);
+      add(sample.wavS3Key);
+    }
+    return keys;
+  }
+
+  async createRetentionSweep(data: { dryRun: boolean; planSweepId?: string | null; triggeredBy?: string | null }): Promise<RetentionSweep> {
+    const sweep = newRow<RetentionSweep>(retentionSweeps, data);
+    this.retentionSweeps.push(sweep);
+    return { ...sweep };
+  }
+
+  async updateRetentionSweep(id: string, data: Partial<Pick<RetentionSweep, "status" | "objectCount" | "error" | "finishedAt">>): Promise<RetentionSweep> {
+    const sweep = this.retentionSweeps.find((s) => s.id === id)!;
+    return sweep && { ...assign(sweep, data) };
+  }
+
+  async getRetentionSweepById(id: string): Promise<RetentionSweep | undefined> {
+    const sweep = this.retentionSweeps.find((s) => s.id === id);
+    return sweep && { ...sweep };
+  }
+
+  async getRetentionSweeps(limit = 50): Promise<RetentionSweep[]> {
+    return newestFirst(this.retentionSweeps, (s) => s.createdAt).slice(0, limit).map((s) => ({ ...s }));
+  }
+
+  async addRetentionActions(sweepId: string, actions: Omit<RetentionActionRecord, "id" | "sweepId" | "createdAt">[]): Promise<void> {
+    for (const action of actions) {
+      this.retentionActions.push(newRow<RetentionActionRecord>(retentionActions, { ...action, sweepId }));
+    }
+  }
+
+  async getRetentionActions(sweepId: string): Promise<RetentionActionRecord[]> {
+    return this.retentionActions
+      .filter((a) => a.sweepId === sweepId)
+      .sort((a, b) => a.artifactType.localeCompare(b.artifactType) || a.s3Key.localeCompare(b.s3Key))
+      .map((a) => ({ ...a }));
+  }
+
+  async getAppliedRetentionActions(): Promise<Map<string, RetentionActionRecord["action"]>> {
+    const applied = new Map<string, RetentionActionRecord["action"]>();
+    for (const action of this.retentionActions) {
+      const sweep = this.retentionSweeps.find((s) => s.id === action.sweepId);
+      if (!sweep || sweep.dryRun) continue;
+      if (applied.get(action.s3Key) !== "delete") applied.set(action.s3Key, action.action);
+    }
+    return applied;
+  }
+
+  async clearObjectReferences(s3Key: string): Promise<void> {
+    for (const recording of this.recordings) {
+      if (recording.peaksS3Key === s3Key) recording.peaksS3Key = null;
+      if (recording.alignedWavS3Key === s3Key) recording.alignedWavS3Key = null;
+    }
+    this.recordingArtifacts = this.recordingArtifacts.filter((a) => a.s3Key !== s3Key);
+    this.folderArtifacts = this.folderArtifacts.filter((a) => a.s3Key !== s3Key);
+  }
+
+  // Email Outbox
+  async createOutboxEmail(data: Pick<OutboxEmail, "template" | "templateVersion" | "toAddress" | "subject" | "html" | "text" | "params">): Promise<OutboxEmail> {
+    const email = newRow<OutboxEmail>(emailOutbox, data);
+    this.emailOutbox.push(email);
+    return { ...email };
+  }
+
+  async getOutboxEmailById(id: string): Promise<OutboxEmail | undefined> {
+    const email = this.emailOutbox.find((e) => e.id === id);
+    return email && { ...email };
+  }
+
+  async updateOutboxEmail(id: string, data: Partial<Pick<OutboxEmail, "status" | "attempts" | "lastError" | "transport" | "messageId" | "sentAt">>): Promise<OutboxEmail> {
+    const email = this.emailOutbox.find((e) => e.id === id)!;
+    return email && { ...assign(email, { ...data, updatedAt: new Date() }) };
+  }
+
+  async getOutboxEmails(filter: { status?: EmailStatus; limit?: number } = {}): Promise<OutboxEmail[]> {
+    return newestFirst(this.emailOutbox.filter((e) => !filter.status || e.status === filter.status), (e) => e.createdAt)
+      .slice(0, filter.limit ?? 200)
+      .map((e) => ({ ...e }));
+  }
+
+  // Auth Tokens
+  async createAuthToken(data: Pick<AuthToken, "userId" | "purpose" | "tokenHash" | "expiresAt">): Promise<AuthToken> {
+    const token = newRow<AuthToken>(authTokens, data);
+    this.authTokens.push(token);
+    return { ...token };
+  }
+
+  async consumeAuthToken(tokenHash: string, purpose: AuthTokenPurpose): Promise<AuthToken | undefined> {
+    const now = new Date();
+    const token = this.authTokens.find(
+      (t) => t.tokenHash === tokenHash && t.purpose === purpose && !t.usedAt && t.expiresAt > now
+    );
+    return token && { ...assign(token, { usedAt: now }) };
+  }
+
+  async deleteAuthTokens(userId: string, purpose: AuthTokenPurpose): Promise<void> {
+    this.authTokens = this.authTokens.filter((t) => !(t.userId === userId && t.purpose === purpose));
+  }
+
+  // Rate Limits
+  async getRateLimitBuckets(policy: string, subjects: string[]): Promise<RateLimitBucket[]> {
+    return this.rateLimitBuckets
+      .filter((b) => b.policy === policy && subjects.includes(b.subject))
+      .map((b) => ({ ...b }));
+  }
+
+  async hitRateLimitBucket(policy: string, subject: string, windowStartedBefore: Date): Promise<RateLimitBucket> {
+    const now = new Date();
+    const bucket = this.rateLimitBuckets.find((b) => b.policy === policy && b.subject === subject);
+    if (!bucket) {
+      const created = newRow<RateLimitBucket>(rateLimitBuckets, { policy, subject, count: 1, windowStart: now, updatedAt: now });
+      this.rateLimitBuckets.push(created);
+      return { ...created };
+    }
+    const stale = bucket.windowStart <= windowStartedBefore;
+    return {
+      ...assign(bucket, {
+        count: stale ? 1 : bucket.count + 1,
+        windowStart: stale ? now : bucket.windowStart,
+        updatedAt: now,
+      }),
+    };
+  }
+
+  async lockRateLimitBucket(id: string, lockedUntil: Date, strikes: number): Promise<RateLimitBucket> {
+    const bucket = this.rateLimitBuckets.find((b) => b.id === id)!;
+    const now = new Date();
+    return bucket && { ...assign(bucket, { lockedUntil, strikes, count: 0, windowStart: now, updatedAt: now }) };
+  }
+
+  async resetRateLimitBucket(policy: string, subject: string): Promise<void> {
+    this.rateLimitBuckets = this.rateLimitBuckets.filter((b) => !(b.policy === policy && b.subject === subject));
+  }
+
+  async getRateLimitLockouts(limit = 200): Promise<RateLimitBucket[]> {
+    return newestFirst(this.rateLimitBuckets.filter((b) => b.lockedUntil), (b) => b.lockedUntil!)
+      .slice(0, limit)
+      .map((b) => ({ ...b }));
+  }
+
+  async deleteRateLimitBucket(id: string): Promise<RateLimitBucket | undefined> {
+    const bucket = this.rateLimitBuckets.find((b) => b.id === id);
+    this.rateLimitBuckets = this.rateLimitBuckets.filter((b) => b.id !== id);
+    return bucket;
+  }
+
+  async pruneRateLimitBuckets(updatedBefore: Date): Promise<number> {
+    const before = this.rateLimitBuckets.length;
+    this.rateLimitBuckets = this.rateLimitBuckets.filter((b) => b.updatedAt >= updatedBefore);
+    return before - this.rateLimitBuckets.length;
+  }
+
+  // Blocked Emails
+  async createBlockedEmail(data: { email: string; blockedBy: string; reason?: string }): Promise<void> {
+    if (this.blockedEmails.some((b) => b.email === data.email)) return;
+    this.blockedEmails.push(newRow<BlockedEmail>(blockedEmails, data));
+  }
+
+  async isEmailBlocked(email: string): Promise<boolean> {
+    return this.blockedEmails.some((b) => b.email === email);
+  }
+
+  async deleteOnboardingSamplesByUser(userId: string): Promise<void> {
+    this.deleteAudioFingerprints((f) => f.userId === userId && f.sampleId != null);
+    this.speakerEmbeddings = this.speakerEmbeddings.filter((e) => !(e.userId === userId && e.sampleId != null));
+    this.onboardingSamples = this.onboardingSamples.filter((s) => s.userId !== userId);
+  }
+
+  async deleteUser(id: string): Promise<void> {
+    this.deleteAudioFingerprints((f) => f.userId === id);
+    this.speakerEmbeddings = this.speakerEmbeddings.filter((e) => e.userId !== id);
+    for (const sweep of this.retentionSweeps) {
+      if (sweep.triggeredBy === id) sweep.triggeredBy = null;
+    }
+    for (const version of this.taskTypeVersions) {
+      if (version.createdBy === id) version.createdBy = null;
+    }
+    this.onboardingSamples = this.onboardingSamples.filter((s) => s.userId !== id);
+    this.notifications = this.notifications.filter((n) => n.userId !== id);
+    this.referralCodes = this.referralCodes.filter((c) => c.userId !== id);
+    this.authTokens = this.authTokens.filter((t) => t.userId !== id);
+    this.jobs = this.jobs.filter((j) => j.userId !== id);
+    this.roomInvitations = this.roomInvitations.filter((i) => i.invitedUserId !== id && i.invitedBy !== id);
+
+    const recordingIds = new Set(this.recordings.filter((r) => r.userId === id).map((r) => r.id));
+    this.recordingArtifacts = this.recordingArtifacts.filter((a) => !recordingIds.has(a.recordingId));
+    this.recordingSegments = this.recordingSegments.filter((s) => !recordingIds.has(s.recordingId));
+    this.transcripts = this.transcripts.filter((t) => !recordingIds.has(t.recordingId));
+    this.recordings = this.recordings.filter((r) => r.userId !== id);
+    this.taskSessions = this.taskSessions.filter((s) => s.userId !== id && s.partnerId !== id);
+
+    const referencedBy = this.tablesReferencingUser(id);
+    if (referencedBy.length > 0) {
+      throw new Error(`update or delete on table "users" violates foreign key constraint on table "${referencedBy[0]}"`);
+    }
+    this.users = this.users.filter((u) => u.id !== id);
+  }
+
+  /** Tables with a row whose foreign key to users(id) points at this user */
+  private tablesReferencingUser(id: string): string[] {
+    const references: [string, boolean][] = [
+      ["audio_fingerprints", this.audioFingerprints.some((f) => f.userId === id)],
+      ["speaker_embeddings", this.speakerEmbeddings.some((e) => e.userId === id)],
+      ["retention_sweeps", this.retentionSweeps.some((s) => s.triggeredBy === id)],
+      ["task_type_versions", this.taskTypeVersions.some((v) => v.createdBy === id)],
+      ["onboarding_samples", this.onboardingSamples.some((s) => s.userId === id)],
+      ["notifications", this.notifications.some((n) => n.userId === id)],
+      ["referral_codes", this.referralCodes.some((c) => c.userId === id)],
+      ["auth_tokens", this.authTokens.some((t) => t.userId === id)],
+      ["jobs", this.jobs.some((j) => j.userId === id)],
+      ["room_invitations", this.roomInvitations.some((i) => i.invitedUserId === id || i.invitedBy === id)],
+      ["rooms", this.rooms.some((r) => r.createdBy === id)],
+      ["recordings", this.recordings.some((r) => r.userId === id)],
+      ["task_sessions", this.taskSessions.some((s) => s.userId === id || s.partnerId === id)],
+      ["blocked_emails", this.blockedEmails.some((b) => b.blockedBy === id)],
+    ];
+    return references.filter(([, referenced]) => referenced).map(([table]) => table);
+  }
+}
@@ -0,0 +1,81 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+
+import { storage } from "./storage";
+import { objectStorage } from "./object-storage";
+import { runFfmpeg, probeDurationMs } from "./ffmpeg";
+import { findAlignablePair } from "./align-tracks";
+import type { FolderArtifact } from "@shared/schema";
+
+/**
+ * Build the conversation mixes for a room's processed folder: a stereo WAV with
+ * spk0 on the left and spk1 on the right, and a mono mix for quick listening.
+ * Uses the aligned tracks when alignment has run so both channels are in sync.
+ */
+export async function mixRoomTracks(roomId: string): Promise<FolderArtifact[] | null> {
+  const pair = await findAlignablePair(roomId);
+  if (!pair) return null;
+  const [spk0, spk1] = pair;
+
+  const folder = spk0.processedFolder!;
+  const folderNumber = folder.match(/^(\d+)/)?.[1] ?? folder;
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "mix-"));
+  const left = path.join(tmpDir, "spk0.wav");
+  const right = path.join(tmpDir, "spk1.wav");
+  const stereoPath = path.join(tmpDir, "stereo.wav");
+  const monoPath = path.join(tmpDir, "mono.wav");
+
+  try {
+    fs.writeFileSync(left, await objectStorage.download(spk0.alignedWavS3Key || spk0.wavS3Key!));
+    fs.writeFileSync(right, await objectStorage.download(spk1.alignedWavS3Key || spk1.wavS3Key!));
+
+    await runFfmpeg([
+      "-i", left,
+      "-i", right,
+      "-filter_complex", "[0:a][1:a]amerge=inputs=2,pan=stereo|c0=c0|c1=c1[out]",
+      "-map", "[out]",
+      "-ar", "48000",
+      "-c:a", "pcm_s16le",
+      stereoPath,
+    ]);
+
+    // amix halves each input; the limiter keeps overlapping speech from clipping after makeup gain
+    await runFfmpeg([
+      "-i", left,
+      "-i", right,
+      "-filter_complex", "[0:a][1:a]amix=inputs=2:duration=longest:dropout_transition=0,volume=2,alimiter=limit=0.95[out]",
+      "-map", "[out]",
+      "-ar", "48000",
+      "-ac", "1",
+      "-c:a", "pcm_s16le",
+      monoPath,
+    ]);
+
+    const sourceRecordingIds = [spk0.id, spk1.id];
+    const prefix = `processed/${folder}/${folderNumber}`;
+    const artifacts: FolderArtifact[] = [];
+
+    for (const [kind, filePath, s3Key] of [
+      ["stereo_mix", stereoPath, `${prefix}_stereo.wav`],
+      ["mono_mix", monoPath, `${prefix}_mix.wav`],
+    ] as const) {
+      await objectStorage.upload(s3Key, fs.readFileSync(filePath), "audio/wav");
+      artifacts.push(
+        await storage.upsertFolderArtifact({
+          folder,
+          roomId,
+          kind,
+          s3Key,
+          durationMs: await probeDurationMs(filePath),
+          sourceRecordingIds,
+        }),
+      );
+    }
+
+    console.log(`Mixed folder ${folder}: ${artifacts.map((a) => a.s3Key).join(", ")}`);
+    return artifacts;
+  } finally {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  }
+}
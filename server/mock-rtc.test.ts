@@ -0,0 +1,138 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import express from "express";
+import { createMockRtcProvider } from "./mock-rtc";
+
+const provider = createMockRtcProvider("test-secret");
+let server: Server;
+let baseUrl: string;
+
+before(async () => {
+  const app = express();
+  app.use(express.json());
+  provider.registerRoutes!(app);
+  server = createServer(app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+/** A participant's event stream, read one server-sent event at a time */
+class EventStream {
+  private buffered: { event: string; data: any }[] = [];
+  private waiting: (() => void) | null = null;
+  private controller = new AbortController();
+  status = 0;
+
+  async open(url: string) {
+    const res = await fetch(url, { signal: this.controller.signal });
+    this.status = res.status;
+    if (!res.ok || !res.body) return;
+    this.pump(res.body.getReader()).catch(() => {});
+  }
+
+  private async pump(reader: ReadableStreamDefaultReader<Uint8Array>) {
+    const decoder = new TextDecoder();
+    let text = "";
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      text += decoder.decode(value, { stream: true });
+      let end: number;
+      while ((end = text.indexOf("\n\n")) >= 0) {
+        const block = text.slice(0, end);
+        text = text.slice(end + 2);
+        const event = /^event: (.*)$/m.exec(block)?.[1];
+        const data = /^data: (.*)$/m.exec(block)?.[1];
+        if (event) this.buffered.push({ event, data: data ? JSON.parse(data) : null });
+      }
+      this.waiting?.();
+    }
+  }
+
+  async next(): Promise<{ event: string; data: any }> {
+    while (this.buffered.length === 0) {
+      await new Promise<void>((resolve) => (this.waiting = resolve));
+    }
+    return this.buffered.shift()!;
+  }
+
+  close() {
+    this.controller.abort();
+  }
+}
+
+async function join(url: string, token: string): Promise<EventStream> {
+  const stream = new EventStream();
+  await stream.open(`${baseUrl}${url}/events?token=${encodeURIComponent(token)}`);
+  return stream;
+}
+
+function post(path: string, body: unknown, method = "POST") {
+  return fetch(baseUrl + path, { method, headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+}
+
+test("tokens only open the room they were minted for", async () => {
+  const room = await provider.createRoom("Token Room");
+  const other = await provider.createRoom("Other Room");
+  const token = await provider.createToken(room, "user-1");
+
+  assert.match(room.name, /^Token-Room-/);
+  assert.equal((await join(other.url, token)).status, 403);
+  assert.equal((await join(room.url, token.replace(/.$/, "x"))).status, 403);
+
+  const expired = await provider.createToken({ name: room.name, expiresAt: new Date(Date.now() - 1000) }, "user-1");
+  assert.equal((await join(room.url, expired)).status, 403);
+});
+
+test("participants see each other and pass the recording handshake", async () => {
+  const room = await provider.createRoom();
+  const creatorToken = await provider.createToken(room, "creator");
+  const partnerToken = await provider.createToken(room, "partner");
+
+  const creator = await join(room.url, creatorToken);
+  const joined = await creator.next();
+  assert.equal(joined.event, "joined");
+  assert.deepEqual(joined.data.participants, []);
+  const creatorId = joined.data.self.id;
+
+  const partner = await join(room.url, partnerToken);
+  const partnerJoined = await partner.next();
+  assert.deepEqual(partnerJoined.data.participants.map((p: any) => p.userId), ["creator"]);
+  const partnerId = partnerJoined.data.self.id;
+  assert.equal((await creator.next()).data.participant.id, partnerId);
+
+  const present = await provider.listParticipants(room.name);
+  assert.deepEqual(present.map((p) => p.userId).sort(), ["creator", "partner"]);
+
+  // App messages go to everyone but the sender
+  const sent = await post(`${room.url}/participants/${creatorId}/messages`, { token: creatorToken, data: { type: "start-recording" } });
+  assert.equal(sent.status, 204);
+  assert.deepEqual(await partner.next(), { event: "app-message", data: { fromId: creatorId, data: { type: "start-recording" } } });
+
+  // A token can't speak for someone else's connection
+  const spoofed = await post(`${room.url}/participants/${creatorId}/messages`, { token: partnerToken, data: { type: "stop-recording" } });
+  assert.equal(spoofed.status, 403);
+
+  assert.equal((await post(`${room.url}/participants/${partnerId}`, { token: partnerToken, audio: false }, "PATCH")).status, 204);
+  const muted = await creator.next();
+  assert.equal(muted.event, "participant-updated");
+  assert.equal(muted.data.participant.audio, false);
+  await partner.next();
+
+  partner.close();
+  const left = await creator.next();
+  assert.equal(left.event, "participant-left");
+  assert.equal(left.data.participant.id, partnerId);
+
+  await provider.endRoom(room.name);
+  assert.equal((await creator.next()).event, "ended");
+  assert.deepEqual(await provider.listParticipants(room.name), []);
+  assert.equal((await join(room.url, creatorToken)).status, 403);
+});
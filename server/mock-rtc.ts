@@ -0,0 +1,185 @@
+import * as crypto from "node:crypto";
+import type { Express, Request, Response } from "express";
+
+import { generateRoomName } from "./daily";
+import type { RtcProvider } from "./rtc";
+
+const SIGNING_SECRET =
+  process.env.MOCK_RTC_SECRET || process.env.SESSION_SECRET || "dev-secret-change-in-production";
+const ROOM_EXPIRY_HOURS = 5;
+const ROUTE_PREFIX = "/api/mock-rtc/rooms";
+/** Comment lines keep proxies from closing an idle event stream */
+const KEEPALIVE_MS = 25 * 1000;
+
+/** A participant as the mock's client adapter sees it */
+export interface MockParticipant {
+  id: string;
+  userId: string | null;
+  audio: boolean;
+  joinedAt: string;
+}
+
+interface TokenClaims {
+  room: string;
+  userId: string | null;
+  /** Epoch ms */
+  exp: number;
+}
+
+interface Connection {
+  participant: MockParticipant;
+  res: Response;
+}
+
+/**
+ * A stand-in video provider served by this app, for development and tests without Daily
+ * or network access. It carries presence, mute state and app messages (the recording
+ * handshake) over server-sent events, but no media: each browser still records its own
+ * mic, and remote audio is simply silent.
+ *
+ * Rooms exist only while someone is connected, so a restart just makes clients rejoin.
+ */
+export function createMockRtcProvider(secret = SIGNING_SECRET): RtcProvider {
+  const rooms = new Map<string, Map<string, Connection>>();
+  const ended = new Set<string>();
+
+  function sign(payload: string): string {
+    return crypto.createHmac("sha256", secret).update(payload).digest("base64url");
+  }
+
+  function verifyToken(token: unknown, roomName: string): TokenClaims | null {
+    if (typeof token !== "string") return null;
+    const [payload, sig] = token.split(".");
+    if (!payload || !sig) return null;
+
+    const expected = Buffer.from(sign(payload));
+    const actual = Buffer.from(sig);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+
+    const claims: TokenClaims = JSON.parse(Buffer.from(payload, "base64url").toString());
+    if (claims.room !== roomName || claims.exp < Date.now() || ended.has(roomName)) return null;
+    return claims;
+  }
+
+  function send(res: Response, event: string, data: unknown) {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
+  function broadcast(roomName: string, event: string, data: unknown, exceptId?: string) {
+    for (const connection of Array.from(rooms.get(roomName)?.values() ?? [])) {
+      if (connection.participant.id !== exceptId) send(connection.res, event, data);
+    }
+  }
+
+  /** The sender's connection, if the token matches the user who opened it */
+  function findSender(req: Request): Connection | null {
+    const roomName = req.params.name as string;
+    const claims = verifyToken(req.body?.token, roomName);
+    const connection = rooms.get(roomName)?.get(req.params.id as string);
+    return claims && connection && connection.participant.userId === claims.userId ? connection : null;
+  }
+
+  return {
+    name: "mock",
+
+    async createRoom(customName) {
+      const name = generateRoomName(customName);
+      return {
+        name,
+        url: `${ROUTE_PREFIX}/${name}`,
+        expiresAt: new Date(Date.now() + ROOM_EXPIRY_HOURS * 60 * 60 * 1000),
+      };
+    },
+
+    async createToken(room, userId) {
+      const claims: TokenClaims = { room: room.name, userId: userId ?? null, exp: room.expiresAt.getTime() };
+      const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+      return `${payload}.${sign(payload)}`;
+    },
+
+    async endRoom(roomName) {
+      ended.add(roomName);
+      for (const connection of Array.from(rooms.get(roomName)?.values() ?? [])) {
+        send(connection.res, "ended", {});
+        connection.res.end();
+      }
+      rooms.delete(roomName);
+    },
+
+    async listParticipants(roomName) {
+      return Array.from(rooms.get(roomName)?.values() ?? []).map(({ participant }) => ({
+        id: participant.id,
+        userId: participant.userId,
+        joinedAt: new Date(participant.joinedAt),
+      }));
+    },
+
+    registerRoutes(app: Express) {
+      // Joining is opening the event stream; closing it is leaving
+      app.get(`${ROUTE_PREFIX}/:name/events`, (req, res) => {
+        const roomName = req.params.name as string;
+        const claims = verifyToken(req.query.token, roomName);
+        if (!claims) {
+          return res.status(403).json({ error: "Invalid or expired room token" });
+        }
+
+        res.writeHead(200, {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+          Connection: "keep-alive",
+        });
+
+        let room = rooms.get(roomName);
+        if (!room) {
+          room = new Map();
+          rooms.set(roomName, room);
+        }
+        const participant: MockParticipant = {
+          id: crypto.randomUUID(),
+          userId: claims.userId,
+          audio: true,
+          joinedAt: new Date().toISOString(),
+        };
+        send(res, "joined", {
+          self: participant,
+          participants: Array.from(room.values()).map((c) => c.participant),
+        });
+        broadcast(roomName, "participant-joined", { participant });
+        room.set(participant.id, { participant, res });
+
+        const keepalive = setInterval(() => res.write(": keepalive\n\n"), KEEPALIVE_MS);
+        req.on("close", () => {
+          clearInterval(keepalive);
+          const current = rooms.get(roomName);
+          if (!current?.delete(participant.id)) return;
+          if (current.size === 0) {
+            rooms.delete(roomName);
+          } else {
+            broadcast(roomName, "participant-left", { participant });
+          }
+        });
+      });
+
+      app.post(`${ROUTE_PREFIX}/:name/participants/:id/messages`, (req, res) => {
+        const sender = findSender(req);
+        if (!sender) {
+          return res.status(403).json({ error: "Not in this room" });
+        }
+        broadcast(req.params.name as string, "app-message", { fromId: sender.participant.id, data: req.body.data }, sender.participant.id);
+        res.status(204).end();
+      });
+
+      app.patch(`${ROUTE_PREFIX}/:name/participants/:id`, (req, res) => {
+        const sender = findSender(req);
+        if (!sender) {
+          return res.status(403).json({ error: "Not in this room" });
+        }
+        if (typeof req.body.audio === "boolean") {
+          sender.participant.audio = req.body.audio;
+        }
+        broadcast(req.params.name as string, "participant-updated", { participant: sender.participant });
+        res.status(204).end();
+      });
+    },
+  };
+}
@@ -0,0 +1,67 @@
+import * as path from "node:path";
+import type { Express } from "express";
+
+import { s3ObjectStorage } from "./s3";
+import { createLocalObjectStorage } from "./local-storage";
+
+export interface StoredObject {
+  key: string;
+  lastModified: Date;
+  size: number;
+}
+
+export interface UploadedPart {
+  partNumber: number;
+  etag: string;
+  size: number;
+}
+
+/**
+ * Where audio and derived files live. Keys are the same on every driver, so recordings
+ * keep their `s3Key` columns whichever backend wrote them.
+ */
+export interface ObjectStorageDriver {
+  readonly name: string;
+  /** Stored on recordings next to the key */
+  readonly bucket: string;
+
+  /** URL the browser can PUT the object to for the next hour */
+  generateUploadUrl(params: { key: string; contentType: string; metadata: Record<string, string> }): Promise<string>;
+  /** URL the browser can GET the object from for the next hour */
+  generateDownloadUrl(key: string): Promise<string>;
+
+  download(key: string): Promise<Buffer>;
+  upload(key: string, body: Buffer, contentType: string): Promise<void>;
+  /** Copy within the store; `sourceBucket` is only for pulling from a bucket Daily writes to */
+  copy(sourceKey: string, destKey: string, sourceBucket?: string): Promise<void>;
+  /** Size and content type of an object, or null if it doesn't exist */
+  head(key: string): Promise<{ size: number; contentType: string | null } | null>;
+  delete(key: string): Promise<void>;
+  /** Move an object to cheaper storage; it must stay downloadable */
+  archive(key: string): Promise<void>;
+  /** Every object under `prefix` */
+  list(prefix: string): Promise<StoredObject[]>;
+
+  // Multipart uploads: the browser PUTs parts to signed URLs and the driver is the source
+  // of truth for which parts have landed.
+  createMultipartUpload(params: { key: string; contentType: string; metadata: Record<string, string> }): Promise<string>;
+  generateUploadPartUrl(key: string, uploadId: string, partNumber: number): Promise<string>;
+  listUploadedParts(key: string, uploadId: string): Promise<UploadedPart[]>;
+  completeMultipartUpload(key: string, uploadId: string, parts: { partNumber: number; etag: string }[]): Promise<void>;
+  abortMultipartUpload(key: string, uploadId: string): Promise<void>;
+
+  /** Routes the signed URLs point at, for drivers that serve them from this app */
+  registerRoutes?(app: Express): void;
+}
+
+export function getObjectStorageDriver(): ObjectStorageDriver {
+  switch (process.env.OBJECT_STORAGE_DRIVER) {
+    case "local":
+      return createLocalObjectStorage(path.resolve(process.env.LOCAL_STORAGE_DIR || "data/objects"));
+    case "s3":
+    default:
+      return s3ObjectStorage;
+  }
+}
+
+export const objectStorage = getObjectStorageDriver();
@@ -1,52 +1,70 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
-import * as childProcess from "node:child_process";
 import * as os from "node:os";
 
 import { storage } from "./storage";
-import { downloadFromS3, uploadBufferToS3, copyInS3 } from "./s3";
-
-async function runFfmpeg(args: string[]): Promise<void> {
-  if (!args.includes("-y")) {
-    args = ["-y", ...args];
+import { objectStorage } from "./object-storage";
+import { runFfmpeg } from "./ffmpeg";
+import { measureAudioQuality } from "./audio-analysis";
+import { computeWaveformPeaks } from "./waveform";
+import { detectSpeechSegments, type SpeechSegment } from "./vad";
+import { computeFingerprint, indexAndMatchFingerprint, type AudioFingerprintData } from "./fingerprint";
+import { AUDIO_OUTPUT_PROFILES, DEFAULT_OUTPUT_PROFILE, type AudioOutputProfile, type AudioOutputProfileId, type AudioQualityMetrics } from "@shared/schema";
+
+/** ffmpeg output options that encode mono audio in the given profile */
+function outputProfileArgs(profile: AudioOutputProfile): string[] {
+  const args: string[] = [];
+  if (profile.loudnessLufs != null) {
+    args.push("-af", `loudnorm=I=${profile.loudnessLufs}:TP=-1.5:LRA=11`);
   }
+  args.push("-ar", String(profile.sampleRate), "-ac", "1");
+  if (profile.extension === "flac") {
+    args.push("-c:a", "flac", "-sample_fmt", profile.bitDepth === 24 ? "s32" : "s16");
+  } else {
+    args.push("-c:a", profile.bitDepth === 24 ? "pcm_s24le" : "pcm_s16le");
+  }
+  return args;
+}
 
-  console.log("ffmpeg", args.join(" "));
-
-  const stderrPath = path.join(os.tmpdir(), `ffmpeg_process_${Date.now()}.log`);
-
-  const child = childProcess.spawn("ffmpeg", args, {
-    stdio: ["pipe", "pipe", fs.openSync(stderrPath, "w")],
-  });
-
-  const exitCode = await new Promise<number | null>((resolve) => {
-    child.on("error", (err) => {
-      console.error("ffmpeg spawn error:", err.message);
-      resolve(1);
-    });
-    child.on("close", resolve);
-  });
+function contentTypeFor(profile: AudioOutputProfile): string {
+  return profile.extension === "flac" ? "audio/flac" : "audio/wav";
+}
 
-  if (exitCode) {
-    const log = fs.existsSync(stderrPath)
-      ? fs.readFileSync(stderrPath, "utf-8").slice(-500)
-      : "(no log)";
-    throw new Error(`ffmpeg exited with code ${exitCode}: ${log}`);
-  }
+/** Output profiles configured on the task type the room was recorded for */
+async function getOutputProfilesForRoom(roomId: string): Promise<AudioOutputProfileId[]> {
+  const [session] = await storage.getTaskSessionsByRoom(roomId);
+  const taskType = session ? await storage.getTaskTypeById(session.taskType) : undefined;
+  return taskType?.outputProfiles?.length ? taskType.outputProfiles : [DEFAULT_OUTPUT_PROFILE];
+}
 
-  // clean up log file on success
-  try {
-    fs.rmSync(stderrPath);
-  } catch {}
+interface RenderedArtifact {
+  profile: AudioOutputProfileId;
+  s3Key: string;
+  fileSize: number;
 }
 
-/** Shared core: download WebM from S3, convert to WAV, upload both to processed/{folderName}/ */
+/**
+ * Shared core: download WebM from S3, convert to the working WAV, measure quality,
+ * waveform peaks, speech segments and the acoustic fingerprint, then render every
+ * requested output profile. Everything lands in processed/{folderName}/.
+ */
 async function processAudioFile(
   s3Key: string,
   folderName: string,
   folderNumber: string,
-  speakerId?: string,
-): Promise<{ processedFolder: string; webmS3Key: string; wavS3Key: string }> {
+  speakerId: string | undefined,
+  profiles: AudioOutputProfileId[],
+): Promise<{
+  processedFolder: string;
+  webmS3Key: string;
+  wavS3Key: string;
+  peaksS3Key: string;
+  metrics: AudioQualityMetrics;
+  segments: SpeechSegment[];
+  speechMs: number;
+  fingerprint: AudioFingerprintData;
+  artifacts: RenderedArtifact[];
+}> {
   const folderPrefix = `processed/${folderName}`;
   const fileStem = speakerId ? `${folderNumber}_${speakerId}` : folderNumber;
   const tmpDir = os.tmpdir();
@@ -54,41 +72,102 @@ async function processAudioFile(
   const wavPath = path.join(tmpDir, `audio-${fileStem}-${Date.now()}.wav`);
 
   try {
-    const webmBuffer = await downloadFromS3(s3Key);
+    const webmBuffer = await objectStorage.download(s3Key);
     fs.writeFileSync(webmPath, webmBuffer);
     console.log(`Downloaded ${webmBuffer.length} bytes to ${webmPath}`);
 
-    // Convert WebM → WAV (48kHz, mono, 16-bit PCM)
-    await runFfmpeg([
-      "-i", webmPath,
-      "-ar", "48000",
-      "-ac", "1",
-      "-c:a", "pcm_s16le",
-      wavPath,
-    ]);
+    // Convert WebM → working WAV (48kHz, mono, 16-bit PCM)
+    await runFfmpeg(["-i", webmPath, ...outputProfileArgs(AUDIO_OUTPUT_PROFILES[DEFAULT_OUTPUT_PROFILE]), wavPath]);
 
     const wavBuffer = fs.readFileSync(wavPath);
     console.log(`WAV conversion complete: ${wavBuffer.length} bytes`);
 
+    const metrics = await measureAudioQuality(wavPath);
+    console.log(`Quality: ${metrics.loudnessLufs} LUFS, SNR ${metrics.snrDb} dB, silence ${metrics.silenceRatio}`);
+
+    const { segments, speechMs } = await detectSpeechSegments(wavPath);
+    console.log(`VAD: ${segments.length} segments, ${(speechMs / 1000).toFixed(1)}s of speech`);
+
+    const fingerprint = await computeFingerprint(wavPath);
+
     // Copy original WebM and upload WAV to processed folder
     const webmS3Key = `${folderPrefix}/${fileStem}.webm`;
     const wavS3Key = `${folderPrefix}/${fileStem}.wav`;
+    const peaksS3Key = `${folderPrefix}/${fileStem}.peaks.json`;
 
-    await copyInS3(s3Key, webmS3Key);
-    await uploadBufferToS3(wavS3Key, wavBuffer, "audio/wav");
+    await objectStorage.copy(s3Key, webmS3Key);
+    await objectStorage.upload(wavS3Key, wavBuffer, "audio/wav");
+    await objectStorage.upload(peaksS3Key, Buffer.from(JSON.stringify(await computeWaveformPeaks(wavPath))), "application/json");
 
-    console.log(`Uploaded to S3: ${webmS3Key}, ${wavS3Key}`);
+    console.log(`Uploaded to S3: ${webmS3Key}, ${wavS3Key}, ${peaksS3Key}`);
 
-    return { processedFolder: folderName, webmS3Key, wavS3Key };
+    // Extra deliverables are rendered from the original WebM, not the 16-bit working copy
+    const artifacts: RenderedArtifact[] = [];
+    for (const profileId of profiles) {
+      if (profileId === DEFAULT_OUTPUT_PROFILE) {
+        artifacts.push({ profile: profileId, s3Key: wavS3Key, fileSize: wavBuffer.length });
+        continue;
+      }
+      const profile = AUDIO_OUTPUT_PROFILES[profileId];
+      const outPath = path.join(tmpDir, `audio-${fileStem}-${profileId}-${Date.now()}.${profile.extension}`);
+      try {
+        await runFfmpeg(["-i", webmPath, ...outputProfileArgs(profile), outPath]);
+        const buffer = fs.readFileSync(outPath);
+        const artifactKey = `${folderPrefix}/${fileStem}_${profileId}.${profile.extension}`;
+        await objectStorage.upload(artifactKey, buffer, contentTypeFor(profile));
+        artifacts.push({ profile: profileId, s3Key: artifactKey, fileSize: buffer.length });
+        console.log(`Rendered ${profileId}: ${artifactKey}`);
+      } finally {
+        try { fs.rmSync(outPath); } catch {}
+      }
+    }
+
+    return { processedFolder: folderName, webmS3Key, wavS3Key, peaksS3Key, metrics, segments, speechMs, fingerprint, artifacts };
   } finally {
     try { fs.rmSync(webmPath); } catch {}
     try { fs.rmSync(wavPath); } catch {}
   }
 }
 
-async function getNextFolderNumber(): Promise<string> {
-  const max = await storage.getMaxProcessedFolderNumber();
-  return String(max + 1).padStart(4, "0");
+/** Participants' short keys, sorted and joined — appended to the folder number for humans browsing S3 */
+async function getFolderNameSuffix(roomId: string): Promise<string | null> {
+  try {
+    const [session] = await storage.getTaskSessionsByRoom(roomId);
+    if (!session) return null;
+    const userIds = [session.userId, session.partnerId].filter(Boolean) as string[];
+    const shortKeys: string[] = [];
+    for (const uid of userIds) {
+      const u = await storage.getUserById(uid);
+      if (u?.shortKey) shortKeys.push(u.shortKey);
+    }
+    return shortKeys.length > 0 ? shortKeys.sort().join("_") : null;
+  } catch (err) {
+    console.warn("Could not resolve participant keys for folder name:", err);
+    return null;
+  }
+}
+
+/**
+ * The room's processed folder, claiming one on first use. Both partners' tracks resolve
+ * to the same claim no matter which is processed first or whether they run concurrently.
+ */
+export async function resolveProcessedFolder(roomId: string, overrideFolderNumber?: string): Promise<{ folderName: string; folderNumber: string }> {
+  let folder = await storage.getProcessedFolderByRoom(roomId);
+
+  if (!folder) {
+    // Rooms processed before folder claims existed that the backfill couldn't register
+    const siblings = await storage.getRecordingsByRoom(roomId);
+    const legacy = siblings.find((r) => r.processedFolder)?.processedFolder;
+    if (legacy) {
+      console.log(`Reusing unclaimed legacy folder: ${legacy}`);
+      return { folderName: legacy, folderNumber: legacy.match(/^(\d+)/)?.[1] ?? legacy };
+    }
+
+    const number = overrideFolderNumber ? parseInt(overrideFolderNumber, 10) : undefined;
+    folder = await storage.claimProcessedFolder(roomId, await getFolderNameSuffix(roomId), number);
+  }
+
+  return { folderName: folder.name, folderNumber: String(folder.number).padStart(4, "0") };
 }
 
 export async function processRecording(recordingId: string, overrideFolderNumber?: string) {
@@ -102,49 +181,25 @@ export async function processRecording(recordingId: string, overrideFolderNumber
     return recording;
   }
 
-  // Check if another recording from the same room was already processed — reuse its folder
-  const siblingRecordings = await storage.getRecordingsByRoom(recording.roomId);
-  const sibling = siblingRecordings.find(r => r.id !== recordingId && r.processedFolder);
-
-  let folderName: string;
-  let folderNumber: string;
-
-  if (sibling?.processedFolder) {
-    folderName = sibling.processedFolder;
-    folderNumber = folderName.match(/^(\d+)/)?.[1] ?? folderName;
-    console.log(`Reusing folder from sibling recording: ${folderName}`);
-  } else {
-    folderNumber = overrideFolderNumber || await getNextFolderNumber();
-
-    // Build folder name with both participants' short keys
-    folderName = folderNumber;
-    try {
-      const sessions = await storage.getTaskSessionsByRoom(recording.roomId);
-      const session = sessions[0];
-      if (session) {
-        const userIds = [session.userId, session.partnerId].filter(Boolean) as string[];
-        const shortKeys: string[] = [];
-        for (const uid of userIds) {
-          const u = await storage.getUserById(uid);
-          if (u?.shortKey) shortKeys.push(u.shortKey);
-        }
-        if (shortKeys.length > 0) {
-          shortKeys.sort();
-          folderName = `${folderNumber}_${shortKeys.join("_")}`;
-        }
-      }
-    } catch (err) {
-      console.warn("Could not resolve participant keys for folder name:", err);
-    }
-  }
+  const { folderName, folderNumber } = await resolveProcessedFolder(recording.roomId, overrideFolderNumber);
 
   console.log(`Processing recording ${recordingId} → processed/${folderName}/`);
 
-  const result = await processAudioFile(recording.s3Key, folderName, folderNumber, recording.speakerId ?? undefined);
+  const profiles = await getOutputProfilesForRoom(recording.roomId);
+  const result = await processAudioFile(recording.s3Key, folderName, folderNumber, recording.speakerId ?? undefined, profiles);
+  // Before marking the recording processed, so a failure here is retried rather than skipped
+  await indexAndMatchFingerprint({ recordingId, userId: recording.userId, roomId: recording.roomId }, result.fingerprint);
   const updated = await storage.updateRecording(recordingId, {
     processedFolder: result.processedFolder,
     wavS3Key: result.wavS3Key,
+    peaksS3Key: result.peaksS3Key,
+    ...result.metrics,
+    speechMs: result.speechMs,
   });
+  await storage.replaceRecordingSegments(recordingId, result.segments);
+  for (const artifact of result.artifacts) {
+    await storage.upsertRecordingArtifact({ recordingId, ...artifact });
+  }
 
   return updated;
 }
@@ -170,25 +225,22 @@ export async function processOnboardingSample(sampleId: string) {
   const wavPath = path.join(tmpDir, `sample-${sampleId}.wav`);
 
   try {
-    const webmBuffer = await downloadFromS3(sample.s3Key);
+    const webmBuffer = await objectStorage.download(sample.s3Key);
     fs.writeFileSync(webmPath, webmBuffer);
     console.log(`Downloaded ${webmBuffer.length} bytes`);
 
-    await runFfmpeg([
-      "-i", webmPath,
-      "-ar", "48000",
-      "-ac", "1",
-      "-c:a", "pcm_s16le",
-      wavPath,
-    ]);
+    await runFfmpeg(["-i", webmPath, ...outputProfileArgs(AUDIO_OUTPUT_PROFILES[DEFAULT_OUTPUT_PROFILE]), wavPath]);
 
     const wavBuffer = fs.readFileSync(wavPath);
     console.log(`WAV conversion complete: ${wavBuffer.length} bytes`);
 
-    await uploadBufferToS3(wavS3Key, wavBuffer, "audio/wav");
+    const metrics = await measureAudioQuality(wavPath);
+    await indexAndMatchFingerprint({ sampleId, userId: sample.userId }, await computeFingerprint(wavPath));
+
+    await objectStorage.upload(wavS3Key, wavBuffer, "audio/wav");
     console.log(`Uploaded WAV to S3: ${wavS3Key}`);
 
-    const updated = await storage.updateOnboardingSample(sampleId, { wavS3Key });
+    const updated = await storage.updateOnboardingSample(sampleId, { wavS3Key, ...metrics });
     return updated;
   } finally {
     try { fs.rmSync(webmPath); } catch {}
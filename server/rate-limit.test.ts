@@ -0,0 +1,112 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startTestApp, type TestApp, type TestClient } from "./test-support/test-app";
+
+let app: TestApp;
+let admin: TestClient;
+let registrations = 0;
+
+const PASSWORD = "correct-horse";
+
+async function register(email: string): Promise<TestClient> {
+  const client = app.client();
+  const res = await client.post("/api/auth/register", { username: email, password: PASSWORD });
+  assert.equal(res.status, 201, JSON.stringify(res.body));
+  registrations++;
+  return client;
+}
+
+function login(email: string, password: string) {
+  return app.client().post("/api/auth/login", { username: email, password });
+}
+
+async function lockouts(): Promise<any[]> {
+  const res = await admin.get("/api/admin/rate-limits");
+  assert.equal(res.status, 200);
+  return res.body.lockouts;
+}
+
+before(async () => {
+  app = await startTestApp();
+  admin = await register("admin@example.com");
+  const adminUser = await app.storage.getUserByUsername("admin@example.com");
+  await app.storage.updateUser(adminUser!.id, { role: "admin", approved: true });
+});
+
+after(async () => {
+  await app.close();
+});
+
+test("lockouts get longer each time and cap out", async () => {
+  const { lockoutDuration, RATE_LIMIT_POLICIES } = await import("./rate-limit");
+  const login = RATE_LIMIT_POLICIES.login;
+  assert.equal(lockoutDuration(login, 1), 15 * 60 * 1000);
+  assert.equal(lockoutDuration(login, 2), 30 * 60 * 1000);
+  assert.equal(lockoutDuration(login, 3), 60 * 60 * 1000);
+  assert.equal(lockoutDuration(login, 20), 24 * 60 * 60 * 1000);
+});
+
+test("repeated wrong passwords lock the account until an admin clears it", async () => {
+  await register("target@example.com");
+
+  // A successful sign-in clears earlier failures
+  for (let i = 0; i < 4; i++) assert.equal((await login("target@example.com", "wrong-password")).status, 401);
+  assert.equal((await login("target@example.com", PASSWORD)).status, 200);
+  for (let i = 0; i < 5; i++) assert.equal((await login("Target@example.com", "wrong-password")).status, 401);
+
+  // Now even the right password is refused, whatever the casing of the address
+  const locked = await login("target@example.com", PASSWORD);
+  assert.equal(locked.status, 429);
+  assert.match(locked.body.error, /Try again in 15 minutes/);
+  assert.ok(Number(locked.headers["retry-after"]) > 14 * 60);
+
+  const [lockout] = await lockouts();
+  assert.equal(lockout.policy, "login");
+  assert.equal(lockout.subject, "account:target@example.com");
+  assert.equal(lockout.strikes, 1);
+  assert.equal(lockout.active, true);
+
+  // Other accounts from the same address are unaffected
+  await register("bystander@example.com");
+  assert.equal((await login("bystander@example.com", PASSWORD)).status, 200);
+
+  // Once the lockout has run out, the next one is twice as long
+  await app.storage.lockRateLimitBucket(lockout.id, new Date(Date.now() - 1000), lockout.strikes);
+  for (let i = 0; i < 5; i++) assert.equal((await login("target@example.com", "wrong-password")).status, 401);
+  const again = await login("target@example.com", PASSWORD);
+  assert.equal(again.status, 429);
+  assert.match(again.body.error, /Try again in 30 minutes/);
+  assert.equal((await lockouts())[0].strikes, 2);
+
+  assert.equal((await app.client().get("/api/admin/rate-limits")).status, 401);
+  assert.equal((await admin.delete(`/api/admin/rate-limits/${lockout.id}`)).status, 200);
+  assert.equal((await admin.delete(`/api/admin/rate-limits/${lockout.id}`)).status, 404);
+  assert.equal((await login("target@example.com", PASSWORD)).status, 200);
+});
+
+test("guessing referral codes locks the address out of lookups", async () => {
+  const referrer = await register("referrer@example.com");
+  await app.storage.updateUser((await app.storage.getUserByUsername("referrer@example.com"))!.id, { approved: true });
+  const { body: code } = await referrer.post("/api/referrals/code");
+
+  // Valid codes don't count
+  for (let i = 0; i < 25; i++) assert.equal((await app.client().get(`/api/referrals/validate/${code.code}`)).status, 200);
+  for (let i = 0; i < 20; i++) assert.equal((await app.client().get(`/api/referrals/validate/GUESS${i}`)).status, 404);
+  assert.equal((await app.client().get(`/api/referrals/validate/${code.code}`)).status, 429);
+
+  const lookup = (await lockouts()).find((l) => l.policy === "referral_lookup");
+  assert.equal(lookup.subject, "ip:127.0.0.1");
+});
+
+test("sign-ups and reset emails are capped per address and per account", async () => {
+  while (registrations < 10) await register(`signup${registrations}@example.com`);
+  const refused = await app.client().post("/api/auth/register", { username: "one-too-many@example.com", password: PASSWORD });
+  assert.equal(refused.status, 429);
+  assert.equal(await app.storage.getUserByUsername("one-too-many@example.com"), undefined);
+
+  const forgot = () => app.client().post("/api/auth/forgot-password", { username: "target@example.com" });
+  for (let i = 0; i < 3; i++) assert.equal((await forgot()).status, 200);
+  assert.equal((await forgot()).status, 429);
+  const resetEmails = (await app.storage.getOutboxEmails()).filter((e) => e.template === "password_reset");
+  assert.equal(resetEmails.length, 3);
+});
@@ -0,0 +1,226 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { storage } from "./storage";
+import type { RateLimitBucket } from "@shared/schema";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+export interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitPolicy {
+  description: string;
+  /** Counted per client address */
+  ip?: RateLimitRule;
+  /** Counted per account, as named by the route (an email being tried, or the signed-in user) */
+  account?: RateLimitRule;
+  /**
+   * Count only requests that fail (4xx), and clear the account's counter when one succeeds.
+   * For routes where a wrong guess is the signal, like a bad password or an unknown code.
+   */
+  failuresOnly?: boolean;
+  /** Going over a limit locks the subject out for `baseMs`, doubling with each repeat up to `maxMs` */
+  lockout: { baseMs: number; maxMs: number };
+}
+
+const DEFAULT_POLICIES = {
+  login: {
+    description: "Failed sign-ins",
+    ip: { limit: 30, windowMs: 15 * MINUTE },
+    account: { limit: 5, windowMs: 15 * MINUTE },
+    failuresOnly: true,
+    lockout: { baseMs: 15 * MINUTE, maxMs: 24 * HOUR },
+  },
+  register: {
+    description: "New accounts",
+    ip: { limit: 10, windowMs: HOUR },
+    lockout: { baseMs: HOUR, maxMs: 24 * HOUR },
+  },
+  referral_lookup: {
+    description: "Unknown referral codes",
+    ip: { limit: 20, windowMs: 15 * MINUTE },
+    failuresOnly: true,
+    lockout: { baseMs: 15 * MINUTE, maxMs: 24 * HOUR },
+  },
+  invite: {
+    description: "Invitation emails (rooms and task partners)",
+    ip: { limit: 40, windowMs: HOUR },
+    account: { limit: 20, windowMs: HOUR },
+    lockout: { baseMs: HOUR, maxMs: 24 * HOUR },
+  },
+  account_email: {
+    description: "Password reset and verification emails",
+    ip: { limit: 10, windowMs: HOUR },
+    account: { limit: 3, windowMs: HOUR },
+    lockout: { baseMs: HOUR, maxMs: 24 * HOUR },
+  },
+} satisfies Record<string, RateLimitPolicy>;
+
+export type RateLimitPolicyName = keyof typeof DEFAULT_POLICIES;
+
+/**
+ * Policies with any overrides from RATE_LIMITS, a JSON object merged over the defaults per
+ * policy, e.g. `{"login":{"account":{"limit":10}}}`.
+ */
+function loadPolicies(): Record<RateLimitPolicyName, RateLimitPolicy> {
+  const policies: Record<string, RateLimitPolicy> = structuredClone(DEFAULT_POLICIES);
+  if (!process.env.RATE_LIMITS) return policies;
+
+  try {
+    const overrides = JSON.parse(process.env.RATE_LIMITS) as Record<string, Partial<RateLimitPolicy>>;
+    for (const [name, override] of Object.entries(overrides)) {
+      const policy = policies[name];
+      if (!policy) {
+        console.warn(`RATE_LIMITS: unknown policy "${name}"`);
+        continue;
+      }
+      policies[name] = {
+        ...policy,
+        ...override,
+        ip: policy.ip && { ...policy.ip, ...override.ip },
+        account: policy.account && { ...policy.account, ...override.account },
+        lockout: { ...policy.lockout, ...override.lockout },
+      };
+    }
+  } catch (error) {
+    console.error("RATE_LIMITS is not valid JSON, using the default rate limits:", error);
+  }
+  return policies;
+}
+
+export const RATE_LIMIT_POLICIES = loadPolicies();
+
+/** Lockouts more than this long ago no longer count towards the next one */
+const STRIKE_DECAY_MS = 24 * HOUR;
+/** Buckets untouched for this long are deleted; longer than any lockout or window */
+const BUCKET_RETENTION_MS = 48 * HOUR;
+
+/** How long the `strikes`th lockout lasts */
+export function lockoutDuration(policy: RateLimitPolicy, strikes: number): number {
+  return Math.min(policy.lockout.baseMs * 2 ** Math.max(strikes - 1, 0), policy.lockout.maxMs);
+}
+
+interface Subject {
+  key: string;
+  rule: RateLimitRule;
+}
+
+function subjectsFor(
+  policy: RateLimitPolicy,
+  req: Request,
+  account: ((req: Request) => string | null | undefined) | undefined,
+): Subject[] {
+  const subjects: Subject[] = [];
+  if (policy.ip) {
+    subjects.push({ key: `ip:${req.ip}`, rule: policy.ip });
+  }
+  const accountKey = policy.account && account?.(req);
+  if (policy.account && typeof accountKey === "string" && accountKey) {
+    subjects.push({ key: `account:${accountKey.trim().toLowerCase()}`, rule: policy.account });
+  }
+  return subjects;
+}
+
+/** Count a hit against one subject, locking it out if that takes it over the limit */
+async function hit(name: RateLimitPolicyName, policy: RateLimitPolicy, subject: Subject): Promise<RateLimitBucket> {
+  const now = Date.now();
+  const bucket = await storage.hitRateLimitBucket(name, subject.key, new Date(now - subject.rule.windowMs));
+  // Counted requests get `limit` through; counted failures lock on the `limit`th, since the
+  // failed request has already been answered
+  const allowed = policy.failuresOnly ? subject.rule.limit - 1 : subject.rule.limit;
+  if (bucket.count <= allowed) {
+    return bucket;
+  }
+
+  const decayed = bucket.lockedUntil && now - bucket.lockedUntil.getTime() > STRIKE_DECAY_MS;
+  const strikes = decayed ? 1 : bucket.strikes + 1;
+  const locked = await storage.lockRateLimitBucket(bucket.id, new Date(now + lockoutDuration(policy, strikes)), strikes);
+  console.warn(`Rate limit: locked ${subject.key} out of ${name} (strike ${strikes}) until ${locked.lockedUntil!.toISOString()}`);
+  return locked;
+}
+
+/** The furthest lockout among these buckets that is still in force */
+function activeLockout(buckets: RateLimitBucket[]): Date | null {
+  const now = Date.now();
+  let until: Date | null = null;
+  for (const bucket of buckets) {
+    if (bucket.lockedUntil && bucket.lockedUntil.getTime() > now && (!until || bucket.lockedUntil > until)) {
+      until = bucket.lockedUntil;
+    }
+  }
+  return until;
+}
+
+function tooManyRequests(res: Response, until: Date) {
+  const seconds = Math.max(Math.ceil((until.getTime() - Date.now()) / 1000), 1);
+  const minutes = Math.ceil(seconds / 60);
+  res.set("Retry-After", String(seconds));
+  res.status(429).json({
+    error: `Too many attempts. Try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`,
+    retryAfter: seconds,
+  });
+}
+
+/**
+ * Middleware enforcing a policy on a route. `account` names the account a request is
+ * aimed at, for policies with a per-account limit; put it after requireAuth if it reads
+ * `req.user`. Storage errors let the request through rather than locking everyone out.
+ */
+export function rateLimit(
+  name: RateLimitPolicyName,
+  opts: { account?: (req: Request) => string | null | undefined } = {},
+): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const policy = RATE_LIMIT_POLICIES[name];
+    let subjects: Subject[];
+    try {
+      subjects = subjectsFor(policy, req, opts.account);
+      const lockedUntil = activeLockout(await storage.getRateLimitBuckets(name, subjects.map((s) => s.key)));
+      if (lockedUntil) {
+        return tooManyRequests(res, lockedUntil);
+      }
+
+      if (!policy.failuresOnly) {
+        const buckets = await Promise.all(subjects.map((subject) => hit(name, policy, subject)));
+        const nowLocked = activeLockout(buckets);
+        if (nowLocked) {
+          return tooManyRequests(res, nowLocked);
+        }
+      }
+    } catch (error) {
+      console.error("Rate limit error:", error);
+      return next();
+    }
+
+    if (policy.failuresOnly) {
+      res.on("finish", () => {
+        const failed = res.statusCode >= 400 && res.statusCode < 500;
+        const recorded = failed
+          ? Promise.all(subjects.map((subject) => hit(name, policy, subject)))
+          : res.statusCode < 400
+            ? Promise.all(
+                subjects
+                  .filter((subject) => subject.key.startsWith("account:"))
+                  .map((subject) => storage.resetRateLimitBucket(name, subject.key))
+              )
+            : Promise.resolve();
+        recorded.catch((error) => console.error("Rate limit error:", error));
+      });
+    }
+    next();
+  };
+}
+
+/** Buckets that are locked out or have been, for the admin panel */
+export async function getRateLimitLockouts(): Promise<(RateLimitBucket & { active: boolean })[]> {
+  const now = Date.now();
+  const buckets = await storage.getRateLimitLockouts();
+  return buckets.map((bucket) => ({ ...bucket, active: !!bucket.lockedUntil && bucket.lockedUntil.getTime() > now }));
+}
+
+/** Delete buckets nobody has hit in a while. Returns how many went. */
+export async function pruneRateLimitBuckets(): Promise<number> {
+  return storage.pruneRateLimitBuckets(new Date(Date.now() - BUCKET_RETENTION_MS));
+}
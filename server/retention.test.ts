@@ -0,0 +1,96 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { selectRetentionCandidates, type RetentionObject } from "./retention";
+import { getRetentionSessionStatus, type RetentionRule } from "@shared/schema";
+
+const NOW = new Date("2026-06-01T00:00:00Z");
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000);
+
+function rule(overrides: Partial<RetentionRule>): RetentionRule {
+  return {
+    id: overrides.artifactType ?? "rule",
+    artifactType: "raw_upload",
+    sessionStatus: null,
+    action: "archive",
+    afterDays: 30,
+    enabled: true,
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...overrides,
+  };
+}
+
+function object(overrides: Partial<RetentionObject>): RetentionObject {
+  return {
+    s3Key: "recordings/room/a.webm",
+    artifactType: "raw_upload",
+    sessionStatus: "completed",
+    createdAt: daysAgo(60),
+    recordingId: "rec-1",
+    ...overrides,
+  };
+}
+
+test("a reviewer rejection outranks the session's own status", () => {
+  assert.equal(getRetentionSessionStatus(undefined), "no_session");
+  assert.equal(getRetentionSessionStatus({ status: "room_created", reviewerStatus: "rejected" }), "rejected");
+  assert.equal(getRetentionSessionStatus({ status: "completed", reviewerStatus: "approved" }), "completed");
+  assert.equal(getRetentionSessionStatus({ status: "cancelled", reviewerStatus: null }), "cancelled");
+  assert.equal(getRetentionSessionStatus({ status: "pending_review", reviewerStatus: "unsure" }), "in_progress");
+});
+
+test("rules match on artifact type, session status and age", () => {
+  const rules = [rule({ id: "rejected-wavs", artifactType: "working_wav", sessionStatus: "rejected", action: "delete", afterDays: 7 })];
+  const objects = [
+    object({ s3Key: "processed/1/a.wav", artifactType: "working_wav", sessionStatus: "rejected", createdAt: daysAgo(10) }),
+    object({ s3Key: "processed/2/a.wav", artifactType: "working_wav", sessionStatus: "rejected", createdAt: daysAgo(3) }),
+    object({ s3Key: "processed/3/a.wav", artifactType: "working_wav", sessionStatus: "completed", createdAt: daysAgo(10) }),
+    object({ s3Key: "recordings/room/b.webm", artifactType: "raw_upload", sessionStatus: "rejected", createdAt: daysAgo(10) }),
+  ];
+
+  const candidates = selectRetentionCandidates(rules, objects, new Map(), NOW);
+
+  assert.deepEqual(candidates.map((c) => c.s3Key), ["processed/1/a.wav"]);
+  assert.equal(candidates[0].action, "delete");
+  assert.equal(candidates[0].ruleId, "rejected-wavs");
+});
+
+test("delete wins over archive and disabled rules are ignored", () => {
+  const rules = [
+    rule({ id: "archive-raw", action: "archive", afterDays: 30 }),
+    rule({ id: "delete-raw", action: "delete", afterDays: 45 }),
+    rule({ id: "off", action: "delete", afterDays: 1, enabled: false }),
+  ];
+
+  const [old] = selectRetentionCandidates(rules, [object({ createdAt: daysAgo(60) })], new Map(), NOW);
+  const [middle] = selectRetentionCandidates(rules, [object({ createdAt: daysAgo(40) })], new Map(), NOW);
+  const young = selectRetentionCandidates(rules, [object({ createdAt: daysAgo(5) })], new Map(), NOW);
+
+  assert.equal(old.ruleId, "delete-raw");
+  assert.equal(middle.ruleId, "archive-raw");
+  assert.equal(young.length, 0);
+});
+
+test("objects already handled by an applied sweep are not planned again", () => {
+  const rules = [rule({ action: "archive" })];
+  const objects = [
+    object({ s3Key: "recordings/room/archived.webm" }),
+    object({ s3Key: "recordings/room/deleted.webm" }),
+    object({ s3Key: "recordings/room/new.webm" }),
+  ];
+  const applied = new Map([
+    ["recordings/room/archived.webm", "archive" as const],
+    ["recordings/room/deleted.webm", "delete" as const],
+  ]);
+
+  assert.deepEqual(
+    selectRetentionCandidates(rules, objects, applied, NOW).map((c) => c.s3Key),
+    ["recordings/room/new.webm"],
+  );
+  // An archived object can still be deleted by a later delete rule
+  const deleteRules = [rule({ action: "delete" })];
+  assert.deepEqual(
+    selectRetentionCandidates(deleteRules, objects, applied, NOW).map((c) => c.s3Key),
+    ["recordings/room/archived.webm", "recordings/room/new.webm"],
+  );
+});
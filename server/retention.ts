@@ -0,0 +1,221 @@
+import { storage } from "./storage";
+import { objectStorage } from "./object-storage";
+import {
+  getRetentionSessionStatus,
+  type RetentionRule,
+  type RetentionSweep,
+  type RetentionAction,
+  type RetentionArtifactType,
+  type RetentionSessionStatus,
+} from "@shared/schema";
+
+/** Prefixes that only ever hold objects the database knows about */
+const ORPHAN_PREFIXES = ["recordings/", "processed/", "onboarding-samples/"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** A stored object the sweeper could act on */
+export interface RetentionObject {
+  s3Key: string;
+  artifactType: RetentionArtifactType;
+  /** Null for orphaned objects, which belong to no session */
+  sessionStatus: RetentionSessionStatus | null;
+  /** When the object (or the recording it derives from) was created */
+  createdAt: Date;
+  recordingId: string | null;
+}
+
+export interface RetentionCandidate {
+  ruleId: string;
+  artifactType: RetentionArtifactType;
+  action: RetentionAction;
+  s3Key: string;
+  recordingId: string | null;
+}
+
+/**
+ * Match objects against the enabled rules. When several rules apply to one object, delete
+ * wins over archive; objects already deleted, or already archived when only archiving
+ * applies, are left out so every sweep reports just what it would change.
+ */
+export function selectRetentionCandidates(
+  rules: RetentionRule[],
+  objects: RetentionObject[],
+  applied: Map<string, RetentionAction>,
+  now: Date,
+): RetentionCandidate[] {
+  const enabled = rules.filter((r) => r.enabled);
+  const byKey = new Map<string, RetentionCandidate>();
+
+  for (const object of objects) {
+    if (applied.get(object.s3Key) === "delete") continue;
+
+    for (const rule of enabled) {
+      if (rule.artifactType !== object.artifactType) continue;
+      if (rule.sessionStatus && rule.sessionStatus !== object.sessionStatus) continue;
+      if (now.getTime() - object.createdAt.getTime() < rule.afterDays * DAY_MS) continue;
+      if (rule.action === "archive" && applied.get(object.s3Key) === "archive") continue;
+
+      const current = byKey.get(object.s3Key);
+      if (!current || (current.action === "archive" && rule.action === "delete")) {
+        byKey.set(object.s3Key, {
+          ruleId: rule.id,
+          artifactType: object.artifactType,
+          action: rule.action,
+          s3Key: object.s3Key,
+          recordingId: object.recordingId,
+        });
+      }
+    }
+  }
+
+  return Array.from(byKey.values());
+}
+
+/** Every object the rules can target, from the database plus (when needed) a bucket listing */
+async function buildRetentionInventory(rules: RetentionRule[]): Promise<RetentionObject[]> {
+  const objects: RetentionObject[] = [];
+  const seen = new Set<string>();
+  const recordingsById = new Map<string, { wavS3Key: string | null; sessionStatus: RetentionSessionStatus; createdAt: Date }>();
+
+  for (const { recording, session } of await storage.getRecordingsForRetention()) {
+    // A room with several sessions joins once per session; the first row wins
+    if (seen.has(recording.id)) continue;
+    seen.add(recording.id);
+
+    const base = {
+      sessionStatus: getRetentionSessionStatus(session ?? undefined),
+      createdAt: recording.createdAt,
+      recordingId: recording.id,
+    };
+    recordingsById.set(recording.id, { wavS3Key: recording.wavS3Key, ...base });
+    // Raw uploads only become disposable once processing has copied them into processed/
+    if (recording.wavS3Key) {
+      objects.push({ ...base, s3Key: recording.s3Key, artifactType: "raw_upload" });
+      objects.push({ ...base, s3Key: recording.wavS3Key.replace(/\.wav$/, ".webm"), artifactType: "processed_webm" });
+      objects.push({ ...base, s3Key: recording.wavS3Key, artifactType: "working_wav" });
+    }
+    if (recording.alignedWavS3Key) {
+      objects.push({ ...base, s3Key: recording.alignedWavS3Key, artifactType: "aligned_wav" });
+    }
+    if (recording.peaksS3Key) {
+      objects.push({ ...base, s3Key: recording.peaksS3Key, artifactType: "waveform_peaks" });
+    }
+  }
+
+  for (const artifact of await storage.getRecordingArtifactsByRecordingIds(Array.from(recordingsById.keys()))) {
+    const owner = recordingsById.get(artifact.recordingId);
+    // The default profile is the working WAV itself
+    if (!owner || artifact.s3Key === owner.wavS3Key) continue;
+    objects.push({
+      s3Key: artifact.s3Key,
+      artifactType: "rendered_profile",
+      sessionStatus: owner.sessionStatus,
+      createdAt: owner.createdAt,
+      recordingId: artifact.recordingId,
+    });
+  }
+
+  const seenMixes = new Set<string>();
+  for (const { artifact, session } of await storage.getFolderArtifactsForRetention()) {
+    if (seenMixes.has(artifact.id)) continue;
+    seenMixes.add(artifact.id);
+    objects.push({
+      s3Key: artifact.s3Key,
+      artifactType: "conversation_mix",
+      sessionStatus: getRetentionSessionStatus(session ?? undefined),
+      createdAt: artifact.updatedAt,
+      recordingId: null,
+    });
+  }
+
+  // Listing the bucket is the expensive part; skip it unless a rule asks for orphans
+  if (rules.some((r) => r.enabled && r.artifactType === "orphaned_object")) {
+    const referenced = await storage.getReferencedObjectKeys();
+    for (const prefix of ORPHAN_PREFIXES) {
+      for (const object of await objectStorage.list(prefix)) {
+        if (referenced.has(object.key)) continue;
+        objects.push({
+          s3Key: object.key,
+          artifactType: "orphaned_object",
+          sessionStatus: null,
+          createdAt: object.lastModified,
+          recordingId: null,
+        });
+      }
+    }
+  }
+
+  return objects;
+}
+
+/** What the current rules would do right now */
+export async function planRetention(now = new Date()): Promise<RetentionCandidate[]> {
+  const rules = await storage.getRetentionRules();
+  const objects = await buildRetentionInventory(rules);
+  return selectRetentionCandidates(rules, objects, await storage.getAppliedRetentionActions(), now);
+}
+
+/**
+ * Run a queued sweep. A dry run records the plan and touches nothing. An applying sweep
+ * executes the plan of the dry run it was created from, limited to objects that the
+ * current rules still select — a session un-rejected since the review keeps its audio.
+ */
+export async function runRetentionSweep(sweepId: string): Promise<RetentionSweep> {
+  const sweep = await storage.getRetentionSweepById(sweepId);
+  if (!sweep) {
+    throw new Error(`Retention sweep not found: ${sweepId}`);
+  }
+  await storage.updateRetentionSweep(sweepId, { status: "running" });
+
+  try {
+    let candidates = await planRetention();
+
+    if (sweep.dryRun) {
+      await storage.addRetentionActions(sweepId, candidates);
+      console.log(`Retention dry run ${sweepId}: ${candidates.length} object(s) would be deleted or archived`);
+      return storage.updateRetentionSweep(sweepId, { status: "completed", objectCount: candidates.length, finishedAt: new Date() });
+    }
+
+    if (!sweep.planSweepId) {
+      throw new Error("An applying sweep needs a reviewed dry run");
+    }
+    const reviewed = new Set(
+      (await storage.getRetentionActions(sweep.planSweepId)).map((a) => `${a.action}:${a.s3Key}`)
+    );
+    candidates = candidates.filter((c) => reviewed.has(`${c.action}:${c.s3Key}`));
+
+    // Each action is logged as soon as it succeeds, so a crash mid-sweep can't lose the record
+    let done = 0;
+    const failures: string[] = [];
+    for (const candidate of candidates) {
+      try {
+        if (candidate.action === "delete") {
+          await objectStorage.delete(candidate.s3Key);
+          await storage.clearObjectReferences(candidate.s3Key);
+        } else {
+          await objectStorage.archive(candidate.s3Key);
+        }
+        await storage.addRetentionActions(sweepId, [candidate]);
+        done++;
+      } catch (error) {
+        console.error(`Retention ${candidate.action} failed for ${candidate.s3Key}:`, error);
+        failures.push(candidate.s3Key);
+      }
+    }
+
+    console.log(`Retention sweep ${sweepId}: ${done} object(s) deleted or archived, ${failures.length} failed`);
+    return storage.updateRetentionSweep(sweepId, {
+      status: "completed",
+      objectCount: done,
+      error: failures.length > 0 ? `${failures.length} object(s) failed, e.g. ${failures[0]}` : null,
+      finishedAt: new Date(),
+    });
+  } catch (error) {
+    await storage.updateRetentionSweep(sweepId, {
+      status: "failed",
+      error: error instanceof Error ? error.message : String(error),
+      finishedAt: new Date(),
+    });
+    throw error;
+  }
+}
@@ -2,22 +2,33 @@ import type { Express } from "express";
 import type { Server } from "http";
 import passport from "passport";
 import { storage } from "./storage";
-import { requireAuth, requireApproved, requireAdmin, hashPassword } from "./auth";
-import { loginSchema, onboardingSchema, createRoomSchema, inviteToRoomSchema, createTaskSessionSchema, inviteTaskPartnerSchema, TASK_TYPES } from "@shared/schema";
-import { createDailyRoom, createMeetingToken } from "./daily";
-import { generateUploadUrl, generateDownloadUrl } from "./s3";
-import { processRecording, processOnboardingSample } from "./process-recording";
-import { sendRoomInvitationEmail, sendTaskPartnerInvitationEmail } from "./email";
-
-const S3_BUCKET = process.env.AWS_S3_BUCKET || "web-app-call-recordings";
+import { requireAuth, requireApproved, requirePermission, requireRecordingAccess, requireRoomAccess, hashPassword } from "./auth";
+import { loginSchema, forgotPasswordSchema, resetPasswordSchema, verifyEmailSchema, onboardingSchema, createRoomSchema, inviteToRoomSchema, createTaskSessionSchema, inviteTaskPartnerSchema, createTaskTypeSchema, updateTaskTypeSchema, getTaskTypeAvailability, JOB_STATUSES, type JobStatus, FOLDER_ARTIFACT_KINDS, type FolderArtifactKind, AUDIO_OUTPUT_PROFILE_IDS, type AudioOutputProfileId, exportRequestSchema, createRetentionRuleSchema, updateRetentionRuleSchema, EMAIL_STATUSES, type EmailStatus, ROLES, isRole, hasPermission, isStaffRole } from "@shared/schema";
+import { verifyDailyWebhookSignature } from "./daily";
+import { rtc } from "./rtc";
+import { objectStorage } from "./object-storage";
+import { enqueueJob } from "./jobs";
+import { getTranscriptionProvider } from "./transcription";
+import { getSpeakerEmbeddingProvider } from "./speaker-verification";
+import { checkUploadedObject, findUnverifiedTracks } from "./upload-verification";
+import { buildExportManifest, toJsonl, toCsv } from "./exports";
+import { sendRoomInvitationEmail, sendTaskPartnerInvitationEmail, retryOutboxEmail } from "./email";
+import { consumeAuthToken, markEmailVerified, sendEmailVerification, sendPasswordReset } from "./auth-tokens";
+import { EMAIL_TEMPLATES, isEmailTemplateName, renderEmailTemplate } from "./email-templates";
+import { DEFAULT_TASK_TYPES } from "./task-type-seed";
+import { rateLimit, RATE_LIMIT_POLICIES, getRateLimitLockouts } from "./rate-limit";
 
 export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
+  await storage.seedTaskTypes(DEFAULT_TASK_TYPES);
+  objectStorage.registerRoutes?.(app);
+  rtc.registerRoutes?.(app);
+
   // ── Auth Routes ──────────────────────────────────────────────
 
-  app.post("/api/auth/register", async (req, res) => {
+  app.post("/api/auth/register", rateLimit("register"), async (req, res) => {
     try {
       const parsed = loginSchema.safeParse(req.body);
       if (!parsed.success) {
@@ -56,22 +67,8 @@ export async function registerRoutes(
         }
       }
 
-      // Update any task sessions waiting for this email as a partner
-      const pendingTaskSessions = await storage.getTaskSessionsByPartnerEmail(parsed.data.username);
-      for (const session of pendingTaskSessions) {
-        await storage.updateTaskSession(session.id, {
-          partnerId: user.id,
-          partnerStatus: "registered",
-          status: "waiting_approval",
-        });
-        await storage.createNotification({
-          userId: session.userId,
-          type: "partner_registered",
-          title: "Partner Registered!",
-          message: `${parsed.data.username} has signed up! They are now waiting for admin approval.`,
-          data: { taskSessionId: session.id },
-        });
-      }
+      // Task sessions waiting on this email are linked once the address is confirmed
+      await sendEmailVerification(user);
 
       req.login(
         {
@@ -84,6 +81,8 @@ export async function registerRoutes(
           samplesCompletedAt: user.samplesCompletedAt,
           shortKey: user.shortKey,
           referredBy: user.referredBy,
+          emailVerifiedAt: user.emailVerifiedAt,
+          sessionVersion: user.sessionVersion,
           createdAt: user.createdAt,
         },
         (err) => {
@@ -98,6 +97,7 @@ export async function registerRoutes(
             onboardingData: user.onboardingData,
             onboardingCompletedAt: user.onboardingCompletedAt,
             samplesCompletedAt: user.samplesCompletedAt,
+            emailVerifiedAt: user.emailVerifiedAt,
           });
         }
       );
@@ -107,7 +107,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/auth/login", (req, res, next) => {
+  app.post("/api/auth/login", rateLimit("login", { account: (req) => req.body?.username }), (req, res, next) => {
     const parsed = loginSchema.safeParse(req.body);
     if (!parsed.success) {
       return res.status(400).json({ error: parsed.error.issues[0].message });
@@ -127,6 +127,7 @@ export async function registerRoutes(
           onboardingData: user.onboardingData,
           onboardingCompletedAt: user.onboardingCompletedAt,
           samplesCompletedAt: user.samplesCompletedAt,
+          emailVerifiedAt: user.emailVerifiedAt,
         });
       });
     })(req, res, next);
@@ -153,9 +154,106 @@ export async function registerRoutes(
       onboardingData: req.user!.onboardingData,
       onboardingCompletedAt: req.user!.onboardingCompletedAt,
       samplesCompletedAt: req.user!.samplesCompletedAt,
+      emailVerifiedAt: req.user!.emailVerifiedAt,
     });
   });
 
+  app.post("/api/auth/verify-email", async (req, res) => {
+    try {
+      const parsed = verifyEmailSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0].message });
+      }
+
+      const token = await consumeAuthToken(parsed.data.token, "email_verification");
+      if (!token) {
+        return res.status(400).json({ error: "This verification link is invalid or has expired" });
+      }
+
+      const user = await storage.getUserById(token.userId);
+      if (!user) {
+        return res.status(400).json({ error: "This verification link is invalid or has expired" });
+      }
+      const verified = await markEmailVerified(user);
+
+      if (req.user?.id === verified.id) {
+        req.user!.emailVerifiedAt = verified.emailVerifiedAt;
+      }
+      res.json({ ok: true, emailVerifiedAt: verified.emailVerifiedAt });
+    } catch (error) {
+      console.error("Verify email error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/auth/resend-verification", requireAuth, rateLimit("account_email", { account: (req) => req.user!.username }), async (req, res) => {
+    try {
+      if (req.user!.emailVerifiedAt) {
+        return res.status(400).json({ error: "Your email address is already verified" });
+      }
+      await sendEmailVerification(req.user!);
+      res.json({ ok: true });
+    } catch (error) {
+      console.error("Resend verification error:", error);
+      res.status(500).json({ error: "Failed to send verification email" });
+    }
+  });
+
+  app.post("/api/auth/forgot-password", rateLimit("account_email", { account: (req) => req.body?.username }), async (req, res) => {
+    try {
+      const parsed = forgotPasswordSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0].message });
+      }
+
+      // Same answer whether or not the account exists, so this can't be used to probe for emails
+      const user = await storage.getUserByUsername(parsed.data.username);
+      if (user) {
+        await sendPasswordReset(user);
+      }
+      res.json({ ok: true });
+    } catch (error) {
+      console.error("Forgot password error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/auth/reset-password", async (req, res) => {
+    try {
+      const parsed = resetPasswordSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0].message });
+      }
+
+      const token = await consumeAuthToken(parsed.data.token, "password_reset");
+      if (!token) {
+        return res.status(400).json({ error: "This reset link is invalid or has expired" });
+      }
+
+      const user = await storage.getUserById(token.userId);
+      if (!user) {
+        return res.status(400).json({ error: "This reset link is invalid or has expired" });
+      }
+
+      // Signs out every session, including any held by whoever knew the old password
+      await storage.updateUser(user.id, {
+        password: await hashPassword(parsed.data.password),
+        sessionVersion: user.sessionVersion + 1,
+      });
+      // Any other reset links still in their inbox stop working too
+      await storage.deleteAuthTokens(user.id, "password_reset");
+      // Receiving the link proves they own the address
+      if (!user.emailVerifiedAt) {
+        await markEmailVerified(user);
+      }
+
+      res.json({ ok: true });
+    } catch (error) {
+      console.error("Reset password error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
   app.post("/api/auth/onboarding", requireAuth, async (req, res) => {
     try {
       const parsed = onboardingSchema.safeParse(req.body);
@@ -180,6 +278,7 @@ export async function registerRoutes(
         onboardingData: user.onboardingData,
         onboardingCompletedAt: user.onboardingCompletedAt,
         samplesCompletedAt: user.samplesCompletedAt,
+        emailVerifiedAt: user.emailVerifiedAt,
       });
     } catch (error) {
       console.error("Onboarding error:", error);
@@ -200,7 +299,7 @@ export async function registerRoutes(
       const userKey = req.user!.shortKey || req.user!.id;
       const s3Key = `onboarding-samples/${userKey}/${promptIndex}.webm`;
 
-      const uploadUrl = await generateUploadUrl({
+      const uploadUrl = await objectStorage.generateUploadUrl({
         key: s3Key,
         contentType: "audio/webm",
         metadata: {
@@ -220,7 +319,7 @@ export async function registerRoutes(
         promptIndex,
         promptText,
         s3Key,
-        s3Bucket: S3_BUCKET,
+        s3Bucket: objectStorage.bucket,
         fileName,
         duration: duration != null ? duration : null,
         fileSize: fileSize || null,
@@ -236,16 +335,21 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/onboarding/samples/:id/process", requireAuth, async (req, res) => {
+  app.post("/api/onboarding/samples/:id/upload-complete", requireAuth, async (req, res) => {
     try {
-      const sample = await processOnboardingSample(req.params.id as string);
-      res.json({
-        processedFolder: sample.processedFolder,
-        wavS3Key: sample.wavS3Key,
+      const sample = await storage.getOnboardingSampleById(req.params.id as string);
+      if (!sample || sample.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Sample not found" });
+      }
+
+      const job = await enqueueJob("process_onboarding_sample", { sampleId: sample.id }, {
+        key: `onboarding_sample:${sample.id}`,
+        userId: req.user!.id,
       });
-    } catch (error: any) {
-      console.error("Process onboarding sample error:", error);
-      res.status(500).json({ error: error.message || "Failed to process sample" });
+      res.status(202).json({ jobId: job.id, status: job.status });
+    } catch (error) {
+      console.error("Sample upload complete error:", error);
+      res.status(500).json({ error: "Failed to queue sample for processing" });
     }
   });
 
@@ -282,14 +386,15 @@ export async function registerRoutes(
         return res.status(400).json({ error: parsed.error.issues[0].message });
       }
 
-      const dailyRoom = await createDailyRoom(parsed.data.name);
+      const rtcRoom = await rtc.createRoom(parsed.data.name);
 
       const room = await storage.createRoom({
-        name: dailyRoom.name,
-        dailyRoomUrl: dailyRoom.url,
-        dailyRoomName: dailyRoom.name,
+        name: rtcRoom.name,
+        dailyRoomUrl: rtcRoom.url,
+        dailyRoomName: rtcRoom.name,
+        rtcProvider: rtc.name,
         createdBy: req.user!.id,
-        expiresAt: dailyRoom.expiresAt,
+        expiresAt: rtcRoom.expiresAt,
       });
 
       res.status(201).json(room);
@@ -332,26 +437,46 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/rooms/:id/token", requireApproved, async (req, res) => {
+  app.post("/api/rooms/:id/token", requireRoomAccess, async (req, res) => {
     try {
       const room = await storage.getRoomById(req.params.id as string);
       if (!room) {
         return res.status(404).json({ error: "Room not found" });
       }
 
-      const token = await createMeetingToken(room.dailyRoomName, room.expiresAt);
-      res.json({ token, roomUrl: room.dailyRoomUrl });
+      if (room.rtcProvider !== rtc.name) {
+        return res.status(409).json({ error: `This room was created with ${room.rtcProvider}, which is no longer configured` });
+      }
+
+      const token = await rtc.createToken({ name: room.dailyRoomName, expiresAt: room.expiresAt }, req.user!.id);
+      res.json({ token, roomUrl: room.dailyRoomUrl, provider: rtc.name });
     } catch (error) {
       console.error("Token generation error:", error);
       res.status(500).json({ error: "Failed to generate token" });
     }
   });
 
+  app.get("/api/rooms/:id/participants", requireRoomAccess, async (req, res) => {
+    try {
+      const room = await storage.getRoomById(req.params.id as string);
+      if (!room) {
+        return res.status(404).json({ error: "Room not found" });
+      }
+      if (room.rtcProvider !== rtc.name) {
+        return res.json([]);
+      }
+      res.json(await rtc.listParticipants(room.dailyRoomName));
+    } catch (error) {
+      console.error("Fetch room participants error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
   // ── Recording Routes ─────────────────────────────────────────
 
   app.post("/api/recordings/upload-url", requireApproved, async (req, res) => {
     try {
-      const { roomId, fileName, duration, fileSize, format, sampleRate, channels, recordingType, speakerId } = req.body;
+      const { roomId, fileName, duration, fileSize, format, sampleRate, channels, recordingType, speakerId, startedAt } = req.body;
 
       if (!roomId || !fileName || !recordingType) {
         return res.status(400).json({ error: "Missing required fields: roomId, fileName, recordingType" });
@@ -365,7 +490,7 @@ export async function registerRoutes(
       const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
       const s3Key = `recordings/${roomId}/${req.user!.id}/${timestamp}-${fileName}`;
 
-      const uploadUrl = await generateUploadUrl({
+      const uploadUrl = await objectStorage.generateUploadUrl({
         key: s3Key,
         contentType: format === "wav" ? "audio/wav" : "audio/webm",
         metadata: {
@@ -384,7 +509,7 @@ export async function registerRoutes(
         roomId,
         userId: req.user!.id,
         s3Key,
-        s3Bucket: S3_BUCKET,
+        s3Bucket: objectStorage.bucket,
         fileName,
         duration: duration != null ? duration : null,
         fileSize: fileSize || null,
@@ -393,6 +518,7 @@ export async function registerRoutes(
         channels: channels || 1,
         recordingType,
         speakerId: speakerId || null,
+        clientStartedAt: typeof startedAt === "number" && Number.isFinite(startedAt) ? new Date(startedAt) : null,
       });
 
       res.json({ uploadUrl, recordingId: recording.id, s3Key });
@@ -422,14 +548,14 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/recordings/:id/download", requireAuth, async (req, res) => {
+  app.get("/api/recordings/:id/download", requireRecordingAccess, async (req, res) => {
     try {
       const recording = await storage.getRecordingById(req.params.id as string);
       if (!recording) {
         return res.status(404).json({ error: "Recording not found" });
       }
 
-      const downloadUrl = await generateDownloadUrl(recording.s3Key);
+      const downloadUrl = await objectStorage.generateDownloadUrl(recording.s3Key);
       res.json({ downloadUrl });
     } catch (error) {
       console.error("Download URL error:", error);
@@ -437,21 +563,191 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/recordings/:id/process", requireApproved, async (req, res) => {
+  app.post("/api/recordings/:id/upload-complete", requireApproved, async (req, res) => {
     try {
-      const { folderNumber } = req.body || {};
-      const recording = await processRecording(req.params.id as string, folderNumber);
-      res.json({
-        processedFolder: recording.processedFolder,
-        wavS3Key: recording.wavS3Key,
+      const recording = await storage.getRecordingById(req.params.id as string);
+      if (!recording || recording.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Recording not found" });
+      }
+
+      const problem = await checkUploadedObject(recording);
+      if (problem) {
+        return res.status(400).json({ error: problem });
+      }
+
+      // Verification queues processing once the file checks out
+      const job = await enqueueJob("verify_upload", { recordingId: recording.id }, {
+        key: `verify:${recording.id}`,
+        userId: req.user!.id,
+      });
+      res.status(202).json({ jobId: job.id, status: job.status });
+    } catch (error) {
+      console.error("Recording upload complete error:", error);
+      res.status(500).json({ error: "Failed to queue recording for processing" });
+    }
+  });
+
+  // ── Multipart (streaming) recording uploads ──
+  // The browser uploads parts while the call is still running, so a long session never
+  // has to sit in memory and an interrupted upload resumes from the parts S3 already has.
+
+  app.post("/api/recordings/multipart", requireApproved, async (req, res) => {
+    try {
+      const { roomId, fileName, format, sampleRate, channels, recordingType, speakerId } = req.body;
+
+      if (!roomId || !fileName || !recordingType) {
+        return res.status(400).json({ error: "Missing required fields: roomId, fileName, recordingType" });
+      }
+
+      const room = await storage.getRoomById(roomId);
+      if (!room) {
+        return res.status(404).json({ error: "Room not found" });
+      }
+
+      const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+      const s3Key = `recordings/${roomId}/${req.user!.id}/${timestamp}-${fileName}`;
+
+      const uploadId = await objectStorage.createMultipartUpload({
+        key: s3Key,
+        contentType: format === "wav" ? "audio/wav" : "audio/webm",
+        metadata: {
+          "sample-rate": String(sampleRate || 48000),
+          channels: String(channels || 1),
+          format: format || "webm",
+          "recorded-at": new Date().toISOString(),
+          "room-id": roomId,
+          "user-id": req.user!.id,
+        },
+      });
+
+      const recording = await storage.createRecording({
+        roomId,
+        userId: req.user!.id,
+        s3Key,
+        s3Bucket: objectStorage.bucket,
+        fileName,
+        duration: null,
+        fileSize: null,
+        format: format || "webm",
+        sampleRate: sampleRate || 48000,
+        channels: channels || 1,
+        recordingType,
+        speakerId: speakerId || null,
+        multipartUploadId: uploadId,
       });
-    } catch (error: any) {
-      console.error("Process recording error:", error);
-      res.status(500).json({ error: error.message || "Failed to process recording" });
+
+      res.status(201).json({ recordingId: recording.id, s3Key });
+    } catch (error) {
+      console.error("Create multipart upload error:", error);
+      res.status(500).json({ error: "Failed to start upload" });
+    }
+  });
+
+  app.post("/api/recordings/:id/multipart/parts/:partNumber", requireApproved, async (req, res) => {
+    try {
+      const partNumber = parseInt(req.params.partNumber as string, 10);
+      if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > 10000) {
+        return res.status(400).json({ error: "Part number must be between 1 and 10000" });
+      }
+
+      const recording = await storage.getRecordingById(req.params.id as string);
+      if (!recording || recording.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Recording not found" });
+      }
+      if (!recording.multipartUploadId) {
+        return res.status(409).json({ error: "Upload already finalized" });
+      }
+
+      const url = await objectStorage.generateUploadPartUrl(recording.s3Key, recording.multipartUploadId, partNumber);
+      res.json({ url });
+    } catch (error) {
+      console.error("Upload part URL error:", error);
+      res.status(500).json({ error: "Failed to generate part upload URL" });
+    }
+  });
+
+  app.get("/api/recordings/:id/multipart", requireApproved, async (req, res) => {
+    try {
+      const recording = await storage.getRecordingById(req.params.id as string);
+      if (!recording || recording.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Recording not found" });
+      }
+      if (!recording.multipartUploadId) {
+        return res.json({ completed: true, parts: [] });
+      }
+
+      const parts = await objectStorage.listUploadedParts(recording.s3Key, recording.multipartUploadId);
+      res.json({ completed: false, parts: parts.map((p) => ({ partNumber: p.partNumber, size: p.size })) });
+    } catch (error) {
+      console.error("List upload parts error:", error);
+      res.status(500).json({ error: "Failed to list uploaded parts" });
+    }
+  });
+
+  app.post("/api/recordings/:id/multipart/complete", requireApproved, async (req, res) => {
+    try {
+      const { duration, startedAt, partCount } = req.body || {};
+
+      const recording = await storage.getRecordingById(req.params.id as string);
+      if (!recording || recording.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Recording not found" });
+      }
+
+      if (recording.multipartUploadId) {
+        const parts = await objectStorage.listUploadedParts(recording.s3Key, recording.multipartUploadId);
+        if (parts.length === 0) {
+          return res.status(400).json({ error: "No parts have been uploaded" });
+        }
+        // Refuse to stitch a file with holes in it — the client still has the missing parts
+        if (typeof partCount === "number" && parts.length !== partCount) {
+          return res.status(409).json({ error: `Expected ${partCount} parts, S3 has ${parts.length}` });
+        }
+
+        await objectStorage.completeMultipartUpload(recording.s3Key, recording.multipartUploadId, parts);
+        await storage.updateRecording(recording.id, {
+          multipartUploadId: null,
+          duration: typeof duration === "number" ? duration : null,
+          fileSize: parts.reduce((sum, p) => sum + p.size, 0),
+          clientStartedAt: typeof startedAt === "number" && Number.isFinite(startedAt) ? new Date(startedAt) : null,
+        });
+      }
+
+      const problem = await checkUploadedObject((await storage.getRecordingById(recording.id))!);
+      if (problem) {
+        return res.status(400).json({ error: problem });
+      }
+
+      const job = await enqueueJob("verify_upload", { recordingId: recording.id }, {
+        key: `verify:${recording.id}`,
+        userId: req.user!.id,
+      });
+      res.status(202).json({ recordingId: recording.id, jobId: job.id, status: job.status });
+    } catch (error) {
+      console.error("Complete multipart upload error:", error);
+      res.status(500).json({ error: "Failed to finalize upload" });
+    }
+  });
+
+  app.delete("/api/recordings/:id/multipart", requireApproved, async (req, res) => {
+    try {
+      const recording = await storage.getRecordingById(req.params.id as string);
+      if (!recording || recording.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Recording not found" });
+      }
+      if (!recording.multipartUploadId) {
+        return res.status(409).json({ error: "Upload already finalized" });
+      }
+
+      await objectStorage.abortMultipartUpload(recording.s3Key, recording.multipartUploadId);
+      await storage.deleteRecording(recording.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Abort multipart upload error:", error);
+      res.status(500).json({ error: "Failed to abort upload" });
     }
   });
 
-  app.get("/api/recordings/:id/download-wav", requireAuth, async (req, res) => {
+  app.get("/api/recordings/:id/download-wav", requireRecordingAccess, async (req, res) => {
     try {
       const recording = await storage.getRecordingById(req.params.id as string);
       if (!recording) {
@@ -461,7 +757,7 @@ export async function registerRoutes(
         return res.status(404).json({ error: "WAV not available — recording not yet processed" });
       }
 
-      const downloadUrl = await generateDownloadUrl(recording.wavS3Key);
+      const downloadUrl = await objectStorage.generateDownloadUrl(recording.wavS3Key);
       res.json({ downloadUrl });
     } catch (error) {
       console.error("Download WAV error:", error);
@@ -469,6 +765,158 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/recordings/:id/download-aligned", requireRecordingAccess, async (req, res) => {
+    try {
+      const recording = await storage.getRecordingById(req.params.id as string);
+      if (!recording) {
+        return res.status(404).json({ error: "Recording not found" });
+      }
+      if (!recording.alignedWavS3Key) {
+        return res.status(404).json({ error: "Aligned WAV not available — partner track not processed yet" });
+      }
+
+      const downloadUrl = await objectStorage.generateDownloadUrl(recording.alignedWavS3Key);
+      res.json({ downloadUrl });
+    } catch (error) {
+      console.error("Download aligned WAV error:", error);
+      res.status(500).json({ error: "Failed to generate download URL" });
+    }
+  });
+
+  app.get("/api/recordings/:id/waveform", requireRecordingAccess, async (req, res) => {
+    try {
+      const recording = await storage.getRecordingById(req.params.id as string);
+      if (!recording) {
+        return res.status(404).json({ error: "Recording not found" });
+      }
+      if (!recording.peaksS3Key) {
+        return res.status(404).json({ error: "Waveform not available — recording not yet processed" });
+      }
+
+      // Proxied rather than presigned so the browser can fetch it without bucket CORS rules
+      const peaks = await objectStorage.download(recording.peaksS3Key);
+      res.set("Cache-Control", "private, max-age=3600");
+      res.type("application/json").send(peaks);
+    } catch (error) {
+      console.error("Waveform error:", error);
+      res.status(500).json({ error: "Failed to load waveform" });
+    }
+  });
+
+  app.get("/api/recordings/:id/segments", requireRecordingAccess, async (req, res) => {
+    try {
+      const recording = await storage.getRecordingById(req.params.id as string);
+      if (!recording) {
+        return res.status(404).json({ error: "Recording not found" });
+      }
+      if (recording.speechMs == null) {
+        return res.status(404).json({ error: "Segments not available — recording not yet processed" });
+      }
+
+      const segments = await storage.getRecordingSegments(recording.id);
+      res.json({
+        speechMs: recording.speechMs,
+        segments: segments.map((s) => ({ startMs: s.startMs, endMs: s.endMs })),
+      });
+    } catch (error) {
+      console.error("Get recording segments error:", error);
+      res.status(500).json({ error: "Failed to load segments" });
+    }
+  });
+
+  app.get("/api/recordings/:id/transcript", requireRecordingAccess, async (req, res) => {
+    try {
+      const transcript = await storage.getTranscriptByRecordingId(req.params.id as string);
+      if (!transcript) {
+        return res.status(404).json({ error: "Transcript not available" });
+      }
+      res.json(transcript);
+    } catch (error) {
+      console.error("Get transcript error:", error);
+      res.status(500).json({ error: "Failed to load transcript" });
+    }
+  });
+
+  app.get("/api/recordings/:id/artifacts/:profile/download", requireRecordingAccess, async (req, res) => {
+    try {
+      const profile = req.params.profile as string;
+      if (!(AUDIO_OUTPUT_PROFILE_IDS as readonly string[]).includes(profile)) {
+        return res.status(400).json({ error: `Unknown output profile: ${profile}` });
+      }
+
+      const artifact = await storage.getRecordingArtifact(req.params.id as string, profile as AudioOutputProfileId);
+      if (!artifact) {
+        return res.status(404).json({ error: "Artifact not available — profile not rendered for this recording" });
+      }
+
+      const downloadUrl = await objectStorage.generateDownloadUrl(artifact.s3Key);
+      res.json({ downloadUrl });
+    } catch (error) {
+      console.error("Download recording artifact error:", error);
+      res.status(500).json({ error: "Failed to generate download URL" });
+    }
+  });
+
+  // Server clock for clients estimating their offset before they start recording
+  app.get("/api/time", requireAuth, (_req, res) => {
+    res.json({ now: Date.now() });
+  });
+
+  // ── Webhook Routes ───────────────────────────────────────────
+
+  app.post("/api/webhooks/daily", async (req, res) => {
+    try {
+      // Daily sends a bare test event when the webhook is registered; it must get a 200
+      if (req.body?.test) {
+        return res.json({ ok: true });
+      }
+
+      const valid = verifyDailyWebhookSignature(
+        req.rawBody as Buffer,
+        req.header("X-Webhook-Timestamp"),
+        req.header("X-Webhook-Signature"),
+      );
+      if (!valid) {
+        return res.status(401).json({ error: "Invalid webhook signature" });
+      }
+
+      const { type, payload } = req.body || {};
+      if (type === "recording.ready-to-download" && payload?.type === "raw-tracks" && payload.recording_id) {
+        const job = await enqueueJob("ingest_cloud_recording", { dailyRecordingId: payload.recording_id }, {
+          key: `cloud:${payload.recording_id}`,
+        });
+        return res.json({ ok: true, jobId: job.id });
+      }
+      res.json({ ok: true, ignored: type });
+    } catch (error) {
+      console.error("Daily webhook error:", error);
+      res.status(500).json({ error: "Failed to handle webhook" });
+    }
+  });
+
+  // ── Job Routes ───────────────────────────────────────────────
+
+  app.get("/api/jobs/:id", requireAuth, async (req, res) => {
+    try {
+      const job = await storage.getJobById(req.params.id as string);
+      if (!job || (job.userId !== req.user!.id && !hasPermission(req.user!.role, "jobs.manage"))) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      res.json({
+        id: job.id,
+        type: job.type,
+        status: job.status,
+        attempts: job.attempts,
+        lastError: job.lastError,
+        result: job.result,
+        completedAt: job.completedAt,
+      });
+    } catch (error) {
+      console.error("Fetch job error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
   // ── Referral Routes ─────────────────────────────────────────
 
   app.post("/api/referrals/code", requireApproved, async (req, res) => {
@@ -485,7 +933,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/referrals/validate/:code", async (req, res) => {
+  app.get("/api/referrals/validate/:code", rateLimit("referral_lookup"), async (req, res) => {
     try {
       const referral = await storage.getReferralCodeByCode(req.params.code as string);
       if (!referral) {
@@ -502,7 +950,7 @@ export async function registerRoutes(
 
   // ── Invitation Routes ──────────────────────────────────────
 
-  app.post("/api/rooms/:id/invite", requireApproved, async (req, res) => {
+  app.post("/api/rooms/:id/invite", requireApproved, rateLimit("invite", { account: (req) => req.user!.id }), async (req, res) => {
     try {
       const parsed = inviteToRoomSchema.safeParse(req.body);
       if (!parsed.success) {
@@ -544,8 +992,7 @@ export async function registerRoutes(
         data: { roomId: room.id, invitationId: invitation.id },
       });
 
-      // Send email (fire and forget)
-      sendRoomInvitationEmail({
+      await sendRoomInvitationEmail({
         to: invitedUser.username,
         inviterName,
         roomName: room.name,
@@ -641,8 +1088,30 @@ export async function registerRoutes(
 
   // ── Task Session Routes ──────────────────────────────────────
 
-  app.get("/api/task-types", requireAuth, (_req, res) => {
-    res.json(TASK_TYPES);
+  app.get("/api/task-types", requireAuth, async (_req, res) => {
+    try {
+      const allTaskTypes = await storage.getTaskTypes();
+      res.json(allTaskTypes);
+    } catch (error) {
+      console.error("Fetch task types error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/task-types/:id/versions/:version", requireAuth, async (req, res) => {
+    try {
+      const version = parseInt(req.params.version as string, 10);
+      const snapshot = Number.isInteger(version)
+        ? await storage.getTaskTypeVersion(req.params.id as string, version)
+        : undefined;
+      if (!snapshot) {
+        return res.status(404).json({ error: "Task type version not found" });
+      }
+      res.json({ ...snapshot.definition, id: snapshot.taskTypeId, version: snapshot.version });
+    } catch (error) {
+      console.error("Fetch task type version error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
   });
 
   app.post("/api/task-sessions", requireApproved, async (req, res) => {
@@ -652,7 +1121,7 @@ export async function registerRoutes(
         return res.status(400).json({ error: parsed.error.issues[0].message });
       }
 
-      const taskType = TASK_TYPES.find((t) => t.id === parsed.data.taskType);
+      const taskType = await storage.getTaskTypeById(parsed.data.taskType);
       if (!taskType) {
         return res.status(400).json({ error: "Invalid task type" });
       }
@@ -663,8 +1132,13 @@ export async function registerRoutes(
         return res.json(existing);
       }
 
+      if (getTaskTypeAvailability(taskType) !== "available") {
+        return res.status(400).json({ error: "This task is not currently available" });
+      }
+
       const session = await storage.createTaskSession({
         taskType: parsed.data.taskType,
+        taskTypeVersion: taskType.version,
         userId: req.user!.id,
         partnerEmail: parsed.data.partnerEmail,
         partnerStatus: parsed.data.partnerEmail ? "invited" : "none",
@@ -702,7 +1176,7 @@ export async function registerRoutes(
       let updatedSession = session;
       if (session.partnerEmail && !session.partnerId) {
         const partner = await storage.getUserByUsername(session.partnerEmail);
-        if (partner) {
+        if (partner?.emailVerifiedAt) {
           const partnerStatus = partner.approved ? "approved" : "registered";
           const status = partner.approved ? "ready_to_record" : "waiting_approval";
           updatedSession = await storage.updateTaskSession(session.id, { partnerId: partner.id, partnerStatus, status });
@@ -721,7 +1195,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/task-sessions/:id/invite-partner", requireApproved, async (req, res) => {
+  app.post("/api/task-sessions/:id/invite-partner", requireApproved, rateLimit("invite", { account: (req) => req.user!.id }), async (req, res) => {
     try {
       const parsed = inviteTaskPartnerSchema.safeParse(req.body);
       if (!parsed.success) {
@@ -734,6 +1208,9 @@ export async function registerRoutes(
       }
 
       const existingUser = await storage.getUserByUsername(parsed.data.email);
+      if (existingUser && !existingUser.emailVerifiedAt) {
+        return res.status(400).json({ error: "This person hasn't verified their email address yet. Ask them to check their inbox, then invite them again." });
+      }
 
       if (existingUser) {
         const partnerStatus = existingUser.approved ? "approved" : "registered";
@@ -755,9 +1232,9 @@ export async function registerRoutes(
 
       const appUrl = process.env.APP_URL || `${req.protocol}://${req.get("host")}`;
       const inviteLink = `${appUrl}/invite/${referralCode.code}`;
-      const taskDef = TASK_TYPES.find((t) => t.id === session.taskType);
+      const taskDef = await storage.getTaskDefinitionForSession(session);
 
-      sendTaskPartnerInvitationEmail({
+      await sendTaskPartnerInvitationEmail({
         to: parsed.data.email,
         inviterName: (req.user!.onboardingData as any)?.firstName || req.user!.username,
         taskName: taskDef?.name || session.taskType,
@@ -776,7 +1253,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/task-sessions/:id/create-room", requireApproved, async (req, res) => {
+  app.post("/api/task-sessions/:id/create-room", requireApproved, rateLimit("invite", { account: (req) => req.user!.id }), async (req, res) => {
     try {
       const session = await storage.getTaskSessionById(req.params.id as string);
       if (!session || session.userId !== req.user!.id) {
@@ -797,15 +1274,16 @@ export async function registerRoutes(
         return res.json(session);
       }
 
-      const taskDef = TASK_TYPES.find((t) => t.id === session.taskType);
-      const dailyRoom = await createDailyRoom(taskDef?.name?.slice(0, 40));
+      const taskDef = await storage.getTaskDefinitionForSession(session);
+      const rtcRoom = await rtc.createRoom(taskDef?.name?.slice(0, 40));
 
       const room = await storage.createRoom({
-        name: dailyRoom.name,
-        dailyRoomUrl: dailyRoom.url,
-        dailyRoomName: dailyRoom.name,
+        name: rtcRoom.name,
+        dailyRoomUrl: rtcRoom.url,
+        dailyRoomName: rtcRoom.name,
+        rtcProvider: rtc.name,
         createdBy: req.user!.id,
-        expiresAt: dailyRoom.expiresAt,
+        expiresAt: rtcRoom.expiresAt,
       });
 
       const updated = await storage.updateTaskSession(session.id, {
@@ -829,7 +1307,7 @@ export async function registerRoutes(
         data: { roomId: room.id, invitationId: invitation.id, taskSessionId: session.id },
       });
 
-      sendRoomInvitationEmail({
+      await sendRoomInvitationEmail({
         to: partner.username,
         inviterName,
         roomName: room.name,
@@ -849,6 +1327,25 @@ export async function registerRoutes(
       if (!session || (session.userId !== req.user!.id && session.partnerId !== req.user!.id)) {
         return res.status(404).json({ error: "Task session not found" });
       }
+
+      // Only verified uploads count: a session can't go to review with a track missing or broken
+      const taskDef = await storage.getTaskDefinitionForSession(session);
+      const roomRecordings = session.roomId ? await storage.getRecordingsByRoom(session.roomId) : [];
+      const unverified = findUnverifiedTracks(roomRecordings, taskDef?.requiresPartner ?? true);
+      if (unverified.length > 0) {
+        const failed = unverified.filter((t) => t.problem === "failed");
+        if (failed.length > 0) {
+          return res.status(422).json({
+            error: `Upload for ${failed[0].speakerId} failed verification: ${failed[0].error}. Please record again.`,
+            tracks: unverified,
+          });
+        }
+        return res.status(409).json({
+          error: `Waiting for ${unverified.map((t) => t.speakerId).join(" and ")} to finish uploading`,
+          tracks: unverified,
+        });
+      }
+
       const updated = await storage.updateTaskSession(session.id, { status: "pending_review" });
       res.json(updated);
     } catch (error) {
@@ -867,6 +1364,12 @@ export async function registerRoutes(
         return res.status(400).json({ error: "Cannot cancel a completed task" });
       }
       const updated = await storage.updateTaskSession(session.id, { status: "cancelled" });
+
+      // Nobody should keep talking in a cancelled session's room; it expires anyway if this fails
+      const room = session.roomId ? await storage.getRoomById(session.roomId) : undefined;
+      if (room && room.rtcProvider === rtc.name) {
+        rtc.endRoom(room.dailyRoomName).catch((error) => console.error("End room error:", error));
+      }
       res.json(updated);
     } catch (error) {
       console.error("Cancel task session error:", error);
@@ -876,7 +1379,7 @@ export async function registerRoutes(
 
   // ── Admin Routes ─────────────────────────────────────────────
 
-  app.get("/api/admin/users", requireAdmin, async (_req, res) => {
+  app.get("/api/admin/users", requirePermission("users.view"), async (_req, res) => {
     try {
       const allUsers = await storage.getUsers();
       res.json(
@@ -898,7 +1401,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/admin/onboarding-samples/:userId/download", requireAdmin, async (req, res) => {
+  app.get("/api/admin/onboarding-samples/:userId/download", requirePermission("users.view"), async (req, res) => {
     try {
       const samples = await storage.getOnboardingSamplesByUser(req.params.userId as string);
       if (samples.length === 0) {
@@ -906,7 +1409,7 @@ export async function registerRoutes(
       }
       const sample = samples[0];
       const key = sample.wavS3Key || sample.s3Key;
-      const downloadUrl = await generateDownloadUrl(key);
+      const downloadUrl = await objectStorage.generateDownloadUrl(key);
       res.json({ downloadUrl });
     } catch (error) {
       console.error("Onboarding sample download error:", error);
@@ -914,7 +1417,7 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/admin/users/:id/approve", requireAdmin, async (req, res) => {
+  app.patch("/api/admin/users/:id/approve", requirePermission("users.approve"), async (req, res) => {
     try {
       const user = await storage.approveUser(req.params.id as string);
 
@@ -922,7 +1425,7 @@ export async function registerRoutes(
       await storage.updateTaskSessionsForApprovedPartner(user.id);
       const sessionsAsPartner = await storage.getTaskSessionsByPartner(user.id);
       for (const session of sessionsAsPartner) {
-        const taskType = TASK_TYPES.find((t) => t.id === session.taskType);
+        const taskType = await storage.getTaskDefinitionForSession(session);
         await storage.createNotification({
           userId: session.userId,
           type: "partner_approved",
@@ -944,13 +1447,21 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/admin/users/:id/role", requireAdmin, async (req, res) => {
+  app.patch("/api/admin/users/:id/role", requirePermission("users.manage_roles"), async (req, res) => {
     try {
       const { role } = req.body;
-      if (!role || !["admin", "user"].includes(role)) {
-        return res.status(400).json({ error: "Invalid role" });
+      if (!isRole(role)) {
+        return res.status(400).json({ error: `Invalid role. Expected one of: ${ROLES.join(", ")}` });
       }
-      const user = await storage.updateUser(req.params.id as string, { role });
+      if (req.params.id === req.user!.id) {
+        return res.status(400).json({ error: "You can't change your own role" });
+      }
+      const target = await storage.getUserById(req.params.id as string);
+      if (!target) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      const user = await storage.updateUser(target.id, { role });
+      console.log(`Admin ${req.user!.username} changed ${user.username}'s role from ${target.role} to ${role}`);
       res.json({
         id: user.id,
         username: user.username,
@@ -963,13 +1474,20 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/admin/users/:id/reject-retry", requireAdmin, async (req, res) => {
+  app.patch("/api/admin/users/:id/reject-retry", requirePermission("users.approve"), async (req, res) => {
     try {
       const userId = req.params.id as string;
+      if (userId === req.user!.id) {
+        return res.status(400).json({ error: "You can't reset your own onboarding" });
+      }
       const target = await storage.getUserById(userId);
       if (!target) {
         return res.status(404).json({ error: "User not found" });
       }
+      // Otherwise admins could get around not being able to change roles
+      if (isStaffRole(target.role) && !hasPermission(req.user!.role, "users.manage_roles")) {
+        return res.status(403).json({ error: "You don't have permission to do that to a staff account" });
+      }
       // Delete their onboarding samples and reset samplesCompletedAt
       await storage.deleteOnboardingSamplesByUser(userId);
       const user = await storage.updateUser(userId, { samplesCompletedAt: null });
@@ -984,13 +1502,19 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/admin/users/:id/reject-block", requireAdmin, async (req, res) => {
+  app.patch("/api/admin/users/:id/reject-block", requirePermission("users.block"), async (req, res) => {
     try {
       const userId = req.params.id as string;
+      if (userId === req.user!.id) {
+        return res.status(400).json({ error: "You can't block your own account" });
+      }
       const target = await storage.getUserById(userId);
       if (!target) {
         return res.status(404).json({ error: "User not found" });
       }
+      if (isStaffRole(target.role) && !hasPermission(req.user!.role, "users.manage_roles")) {
+        return res.status(403).json({ error: "You don't have permission to do that to a staff account" });
+      }
       // Block the email and delete the user
       await storage.createBlockedEmail({
         email: target.username,
@@ -1005,7 +1529,373 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/admin/rooms", requireAdmin, async (_req, res) => {
+  app.get("/api/admin/task-types", requirePermission("task_types.manage"), async (_req, res) => {
+    try {
+      const allTaskTypes = await storage.getTaskTypes();
+      res.json(allTaskTypes);
+    } catch (error) {
+      console.error("Admin fetch task types error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/admin/task-types", requirePermission("task_types.manage"), async (req, res) => {
+    try {
+      const parsed = createTaskTypeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0].message });
+      }
+
+      const existing = await storage.getTaskTypeById(parsed.data.id);
+      if (existing) {
+        return res.status(409).json({ error: "A task type with that ID already exists" });
+      }
+
+      const taskType = await storage.createTaskType(parsed.data, req.user!.id);
+      res.status(201).json(taskType);
+    } catch (error) {
+      console.error("Admin create task type error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/admin/task-types/:id", requirePermission("task_types.manage"), async (req, res) => {
+    try {
+      const parsed = updateTaskTypeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0].message });
+      }
+
+      const existing = await storage.getTaskTypeById(req.params.id as string);
+      if (!existing) {
+        return res.status(404).json({ error: "Task type not found" });
+      }
+
+      const taskType = await storage.updateTaskType(existing.id, parsed.data, req.user!.id);
+      res.json(taskType);
+    } catch (error) {
+      console.error("Admin update task type error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/admin/jobs", requirePermission("jobs.manage"), async (req, res) => {
+    try {
+      const status = typeof req.query.status === "string" && (JOB_STATUSES as readonly string[]).includes(req.query.status)
+        ? (req.query.status as JobStatus)
+        : undefined;
+      const [jobList, counts] = await Promise.all([
+        storage.getJobs({ status }),
+        storage.getJobCountsByStatus(),
+      ]);
+      res.json({ jobs: jobList, counts });
+    } catch (error) {
+      console.error("Admin fetch jobs error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/admin/jobs/:id/retry", requirePermission("jobs.manage"), async (req, res) => {
+    try {
+      const job = await storage.getJobById(req.params.id as string);
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      if (job.status === "running" || job.status === "completed") {
+        return res.status(400).json({ error: `Cannot retry a ${job.status} job` });
+      }
+      const updated = await storage.requeueJob(job.id);
+      res.json(updated);
+    } catch (error) {
+      console.error("Admin retry job error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/admin/email-templates", requirePermission("emails.manage"), async (_req, res) => {
+    res.json(Object.entries(EMAIL_TEMPLATES).map(([name, template]) => ({
+      name,
+      version: template.version,
+      description: template.description,
+    })));
+  });
+
+  app.get("/api/admin/email-templates/:name/preview", requirePermission("emails.manage"), async (req, res) => {
+    const name = req.params.name as string;
+    if (!isEmailTemplateName(name)) {
+      return res.status(404).json({ error: "Email template not found" });
+    }
+    const template = EMAIL_TEMPLATES[name];
+    res.json({ name, version: template.version, ...renderEmailTemplate(name, template.sampleParams) });
+  });
+
+  app.get("/api/admin/emails", requirePermission("emails.manage"), async (req, res) => {
+    try {
+      const status = typeof req.query.status === "string" && (EMAIL_STATUSES as readonly string[]).includes(req.query.status)
+        ? (req.query.status as EmailStatus)
+        : undefined;
+      res.json(await storage.getOutboxEmails({ status }));
+    } catch (error) {
+      console.error("Admin fetch emails error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/admin/emails/:id/retry", requirePermission("emails.manage"), async (req, res) => {
+    try {
+      const email = await storage.getOutboxEmailById(req.params.id as string);
+      if (!email) {
+        return res.status(404).json({ error: "Email not found" });
+      }
+      if (email.status !== "failed") {
+        return res.status(400).json({ error: `Cannot retry an email that is ${email.status}` });
+      }
+      res.json(await retryOutboxEmail(email.id));
+    } catch (error) {
+      console.error("Admin retry email error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/admin/rate-limits", requirePermission("rate_limits.manage"), async (_req, res) => {
+    try {
+      res.json({
+        policies: Object.entries(RATE_LIMIT_POLICIES).map(([name, policy]) => ({ name, ...policy })),
+        lockouts: await getRateLimitLockouts(),
+      });
+    } catch (error) {
+      console.error("Admin fetch rate limits error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/admin/rate-limits/:id", requirePermission("rate_limits.manage"), async (req, res) => {
+    try {
+      const cleared = await storage.deleteRateLimitBucket(req.params.id as string);
+      if (!cleared) {
+        return res.status(404).json({ error: "Lockout not found" });
+      }
+      console.log(`Admin ${req.user!.username} cleared rate limit lockout ${cleared.policy} ${cleared.subject}`);
+      res.json({ ok: true });
+    } catch (error) {
+      console.error("Admin clear rate limit error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/admin/retention/rules", requirePermission("retention.manage"), async (_req, res) => {
+    try {
+      res.json(await storage.getRetentionRules());
+    } catch (error) {
+      console.error("Admin fetch retention rules error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/admin/retention/rules", requirePermission("retention.manage"), async (req, res) => {
+    try {
+      const parsed = createRetentionRuleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0].message });
+      }
+      const rule = await storage.createRetentionRule(parsed.data);
+      res.status(201).json(rule);
+    } catch (error) {
+      console.error("Admin create retention rule error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/admin/retention/rules/:id", requirePermission("retention.manage"), async (req, res) => {
+    try {
+      const parsed = updateRetentionRuleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0].message });
+      }
+      const rule = await storage.updateRetentionRule(req.params.id as string, parsed.data);
+      if (!rule) {
+        return res.status(404).json({ error: "Retention rule not found" });
+      }
+      res.json(rule);
+    } catch (error) {
+      console.error("Admin update retention rule error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/admin/retention/rules/:id", requirePermission("retention.manage"), async (req, res) => {
+    try {
+      await storage.deleteRetentionRule(req.params.id as string);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Admin delete retention rule error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/admin/retention/sweeps", requirePermission("retention.manage"), async (_req, res) => {
+    try {
+      res.json(await storage.getRetentionSweeps());
+    } catch (error) {
+      console.error("Admin fetch retention sweeps error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/admin/retention/sweeps/:id/actions", requirePermission("retention.manage"), async (req, res) => {
+    try {
+      const sweep = await storage.getRetentionSweepById(req.params.id as string);
+      if (!sweep) {
+        return res.status(404).json({ error: "Retention sweep not found" });
+      }
+      res.json(await storage.getRetentionActions(sweep.id));
+    } catch (error) {
+      console.error("Admin fetch retention actions error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Plan only: nothing is deleted until an admin applies a completed dry run
+  app.post("/api/admin/retention/dry-run", requirePermission("retention.manage"), async (req, res) => {
+    try {
+      const sweep = await storage.createRetentionSweep({ dryRun: true, triggeredBy: req.user!.id });
+      await enqueueJob("retention_sweep", { sweepId: sweep.id }, { key: `retention:${sweep.id}`, userId: req.user!.id, maxAttempts: 1 });
+      res.status(202).json(sweep);
+    } catch (error) {
+      console.error("Admin retention dry run error:", error);
+      res.status(500).json({ error: "Failed to queue retention dry run" });
+    }
+  });
+
+  app.post("/api/admin/retention/sweeps/:id/apply", requirePermission("retention.manage"), async (req, res) => {
+    try {
+      const plan = await storage.getRetentionSweepById(req.params.id as string);
+      if (!plan) {
+        return res.status(404).json({ error: "Retention sweep not found" });
+      }
+      if (!plan.dryRun || plan.status !== "completed") {
+        return res.status(400).json({ error: "Only a completed dry run can be applied" });
+      }
+
+      const sweep = await storage.createRetentionSweep({ dryRun: false, planSweepId: plan.id, triggeredBy: req.user!.id });
+      await enqueueJob("retention_sweep", { sweepId: sweep.id }, { key: `retention:${sweep.id}`, userId: req.user!.id, maxAttempts: 1 });
+      res.status(202).json(sweep);
+    } catch (error) {
+      console.error("Admin apply retention sweep error:", error);
+      res.status(500).json({ error: "Failed to queue retention sweep" });
+    }
+  });
+
+  app.get("/api/admin/folders/:folder/artifacts/:kind/download", requirePermission("sessions.view"), async (req, res) => {
+    try {
+      const kind = req.params.kind as string;
+      if (!(FOLDER_ARTIFACT_KINDS as readonly string[]).includes(kind)) {
+        return res.status(400).json({ error: `Unknown artifact kind: ${kind}` });
+      }
+
+      const artifact = await storage.getFolderArtifact(req.params.folder as string, kind as FolderArtifactKind);
+      if (!artifact) {
+        return res.status(404).json({ error: "Artifact not available — folder not mixed yet" });
+      }
+
+      const downloadUrl = await objectStorage.generateDownloadUrl(artifact.s3Key);
+      res.json({ downloadUrl });
+    } catch (error) {
+      console.error("Download folder artifact error:", error);
+      res.status(500).json({ error: "Failed to generate download URL" });
+    }
+  });
+
+  app.post("/api/admin/exports", requirePermission("exports.create"), async (req, res) => {
+    try {
+      const parsed = exportRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0].message });
+      }
+      const { format, ...filters } = parsed.data;
+      const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+
+      // The HF layout copies every WAV, so it runs in the background
+      if (format === "hf") {
+        const exportId = `${stamp}-${filters.taskType || "all"}`;
+        const job = await enqueueJob("export_dataset", { exportId, filters }, { userId: req.user!.id, maxAttempts: 3 });
+        return res.status(202).json({ jobId: job.id, prefix: `exports/${exportId}/` });
+      }
+
+      const rows = await buildExportManifest(filters);
+      const fileName = `export-${stamp}.${format}`;
+      res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+      if (format === "csv") {
+        res.type("text/csv").send(toCsv(rows));
+      } else {
+        res.type("application/x-ndjson").send(toJsonl(rows));
+      }
+    } catch (error) {
+      console.error("Admin export error:", error);
+      res.status(500).json({ error: "Failed to build export" });
+    }
+  });
+
+  app.get("/api/admin/transcripts", requirePermission("sessions.view"), async (req, res) => {
+    try {
+      const query = typeof req.query.q === "string" ? req.query.q.trim() : "";
+      const results = await storage.searchTranscripts({
+        query: query || undefined,
+        languageMismatch: req.query.mismatch === "true",
+        limit: Math.min(parseInt(String(req.query.limit || "50"), 10) || 50, 200),
+      });
+      res.json(results);
+    } catch (error) {
+      console.error("Admin search transcripts error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/admin/recordings/:id/transcribe", requirePermission("sessions.review"), async (req, res) => {
+    try {
+      if (!getTranscriptionProvider()) {
+        return res.status(503).json({ error: "Transcription is not configured" });
+      }
+      const recording = await storage.getRecordingById(req.params.id as string);
+      if (!recording) {
+        return res.status(404).json({ error: "Recording not found" });
+      }
+      if (!recording.wavS3Key) {
+        return res.status(400).json({ error: "Recording has not been processed yet" });
+      }
+
+      // No dedupe key: an admin re-run should transcribe again even if a job already completed
+      const job = await enqueueJob("transcribe_recording", { recordingId: recording.id }, { userId: req.user!.id });
+      res.status(202).json({ jobId: job.id });
+    } catch (error) {
+      console.error("Admin transcribe recording error:", error);
+      res.status(500).json({ error: "Failed to queue transcription" });
+    }
+  });
+
+  app.post("/api/admin/recordings/:id/verify-speaker", requirePermission("sessions.review"), async (req, res) => {
+    try {
+      if (!getSpeakerEmbeddingProvider()) {
+        return res.status(503).json({ error: "Speaker verification is not configured" });
+      }
+      const recording = await storage.getRecordingById(req.params.id as string);
+      if (!recording) {
+        return res.status(404).json({ error: "Recording not found" });
+      }
+      if (!recording.wavS3Key) {
+        return res.status(400).json({ error: "Recording has not been processed yet" });
+      }
+
+      // No dedupe key, for the same reason as re-transcription: the sample may have been re-recorded
+      const job = await enqueueJob("verify_speaker", { recordingId: recording.id }, { userId: req.user!.id });
+      res.status(202).json({ jobId: job.id });
+    } catch (error) {
+      console.error("Admin verify speaker error:", error);
+      res.status(500).json({ error: "Failed to queue speaker verification" });
+    }
+  });
+
+  app.get("/api/admin/rooms", requirePermission("sessions.view"), async (_req, res) => {
     try {
       const allRooms = await storage.getRooms();
       res.json(allRooms);
@@ -1015,7 +1905,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/admin/recordings", requireAdmin, async (_req, res) => {
+  app.get("/api/admin/recordings", requirePermission("sessions.view"), async (_req, res) => {
     try {
       const allRecordings = await storage.getRecordings();
       res.json(allRecordings);
@@ -1025,7 +1915,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/admin/task-sessions", requireAdmin, async (_req, res) => {
+  app.get("/api/admin/task-sessions", requirePermission("sessions.view"), async (_req, res) => {
     try {
       const sessions = await storage.getAllTaskSessionsWithUsers();
       res.json(sessions);
@@ -1035,7 +1925,7 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/admin/task-sessions/:id/paid", requireAdmin, async (req, res) => {
+  app.patch("/api/admin/task-sessions/:id/paid", requirePermission("sessions.pay"), async (req, res) => {
     try {
       const session = await storage.getTaskSessionById(req.params.id as string);
       if (!session) {
@@ -1053,7 +1943,7 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/admin/task-sessions/:id/reviewer-status", requireAdmin, async (req, res) => {
+  app.patch("/api/admin/task-sessions/:id/reviewer-status", requirePermission("sessions.review"), async (req, res) => {
     try {
       const session = await storage.getTaskSessionById(req.params.id as string);
       if (!session) {
@@ -1071,7 +1961,7 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/admin/task-sessions/:id/approve", requireAdmin, async (req, res) => {
+  app.patch("/api/admin/task-sessions/:id/approve", requirePermission("sessions.review"), async (req, res) => {
     try {
       const session = await storage.getTaskSessionById(req.params.id as string);
       if (!session) {
@@ -1082,7 +1972,7 @@ export async function registerRoutes(
       }
       const updated = await storage.updateTaskSession(session.id, { status: "completed" });
 
-      const taskDef = TASK_TYPES.find((t) => t.id === session.taskType);
+      const taskDef = await storage.getTaskDefinitionForSession(session);
       await storage.createNotification({
         userId: session.userId,
         type: "recording_approved",
@@ -1098,7 +1988,7 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/admin/task-sessions/:id/reject", requireAdmin, async (req, res) => {
+  app.patch("/api/admin/task-sessions/:id/reject", requirePermission("sessions.review"), async (req, res) => {
     try {
       const session = await storage.getTaskSessionById(req.params.id as string);
       if (!session) {
@@ -1109,7 +1999,7 @@ export async function registerRoutes(
       }
       const updated = await storage.updateTaskSession(session.id, { status: "room_created" });
 
-      const taskDef = TASK_TYPES.find((t) => t.id === session.taskType);
+      const taskDef = await storage.getTaskDefinitionForSession(session);
       await storage.createNotification({
         userId: session.userId,
         type: "recording_rejected",
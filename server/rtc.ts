@@ -0,0 +1,50 @@
+import type { Express } from "express";
+
+import { dailyRtcProvider } from "./daily";
+import { createMockRtcProvider } from "./mock-rtc";
+
+export interface RtcRoom {
+  /** The provider's name for the room; tokens and participant lookups use it */
+  name: string;
+  /** What the browser joins; handed to the client adapter for the same provider */
+  url: string;
+  expiresAt: Date;
+}
+
+export interface RtcParticipant {
+  id: string;
+  /** Our user id, from the token the participant joined with */
+  userId: string | null;
+  joinedAt: Date | null;
+}
+
+/**
+ * The video/audio call service behind rooms. Each provider has a matching client adapter
+ * in `client/src/lib/rtc.ts`; the token route tells the browser which one to load.
+ */
+export interface RtcProvider {
+  readonly name: string;
+  /** Open a room that expires after a few hours. `customName` is a hint, made unique. */
+  createRoom(customName?: string): Promise<RtcRoom>;
+  /** Token that lets `userId` join the room until it expires */
+  createToken(room: { name: string; expiresAt: Date }, userId?: string): Promise<string>;
+  /** Disconnect everyone and close the room for good */
+  endRoom(roomName: string): Promise<void>;
+  /** Who is in the room right now */
+  listParticipants(roomName: string): Promise<RtcParticipant[]>;
+  /** Providers served by this app (the mock) mount their endpoints here */
+  registerRoutes?(app: Express): void;
+}
+
+/** Provider chosen by RTC_PROVIDER; Daily unless configured otherwise */
+export function getRtcProvider(): RtcProvider {
+  switch (process.env.RTC_PROVIDER) {
+    case "mock":
+      return createMockRtcProvider();
+    case "daily":
+    default:
+      return dailyRtcProvider;
+  }
+}
+
+export const rtc = getRtcProvider();
@@ -1,6 +1,20 @@
-import { S3Client, PutObjectCommand, GetObjectCommand, CopyObjectCommand } from "@aws-sdk/client-s3";
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  CopyObjectCommand,
+  DeleteObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  ListPartsCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+} from "@aws-sdk/client-s3";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
 import type { Readable } from "node:stream";
+import type { ObjectStorageDriver, StoredObject, UploadedPart } from "./object-storage";
 
 const s3Client = new S3Client({
   region: process.env.AWS_REGION || "us-west-2",
@@ -12,61 +26,171 @@ const s3Client = new S3Client({
 
 const BUCKET = process.env.AWS_S3_BUCKET || "web-app-call-recordings";
 
-export async function generateUploadUrl(params: {
-  key: string;
-  contentType: string;
-  metadata: Record<string, string>;
-}): Promise<string> {
-  const command = new PutObjectCommand({
-    Bucket: BUCKET,
-    Key: params.key,
-    ContentType: params.contentType,
-    Metadata: params.metadata,
-  });
-  return getSignedUrl(s3Client, command, { expiresIn: 3600 });
-}
-
-export async function generateDownloadUrl(key: string): Promise<string> {
-  const command = new GetObjectCommand({
-    Bucket: BUCKET,
-    Key: key,
-  });
-  return getSignedUrl(s3Client, command, { expiresIn: 3600 });
-}
-
-export async function downloadFromS3(key: string): Promise<Buffer> {
-  const command = new GetObjectCommand({
-    Bucket: BUCKET,
-    Key: key,
-  });
-  const response = await s3Client.send(command);
-  const stream = response.Body as Readable;
-  const chunks: Buffer[] = [];
-  for await (const chunk of stream) {
-    chunks.push(Buffer.from(chunk));
-  }
-  return Buffer.concat(chunks);
-}
-
-export async function uploadBufferToS3(
-  key: string,
-  body: Buffer,
-  contentType: string
-): Promise<void> {
-  const command = new PutObjectCommand({
-    Bucket: BUCKET,
-    Key: key,
-    Body: body,
-    ContentType: contentType,
-  });
-  await s3Client.send(command);
-}
-
-export async function copyInS3(sourceKey: string, destKey: string): Promise<void> {
-  const command = new CopyObjectCommand({
-    Bucket: BUCKET,
-    CopySource: `${BUCKET}/${sourceKey}`,
-    Key: destKey,
-  });
-  await s3Client.send(command);
-}
+/** Objects in our own S3 bucket, uploaded and downloaded through presigned URLs */
+export const s3ObjectStorage: ObjectStorageDriver = {
+  name: "s3",
+  bucket: BUCKET,
+
+  async generateUploadUrl(params) {
+    const command = new PutObjectCommand({
+      Bucket: BUCKET,
+      Key: params.key,
+      ContentType: params.contentType,
+      Metadata: params.metadata,
+    });
+    return getSignedUrl(s3Client, command, { expiresIn: 3600 });
+  },
+
+  async generateDownloadUrl(key) {
+    const command = new GetObjectCommand({
+      Bucket: BUCKET,
+      Key: key,
+    });
+    return getSignedUrl(s3Client, command, { expiresIn: 3600 });
+  },
+
+  async download(key) {
+    const command = new GetObjectCommand({
+      Bucket: BUCKET,
+      Key: key,
+    });
+    const response = await s3Client.send(command);
+    const stream = response.Body as Readable;
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  },
+
+  async upload(key, body, contentType) {
+    const command = new PutObjectCommand({
+      Bucket: BUCKET,
+      Key: key,
+      Body: body,
+      ContentType: contentType,
+    });
+    await s3Client.send(command);
+  },
+
+  async copy(sourceKey, destKey, sourceBucket = BUCKET) {
+    const command = new CopyObjectCommand({
+      Bucket: BUCKET,
+      CopySource: `${sourceBucket}/${sourceKey}`,
+      Key: destKey,
+    });
+    await s3Client.send(command);
+  },
+
+  async head(key) {
+    try {
+      const response = await s3Client.send(new HeadObjectCommand({ Bucket: BUCKET, Key: key }));
+      return { size: response.ContentLength ?? 0, contentType: response.ContentType ?? null };
+    } catch (error: any) {
+      if (error?.name === "NotFound" || error?.$metadata?.httpStatusCode === 404) return null;
+      throw error;
+    }
+  },
+
+  async delete(key) {
+    await s3Client.send(new DeleteObjectCommand({ Bucket: BUCKET, Key: key }));
+  },
+
+  /**
+   * Move an object to Glacier Instant Retrieval in place. Cheaper to keep, but presigned
+   * downloads keep working, so archived audio stays reachable from the admin panel.
+   */
+  async archive(key) {
+    const command = new CopyObjectCommand({
+      Bucket: BUCKET,
+      CopySource: `${BUCKET}/${key}`,
+      Key: key,
+      StorageClass: "GLACIER_IR",
+      MetadataDirective: "COPY",
+    });
+    await s3Client.send(command);
+  },
+
+  /** Follows continuation tokens */
+  async list(prefix) {
+    const objects: StoredObject[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const response = await s3Client.send(new ListObjectsV2Command({
+        Bucket: BUCKET,
+        Prefix: prefix,
+        ContinuationToken: continuationToken,
+      }));
+      for (const object of response.Contents ?? []) {
+        if (!object.Key) continue;
+        objects.push({ key: object.Key, lastModified: object.LastModified ?? new Date(0), size: object.Size ?? 0 });
+      }
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+    return objects;
+  },
+
+  // ── Multipart uploads ────────────────────────────────────────
+  // Parts are PUT directly by the browser via presigned URLs. The server never needs the
+  // ETags from the client: S3's ListParts is the source of truth for what has landed.
+
+  async createMultipartUpload(params) {
+    const response = await s3Client.send(
+      new CreateMultipartUploadCommand({
+        Bucket: BUCKET,
+        Key: params.key,
+        ContentType: params.contentType,
+        Metadata: params.metadata,
+      })
+    );
+    if (!response.UploadId) {
+      throw new Error("S3 did not return an UploadId");
+    }
+    return response.UploadId;
+  },
+
+  async generateUploadPartUrl(key, uploadId, partNumber) {
+    const command = new UploadPartCommand({
+      Bucket: BUCKET,
+      Key: key,
+      UploadId: uploadId,
+      PartNumber: partNumber,
+    });
+    return getSignedUrl(s3Client, command, { expiresIn: 3600 });
+  },
+
+  async listUploadedParts(key, uploadId) {
+    const parts: UploadedPart[] = [];
+    let marker: string | undefined;
+    do {
+      const response = await s3Client.send(
+        new ListPartsCommand({ Bucket: BUCKET, Key: key, UploadId: uploadId, PartNumberMarker: marker })
+      );
+      for (const part of response.Parts || []) {
+        parts.push({ partNumber: part.PartNumber!, etag: part.ETag!, size: part.Size || 0 });
+      }
+      marker = response.IsTruncated ? response.NextPartNumberMarker : undefined;
+    } while (marker);
+    return parts;
+  },
+
+  async completeMultipartUpload(key, uploadId, parts) {
+    await s3Client.send(
+      new CompleteMultipartUploadCommand({
+        Bucket: BUCKET,
+        Key: key,
+        UploadId: uploadId,
+        MultipartUpload: {
+          Parts: parts
+            .slice()
+            .sort((a, b) => a.partNumber - b.partNumber)
+            .map((p) => ({ PartNumber: p.partNumber, ETag: p.etag })),
+        },
+      })
+    );
+  },
+
+  async abortMultipartUpload(key, uploadId) {
+    await s3Client.send(new AbortMultipartUploadCommand({ Bucket: BUCKET, Key: key, UploadId: uploadId }));
+  },
+};
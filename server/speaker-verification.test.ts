@@ -0,0 +1,82 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { writeTestWav } from "./test-support/wav";
+import { localSpeakerEmbeddingProvider, cosineSimilarity, getSpeakerEmbeddingProvider } from "./speaker-verification";
+
+let dir: string;
+
+function lcg(seed: number) {
+  return () => {
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    return seed / 2 ** 32;
+  };
+}
+
+/** Harmonic "voice" with its own pitch range, spectral tilt and formant; `seed` varies the utterance */
+function voice(seed: number, pitchRange: [number, number], tilt: number, formantHz: number) {
+  const random = lcg(seed);
+  const pitch = Array.from({ length: 100 }, () => pitchRange[0] + random() * (pitchRange[1] - pitchRange[0]));
+  const level = Array.from({ length: 100 }, () => (random() < 0.25 ? 0 : 0.1 + random() * 0.3));
+  return (t: number) => {
+    const i = Math.min(99, Math.floor(t / 0.1));
+    let s = 0;
+    for (let h = 1; pitch[i] * h < 3900; h++) {
+      const freq = pitch[i] * h;
+      s += (Math.sin(2 * Math.PI * freq * t) / Math.pow(h, tilt)) * (1 + 2 * Math.exp(-(((freq - formantHz) / 300) ** 2)));
+    }
+    return level[i] * s * 0.15;
+  };
+}
+
+before(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "speaker-test-"));
+  writeTestWav(path.join(dir, "sample.wav"), 8, voice(1, [100, 140], 1.2, 700));
+  // Same voice saying something else, recorded further from the mic
+  writeTestWav(path.join(dir, "task.wav"), 8, (t) => 0.5 * voice(2, [100, 140], 1.2, 700)(t));
+  writeTestWav(path.join(dir, "other.wav"), 8, voice(3, [200, 280], 0.6, 1800));
+  writeTestWav(path.join(dir, "silence.wav"), 2, () => 0);
+});
+
+after(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test("local embeddings match the same voice across utterances and levels", async () => {
+  const sample = await localSpeakerEmbeddingProvider.embed(path.join(dir, "sample.wav"));
+  const task = await localSpeakerEmbeddingProvider.embed(path.join(dir, "task.wav"));
+
+  assert.ok(cosineSimilarity(sample, task) >= localSpeakerEmbeddingProvider.threshold);
+});
+
+test("local embeddings flag a different voice", async () => {
+  const sample = await localSpeakerEmbeddingProvider.embed(path.join(dir, "sample.wav"));
+  const other = await localSpeakerEmbeddingProvider.embed(path.join(dir, "other.wav"));
+
+  assert.ok(cosineSimilarity(sample, other) < localSpeakerEmbeddingProvider.threshold);
+});
+
+test("local provider refuses to embed silence", async () => {
+  await assert.rejects(localSpeakerEmbeddingProvider.embed(path.join(dir, "silence.wav")), /No speech/);
+});
+
+test("cosine similarity handles zero vectors and rejects length mismatches", () => {
+  assert.equal(cosineSimilarity([1, 0], [1, 0]), 1);
+  assert.equal(cosineSimilarity([0, 0], [1, 0]), 0);
+  assert.throws(() => cosineSimilarity([1, 0], [1, 0, 0]), /length mismatch/);
+});
+
+test("speaker verification is off unless a provider is configured", () => {
+  const previous = process.env.SPEAKER_EMBEDDING_PROVIDER;
+  try {
+    delete process.env.SPEAKER_EMBEDDING_PROVIDER;
+    assert.equal(getSpeakerEmbeddingProvider(), null);
+    process.env.SPEAKER_EMBEDDING_PROVIDER = "local";
+    assert.equal(getSpeakerEmbeddingProvider(), localSpeakerEmbeddingProvider);
+  } finally {
+    if (previous === undefined) delete process.env.SPEAKER_EMBEDDING_PROVIDER;
+    else process.env.SPEAKER_EMBEDDING_PROVIDER = previous;
+  }
+});
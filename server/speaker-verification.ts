@@ -0,0 +1,223 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+
+import { storage } from "./storage";
+import { objectStorage } from "./object-storage";
+import { FFT_SIZE, FRAMES_PER_YIELD, fft, hannWindow, readDecimated } from "./spectrum";
+import { yieldToEventLoop } from "./audio-analysis";
+import type { Recording } from "@shared/schema";
+
+export interface SpeakerEmbeddingProvider {
+  readonly name: string;
+  /** Cosine similarity below which a track is flagged as a different speaker */
+  readonly threshold: number;
+  /** Fixed-length voice embedding of a processed mono WAV */
+  embed(wavPath: string): Promise<number[]>;
+}
+
+const SPEAKER_EMBEDDING_URL = process.env.SPEAKER_EMBEDDING_URL || "";
+const SPEAKER_EMBEDDING_API_KEY = process.env.SPEAKER_EMBEDDING_API_KEY || "";
+
+/**
+ * Self-hosted embedding service (e.g. an ECAPA-TDNN model behind a small HTTP wrapper).
+ * Receives the WAV as the request body and answers `{ "embedding": number[] }`.
+ */
+export const httpSpeakerEmbeddingProvider: SpeakerEmbeddingProvider = {
+  name: "http",
+  threshold: Number(process.env.SPEAKER_MATCH_THRESHOLD) || 0.5,
+  async embed(wavPath) {
+    const response = await fetch(SPEAKER_EMBEDDING_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "audio/wav",
+        ...(SPEAKER_EMBEDDING_API_KEY ? { Authorization: `Bearer ${SPEAKER_EMBEDDING_API_KEY}` } : {}),
+      },
+      body: fs.readFileSync(wavPath),
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Speaker embedding failed: ${response.status} ${errorText}`);
+    }
+
+    const data = await response.json();
+    if (!Array.isArray(data.embedding) || data.embedding.length === 0) {
+      throw new Error("Speaker embedding service returned no embedding");
+    }
+    return data.embedding;
+  },
+};
+
+const STAND_IN_RATE = 8000;
+const STAND_IN_HOP = 256;
+const STAND_IN_BANDS = 24;
+const STAND_IN_MIN_FREQ = 80;
+const STAND_IN_MAX_FREQ = 3800;
+/** Frames quieter than this are pauses or room noise and say nothing about the voice */
+const STAND_IN_MIN_FRAME_DB = -45;
+
+const melOf = (freq: number) => 2595 * Math.log10(1 + freq / 700);
+const freqOfMel = (mel: number) => 700 * (Math.pow(10, mel / 2595) - 1);
+
+/**
+ * Offline stand-in: the long-term average spectrum of the voiced frames on a mel scale,
+ * with each frame's overall level removed so gain and mic distance don't matter. It tells
+ * clearly different voices apart (pitch range, timbre) and is deterministic, which is
+ * enough to exercise the pipeline and admin views — it is not a real speaker model.
+ */
+export const localSpeakerEmbeddingProvider: SpeakerEmbeddingProvider = {
+  name: "local",
+  threshold: 0.6,
+  async embed(wavPath) {
+    const { samples, sampleRate } = await readDecimated(wavPath, STAND_IN_RATE);
+    const window = hannWindow();
+
+    const minMel = melOf(STAND_IN_MIN_FREQ);
+    const maxMel = melOf(STAND_IN_MAX_FREQ);
+    const edges: number[] = [];
+    for (let b = 0; b <= STAND_IN_BANDS; b++) {
+      const freq = freqOfMel(minMel + ((maxMel - minMel) * b) / STAND_IN_BANDS);
+      edges.push(Math.round((freq * FFT_SIZE) / sampleRate));
+    }
+
+    const re = new Float64Array(FFT_SIZE);
+    const im = new Float64Array(FFT_SIZE);
+    const bandDb = new Float64Array(STAND_IN_BANDS);
+    const sum = new Float64Array(STAND_IN_BANDS);
+    let voicedFrames = 0;
+
+    for (let offset = 0, frame = 0; offset + FFT_SIZE <= samples.length; offset += STAND_IN_HOP, frame++) {
+      if (frame > 0 && frame % FRAMES_PER_YIELD === 0) await yieldToEventLoop();
+      let sumSquares = 0;
+      for (let i = 0; i < FFT_SIZE; i++) {
+        const s = samples[offset + i];
+        sumSquares += s * s;
+        re[i] = s * window[i];
+        im[i] = 0;
+      }
+      const rms = Math.sqrt(sumSquares / FFT_SIZE);
+      if (rms === 0 || 20 * Math.log10(rms) < STAND_IN_MIN_FRAME_DB) continue;
+      fft(re, im);
+
+      let frameMean = 0;
+      for (let b = 0; b < STAND_IN_BANDS; b++) {
+        let e = 0;
+        for (let k = edges[b]; k < Math.max(edges[b + 1], edges[b] + 1); k++) e += re[k] * re[k] + im[k] * im[k];
+        bandDb[b] = 10 * Math.log10(e + 1e-12);
+        frameMean += bandDb[b] / STAND_IN_BANDS;
+      }
+      for (let b = 0; b < STAND_IN_BANDS; b++) sum[b] += bandDb[b] - frameMean;
+      voicedFrames++;
+    }
+
+    if (voicedFrames === 0) {
+      throw new Error("No speech to embed");
+    }
+    return Array.from(sum, (v) => v / voicedFrames);
+  },
+};
+
+/** Provider chosen by SPEAKER_EMBEDDING_PROVIDER; verification is off when it is unset */
+export function getSpeakerEmbeddingProvider(): SpeakerEmbeddingProvider | null {
+  switch (process.env.SPEAKER_EMBEDDING_PROVIDER) {
+    case "http":
+      return httpSpeakerEmbeddingProvider;
+    case "local":
+      return localSpeakerEmbeddingProvider;
+    default:
+      return null;
+  }
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error(`Embedding length mismatch: ${a.length} vs ${b.length}`);
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/** Average of unit-length embeddings, so a long sample doesn't outweigh short ones */
+function centroid(embeddings: number[][]): number[] {
+  const result = new Array(embeddings[0].length).fill(0);
+  for (const embedding of embeddings) {
+    const norm = Math.sqrt(embedding.reduce((acc, v) => acc + v * v, 0)) || 1;
+    for (let i = 0; i < embedding.length; i++) result[i] += embedding[i] / norm / embeddings.length;
+  }
+  return result;
+}
+
+/** Download a processed WAV to a temp file and embed it */
+async function embedS3Wav(provider: SpeakerEmbeddingProvider, wavS3Key: string, label: string): Promise<number[]> {
+  const wavPath = path.join(os.tmpdir(), `spk-${label}-${Date.now()}.wav`);
+  try {
+    fs.writeFileSync(wavPath, await objectStorage.download(wavS3Key));
+    return await provider.embed(wavPath);
+  } finally {
+    try { fs.rmSync(wavPath); } catch {}
+  }
+}
+
+/** The user's enrolled voice: embeddings of their processed onboarding samples, cached per provider */
+async function getEnrollmentEmbedding(provider: SpeakerEmbeddingProvider, userId: string): Promise<number[] | null> {
+  const samples = (await storage.getOnboardingSamplesByUser(userId)).filter((s) => s.wavS3Key);
+  const embeddings: number[][] = [];
+
+  for (const sample of samples) {
+    const cached = await storage.getSpeakerEmbedding({ sampleId: sample.id });
+    if (cached && cached.provider === provider.name) {
+      embeddings.push(cached.embedding);
+      continue;
+    }
+    const embedding = await embedS3Wav(provider, sample.wavS3Key!, sample.id);
+    await storage.upsertSpeakerEmbedding({ recordingId: null, sampleId: sample.id, userId, provider: provider.name, embedding });
+    embeddings.push(embedding);
+  }
+
+  return embeddings.length > 0 ? centroid(embeddings) : null;
+}
+
+/**
+ * Compare a processed recording's voice with its uploader's onboarding sample and store the
+ * similarity on the recording. Returns null when the user has no processed sample to compare with.
+ */
+export async function verifyRecordingSpeaker(
+  recordingId: string,
+  provider: SpeakerEmbeddingProvider | null = getSpeakerEmbeddingProvider(),
+): Promise<Recording | null> {
+  if (!provider) {
+    throw new Error("Speaker verification is not configured (set SPEAKER_EMBEDDING_PROVIDER)");
+  }
+
+  const recording = await storage.getRecordingById(recordingId);
+  if (!recording) {
+    throw new Error(`Recording not found: ${recordingId}`);
+  }
+  if (!recording.wavS3Key) {
+    throw new Error(`Recording ${recordingId} has not been processed yet`);
+  }
+
+  const enrollment = await getEnrollmentEmbedding(provider, recording.userId);
+  if (!enrollment) {
+    console.log(`Skipping speaker verification for ${recordingId}: user has no processed onboarding sample`);
+    return null;
+  }
+
+  const embedding = await embedS3Wav(provider, recording.wavS3Key, recordingId);
+  await storage.upsertSpeakerEmbedding({ recordingId, sampleId: null, userId: recording.userId, provider: provider.name, embedding });
+
+  const similarity = Math.round(cosineSimilarity(embedding, enrollment) * 1000) / 1000;
+  const mismatch = similarity < provider.threshold;
+  if (mismatch) {
+    console.warn(`Speaker mismatch: recording ${recordingId} scored ${similarity} against user ${recording.userId}'s onboarding sample`);
+  }
+
+  return storage.updateRecording(recordingId, { speakerSimilarity: similarity, speakerMismatch: mismatch });
+}
@@ -0,0 +1,75 @@
+import { readWavInfo, readBlocks } from "./audio-analysis";
+
+/** FFT length shared by the spectral analyses (fingerprinting, speaker embeddings) */
+export const FFT_SIZE = 1024;
+/** Spectral loops yield to the event loop after this many frames, a few tens of milliseconds of work */
+export const FRAMES_PER_YIELD = 2000;
+
+const TWIDDLE_COS = new Float64Array(FFT_SIZE / 2);
+const TWIDDLE_SIN = new Float64Array(FFT_SIZE / 2);
+for (let k = 0; k < FFT_SIZE / 2; k++) {
+  TWIDDLE_COS[k] = Math.cos((-2 * Math.PI * k) / FFT_SIZE);
+  TWIDDLE_SIN[k] = Math.sin((-2 * Math.PI * k) / FFT_SIZE);
+}
+
+/** In-place iterative radix-2 FFT of FFT_SIZE points */
+export function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      let t = re[i]; re[i] = re[j]; re[j] = t;
+      t = im[i]; im[i] = im[j]; im[j] = t;
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1;
+    const stride = n / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k++) {
+        const cos = TWIDDLE_COS[k * stride];
+        const sin = TWIDDLE_SIN[k * stride];
+        const a = start + k;
+        const b = a + half;
+        const tRe = re[b] * cos - im[b] * sin;
+        const tIm = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+      }
+    }
+  }
+}
+
+/** Hann window of FFT_SIZE points */
+export function hannWindow(): Float64Array {
+  const window = new Float64Array(FFT_SIZE);
+  for (let i = 0; i < FFT_SIZE; i++) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FFT_SIZE - 1));
+  return window;
+}
+
+/** Read a 16-bit PCM WAV as mono at roughly `targetRate` (box-filter decimation) */
+export async function readDecimated(wavPath: string, targetRate: number): Promise<{ samples: Float32Array; sampleRate: number }> {
+  const info = readWavInfo(wavPath);
+  if (info.bitsPerSample !== 16) {
+    throw new Error(`Unsupported WAV bit depth: ${info.bitsPerSample}`);
+  }
+
+  const factor = Math.max(1, Math.round(info.sampleRate / targetRate));
+  const bytesPerFrame = 2 * info.channels;
+  const samples = new Float32Array(Math.floor(info.totalSamples / factor));
+  const end = info.dataOffset + samples.length * factor * bytesPerFrame;
+
+  let out = 0;
+  for await (const block of readBlocks(wavPath, info.dataOffset, end, bytesPerFrame * factor * 4096)) {
+    for (let f = 0; f + factor * bytesPerFrame <= block.length; f += factor * bytesPerFrame) {
+      let sum = 0;
+      for (let i = 0; i < factor * info.channels; i++) sum += block.readInt16LE(f + i * 2);
+      samples[out++] = sum / (factor * info.channels) / 32768;
+    }
+  }
+  return { samples: samples.subarray(0, out), sampleRate: info.sampleRate / factor };
+}
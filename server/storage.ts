@@ -1,7 +1,27 @@
-import { type User, type Room, type Recording, type OnboardingSample, type ReferralCode, type RoomInvitation, type Notification, type TaskSession, users, rooms, recordings, onboardingSamples, referralCodes, roomInvitations, notifications, taskSessions, blockedEmails } from "@shared/schema";
+import { type User, type Room, type Recording, type OnboardingSample, type ReferralCode, type RoomInvitation, type Notification, type TaskSession, type TaskType, type InsertTaskType, type TaskTypeDefinition, type TaskTypeVersion, type Job, type JobStatus, type AudioQualityMetrics, type RecordingArtifact, type ProcessedFolder, type RecordingSegment, type Transcript, type TranscriptWord, type TranscriptSearchResult, type AudioFingerprint, type DuplicateMatch, type DuplicateMatchSummary, type SpeakerEmbedding, type AudioOutputProfileId, type FolderArtifact, type FolderArtifactKind, type ExportFilters, type RetentionRule, type InsertRetentionRule, type RetentionSweep, type RetentionActionRecord, type OutboxEmail, type EmailStatus, type AuthToken, type AuthTokenPurpose, type RateLimitBucket, users, rooms, recordings, onboardingSamples, referralCodes, roomInvitations, notifications, taskSessions, blockedEmails, taskTypes, taskTypeVersions, jobs, processedFolders, recordingArtifacts, recordingSegments, transcripts, audioFingerprints, fingerprintHashes, duplicateMatches, speakerEmbeddings, folderArtifacts, retentionRules, retentionSweeps, retentionActions, emailOutbox, authTokens, rateLimitBuckets, TASK_TYPE_DEFINITION_FIELDS, pickTaskTypeDefinition } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, isNotNull, inArray, sql } from "drizzle-orm";
+import { eq, desc, and, or, isNull, isNotNull, inArray, sql, gt, gte, lt, ilike, type SQL } from "drizzle-orm";
 import * as crypto from "node:crypto";
+import { MemoryStorage } from "./memory-storage";
+
+/** Recording columns filled in by the processing pipeline rather than at upload time */
+type RecordingPipelineField =
+  | "processedFolder"
+  | "wavS3Key"
+  | "peaksS3Key"
+  | keyof AudioQualityMetrics
+  | "speechMs"
+  | "speakerSimilarity"
+  | "speakerMismatch"
+  | "verificationStatus"
+  | "verificationError"
+  | "verifiedAt"
+  | "checksumSha256"
+  | "codec"
+  | "alignmentOffsetMs"
+  | "alignmentMethod"
+  | "alignmentConfidence"
+  | "alignedWavS3Key";
 
 export interface IStorage {
   // Users
@@ -17,25 +37,31 @@ export interface IStorage {
     name: string;
     dailyRoomUrl: string;
     dailyRoomName: string;
+    rtcProvider: string;
     createdBy: string;
     expiresAt: Date;
   }): Promise<Room>;
   getRoomById(id: string): Promise<Room | undefined>;
   getRoomByName(name: string): Promise<Room | undefined>;
+  getRoomByDailyRoomName(dailyRoomName: string): Promise<Room | undefined>;
   getRooms(): Promise<Room[]>;
   getRoomsByUser(userId: string): Promise<Room[]>;
 
   // Recordings
-  createRecording(data: Omit<Recording, "id" | "createdAt" | "processedFolder" | "wavS3Key" | "speakerId"> & { speakerId?: string | null }): Promise<Recording>;
+  createRecording(data: Omit<Recording, "id" | "createdAt" | "speakerId" | "clientStartedAt" | "multipartUploadId" | RecordingPipelineField> & { speakerId?: string | null; clientStartedAt?: Date | null; multipartUploadId?: string | null }): Promise<Recording>;
   getRecordingsByRoom(roomId: string): Promise<Recording[]>;
   getRecordingsByUser(userId: string): Promise<Recording[]>;
   getRecordings(): Promise<Recording[]>;
   getRecordingById(id: string): Promise<Recording | undefined>;
   updateRecording(id: string, data: Partial<Omit<Recording, "id" | "createdAt">>): Promise<Recording>;
-  getMaxProcessedFolderNumber(): Promise<number>;
+  deleteRecording(id: string): Promise<void>;
+
+  // Processed Folders
+  getProcessedFolderByRoom(roomId: string): Promise<ProcessedFolder | undefined>;
+  claimProcessedFolder(roomId: string, nameSuffix: string | null, number?: number): Promise<ProcessedFolder>;
 
   // Onboarding Samples
-  createOnboardingSample(data: Omit<OnboardingSample, "id" | "createdAt" | "processedFolder" | "wavS3Key">): Promise<OnboardingSample>;
+  createOnboardingSample(data: Omit<OnboardingSample, "id" | "createdAt" | "processedFolder" | "wavS3Key" | keyof AudioQualityMetrics>): Promise<OnboardingSample>;
   getOnboardingSampleById(id: string): Promise<OnboardingSample | undefined>;
   getOnboardingSamplesByUser(userId: string): Promise<OnboardingSample[]>;
   updateOnboardingSample(id: string, data: Partial<Omit<OnboardingSample, "id" | "createdAt">>): Promise<OnboardingSample>;
@@ -49,6 +75,7 @@ export interface IStorage {
   // Room Invitations
   createRoomInvitation(data: { roomId: string; invitedBy: string; invitedUserId: string }): Promise<RoomInvitation>;
   getPendingInvitationsForUser(userId: string): Promise<(RoomInvitation & { roomName: string; inviterEmail: string })[]>;
+  getRoomInvitationForUser(roomId: string, userId: string): Promise<RoomInvitation | undefined>;
   updateRoomInvitation(id: string, data: Partial<Omit<RoomInvitation, "id" | "createdAt">>): Promise<RoomInvitation>;
 
   // Notifications
@@ -58,8 +85,17 @@ export interface IStorage {
   markNotificationRead(id: string): Promise<void>;
   markAllNotificationsRead(userId: string): Promise<void>;
 
+  // Task Types
+  getTaskTypes(): Promise<TaskType[]>;
+  getTaskTypeById(id: string): Promise<TaskType | undefined>;
+  createTaskType(data: InsertTaskType, createdBy?: string): Promise<TaskType>;
+  updateTaskType(id: string, data: Partial<Omit<InsertTaskType, "id">>, updatedBy?: string): Promise<TaskType>;
+  getTaskTypeVersion(taskTypeId: string, version: number): Promise<TaskTypeVersion | undefined>;
+  getTaskDefinitionForSession(session: Pick<TaskSession, "taskType" | "taskTypeVersion">): Promise<(TaskTypeDefinition & { id: string; version: number }) | undefined>;
+  seedTaskTypes(defs: InsertTaskType[]): Promise<void>;
+
   // Task Sessions
-  createTaskSession(data: { taskType: string; userId: string; partnerEmail?: string; partnerStatus?: string; status?: string }): Promise<TaskSession>;
+  createTaskSession(data: { taskType: string; taskTypeVersion?: number; userId: string; partnerEmail?: string; partnerStatus?: string; status?: string }): Promise<TaskSession>;
   getTaskSessionById(id: string): Promise<TaskSession | undefined>;
   getTaskSessionsByUser(userId: string): Promise<TaskSession[]>;
   getActiveTaskSessionByUserAndType(userId: string, taskType: string): Promise<TaskSession | undefined>;
@@ -68,8 +104,92 @@ export interface IStorage {
   getTaskSessionsByPartner(partnerId: string): Promise<TaskSession[]>;
   getTaskSessionsByPartnerEmail(email: string): Promise<TaskSession[]>;
   updateTaskSessionsForApprovedPartner(partnerId: string): Promise<void>;
-  getAllTaskSessionsWithUsers(): Promise<(TaskSession & { userEmail: string; recordings: Recording[] })[]>;
+  getAllTaskSessionsWithUsers(): Promise<(TaskSession & { userEmail: string; recordings: Recording[]; recordingArtifacts: RecordingArtifact[]; artifacts: FolderArtifact[]; duplicateMatches: DuplicateMatchSummary[] })[]>;
   getRecordingsByRoomIds(roomIds: string[]): Promise<Recording[]>;
+  getCompletedTaskSessions(filters: ExportFilters): Promise<TaskSession[]>;
+  getUsersByIds(ids: string[]): Promise<User[]>;
+
+  // Recording Artifacts
+  upsertRecordingArtifact(data: { recordingId: string; profile: AudioOutputProfileId; s3Key: string; fileSize?: number | null }): Promise<RecordingArtifact>;
+  getRecordingArtifact(recordingId: string, profile: AudioOutputProfileId): Promise<RecordingArtifact | undefined>;
+  getRecordingArtifactsByRecordingIds(recordingIds: string[]): Promise<RecordingArtifact[]>;
+
+  // Recording Segments
+  replaceRecordingSegments(recordingId: string, segments: { startMs: number; endMs: number }[]): Promise<RecordingSegment[]>;
+  getRecordingSegments(recordingId: string): Promise<RecordingSegment[]>;
+
+  // Transcripts
+  upsertTranscript(data: { recordingId: string; provider: string; language: string | null; text: string; words: TranscriptWord[] }): Promise<Transcript>;
+  getTranscriptByRecordingId(recordingId: string): Promise<Transcript | undefined>;
+  getTranscriptsByRecordingIds(recordingIds: string[]): Promise<Transcript[]>;
+  searchTranscripts(filter: { query?: string; languageMismatch?: boolean; limit?: number }): Promise<TranscriptSearchResult[]>;
+
+  // Audio Fingerprints
+  replaceAudioFingerprint(data: Omit<AudioFingerprint, "id" | "createdAt">, hashes: number[], frames: number[]): Promise<AudioFingerprint>;
+  findFingerprintCandidates(fingerprint: AudioFingerprint, hashes: number[], frames: number[], minHits: number): Promise<{ fingerprintId: string; hashCount: number; frameDelta: number; hits: number }[]>;
+  createDuplicateMatch(data: Omit<DuplicateMatch, "id" | "createdAt">): Promise<DuplicateMatch>;
+  getDuplicateMatchesForRecordings(recordingIds: string[]): Promise<DuplicateMatchSummary[]>;
+
+  // Speaker Embeddings
+  getSpeakerEmbedding(owner: { recordingId: string } | { sampleId: string }): Promise<SpeakerEmbedding | undefined>;
+  upsertSpeakerEmbedding(data: Omit<SpeakerEmbedding, "id" | "createdAt">): Promise<SpeakerEmbedding>;
+
+  // Folder Artifacts
+  upsertFolderArtifact(data: { folder: string; roomId: string; kind: FolderArtifactKind; s3Key: string; durationMs?: number | null; sourceRecordingIds: string[] }): Promise<FolderArtifact>;
+  getFolderArtifact(folder: string, kind: FolderArtifactKind): Promise<FolderArtifact | undefined>;
+  getFolderArtifactsByRoomIds(roomIds: string[]): Promise<FolderArtifact[]>;
+
+  // Jobs
+  createJob(data: { type: string; key?: string | null; payload: unknown; maxAttempts?: number; userId?: string | null }): Promise<Job>;
+  getJobById(id: string): Promise<Job | undefined>;
+  getLatestJobByKey(type: string, key: string): Promise<Job | undefined>;
+  getJobs(filter?: { status?: JobStatus; type?: string; limit?: number }): Promise<Job[]>;
+  getJobCountsByStatus(): Promise<Record<string, number>>;
+  claimNextJob(workerId: string): Promise<Job | undefined>;
+  completeJob(id: string, result: unknown): Promise<Job>;
+  failJob(id: string, error: string, retryAt: Date | null): Promise<Job>;
+  requeueJob(id: string): Promise<Job>;
+  releaseStaleJobs(lockedBefore: Date): Promise<number>;
+
+  // Retention
+  getRetentionRules(): Promise<RetentionRule[]>;
+  createRetentionRule(data: InsertRetentionRule): Promise<RetentionRule>;
+  updateRetentionRule(id: string, data: Partial<Pick<RetentionRule, "action" | "afterDays" | "enabled">>): Promise<RetentionRule | undefined>;
+  deleteRetentionRule(id: string): Promise<void>;
+  getRecordingsForRetention(): Promise<{ recording: Recording; session: Pick<TaskSession, "status" | "reviewerStatus"> | null }[]>;
+  getFolderArtifactsForRetention(): Promise<{ artifact: FolderArtifact; session: Pick<TaskSession, "status" | "reviewerStatus"> | null }[]>;
+  getReferencedObjectKeys(): Promise<Set<string>>;
+  createRetentionSweep(data: { dryRun: boolean; planSweepId?: string | null; triggeredBy?: string | null }): Promise<RetentionSweep>;
+  updateRetentionSweep(id: string, data: Partial<Pick<RetentionSweep, "status" | "objectCount" | "error" | "finishedAt">>): Promise<RetentionSweep>;
+  getRetentionSweepById(id: string): Promise<RetentionSweep | undefined>;
+  getRetentionSweeps(limit?: number): Promise<RetentionSweep[]>;
+  addRetentionActions(sweepId: string, actions: Omit<RetentionActionRecord, "id" | "sweepId" | "createdAt">[]): Promise<void>;
+  getRetentionActions(sweepId: string): Promise<RetentionActionRecord[]>;
+  getAppliedRetentionActions(): Promise<Map<string, RetentionActionRecord["action"]>>;
+  clearObjectReferences(s3Key: string): Promise<void>;
+
+  // Email Outbox
+  createOutboxEmail(data: Pick<OutboxEmail, "template" | "templateVersion" | "toAddress" | "subject" | "html" | "text" | "params">): Promise<OutboxEmail>;
+  getOutboxEmailById(id: string): Promise<OutboxEmail | undefined>;
+  updateOutboxEmail(id: string, data: Partial<Pick<OutboxEmail, "status" | "attempts" | "lastError" | "transport" | "messageId" | "sentAt">>): Promise<OutboxEmail>;
+  getOutboxEmails(filter?: { status?: EmailStatus; limit?: number }): Promise<OutboxEmail[]>;
+
+  // Auth Tokens
+  createAuthToken(data: Pick<AuthToken, "userId" | "purpose" | "tokenHash" | "expiresAt">): Promise<AuthToken>;
+  /** Marks an unused, unexpired token used and returns it; undefined if there is no such token */
+  consumeAuthToken(tokenHash: string, purpose: AuthTokenPurpose): Promise<AuthToken | undefined>;
+  deleteAuthTokens(userId: string, purpose: AuthTokenPurpose): Promise<void>;
+
+  // Rate Limits
+  getRateLimitBuckets(policy: string, subjects: string[]): Promise<RateLimitBucket[]>;
+  /** Count a hit, starting a new window (count 1) if the current one began at or before `windowStartedBefore` */
+  hitRateLimitBucket(policy: string, subject: string, windowStartedBefore: Date): Promise<RateLimitBucket>;
+  lockRateLimitBucket(id: string, lockedUntil: Date, strikes: number): Promise<RateLimitBucket>;
+  resetRateLimitBucket(policy: string, subject: string): Promise<void>;
+  /** Buckets that have been locked at least once, most recently locked first */
+  getRateLimitLockouts(limit?: number): Promise<RateLimitBucket[]>;
+  deleteRateLimitBucket(id: string): Promise<RateLimitBucket | undefined>;
+  pruneRateLimitBuckets(updatedBefore: Date): Promise<number>;
 
   // Blocked Emails
   createBlockedEmail(data: { email: string; blockedBy: string; reason?: string }): Promise<void>;
@@ -114,6 +234,7 @@ export class DatabaseStorage implements IStorage {
     name: string;
     dailyRoomUrl: string;
     dailyRoomName: string;
+    rtcProvider: string;
     createdBy: string;
     expiresAt: Date;
   }): Promise<Room> {
@@ -131,6 +252,11 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
+  async getRoomByDailyRoomName(dailyRoomName: string): Promise<Room | undefined> {
+    const [result] = await db.select().from(rooms).where(eq(rooms.dailyRoomName, dailyRoomName));
+    return result;
+  }
+
   async getRooms(): Promise<Room[]> {
     return db.select().from(rooms).orderBy(desc(rooms.createdAt));
   }
@@ -144,7 +270,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Recordings
-  async createRecording(data: Omit<Recording, "id" | "createdAt" | "processedFolder" | "wavS3Key" | "speakerId"> & { speakerId?: string | null }): Promise<Recording> {
+  async createRecording(data: Omit<Recording, "id" | "createdAt" | "speakerId" | "clientStartedAt" | "multipartUploadId" | RecordingPipelineField> & { speakerId?: string | null; clientStartedAt?: Date | null; multipartUploadId?: string | null }): Promise<Recording> {
     const [result] = await db.insert(recordings).values(data).returning();
     return result;
   }
@@ -179,21 +305,44 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
-  async getMaxProcessedFolderNumber(): Promise<number> {
-    const result = await db.execute(sql`
-      SELECT COALESCE(MAX(val), 0)::int AS max_folder FROM (
-        SELECT (regexp_match(processed_folder, '^\d+'))[1]::int AS val
-          FROM recordings WHERE processed_folder IS NOT NULL
-        UNION ALL
-        SELECT (regexp_match(processed_folder, '^\d+'))[1]::int AS val
-          FROM onboarding_samples WHERE processed_folder IS NOT NULL
-      ) t
-    `);
-    return (result.rows[0] as any).max_folder;
+  async deleteRecording(id: string): Promise<void> {
+    await db.delete(recordings).where(eq(recordings.id, id));
+  }
+
+  // Processed Folders
+  async getProcessedFolderByRoom(roomId: string): Promise<ProcessedFolder | undefined> {
+    const [result] = await db.select().from(processedFolders).where(eq(processedFolders.roomId, roomId));
+    return result;
+  }
+
+  /**
+   * Claim the room's folder, or return the one another worker already claimed. The unique
+   * room_id makes concurrent claims for one room converge; numbers drawn by the losing
+   * side are simply skipped.
+   */
+  async claimProcessedFolder(roomId: string, nameSuffix: string | null, number?: number): Promise<ProcessedFolder> {
+    const existing = await this.getProcessedFolderByRoom(roomId);
+    if (existing) return existing;
+
+    if (number === undefined) {
+      const result = await db.execute<{ number: number }>(sql`SELECT nextval('processed_folder_seq')::int AS number`);
+      number = result.rows[0].number;
+    }
+    const padded = String(number).padStart(4, "0");
+
+    const [claimed] = await db
+      .insert(processedFolders)
+      .values({ roomId, number, name: nameSuffix ? `${padded}_${nameSuffix}` : padded })
+      .onConflictDoNothing({ target: processedFolders.roomId })
+      .returning();
+    if (claimed) return claimed;
+
+    const [winner] = await db.select().from(processedFolders).where(eq(processedFolders.roomId, roomId));
+    return winner;
   }
 
   // Onboarding Samples
-  async createOnboardingSample(data: Omit<OnboardingSample, "id" | "createdAt" | "processedFolder" | "wavS3Key">): Promise<OnboardingSample> {
+  async createOnboardingSample(data: Omit<OnboardingSample, "id" | "createdAt" | "processedFolder" | "wavS3Key" | keyof AudioQualityMetrics>): Promise<OnboardingSample> {
     const [result] = await db.insert(onboardingSamples).values(data).returning();
     return result;
   }
@@ -274,6 +423,16 @@ export class DatabaseStorage implements IStorage {
     return rows;
   }
 
+  async getRoomInvitationForUser(roomId: string, userId: string): Promise<RoomInvitation | undefined> {
+    const [result] = await db
+      .select()
+      .from(roomInvitations)
+      .where(and(eq(roomInvitations.roomId, roomId), eq(roomInvitations.invitedUserId, userId)))
+      .orderBy(desc(roomInvitations.createdAt))
+      .limit(1);
+    return result;
+  }
+
   async updateRoomInvitation(id: string, data: Partial<Omit<RoomInvitation, "id" | "createdAt">>): Promise<RoomInvitation> {
     const [result] = await db.update(roomInvitations).set(data).where(eq(roomInvitations.id, id)).returning();
     return result;
@@ -310,8 +469,93 @@ export class DatabaseStorage implements IStorage {
     await db.update(notifications).set({ read: true }).where(eq(notifications.userId, userId));
   }
 
+  // Task Types
+  async getTaskTypes(): Promise<TaskType[]> {
+    return db.select().from(taskTypes).orderBy(taskTypes.sortOrder, taskTypes.createdAt);
+  }
+
+  async getTaskTypeById(id: string): Promise<TaskType | undefined> {
+    const [result] = await db.select().from(taskTypes).where(eq(taskTypes.id, id));
+    return result;
+  }
+
+  async createTaskType(data: InsertTaskType, createdBy?: string): Promise<TaskType> {
+    return db.transaction(async (tx) => {
+      const [result] = await tx.insert(taskTypes).values({ ...data, version: 1 }).returning();
+      await tx.insert(taskTypeVersions).values({
+        taskTypeId: result.id,
+        version: 1,
+        definition: pickTaskTypeDefinition(result),
+        createdBy: createdBy ?? null,
+      });
+      return result;
+    });
+  }
+
+  async updateTaskType(id: string, data: Partial<Omit<InsertTaskType, "id">>, updatedBy?: string): Promise<TaskType> {
+    return db.transaction(async (tx) => {
+      const [current] = await tx.select().from(taskTypes).where(eq(taskTypes.id, id)).for("update");
+      if (!current) {
+        throw new Error(`Task type not found: ${id}`);
+      }
+
+      // Only changes to what contributors are asked to do create a new version;
+      // pausing, archiving and scheduling leave the definition untouched.
+      const definitionChanged = TASK_TYPE_DEFINITION_FIELDS.some(
+        (field) => field in data && JSON.stringify(data[field] ?? null) !== JSON.stringify(current[field] ?? null)
+      );
+      const version = definitionChanged ? current.version + 1 : current.version;
+
+      const [result] = await tx
+        .update(taskTypes)
+        .set({ ...data, version, updatedAt: new Date() })
+        .where(eq(taskTypes.id, id))
+        .returning();
+
+      if (definitionChanged) {
+        await tx.insert(taskTypeVersions).values({
+          taskTypeId: id,
+          version,
+          definition: pickTaskTypeDefinition(result),
+          createdBy: updatedBy ?? null,
+        });
+      }
+      return result;
+    });
+  }
+
+  async getTaskTypeVersion(taskTypeId: string, version: number): Promise<TaskTypeVersion | undefined> {
+    const [result] = await db
+      .select()
+      .from(taskTypeVersions)
+      .where(and(eq(taskTypeVersions.taskTypeId, taskTypeId), eq(taskTypeVersions.version, version)));
+    return result;
+  }
+
+  async getTaskDefinitionForSession(session: Pick<TaskSession, "taskType" | "taskTypeVersion">): Promise<(TaskTypeDefinition & { id: string; version: number }) | undefined> {
+    // Sessions created before the catalog moved into the database have no version — they were
+    // recorded under the seeded definition, which is version 1.
+    const version = session.taskTypeVersion ?? 1;
+    const snapshot = await this.getTaskTypeVersion(session.taskType, version);
+    if (snapshot) {
+      return { ...snapshot.definition, id: session.taskType, version };
+    }
+    const current = await this.getTaskTypeById(session.taskType);
+    return current ? { ...pickTaskTypeDefinition(current), id: current.id, version: current.version } : undefined;
+  }
+
+  async seedTaskTypes(defs: InsertTaskType[]): Promise<void> {
+    const [{ count }] = await db.select({ count: sql<number>`count(*)::int` }).from(taskTypes);
+    if (count > 0) return;
+
+    for (let i = 0; i < defs.length; i++) {
+      await this.createTaskType({ ...defs[i], sortOrder: defs[i].sortOrder ?? i });
+    }
+    console.log(`Seeded ${defs.length} task types`);
+  }
+
   // Task Sessions
-  async createTaskSession(data: { taskType: string; userId: string; partnerEmail?: string; partnerStatus?: string; status?: string }): Promise<TaskSession> {
+  async createTaskSession(data: { taskType: string; taskTypeVersion?: number; userId: string; partnerEmail?: string; partnerStatus?: string; status?: string }): Promise<TaskSession> {
     const [result] = await db.insert(taskSessions).values(data).returning();
     return result;
   }
@@ -359,11 +603,12 @@ export class DatabaseStorage implements IStorage {
       .where(and(eq(taskSessions.partnerId, partnerId), eq(taskSessions.partnerStatus, "registered")));
   }
 
-  async getAllTaskSessionsWithUsers(): Promise<(TaskSession & { userEmail: string; recordings: Recording[] })[]> {
+  async getAllTaskSessionsWithUsers(): Promise<(TaskSession & { userEmail: string; recordings: Recording[]; recordingArtifacts: RecordingArtifact[]; artifacts: FolderArtifact[]; duplicateMatches: DuplicateMatchSummary[] })[]> {
     const rows = await db
       .select({
         id: taskSessions.id,
         taskType: taskSessions.taskType,
+        taskTypeVersion: taskSessions.taskTypeVersion,
         userId: taskSessions.userId,
         partnerId: taskSessions.partnerId,
         partnerEmail: taskSessions.partnerEmail,
@@ -383,6 +628,9 @@ export class DatabaseStorage implements IStorage {
     // Bulk-fetch recordings for all sessions that have a roomId
     const roomIds = rows.map((r) => r.roomId).filter((id): id is string => !!id);
     const allRecordings = roomIds.length > 0 ? await this.getRecordingsByRoomIds(roomIds) : [];
+    const allArtifacts = roomIds.length > 0 ? await this.getFolderArtifactsByRoomIds(roomIds) : [];
+    const allRecordingArtifacts = await this.getRecordingArtifactsByRecordingIds(allRecordings.map((r) => r.id));
+    const allDuplicateMatches = await this.getDuplicateMatchesForRecordings(allRecordings.map((r) => r.id));
 
     // Group recordings by roomId
     const recordingsByRoom = new Map<string, Recording[]>();
@@ -392,10 +640,24 @@ export class DatabaseStorage implements IStorage {
       recordingsByRoom.set(rec.roomId, arr);
     }
 
-    return rows.map((row) => ({
-      ...row,
-      recordings: row.roomId ? recordingsByRoom.get(row.roomId) || [] : [],
-    }));
+    const artifactsByRoom = new Map<string, FolderArtifact[]>();
+    for (const artifact of allArtifacts) {
+      const arr = artifactsByRoom.get(artifact.roomId) || [];
+      arr.push(artifact);
+      artifactsByRoom.set(artifact.roomId, arr);
+    }
+
+    return rows.map((row) => {
+      const roomRecordings = row.roomId ? recordingsByRoom.get(row.roomId) || [] : [];
+      const roomRecordingIds = new Set(roomRecordings.map((r) => r.id));
+      return {
+        ...row,
+        recordings: roomRecordings,
+        recordingArtifacts: allRecordingArtifacts.filter((a) => roomRecordingIds.has(a.recordingId)),
+        duplicateMatches: allDuplicateMatches.filter((m) => roomRecordingIds.has(m.recordingId)),
+        artifacts: row.roomId ? artifactsByRoom.get(row.roomId) || [] : [],
+      };
+    });
   }
 
   async getRecordingsByRoomIds(roomIds: string[]): Promise<Recording[]> {
@@ -407,6 +669,655 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(recordings.createdAt));
   }
 
+  async getCompletedTaskSessions(filters: ExportFilters): Promise<TaskSession[]> {
+    const conditions = [eq(taskSessions.status, "completed"), isNotNull(taskSessions.roomId)];
+    if (filters.taskType) conditions.push(eq(taskSessions.taskType, filters.taskType));
+    if (filters.from) conditions.push(gte(taskSessions.createdAt, new Date(filters.from)));
+    if (filters.to) {
+      // `to` is inclusive of the whole day
+      const end = new Date(filters.to);
+      end.setUTCDate(end.getUTCDate() + 1);
+      conditions.push(lt(taskSessions.createdAt, end));
+    }
+    if (filters.paid !== undefined) conditions.push(eq(taskSessions.paid, filters.paid));
+    if (filters.reviewerStatus) conditions.push(eq(taskSessions.reviewerStatus, filters.reviewerStatus));
+
+    return db
+      .select()
+      .from(taskSessions)
+      .where(and(...conditions))
+      .orderBy(taskSessions.createdAt);
+  }
+
+  async getUsersByIds(ids: string[]): Promise<User[]> {
+    if (ids.length === 0) return [];
+    return db.select().from(users).where(inArray(users.id, ids));
+  }
+
+  // Recording Artifacts
+  async upsertRecordingArtifact(data: { recordingId: string; profile: AudioOutputProfileId; s3Key: string; fileSize?: number | null }): Promise<RecordingArtifact> {
+    const [result] = await db
+      .insert(recordingArtifacts)
+      .values(data)
+      .onConflictDoUpdate({
+        target: [recordingArtifacts.recordingId, recordingArtifacts.profile],
+        set: {
+          s3Key: data.s3Key,
+          fileSize: data.fileSize ?? null,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return result;
+  }
+
+  async getRecordingArtifact(recordingId: string, profile: AudioOutputProfileId): Promise<RecordingArtifact | undefined> {
+    const [result] = await db
+      .select()
+      .from(recordingArtifacts)
+      .where(and(eq(recordingArtifacts.recordingId, recordingId), eq(recordingArtifacts.profile, profile)));
+    return result;
+  }
+
+  async getRecordingArtifactsByRecordingIds(recordingIds: string[]): Promise<RecordingArtifact[]> {
+    if (recordingIds.length === 0) return [];
+    return db.select().from(recordingArtifacts).where(inArray(recordingArtifacts.recordingId, recordingIds));
+  }
+
+  // Recording Segments
+  async replaceRecordingSegments(recordingId: string, segments: { startMs: number; endMs: number }[]): Promise<RecordingSegment[]> {
+    return db.transaction(async (tx) => {
+      await tx.delete(recordingSegments).where(eq(recordingSegments.recordingId, recordingId));
+      if (segments.length === 0) return [];
+      return tx
+        .insert(recordingSegments)
+        .values(segments.map((s, seq) => ({ recordingId, seq, startMs: s.startMs, endMs: s.endMs })))
+        .returning();
+    });
+  }
+
+  async getRecordingSegments(recordingId: string): Promise<RecordingSegment[]> {
+    return db
+      .select()
+      .from(recordingSegments)
+      .where(eq(recordingSegments.recordingId, recordingId))
+      .orderBy(recordingSegments.seq);
+  }
+
+  // Transcripts
+  async upsertTranscript(data: { recordingId: string; provider: string; language: string | null; text: string; words: TranscriptWord[] }): Promise<Transcript> {
+    const [result] = await db
+      .insert(transcripts)
+      .values(data)
+      .onConflictDoUpdate({
+        target: transcripts.recordingId,
+        set: {
+          provider: data.provider,
+          language: data.language,
+          text: data.text,
+          words: data.words,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return result;
+  }
+
+  async getTranscriptByRecordingId(recordingId: string): Promise<Transcript | undefined> {
+    const [result] = await db.select().from(transcripts).where(eq(transcripts.recordingId, recordingId));
+    return result;
+  }
+
+  async getTranscriptsByRecordingIds(recordingIds: string[]): Promise<Transcript[]> {
+    if (recordingIds.length === 0) return [];
+    return db.select().from(transcripts).where(inArray(transcripts.recordingId, recordingIds));
+  }
+
+  async searchTranscripts(filter: { query?: string; languageMismatch?: boolean; limit?: number }): Promise<TranscriptSearchResult[]> {
+    const conditions = [];
+    if (filter.query) {
+      conditions.push(ilike(transcripts.text, `%${filter.query.replace(/[\\%_]/g, "\\$&")}%`));
+    }
+    if (filter.languageMismatch) {
+      conditions.push(isNotNull(taskTypes.language));
+      conditions.push(sql`${transcripts.language} IS DISTINCT FROM ${taskTypes.language}`);
+    }
+
+    return db
+      .select({
+        recordingId: transcripts.recordingId,
+        provider: transcripts.provider,
+        language: transcripts.language,
+        expectedLanguage: taskTypes.language,
+        text: transcripts.text,
+        speakerId: recordings.speakerId,
+        processedFolder: recordings.processedFolder,
+        taskType: taskSessions.taskType,
+        updatedAt: transcripts.updatedAt,
+      })
+      .from(transcripts)
+      .innerJoin(recordings, eq(transcripts.recordingId, recordings.id))
+      .leftJoin(taskSessions, eq(taskSessions.roomId, recordings.roomId))
+      .leftJoin(taskTypes, eq(taskTypes.id, taskSessions.taskType))
+      .where(and(...conditions))
+      .orderBy(desc(transcripts.updatedAt))
+      .limit(filter.limit ?? 50);
+  }
+
+  // Audio Fingerprints
+  /** Remove fingerprints (and their hashes and matches) for the recordings or samples selected by `where` */
+  private async deleteAudioFingerprints(where: SQL): Promise<void> {
+    const ids = db.select({ id: audioFingerprints.id }).from(audioFingerprints).where(where);
+    await db.delete(duplicateMatches).where(
+      or(inArray(duplicateMatches.fingerprintId, ids), inArray(duplicateMatches.matchedFingerprintId, ids))
+    );
+    await db.delete(fingerprintHashes).where(inArray(fingerprintHashes.fingerprintId, ids));
+    await db.delete(audioFingerprints).where(where);
+  }
+
+  async replaceAudioFingerprint(data: Omit<AudioFingerprint, "id" | "createdAt">, hashes: number[], frames: number[]): Promise<AudioFingerprint> {
+    // Reprocessing replaces the old fingerprint; matches are recomputed by the caller
+    const owner = data.recordingId
+      ? eq(audioFingerprints.recordingId, data.recordingId)
+      : eq(audioFingerprints.sampleId, data.sampleId!);
+    await this.deleteAudioFingerprints(owner);
+
+    return db.transaction(async (tx) => {
+      const [result] = await tx.insert(audioFingerprints).values(data).returning();
+      for (let i = 0; i < hashes.length; i += 2000) {
+        await tx.insert(fingerprintHashes).values(
+          hashes.slice(i, i + 2000).map((hash, j) => ({ fingerprintId: result.id, hash, frame: frames[i + j] }))
+        );
+      }
+      return result;
+    });
+  }
+
+  async findFingerprintCandidates(fingerprint: AudioFingerprint, hashes: number[], frames: number[], minHits: number): Promise<{ fingerprintId: string; hashCount: number; frameDelta: number; hits: number }[]> {
+    // Best-aligned offset per earlier upload: copies share many hashes at one constant frame delta
+    const result = await db.execute(sql`
+      SELECT DISTINCT ON (fingerprint_id) fingerprint_id, hash_count, frame_delta, hits FROM (
+        SELECT h.fingerprint_id, f.hash_count, h.frame - q.frame AS frame_delta, count(*)::int AS hits
+          FROM unnest(${`{${hashes.join(",")}}`}::int[], ${`{${frames.join(",")}}`}::int[]) AS q(hash, frame)
+          JOIN fingerprint_hashes h ON h.hash = q.hash
+          JOIN audio_fingerprints f ON f.id = h.fingerprint_id
+         WHERE f.id <> ${fingerprint.id}
+           AND (${fingerprint.roomId}::varchar IS NULL OR f.room_id IS DISTINCT FROM ${fingerprint.roomId}::varchar)
+           AND NOT (${fingerprint.sampleId}::varchar IS NOT NULL AND f.sample_id IS NOT NULL AND f.user_id = ${fingerprint.userId})
+         GROUP BY h.fingerprint_id, f.hash_count, frame_delta
+        HAVING count(*) >= ${minHits}
+      ) t
+      ORDER BY fingerprint_id, hits DESC
+    `);
+    return (result.rows as any[]).map((row) => ({
+      fingerprintId: row.fingerprint_id,
+      hashCount: row.hash_count,
+      frameDelta: row.frame_delta,
+      hits: row.hits,
+    }));
+  }
+
+  async createDuplicateMatch(data: Omit<DuplicateMatch, "id" | "createdAt">): Promise<DuplicateMatch> {
+    const [result] = await db
+      .insert(duplicateMatches)
+      .values(data)
+      .onConflictDoUpdate({
+        target: [duplicateMatches.fingerprintId, duplicateMatches.matchedFingerprintId],
+        set: { score: data.score, hits: data.hits, offsetMs: data.offsetMs },
+      })
+      .returning();
+    return result;
+  }
+
+  async getDuplicateMatchesForRecordings(recordingIds: string[]): Promise<DuplicateMatchSummary[]> {
+    if (recordingIds.length === 0) return [];
+    const ours = await db.select().from(audioFingerprints).where(inArray(audioFingerprints.recordingId, recordingIds));
+    if (ours.length === 0) return [];
+
+    const ourIds = ours.map((f) => f.id);
+    const matches = await db
+      .select()
+      .from(duplicateMatches)
+      .where(or(inArray(duplicateMatches.fingerprintId, ourIds), inArray(duplicateMatches.matchedFingerprintId, ourIds)));
+    if (matches.length === 0) return [];
+
+    const otherIds = Array.from(new Set(matches.flatMap((m) => [m.fingerprintId, m.matchedFingerprintId])));
+    const others = await db
+      .select({ fingerprint: audioFingerprints, email: users.username, folder: recordings.processedFolder })
+      .from(audioFingerprints)
+      .innerJoin(users, eq(audioFingerprints.userId, users.id))
+      .leftJoin(recordings, eq(audioFingerprints.recordingId, recordings.id))
+      .where(inArray(audioFingerprints.id, otherIds));
+    const byId = new Map(others.map((o) => [o.fingerprint.id, o]));
+    const oursById = new Map(ours.map((f) => [f.id, f]));
+
+    // Both directions can exist if two copies were processed concurrently; report each pair once
+    const summaries = new Map<string, DuplicateMatchSummary>();
+    for (const match of matches) {
+      const oursIsNewer = oursById.has(match.fingerprintId);
+      const mine = oursById.get(oursIsNewer ? match.fingerprintId : match.matchedFingerprintId)!;
+      const other = byId.get(oursIsNewer ? match.matchedFingerprintId : match.fingerprintId);
+      if (!other) continue;
+      const key = `${mine.id}:${other.fingerprint.id}`;
+      if (summaries.has(key)) continue;
+      summaries.set(key, {
+        recordingId: mine.recordingId!,
+        matchedRecordingId: other.fingerprint.recordingId,
+        matchedSampleId: other.fingerprint.sampleId,
+        matchedUserId: other.fingerprint.userId,
+        matchedUserEmail: other.email,
+        matchedFolder: other.folder,
+        score: match.score,
+        offsetMs: oursIsNewer ? match.offsetMs : -match.offsetMs,
+      });
+    }
+    return Array.from(summaries.values());
+  }
+
+  // Speaker Embeddings
+  async getSpeakerEmbedding(owner: { recordingId: string } | { sampleId: string }): Promise<SpeakerEmbedding | undefined> {
+    const [result] = await db
+      .select()
+      .from(speakerEmbeddings)
+      .where("recordingId" in owner
+        ? eq(speakerEmbeddings.recordingId, owner.recordingId)
+        : eq(speakerEmbeddings.sampleId, owner.sampleId));
+    return result;
+  }
+
+  async upsertSpeakerEmbedding(data: Omit<SpeakerEmbedding, "id" | "createdAt">): Promise<SpeakerEmbedding> {
+    const [result] = await db
+      .insert(speakerEmbeddings)
+      .values(data)
+      .onConflictDoUpdate({
+        target: data.recordingId ? speakerEmbeddings.recordingId : speakerEmbeddings.sampleId,
+        set: { provider: data.provider, embedding: data.embedding, createdAt: new Date() },
+      })
+      .returning();
+    return result;
+  }
+
+  // Folder Artifacts
+  async upsertFolderArtifact(data: { folder: string; roomId: string; kind: FolderArtifactKind; s3Key: string; durationMs?: number | null; sourceRecordingIds: string[] }): Promise<FolderArtifact> {
+    const [result] = await db
+      .insert(folderArtifacts)
+      .values(data)
+      .onConflictDoUpdate({
+        target: [folderArtifacts.folder, folderArtifacts.kind],
+        set: {
+          s3Key: data.s3Key,
+          durationMs: data.durationMs ?? null,
+          sourceRecordingIds: data.sourceRecordingIds,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return result;
+  }
+
+  async getFolderArtifact(folder: string, kind: FolderArtifactKind): Promise<FolderArtifact | undefined> {
+    const [result] = await db
+      .select()
+      .from(folderArtifacts)
+      .where(and(eq(folderArtifacts.folder, folder), eq(folderArtifacts.kind, kind)));
+    return result;
+  }
+
+  async getFolderArtifactsByRoomIds(roomIds: string[]): Promise<FolderArtifact[]> {
+    if (roomIds.length === 0) return [];
+    return db.select().from(folderArtifacts).where(inArray(folderArtifacts.roomId, roomIds));
+  }
+
+  // Jobs
+  async createJob(data: { type: string; key?: string | null; payload: unknown; maxAttempts?: number; userId?: string | null }): Promise<Job> {
+    const [result] = await db.insert(jobs).values(data).returning();
+    return result;
+  }
+
+  async getJobById(id: string): Promise<Job | undefined> {
+    const [result] = await db.select().from(jobs).where(eq(jobs.id, id));
+    return result;
+  }
+
+  async getLatestJobByKey(type: string, key: string): Promise<Job | undefined> {
+    const [result] = await db
+      .select()
+      .from(jobs)
+      .where(and(eq(jobs.type, type), eq(jobs.key, key)))
+      .orderBy(desc(jobs.createdAt))
+      .limit(1);
+    return result;
+  }
+
+  async getJobs(filter: { status?: JobStatus; type?: string; limit?: number } = {}): Promise<Job[]> {
+    const conditions = [];
+    if (filter.status) conditions.push(eq(jobs.status, filter.status));
+    if (filter.type) conditions.push(eq(jobs.type, filter.type));
+    return db
+      .select()
+      .from(jobs)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(jobs.createdAt))
+      .limit(filter.limit ?? 200);
+  }
+
+  async getJobCountsByStatus(): Promise<Record<string, number>> {
+    const rows = await db
+      .select({ status: jobs.status, count: sql<number>`count(*)::int` })
+      .from(jobs)
+      .groupBy(jobs.status);
+    return Object.fromEntries(rows.map((r) => [r.status, r.count]));
+  }
+
+  async claimNextJob(workerId: string): Promise<Job | undefined> {
+    // SKIP LOCKED lets several workers (or several app instances) poll the same table
+    // without ever handing the same job to two of them.
+    const [result] = await db
+      .update(jobs)
+      .set({
+        status: "running",
+        attempts: sql`${jobs.attempts} + 1`,
+        lockedAt: new Date(),
+        lockedBy: workerId,
+        updatedAt: new Date(),
+      })
+      .where(sql`${jobs.id} = (
+        SELECT id FROM jobs
+         WHERE status IN ('queued', 'retrying') AND run_at <= now()
+         ORDER BY run_at
+         LIMIT 1
+         FOR UPDATE SKIP LOCKED
+      )`)
+      .returning();
+    return result;
+  }
+
+  async completeJob(id: string, result: unknown): Promise<Job> {
+    const [updated] = await db
+      .update(jobs)
+      .set({ status: "completed", result, lockedAt: null, lockedBy: null, completedAt: new Date(), updatedAt: new Date() })
+      .where(eq(jobs.id, id))
+      .returning();
+    return updated;
+  }
+
+  async failJob(id: string, error: string, retryAt: Date | null): Promise<Job> {
+    const [updated] = await db
+      .update(jobs)
+      .set({
+        status: retryAt ? "retrying" : "dead",
+        lastError: error,
+        runAt: retryAt ?? undefined,
+        lockedAt: null,
+        lockedBy: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(jobs.id, id))
+      .returning();
+    return updated;
+  }
+
+  async requeueJob(id: string): Promise<Job> {
+    const [updated] = await db
+      .update(jobs)
+      .set({ status: "queued", attempts: 0, runAt: new Date(), lockedAt: null, lockedBy: null, updatedAt: new Date() })
+      .where(eq(jobs.id, id))
+      .returning();
+    return updated;
+  }
+
+  async releaseStaleJobs(lockedBefore: Date): Promise<number> {
+    // A lock that expired on the last attempt counts as that attempt failing, so a job that
+    // keeps taking its worker down goes dead instead of being retried forever
+    const released = await db
+      .update(jobs)
+      .set({
+        status: sql`CASE WHEN ${jobs.attempts} >= ${jobs.maxAttempts} THEN 'dead' ELSE 'retrying' END`,
+        lastError: "Worker lock expired",
+        lockedAt: null,
+        lockedBy: null,
+        runAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(jobs.status, "running"), sql`${jobs.lockedAt} < ${lockedBefore}`))
+      .returning({ id: jobs.id });
+    return released.length;
+  }
+
+  // Retention
+  async getRetentionRules(): Promise<RetentionRule[]> {
+    return db.select().from(retentionRules).orderBy(retentionRules.createdAt);
+  }
+
+  async createRetentionRule(data: InsertRetentionRule): Promise<RetentionRule> {
+    const [result] = await db.insert(retentionRules).values(data).returning();
+    return result;
+  }
+
+  async updateRetentionRule(id: string, data: Partial<Pick<RetentionRule, "action" | "afterDays" | "enabled">>): Promise<RetentionRule | undefined> {
+    const [result] = await db
+      .update(retentionRules)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(retentionRules.id, id))
+      .returning();
+    return result;
+  }
+
+  async deleteRetentionRule(id: string): Promise<void> {
+    await db.delete(retentionRules).where(eq(retentionRules.id, id));
+  }
+
+  async getRecordingsForRetention(): Promise<{ recording: Recording; session: Pick<TaskSession, "status" | "reviewerStatus"> | null }[]> {
+    return db
+      .select({
+        recording: recordings,
+        session: { status: taskSessions.status, reviewerStatus: taskSessions.reviewerStatus },
+      })
+      .from(recordings)
+      .leftJoin(taskSessions, eq(taskSessions.roomId, recordings.roomId));
+  }
+
+  async getFolderArtifactsForRetention(): Promise<{ artifact: FolderArtifact; session: Pick<TaskSession, "status" | "reviewerStatus"> | null }[]> {
+    return db
+      .select({
+        artifact: folderArtifacts,
+        session: { status: taskSessions.status, reviewerStatus: taskSessions.reviewerStatus },
+      })
+      .from(folderArtifacts)
+      .leftJoin(taskSessions, eq(taskSessions.roomId, folderArtifacts.roomId));
+  }
+
+  async getReferencedObjectKeys(): Promise<Set<string>> {
+    // The processed WebM copy isn't stored; it sits next to the working WAV with the same stem
+    const result = await db.execute<{ key: string }>(sql`
+      SELECT s3_key AS key FROM recordings
+      UNION SELECT wav_s3_key FROM recordings WHERE wav_s3_key IS NOT NULL
+      UNION SELECT regexp_replace(wav_s3_key, '[.]wav$', '.webm') FROM recordings WHERE wav_s3_key IS NOT NULL
+      UNION SELECT peaks_s3_key FROM recordings WHERE peaks_s3_key IS NOT NULL
+      UNION SELECT aligned_wav_s3_key FROM recordings WHERE aligned_wav_s3_key IS NOT NULL
+      UNION SELECT s3_key FROM recording_artifacts
+      UNION SELECT s3_key FROM folder_artifacts
+      UNION SELECT s3_key FROM onboarding_samples
+      UNION SELECT wav_s3_key FROM onboarding_samples WHERE wav_s3_key IS NOT NULL
+    `);
+    return new Set(result.rows.map((r) => r.key));
+  }
+
+  async createRetentionSweep(data: { dryRun: boolean; planSweepId?: string | null; triggeredBy?: string | null }): Promise<RetentionSweep> {
+    const [result] = await db.insert(retentionSweeps).values(data).returning();
+    return result;
+  }
+
+  async updateRetentionSweep(id: string, data: Partial<Pick<RetentionSweep, "status" | "objectCount" | "error" | "finishedAt">>): Promise<RetentionSweep> {
+    const [result] = await db.update(retentionSweeps).set(data).where(eq(retentionSweeps.id, id)).returning();
+    return result;
+  }
+
+  async getRetentionSweepById(id: string): Promise<RetentionSweep | undefined> {
+    const [result] = await db.select().from(retentionSweeps).where(eq(retentionSweeps.id, id));
+    return result;
+  }
+
+  async getRetentionSweeps(limit = 50): Promise<RetentionSweep[]> {
+    return db.select().from(retentionSweeps).orderBy(desc(retentionSweeps.createdAt)).limit(limit);
+  }
+
+  async addRetentionActions(sweepId: string, actions: Omit<RetentionActionRecord, "id" | "sweepId" | "createdAt">[]): Promise<void> {
+    for (let i = 0; i < actions.length; i += 1000) {
+      await db.insert(retentionActions).values(actions.slice(i, i + 1000).map((a) => ({ ...a, sweepId })));
+    }
+  }
+
+  async getRetentionActions(sweepId: string): Promise<RetentionActionRecord[]> {
+    return db
+      .select()
+      .from(retentionActions)
+      .where(eq(retentionActions.sweepId, sweepId))
+      .orderBy(retentionActions.artifactType, retentionActions.s3Key);
+  }
+
+  async getAppliedRetentionActions(): Promise<Map<string, RetentionActionRecord["action"]>> {
+    const rows = await db
+      .select({ s3Key: retentionActions.s3Key, action: retentionActions.action })
+      .from(retentionActions)
+      .innerJoin(retentionSweeps, eq(retentionActions.sweepId, retentionSweeps.id))
+      .where(eq(retentionSweeps.dryRun, false));
+    // A delete outranks an earlier archive of the same object
+    const applied = new Map<string, RetentionActionRecord["action"]>();
+    for (const row of rows) {
+      if (applied.get(row.s3Key) !== "delete") applied.set(row.s3Key, row.action);
+    }
+    return applied;
+  }
+
+  async clearObjectReferences(s3Key: string): Promise<void> {
+    // Only optional pointers are cleared; the raw upload and working WAV keys stay as history
+    await db.update(recordings).set({ peaksS3Key: null }).where(eq(recordings.peaksS3Key, s3Key));
+    await db.update(recordings).set({ alignedWavS3Key: null }).where(eq(recordings.alignedWavS3Key, s3Key));
+    await db.delete(recordingArtifacts).where(eq(recordingArtifacts.s3Key, s3Key));
+    await db.delete(folderArtifacts).where(eq(folderArtifacts.s3Key, s3Key));
+  }
+
+  // Email Outbox
+  async createOutboxEmail(data: Pick<OutboxEmail, "template" | "templateVersion" | "toAddress" | "subject" | "html" | "text" | "params">): Promise<OutboxEmail> {
+    const [result] = await db.insert(emailOutbox).values(data).returning();
+    return result;
+  }
+
+  async getOutboxEmailById(id: string): Promise<OutboxEmail | undefined> {
+    const [result] = await db.select().from(emailOutbox).where(eq(emailOutbox.id, id));
+    return result;
+  }
+
+  async updateOutboxEmail(id: string, data: Partial<Pick<OutboxEmail, "status" | "attempts" | "lastError" | "transport" | "messageId" | "sentAt">>): Promise<OutboxEmail> {
+    const [result] = await db
+      .update(emailOutbox)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(emailOutbox.id, id))
+      .returning();
+    return result;
+  }
+
+  async getOutboxEmails(filter: { status?: EmailStatus; limit?: number } = {}): Promise<OutboxEmail[]> {
+    return db
+      .select()
+      .from(emailOutbox)
+      .where(filter.status ? eq(emailOutbox.status, filter.status) : undefined)
+      .orderBy(desc(emailOutbox.createdAt))
+      .limit(filter.limit ?? 200);
+  }
+
+  // Auth Tokens
+  async createAuthToken(data: Pick<AuthToken, "userId" | "purpose" | "tokenHash" | "expiresAt">): Promise<AuthToken> {
+    const [result] = await db.insert(authTokens).values(data).returning();
+    return result;
+  }
+
+  async consumeAuthToken(tokenHash: string, purpose: AuthTokenPurpose): Promise<AuthToken | undefined> {
+    const now = new Date();
+    const [result] = await db
+      .update(authTokens)
+      .set({ usedAt: now })
+      .where(and(
+        eq(authTokens.tokenHash, tokenHash),
+        eq(authTokens.purpose, purpose),
+        isNull(authTokens.usedAt),
+        gt(authTokens.expiresAt, now),
+      ))
+      .returning();
+    return result;
+  }
+
+  async deleteAuthTokens(userId: string, purpose: AuthTokenPurpose): Promise<void> {
+    await db.delete(authTokens).where(and(eq(authTokens.userId, userId), eq(authTokens.purpose, purpose)));
+  }
+
+  // Rate Limits
+  async getRateLimitBuckets(policy: string, subjects: string[]): Promise<RateLimitBucket[]> {
+    if (subjects.length === 0) return [];
+    return db
+      .select()
+      .from(rateLimitBuckets)
+      .where(and(eq(rateLimitBuckets.policy, policy), inArray(rateLimitBuckets.subject, subjects)));
+  }
+
+  async hitRateLimitBucket(policy: string, subject: string, windowStartedBefore: Date): Promise<RateLimitBucket> {
+    // One statement, so concurrent requests can't both read the same count
+    const now = new Date();
+    const stale = sql`${rateLimitBuckets.windowStart} <= ${windowStartedBefore}`;
+    const [result] = await db
+      .insert(rateLimitBuckets)
+      .values({ policy, subject, count: 1, windowStart: now, updatedAt: now })
+      .onConflictDoUpdate({
+        target: [rateLimitBuckets.policy, rateLimitBuckets.subject],
+        set: {
+          count: sql`CASE WHEN ${stale} THEN 1 ELSE ${rateLimitBuckets.count} + 1 END`,
+          windowStart: sql`CASE WHEN ${stale} THEN excluded.window_start ELSE ${rateLimitBuckets.windowStart} END`,
+          updatedAt: now,
+        },
+      })
+      .returning();
+    return result;
+  }
+
+  async lockRateLimitBucket(id: string, lockedUntil: Date, strikes: number): Promise<RateLimitBucket> {
+    const now = new Date();
+    const [result] = await db
+      .update(rateLimitBuckets)
+      .set({ lockedUntil, strikes, count: 0, windowStart: now, updatedAt: now })
+      .where(eq(rateLimitBuckets.id, id))
+      .returning();
+    return result;
+  }
+
+  async resetRateLimitBucket(policy: string, subject: string): Promise<void> {
+    await db
+      .delete(rateLimitBuckets)
+      .where(and(eq(rateLimitBuckets.policy, policy), eq(rateLimitBuckets.subject, subject)));
+  }
+
+  async getRateLimitLockouts(limit = 200): Promise<RateLimitBucket[]> {
+    return db
+      .select()
+      .from(rateLimitBuckets)
+      .where(isNotNull(rateLimitBuckets.lockedUntil))
+      .orderBy(desc(rateLimitBuckets.lockedUntil))
+      .limit(limit);
+  }
+
+  async deleteRateLimitBucket(id: string): Promise<RateLimitBucket | undefined> {
+    const [result] = await db.delete(rateLimitBuckets).where(eq(rateLimitBuckets.id, id)).returning();
+    return result;
+  }
+
+  async pruneRateLimitBuckets(updatedBefore: Date): Promise<number> {
+    const pruned = await db
+      .delete(rateLimitBuckets)
+      .where(sql`${rateLimitBuckets.updatedAt} < ${updatedBefore}`)
+      .returning({ id: rateLimitBuckets.id });
+    return pruned.length;
+  }
+
   // Blocked Emails
   async createBlockedEmail(data: { email: string; blockedBy: string; reason?: string }): Promise<void> {
     await db.insert(blockedEmails).values(data).onConflictDoNothing();
@@ -418,16 +1329,37 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteOnboardingSamplesByUser(userId: string): Promise<void> {
+    await this.deleteAudioFingerprints(
+      and(eq(audioFingerprints.userId, userId), isNotNull(audioFingerprints.sampleId))!
+    );
+    await db.delete(speakerEmbeddings).where(
+      and(eq(speakerEmbeddings.userId, userId), isNotNull(speakerEmbeddings.sampleId))
+    );
     await db.delete(onboardingSamples).where(eq(onboardingSamples.userId, userId));
   }
 
   async deleteUser(id: string): Promise<void> {
     // Delete related data first (foreign key constraints)
+    await this.deleteAudioFingerprints(eq(audioFingerprints.userId, id));
+    await db.delete(speakerEmbeddings).where(eq(speakerEmbeddings.userId, id));
+    await db.update(retentionSweeps).set({ triggeredBy: null }).where(eq(retentionSweeps.triggeredBy, id));
+    await db.update(taskTypeVersions).set({ createdBy: null }).where(eq(taskTypeVersions.createdBy, id));
     await db.delete(onboardingSamples).where(eq(onboardingSamples.userId, id));
     await db.delete(notifications).where(eq(notifications.userId, id));
     await db.delete(referralCodes).where(eq(referralCodes.userId, id));
+    await db.delete(authTokens).where(eq(authTokens.userId, id));
+    await db.delete(jobs).where(eq(jobs.userId, id));
     await db.delete(roomInvitations).where(eq(roomInvitations.invitedUserId, id));
     await db.delete(roomInvitations).where(eq(roomInvitations.invitedBy, id));
+    await db.delete(recordingArtifacts).where(
+      inArray(recordingArtifacts.recordingId, db.select({ id: recordings.id }).from(recordings).where(eq(recordings.userId, id)))
+    );
+    await db.delete(recordingSegments).where(
+      inArray(recordingSegments.recordingId, db.select({ id: recordings.id }).from(recordings).where(eq(recordings.userId, id)))
+    );
+    await db.delete(transcripts).where(
+      inArray(transcripts.recordingId, db.select({ id: recordings.id }).from(recordings).where(eq(recordings.userId, id)))
+    );
     await db.delete(recordings).where(eq(recordings.userId, id));
     await db.delete(taskSessions).where(eq(taskSessions.userId, id));
     await db.delete(taskSessions).where(eq(taskSessions.partnerId, id));
@@ -435,4 +1367,5 @@ export class DatabaseStorage implements IStorage {
   }
 }
 
-export const storage = new DatabaseStorage();
+// STORAGE_DRIVER=memory keeps everything in process, for tests and running without Postgres
+export const storage: IStorage = process.env.STORAGE_DRIVER === "memory" ? new MemoryStorage() : new DatabaseStorage();
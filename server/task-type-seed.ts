@@ -0,0 +1,203 @@
+import type { InsertTaskType } from "@shared/schema";
+
+// Initial task catalog — inserted into task_types on first boot, then managed from the admin panel
+export const DEFAULT_TASK_TYPES: InsertTaskType[] = [
+  {
+    id: "whispered-conversation",
+    archived: true,
+    name: "Whispered Conversation",
+    description: "Have a quiet, whispered conversation with your partner.",
+    hourlyRate: 30,
+    availableUntil: "2026-03-09",
+    requiresPartner: true,
+    instructions: [
+      "Find a quiet room with minimal background noise.",
+      "Have a normal phone conversation but whispering or in a soft voice throughout the call.",
+      "Discuss any topic you like — the content does not matter, only the vocal style.",
+      "Aim for at least 30 minutes of natural conversation.",
+    ],
+  },
+  {
+    id: "whispered-english",
+    paused: true,
+    name: "Whispered Conversation - English",
+    description: "Have a quiet, whispered conversation in English with your partner.",
+    language: "en",
+    hourlyRate: 30,
+    availableUntil: "2026-03-09",
+    requiresPartner: true,
+    instructions: [
+      "Find a quiet room with minimal background noise.",
+      "Have a normal phone conversation but whispering or in a soft voice throughout the call.",
+      "Speak in English for the entire conversation.",
+      "Discuss any topic you like — the content does not matter, only the vocal style.",
+      "Aim for at least 30 minutes of natural conversation.",
+    ],
+  },
+  {
+    id: "whispered-spanish",
+    paused: true,
+    name: "Whispered Conversation - Spanish",
+    description: "Have a quiet, whispered conversation in Spanish with your partner.",
+    language: "es",
+    hourlyRate: 30,
+    availableUntil: "2026-03-09",
+    requiresPartner: true,
+    instructions: [
+      "Find a quiet room with minimal background noise.",
+      "Have a normal phone conversation but whispering or in a soft voice throughout the call.",
+      "Speak in Spanish for the entire conversation.",
+      "Discuss any topic you like — the content does not matter, only the vocal style.",
+      "Aim for at least 30 minutes of natural conversation.",
+    ],
+  },
+  {
+    id: "whispered-portuguese",
+    paused: true,
+    name: "Whispered Conversation - Portuguese",
+    description: "Have a quiet, whispered conversation in Portuguese with your partner.",
+    language: "pt",
+    hourlyRate: 30,
+    availableUntil: "2026-03-09",
+    requiresPartner: true,
+    instructions: [
+      "Find a quiet room with minimal background noise.",
+      "Have a normal phone conversation but whispering or in a soft voice throughout the call.",
+      "Speak in Portuguese for the entire conversation.",
+      "Discuss any topic you like — the content does not matter, only the vocal style.",
+      "Aim for at least 30 minutes of natural conversation.",
+    ],
+  },
+  {
+    id: "general-emotional",
+    name: "General Emotional Conversation",
+    description: "Have a natural, emotionally expressive conversation with your partner.",
+    hourlyRate: 50,
+    availableUntil: "2026-03-06",
+    requiresPartner: true,
+    archived: true,
+    instructions: [
+      "Find a comfortable, private space.",
+      "Have a natural 10–20 minute phone conversation with your partner.",
+      "Talk naturally with your friend, but slightly exaggerate your emotions — maybe you go on an angry rant about something at one point, or get really excited about something coming up, or share something that made you sad.",
+      "Don't force it — just have a real conversation and let the emotion come through. When you feel something, lean into it a bit more than usual.",
+      "When you're done, press Stop Recording.",
+    ],
+  },
+  {
+    id: "emotion-joy",
+    archived: true,
+    name: "Emotional Conversation - Joy / Excitement",
+    description: "Have a joyful, happy conversation with your partner.",
+    hourlyRate: 20,
+    payType: "fixed",
+    availableUntil: "2026-03-07",
+    requiresPartner: true,
+    sampleAudio: "/samples/emotion-joy.wav",
+    sampleAudioDescription: "Listen to a sample to get an idea of what a highly emotional section for 'joy/excitement' sounds like.",
+    instructions: [
+      "Find a comfortable, private space.",
+      "Have a conversation that naturally brings out joyful and happy emotions.",
+      "Discuss things that make you genuinely happy — good memories, exciting news, things you're grateful for.",
+      "Example call breakdown: ~2 min catching up with your friend, ~3 min excitedly sharing something great that happened to you recently, ~1 min winding down the conversation, then press Stop Recording.",
+    ],
+  },
+  {
+    id: "emotion-surprise",
+    archived: true,
+    name: "Emotional Conversation - Surprise",
+    description: "Have a surprised, shocked conversation with your partner.",
+    hourlyRate: 20,
+    payType: "fixed",
+    availableUntil: "2026-03-07",
+    requiresPartner: true,
+    instructions: [
+      "Find a comfortable, private space.",
+      "Have a conversation that naturally brings out surprise and shock.",
+      "Share unexpected stories, surprising facts, or role-play revealing shocking news to each other.",
+      "Example call breakdown: ~2 min catching up with your friend, ~3 min revealing something unexpected or reacting to surprising news from each other, ~1 min winding down the conversation, then press Stop Recording.",
+    ],
+  },
+  {
+    id: "emotion-fear",
+    archived: true,
+    name: "Emotional Conversation - Fear",
+    description: "Have a fearful, scared conversation with your partner.",
+    hourlyRate: 20,
+    payType: "fixed",
+    availableUntil: "2026-03-07",
+    requiresPartner: true,
+    instructions: [
+      "Find a comfortable, private space.",
+      "Have a conversation that naturally brings out fear and being scared.",
+      "Discuss scary experiences, fears, or creepy stories together.",
+      "Example call breakdown: ~2 min catching up with your friend, ~3 min telling each other about something that genuinely scared you or a creepy experience, ~1 min winding down the conversation, then press Stop Recording.",
+    ],
+  },
+  {
+    id: "emotion-anger",
+    archived: true,
+    name: "Emotional Conversation - Anger",
+    description: "Have an angry, frustrated conversation with your partner.",
+    hourlyRate: 20,
+    payType: "fixed",
+    availableUntil: "2026-03-07",
+    requiresPartner: true,
+    instructions: [
+      "Find a comfortable, private space.",
+      "Have a conversation that naturally brings out anger and frustration.",
+      "Discuss things that frustrate you, vent about annoyances, or role-play a heated debate.",
+      "Example call breakdown: ~2 min catching up with your friend, ~3 min going on an angry rant about something that really pissed you off last week, ~1 min winding down the conversation, then press Stop Recording.",
+    ],
+  },
+  {
+    id: "emotion-sadness",
+    archived: true,
+    name: "Emotional Conversation - Sadness",
+    description: "Have a sad, upset conversation with your partner.",
+    hourlyRate: 20,
+    payType: "fixed",
+    availableUntil: "2026-03-07",
+    requiresPartner: true,
+    instructions: [
+      "Find a comfortable, private space.",
+      "Have a conversation that naturally brings out sadness and being upset.",
+      "Discuss bittersweet memories, disappointments, or role-play comforting each other through tough times.",
+      "Example call breakdown: ~2 min catching up with your friend, ~3 min talking about something that made you feel sad or a difficult time you went through, ~1 min winding down the conversation, then press Stop Recording.",
+    ],
+  },
+  {
+    id: "emotion-confusion",
+    archived: true,
+    name: "Emotional Conversation - Confusion",
+    description: "Have a confused, puzzled conversation with your partner.",
+    hourlyRate: 20,
+    payType: "fixed",
+    availableUntil: "2026-03-07",
+    requiresPartner: true,
+    sampleAudio: "/samples/emotion-confusion.wav",
+    sampleAudioDescription: "Listen to a sample to get an idea of what a highly emotional section for 'confusion' sounds like.",
+    instructions: [
+      "Find a comfortable, private space.",
+      "Have a conversation that naturally brings out confusion and puzzlement.",
+      "Discuss confusing topics, try to figure out something tricky together, or role-play being baffled by something.",
+      "Example call breakdown: ~2 min catching up with your friend, ~3 min trying to work through something confusing together or reacting to a baffling situation, ~1 min winding down the conversation, then press Stop Recording.",
+    ],
+  },
+  {
+    id: "emotion-pride",
+    archived: true,
+    name: "Emotional Conversation - Pride",
+    description: "Have a proud, triumphant conversation with your partner.",
+    hourlyRate: 20,
+    payType: "fixed",
+    availableUntil: "2026-03-07",
+    requiresPartner: true,
+    instructions: [
+      "Find a comfortable, private space.",
+      "Have a conversation that naturally brings out pride and triumph.",
+      "Share accomplishments, celebrate wins, or role-play achieving something great together.",
+      "Example call breakdown: ~2 min catching up with your friend, ~3 min proudly telling them about something you accomplished or a big win you had, ~1 min winding down the conversation, then press Stop Recording.",
+    ],
+  },
+];
@@ -0,0 +1,90 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { DailyRecording } from "../daily";
+
+/**
+ * Minimal local stand-in for the parts of the Daily REST API the server uses.
+ * Requests are recorded so tests can assert on what was sent; recordings and
+ * meeting participants are seeded through `state`.
+ */
+export interface DailyStandInState {
+  requests: { method: string; path: string; body: any }[];
+  recordings: Map<string, DailyRecording>;
+  participants: Map<string, { participant_id: string; user_id: string | null }[]>;
+  /** Who is in each room right now, by room name */
+  presence: Map<string, { id: string; userId: string | null; joinTime: string }[]>;
+}
+
+export interface DailyStandIn {
+  url: string;
+  apiKey: string;
+  state: DailyStandInState;
+  close(): Promise<void>;
+}
+
+function readBody(req: IncomingMessage): Promise<any> {
+  return new Promise((resolve, reject) => {
+    let data = "";
+    req.on("data", (chunk) => (data += chunk));
+    req.on("end", () => resolve(data ? JSON.parse(data) : null));
+    req.on("error", reject);
+  });
+}
+
+function send(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+export async function startDailyStandIn(apiKey = "test-daily-key"): Promise<DailyStandIn> {
+  const state: DailyStandInState = { requests: [], recordings: new Map(), participants: new Map(), presence: new Map() };
+
+  const server = createServer(async (req, res) => {
+    const path = new URL(req.url || "/", "http://localhost").pathname;
+    const body = await readBody(req);
+    state.requests.push({ method: req.method || "GET", path, body });
+
+    if (req.headers.authorization !== `Bearer ${apiKey}`) {
+      return send(res, 401, { error: "authorization-error" });
+    }
+
+    if (req.method === "POST" && path === "/rooms") {
+      const name = body?.name || `room-${state.requests.length}`;
+      return send(res, 200, { id: `daily-${name}`, name, url: `https://example.daily.co/${name}`, config: body?.properties });
+    }
+    if (req.method === "POST" && path === "/meeting-tokens") {
+      return send(res, 200, { token: `token-for-${body?.properties?.room_name}` });
+    }
+
+    let match = path.match(/^\/rooms\/([^/]+)$/);
+    if (req.method === "DELETE" && match) {
+      return send(res, 200, { name: decodeURIComponent(match[1]), deleted: true });
+    }
+    match = path.match(/^\/rooms\/([^/]+)\/presence$/);
+    if (req.method === "GET" && match) {
+      const data = state.presence.get(decodeURIComponent(match[1])) ?? [];
+      return send(res, 200, { total_count: data.length, data });
+    }
+    match = path.match(/^\/recordings\/([^/]+)$/);
+    if (req.method === "GET" && match) {
+      const recording = state.recordings.get(decodeURIComponent(match[1]));
+      return recording ? send(res, 200, recording) : send(res, 404, { error: "not-found" });
+    }
+    match = path.match(/^\/meetings\/([^/]+)\/participants$/);
+    if (req.method === "GET" && match) {
+      return send(res, 200, { data: state.participants.get(decodeURIComponent(match[1])) ?? [] });
+    }
+
+    send(res, 404, { error: "not-found" });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    apiKey,
+    state,
+    close: () => new Promise((resolve, reject) => server.close((err) => (err ? reject(err) : resolve()))),
+  };
+}
@@ -0,0 +1,109 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import express from "express";
+import { startDailyStandIn, type DailyStandIn } from "./daily-stand-in";
+import type { IStorage } from "../storage";
+
+/**
+ * The real app (auth, sessions and every route) on an ephemeral port, backed by the
+ * in-memory storage, the local object storage driver in a temp dir and the Daily stand-in.
+ * Email goes to the file transport. No Postgres, S3 or network access needed.
+ */
+export interface TestApp {
+  url: string;
+  storage: IStorage;
+  daily: DailyStandIn;
+  /** A new client with its own (logged-out) session */
+  client(): TestClient;
+  close(): Promise<void>;
+}
+
+export async function startTestApp(): Promise<TestApp> {
+  const daily = await startDailyStandIn();
+  const objectsDir = fs.mkdtempSync(path.join(os.tmpdir(), "test-app-objects-"));
+
+  // Modules read their configuration at import time, so set it before the first import
+  process.env.STORAGE_DRIVER = "memory";
+  process.env.OBJECT_STORAGE_DRIVER = "local";
+  process.env.LOCAL_STORAGE_DIR = objectsDir;
+  process.env.EMAIL_TRANSPORT = "file";
+  process.env.EMAIL_FILE_DIR = path.join(objectsDir, "emails");
+  process.env.DAILY_API_URL = daily.url;
+  process.env.DAILY_API_KEY = daily.apiKey;
+  process.env.APP_URL = "http://app.test";
+
+  const { setupAuth } = await import("../auth");
+  const { registerRoutes } = await import("../routes");
+  const { storage } = await import("../storage");
+
+  const app = express();
+  app.use(express.json());
+  setupAuth(app);
+  const server = createServer(app);
+  await registerRoutes(server, app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    url,
+    storage,
+    daily,
+    client: () => new TestClient(url),
+    close: async () => {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+      await daily.close();
+      fs.rmSync(objectsDir, { recursive: true, force: true });
+    },
+  };
+}
+
+/** fetch with a cookie jar, so each client keeps its own login session */
+export class TestClient {
+  private cookie: string | null = null;
+
+  constructor(readonly baseUrl: string) {}
+
+  async request(method: string, url: string, body?: unknown): Promise<{ status: number; body: any; headers: Record<string, string> }> {
+    const headers: Record<string, string> = {};
+    if (body !== undefined) headers["Content-Type"] = "application/json";
+    if (this.cookie) headers.Cookie = this.cookie;
+
+    const res = await fetch(this.baseUrl + url, {
+      method,
+      headers,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    const setCookie = res.headers.get("set-cookie");
+    if (setCookie) this.cookie = setCookie.split(";")[0];
+
+    const text = await res.text();
+    return { status: res.status, body: text ? JSON.parse(text) : null, headers: Object.fromEntries(res.headers) };
+  }
+
+  get(url: string) {
+    return this.request("GET", url);
+  }
+
+  post(url: string, body?: unknown) {
+    return this.request("POST", url, body ?? {});
+  }
+
+  patch(url: string, body?: unknown) {
+    return this.request("PATCH", url, body ?? {});
+  }
+
+  delete(url: string) {
+    return this.request("DELETE", url);
+  }
+
+  /** PUT raw bytes to a signed storage URL, as the browser does */
+  async upload(url: string, body: Buffer, contentType: string): Promise<number> {
+    const res = await fetch(this.baseUrl + url, { method: "PUT", body, headers: { "Content-Type": contentType } });
+    await res.arrayBuffer();
+    return res.status;
+  }
+}
@@ -0,0 +1,27 @@
+import * as fs from "node:fs";
+
+/** Write a mono 16-bit PCM WAV whose samples come from `sampleAt(seconds)` in [-1, 1] */
+export function writeTestWav(filePath: string, durationSec: number, sampleAt: (t: number) => number, sampleRate = 48000): void {
+  const count = Math.round(durationSec * sampleRate);
+  const data = Buffer.alloc(count * 2);
+  for (let i = 0; i < count; i++) {
+    const value = Math.max(-1, Math.min(1, sampleAt(i / sampleRate)));
+    data.writeInt16LE(Math.round(value * 32767), i * 2);
+  }
+
+  const header = Buffer.alloc(44);
+  header.write("RIFF", 0, "ascii");
+  header.writeUInt32LE(36 + data.length, 4);
+  header.write("WAVE", 8, "ascii");
+  header.write("fmt ", 12, "ascii");
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(1, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write("data", 36, "ascii");
+  header.writeUInt32LE(data.length, 40);
+  fs.writeFileSync(filePath, Buffer.concat([header, data]));
+}
@@ -0,0 +1,61 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { writeTestWav } from "./test-support/wav";
+import { localTranscriptionProvider, getTranscriptionProvider } from "./transcription";
+
+let wavPath: string;
+
+before(() => {
+  wavPath = path.join(os.tmpdir(), `transcription-test-${process.pid}.wav`);
+  // Two "utterances" of tone over a faint, fixed noise pattern
+  writeTestWav(wavPath, 6, (t) => {
+    const noise = Math.sin(t * 9973) * 0.001;
+    const speaking = (t >= 1 && t < 2) || (t >= 3.5 && t < 5);
+    return noise + (speaking ? 0.3 * Math.sin(2 * Math.PI * 220 * t) : 0);
+  });
+});
+
+after(() => {
+  fs.rmSync(wavPath, { force: true });
+});
+
+test("local provider places words inside the detected utterances", async () => {
+  const result = await localTranscriptionProvider.transcribe(wavPath, { expectedLanguage: "es" });
+
+  assert.equal(result.language, "es");
+  assert.ok(result.words.length > 0);
+  assert.equal(result.text, result.words.map((w) => w.word).join(" "));
+  for (const word of result.words) {
+    assert.ok(word.endMs > word.startMs);
+    const inFirst = word.startMs >= 800 && word.endMs <= 2200;
+    const inSecond = word.startMs >= 3300 && word.endMs <= 5200;
+    assert.ok(inFirst || inSecond, `word at ${word.startMs}-${word.endMs}ms is outside speech`);
+  }
+});
+
+test("local provider is deterministic", async () => {
+  const first = await localTranscriptionProvider.transcribe(wavPath, { expectedLanguage: "pt" });
+  const second = await localTranscriptionProvider.transcribe(wavPath, { expectedLanguage: "pt" });
+  assert.deepEqual(first, second);
+});
+
+test("local provider falls back to English for unknown languages", async () => {
+  const result = await localTranscriptionProvider.transcribe(wavPath, { expectedLanguage: null });
+  assert.equal(result.language, "en");
+});
+
+test("transcription is off unless a provider is configured", () => {
+  const previous = process.env.TRANSCRIPTION_PROVIDER;
+  try {
+    delete process.env.TRANSCRIPTION_PROVIDER;
+    assert.equal(getTranscriptionProvider(), null);
+    process.env.TRANSCRIPTION_PROVIDER = "local";
+    assert.equal(getTranscriptionProvider(), localTranscriptionProvider);
+  } finally {
+    if (previous === undefined) delete process.env.TRANSCRIPTION_PROVIDER;
+    else process.env.TRANSCRIPTION_PROVIDER = previous;
+  }
+});
@@ -0,0 +1,183 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+
+import { storage } from "./storage";
+import { objectStorage } from "./object-storage";
+import { runFfmpeg } from "./ffmpeg";
+import { detectSpeechSegments } from "./vad";
+import type { Transcript, TranscriptWord } from "@shared/schema";
+
+export interface TranscriptionResult {
+  /** ISO 639-1 code of the language the provider heard, if it reports one */
+  language: string | null;
+  text: string;
+  words: TranscriptWord[];
+}
+
+export interface TranscriptionProvider {
+  readonly name: string;
+  /**
+   * Transcribe a processed mono WAV. `expectedLanguage` is what the task asked for;
+   * providers that can detect language should ignore it so a mismatch stays visible.
+   */
+  transcribe(wavPath: string, opts: { expectedLanguage: string | null }): Promise<TranscriptionResult>;
+}
+
+// Overridable so staging can point at a compatible self-hosted Whisper server
+const OPENAI_API_URL = process.env.OPENAI_API_URL || "https://api.openai.com/v1";
+const OPENAI_API_KEY = process.env.OPENAI_API_KEY || "";
+const TRANSCRIPTION_MODEL = process.env.TRANSCRIPTION_MODEL || "whisper-1";
+
+/** Whisper reports detected languages by English name */
+const WHISPER_LANGUAGE_CODES: Record<string, string> = {
+  english: "en",
+  spanish: "es",
+  portuguese: "pt",
+  french: "fr",
+  german: "de",
+  italian: "it",
+  dutch: "nl",
+  japanese: "ja",
+  chinese: "zh",
+  korean: "ko",
+  hindi: "hi",
+  arabic: "ar",
+  russian: "ru",
+};
+
+function normalizeLanguage(language: string | undefined): string | null {
+  if (!language) return null;
+  const lower = language.toLowerCase();
+  return WHISPER_LANGUAGE_CODES[lower] ?? (lower.length === 2 ? lower : null);
+}
+
+/** OpenAI's transcription endpoint with word-level timestamps */
+export const openAiTranscriptionProvider: TranscriptionProvider = {
+  name: "openai",
+  async transcribe(wavPath) {
+    // The API caps uploads at 25 MB — 16 kHz Opus keeps a two-hour track under it
+    const oggPath = wavPath.replace(/\.wav$/, "") + ".asr.ogg";
+    try {
+      await runFfmpeg(["-i", wavPath, "-ac", "1", "-ar", "16000", "-c:a", "libopus", "-b:a", "24k", oggPath]);
+
+      const form = new FormData();
+      form.append("file", new Blob([fs.readFileSync(oggPath)], { type: "audio/ogg" }), path.basename(oggPath));
+      form.append("model", TRANSCRIPTION_MODEL);
+      form.append("response_format", "verbose_json");
+      form.append("timestamp_granularities[]", "word");
+
+      const response = await fetch(`${OPENAI_API_URL}/audio/transcriptions`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${OPENAI_API_KEY}` },
+        body: form,
+      });
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Transcription failed: ${response.status} ${errorText}`);
+      }
+
+      const data = await response.json();
+      return {
+        language: normalizeLanguage(data.language),
+        text: (data.text ?? "").trim(),
+        words: (data.words ?? []).map((w: { word: string; start: number; end: number }) => ({
+          word: w.word.trim(),
+          startMs: Math.round(w.start * 1000),
+          endMs: Math.round(w.end * 1000),
+          confidence: null,
+        })),
+      };
+    } finally {
+      try { fs.rmSync(oggPath); } catch {}
+    }
+  },
+};
+
+const STAND_IN_VOCABULARY: Record<string, string[]> = {
+  en: ["hello", "yes", "really", "that", "sounds", "good", "and", "then", "we", "talked", "about", "it"],
+  es: ["hola", "sí", "claro", "eso", "suena", "bien", "y", "luego", "hablamos", "de", "todo", "eso"],
+  pt: ["olá", "sim", "claro", "isso", "parece", "bom", "e", "depois", "falamos", "sobre", "tudo", "isso"],
+};
+/** Rough conversational speaking rate used to size the stand-in's words */
+const STAND_IN_WORD_MS = 400;
+
+/**
+ * Offline stand-in: one placeholder word per ~400 ms of each VAD segment, drawn from a
+ * small per-language vocabulary. The same WAV always yields the same transcript, so the
+ * pipeline, storage and admin views can be exercised without network access or keys.
+ */
+export const localTranscriptionProvider: TranscriptionProvider = {
+  name: "local",
+  async transcribe(wavPath, { expectedLanguage }) {
+    const language = expectedLanguage && STAND_IN_VOCABULARY[expectedLanguage] ? expectedLanguage : "en";
+    const vocabulary = STAND_IN_VOCABULARY[language];
+    const { segments } = await detectSpeechSegments(wavPath);
+
+    const words: TranscriptWord[] = [];
+    for (const segment of segments) {
+      const count = Math.max(1, Math.floor((segment.endMs - segment.startMs) / STAND_IN_WORD_MS));
+      const wordMs = (segment.endMs - segment.startMs) / count;
+      for (let i = 0; i < count; i++) {
+        words.push({
+          word: vocabulary[words.length % vocabulary.length],
+          startMs: Math.round(segment.startMs + i * wordMs),
+          endMs: Math.round(segment.startMs + (i + 1) * wordMs),
+          confidence: null,
+        });
+      }
+    }
+
+    return { language, text: words.map((w) => w.word).join(" "), words };
+  },
+};
+
+/** Provider chosen by TRANSCRIPTION_PROVIDER; transcription is off when it is unset */
+export function getTranscriptionProvider(): TranscriptionProvider | null {
+  switch (process.env.TRANSCRIPTION_PROVIDER) {
+    case "openai":
+      return openAiTranscriptionProvider;
+    case "local":
+      return localTranscriptionProvider;
+    default:
+      return null;
+  }
+}
+
+/** Language the room's task type asked contributors to speak */
+async function getExpectedLanguageForRoom(roomId: string): Promise<string | null> {
+  const [session] = await storage.getTaskSessionsByRoom(roomId);
+  const taskType = session ? await storage.getTaskTypeById(session.taskType) : undefined;
+  return taskType?.language ?? null;
+}
+
+/** Transcribe a processed recording's WAV and store the result, replacing any earlier transcript */
+export async function transcribeRecording(
+  recordingId: string,
+  provider: TranscriptionProvider | null = getTranscriptionProvider(),
+): Promise<Transcript> {
+  if (!provider) {
+    throw new Error("Transcription is not configured (set TRANSCRIPTION_PROVIDER)");
+  }
+
+  const recording = await storage.getRecordingById(recordingId);
+  if (!recording) {
+    throw new Error(`Recording not found: ${recordingId}`);
+  }
+  if (!recording.wavS3Key) {
+    throw new Error(`Recording ${recordingId} has not been processed yet`);
+  }
+
+  const expectedLanguage = await getExpectedLanguageForRoom(recording.roomId);
+  const wavPath = path.join(os.tmpdir(), `asr-${recordingId}-${Date.now()}.wav`);
+
+  try {
+    fs.writeFileSync(wavPath, await objectStorage.download(recording.wavS3Key));
+    const result = await provider.transcribe(wavPath, { expectedLanguage });
+    console.log(`Transcribed ${recordingId} with ${provider.name}: ${result.words.length} words, language ${result.language ?? "unknown"}`);
+
+    return storage.upsertTranscript({ recordingId, provider: provider.name, ...result });
+  } finally {
+    try { fs.rmSync(wavPath); } catch {}
+  }
+}
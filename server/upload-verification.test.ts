@@ -0,0 +1,66 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { findUnverifiedTracks } from "./upload-verification";
+import type { Recording } from "@shared/schema";
+
+type Track = Parameters<typeof findUnverifiedTracks>[0][number];
+
+function track(overrides: Partial<Recording>): Track {
+  return {
+    speakerId: "spk0",
+    recordingType: "local",
+    verificationStatus: "verified",
+    verificationError: null,
+    createdAt: new Date("2026-06-01T10:00:00Z"),
+    ...overrides,
+  };
+}
+
+test("a partner session needs a verified track from both speakers", () => {
+  assert.deepEqual(findUnverifiedTracks([track({ speakerId: "spk0" })], true), [
+    { speakerId: "spk1", problem: "missing" },
+  ]);
+  assert.deepEqual(
+    findUnverifiedTracks([track({ speakerId: "spk0" }), track({ speakerId: "spk1" })], true),
+    [],
+  );
+});
+
+test("solo sessions only expect the creator's track", () => {
+  assert.deepEqual(findUnverifiedTracks([track({ speakerId: "spk0" })], false), []);
+  assert.deepEqual(findUnverifiedTracks([], false), [{ speakerId: "spk0", problem: "missing" }]);
+});
+
+test("pending and failed tracks are reported with their error", () => {
+  const result = findUnverifiedTracks([
+    track({ speakerId: "spk0", verificationStatus: "pending" }),
+    track({ speakerId: "spk1", verificationStatus: "failed", verificationError: "Recording is too short (200 ms)" }),
+  ], true);
+
+  assert.deepEqual(result, [
+    { speakerId: "spk0", problem: "pending", error: null },
+    { speakerId: "spk1", problem: "failed", error: "Recording is too short (200 ms)" },
+  ]);
+});
+
+test("the latest local upload wins and the cloud copy only stands in when there is none", () => {
+  const earlier = new Date("2026-06-01T10:00:00Z");
+  const later = new Date("2026-06-01T10:05:00Z");
+
+  // A failed first attempt is superseded by a verified re-record
+  assert.deepEqual(findUnverifiedTracks([
+    track({ verificationStatus: "failed", verificationError: "File is not readable audio", createdAt: earlier }),
+    track({ verificationStatus: "verified", createdAt: later }),
+  ], false), []);
+
+  // A verified cloud copy doesn't cover for a local upload still being checked
+  assert.deepEqual(findUnverifiedTracks([
+    track({ verificationStatus: "pending", createdAt: earlier }),
+    track({ recordingType: "cloud", verificationStatus: "verified", createdAt: later }),
+  ], false), [{ speakerId: "spk0", problem: "pending", error: null }]);
+
+  // Without a local upload, the cloud copy counts
+  assert.deepEqual(findUnverifiedTracks([
+    track({ recordingType: "cloud", verificationStatus: "verified" }),
+  ], false), []);
+});
@@ -0,0 +1,157 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import * as crypto from "node:crypto";
+
+import { storage } from "./storage";
+import { objectStorage } from "./object-storage";
+import { probeAudioStream, type AudioStreamInfo } from "./ffmpeg";
+import type { Recording } from "@shared/schema";
+
+/** Anything shorter is a false start or a recorder that never got the mic */
+const MIN_DURATION_MS = 1000;
+/** Claimed and measured durations may drift this much before it's worth a log line */
+const DURATION_DRIFT_MS = 2000;
+
+const CONTENT_TYPES: Record<string, string> = {
+  webm: "audio/webm",
+  wav: "audio/wav",
+};
+
+const ALLOWED_CODECS: Record<string, string[]> = {
+  webm: ["opus", "vorbis"],
+  wav: ["pcm_s16le", "pcm_s24le", "pcm_s32le", "pcm_f32le"],
+};
+
+/**
+ * Cheap check when the client reports an upload finished: the object exists, isn't empty,
+ * has the size the client measured and the content type the upload URL was signed for.
+ * Returns a description of the problem, or null.
+ */
+export async function checkUploadedObject(recording: Recording): Promise<string | null> {
+  const head = await objectStorage.head(recording.s3Key);
+  if (!head) return "Upload not found in storage";
+  if (head.size === 0) return "Uploaded file is empty";
+  if (recording.fileSize && head.size !== recording.fileSize) {
+    return `Uploaded ${head.size} bytes, expected ${recording.fileSize}`;
+  }
+
+  // Cloud tracks are copied from Daily's bucket with whatever type Daily gave them
+  if (recording.recordingType !== "cloud") {
+    const contentType = (head.contentType ?? "").split(";")[0].trim();
+    if (contentType !== CONTENT_TYPES[recording.format]) {
+      return `Unexpected content type ${head.contentType ?? "(none)"} for a ${recording.format} upload`;
+    }
+  }
+  return null;
+}
+
+function checkAudioStream(recording: Recording, stream: AudioStreamInfo | null): string | null {
+  if (!stream) return "File contains no audio stream";
+  if (!(ALLOWED_CODECS[recording.format] ?? []).includes(stream.codec)) {
+    return `Unexpected codec ${stream.codec} for a ${recording.format} upload`;
+  }
+  if (stream.durationMs == null || stream.durationMs < MIN_DURATION_MS) {
+    return `Recording is too short (${stream.durationMs ?? 0} ms)`;
+  }
+  return null;
+}
+
+async function markFailed(recording: Recording, problem: string): Promise<Recording> {
+  console.warn(`Upload verification failed for ${recording.id}: ${problem}`);
+  return storage.updateRecording(recording.id, { verificationStatus: "failed", verificationError: problem });
+}
+
+/**
+ * Download the uploaded object, checksum it and probe the audio. A recording only counts
+ * towards its session once this passes; its duration, size, sample rate and channel count
+ * are replaced with the measured values. Problems with the file mark the recording failed;
+ * storage or tooling errors are thrown so the job is retried.
+ */
+export async function verifyUpload(recordingId: string): Promise<Recording> {
+  const recording = await storage.getRecordingById(recordingId);
+  if (!recording) {
+    throw new Error(`Recording not found: ${recordingId}`);
+  }
+  if (recording.multipartUploadId) {
+    throw new Error(`Recording ${recordingId} upload has not been finalized`);
+  }
+
+  const problem = await checkUploadedObject(recording);
+  if (problem) return markFailed(recording, problem);
+
+  const filePath = path.join(os.tmpdir(), `verify-${recordingId}-${Date.now()}.${recording.format}`);
+  try {
+    const buffer = await objectStorage.download(recording.s3Key);
+    fs.writeFileSync(filePath, buffer);
+    const checksumSha256 = crypto.createHash("sha256").update(buffer).digest("hex");
+
+    let stream: AudioStreamInfo | null;
+    try {
+      stream = await probeAudioStream(filePath);
+    } catch (error: any) {
+      // A non-zero exit means ffprobe couldn't parse the file; anything else is on our side
+      if (typeof error?.code !== "number") throw error;
+      return markFailed(recording, "File is not readable audio");
+    }
+
+    const streamProblem = checkAudioStream(recording, stream);
+    if (streamProblem) return markFailed(recording, streamProblem);
+
+    const durationMs = stream!.durationMs!;
+    if (recording.duration != null && Math.abs(recording.duration - durationMs) > DURATION_DRIFT_MS) {
+      console.warn(`Recording ${recordingId} claimed ${recording.duration} ms, measured ${durationMs} ms`);
+    }
+
+    console.log(`Verified upload ${recordingId}: ${stream!.codec} ${stream!.sampleRate} Hz, ${durationMs} ms, sha256 ${checksumSha256}`);
+    return storage.updateRecording(recordingId, {
+      verificationStatus: "verified",
+      verificationError: null,
+      verifiedAt: new Date(),
+      checksumSha256,
+      codec: stream!.codec,
+      duration: durationMs,
+      fileSize: buffer.length,
+      sampleRate: stream!.sampleRate,
+      channels: stream!.channels,
+    });
+  } finally {
+    try { fs.rmSync(filePath); } catch {}
+  }
+}
+
+export interface UnverifiedTrack {
+  speakerId: string;
+  problem: "missing" | "pending" | "failed";
+  error?: string | null;
+}
+
+type TrackFields = Pick<Recording, "speakerId" | "recordingType" | "verificationStatus" | "verificationError" | "createdAt">;
+
+/**
+ * Expected tracks of a session that aren't verified yet. Each speaker is represented by
+ * their latest upload from their own device; Daily's cloud copy only stands in for a
+ * speaker who has none (the same rule cloud ingestion uses to pick fallbacks).
+ */
+export function findUnverifiedTracks(recordings: TrackFields[], requiresPartner: boolean): UnverifiedTrack[] {
+  const speakers = requiresPartner ? ["spk0", "spk1"] : ["spk0"];
+  const latest = (tracks: TrackFields[]) =>
+    tracks.reduce<TrackFields | undefined>((a, b) => (!a || b.createdAt > a.createdAt ? b : a), undefined);
+
+  const unverified: UnverifiedTrack[] = [];
+  for (const speakerId of speakers) {
+    const own = recordings.filter((r) => r.speakerId === speakerId);
+    const track = latest(own.filter((r) => r.recordingType !== "cloud")) ?? latest(own);
+
+    if (!track) {
+      unverified.push({ speakerId, problem: "missing" });
+    } else if (track.verificationStatus !== "verified") {
+      unverified.push({
+        speakerId,
+        problem: track.verificationStatus === "failed" ? "failed" : "pending",
+        error: track.verificationError,
+      });
+    }
+  }
+  return unverified;
+}
@@ -0,0 +1,63 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { writeTestWav } from "./test-support/wav";
+import { detectSpeechSegments } from "./vad";
+
+let dir: string;
+
+function lcg(seed: number) {
+  return () => {
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    return seed / 2 ** 32;
+  };
+}
+
+/** A 220 Hz tone during each [start, end) second range, silence elsewhere */
+function bursts(amplitude: number, ...ranges: [number, number][]) {
+  return (t: number) => (ranges.some(([start, end]) => t >= start && t < end) ? amplitude * Math.sin(2 * Math.PI * 220 * t) : 0);
+}
+
+before(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "vad-test-"));
+  writeTestWav(path.join(dir, "silence.wav"), 3, () => 0);
+  writeTestWav(path.join(dir, "burst.wav"), 3, bursts(0.3, [1, 2]));
+  writeTestWav(path.join(dir, "clipped.wav"), 3, bursts(4, [1, 2]));
+  // A 100 ms click, then two phrases with a breath between them
+  writeTestWav(path.join(dir, "phrases.wav"), 5, bursts(0.3, [0.5, 0.6], [2, 2.6], [2.8, 3.4]));
+  // The same burst over a steady hiss the detector has to learn to ignore
+  const hiss = lcg(7);
+  writeTestWav(path.join(dir, "noisy.wav"), 3, (t) => bursts(0.3, [1, 2])(t) + (hiss() - 0.5) * 0.04);
+});
+
+after(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test("digital silence has no speech", async () => {
+  assert.deepEqual(await detectSpeechSegments(path.join(dir, "silence.wav")), { segments: [], speechMs: 0 });
+});
+
+test("a tone burst becomes one padded segment", async () => {
+  const { segments, speechMs } = await detectSpeechSegments(path.join(dir, "burst.wav"));
+  assert.deepEqual(segments, [{ startMs: 900, endMs: 2100 }]);
+  assert.equal(speechMs, 1200);
+});
+
+test("clipping doesn't change where speech is", async () => {
+  const { segments } = await detectSpeechSegments(path.join(dir, "clipped.wav"));
+  assert.deepEqual(segments, [{ startMs: 900, endMs: 2100 }]);
+});
+
+test("clicks are dropped and breaths don't split a phrase", async () => {
+  const { segments } = await detectSpeechSegments(path.join(dir, "phrases.wav"));
+  assert.deepEqual(segments, [{ startMs: 1900, endMs: 3500 }]);
+});
+
+test("thresholds follow the track's own noise floor", async () => {
+  const { segments } = await detectSpeechSegments(path.join(dir, "noisy.wav"));
+  assert.equal(segments.length, 1);
+  assert.ok(Math.abs(segments[0].startMs - 900) <= 20 && Math.abs(segments[0].endMs - 2100) <= 20, JSON.stringify(segments));
+});
@@ -0,0 +1,112 @@
+import { readWavInfo, readBlocks } from "./audio-analysis";
+
+/** Analysis window for the energy detector */
+const FRAME_MS = 20;
+/** Floor used for digital-silence frames so percentiles stay finite */
+const MIN_DB = -120;
+/** Speech must rise this far above the track's own noise floor to open a segment… */
+const ONSET_MARGIN_DB = 12;
+/** …and stays open until it falls back below this margin (hysteresis against flicker) */
+const RELEASE_MARGIN_DB = 6;
+/** Never call anything quieter than this speech, however clean the room is */
+const ABSOLUTE_FLOOR_DB = -55;
+/** Pauses shorter than this are breaths within one utterance */
+const MIN_PAUSE_MS = 400;
+/** Bursts shorter than this are clicks and bumps, not speech */
+const MIN_SEGMENT_MS = 200;
+/** Kept around each utterance so soft onsets and trailing consonants aren't cut */
+const PAD_MS = 100;
+
+export interface SpeechSegment {
+  startMs: number;
+  endMs: number;
+}
+
+/** Per-frame RMS level in dBFS for a 16-bit PCM WAV, downmixed to mono */
+async function frameLevelsDb(wavPath: string): Promise<Float64Array> {
+  const info = readWavInfo(wavPath);
+  if (info.bitsPerSample !== 16) {
+    throw new Error(`Unsupported WAV bit depth: ${info.bitsPerSample}`);
+  }
+
+  const frameSamples = Math.max(1, Math.round((info.sampleRate * FRAME_MS) / 1000));
+  const frameBytes = frameSamples * 2 * info.channels;
+  const totalFrames = Math.floor(info.dataLength / frameBytes);
+  const levels = new Float64Array(totalFrames);
+  const end = info.dataOffset + totalFrames * frameBytes;
+
+  let frameIndex = 0;
+  for await (const block of readBlocks(wavPath, info.dataOffset, end, frameBytes * 512)) {
+    for (let f = 0; f + frameBytes <= block.length; f += frameBytes) {
+      let sumSquares = 0;
+      for (let i = 0; i < frameSamples; i++) {
+        let sum = 0;
+        for (let c = 0; c < info.channels; c++) sum += block.readInt16LE(f + (i * info.channels + c) * 2);
+        const sample = sum / info.channels;
+        sumSquares += sample * sample;
+      }
+      const rms = Math.sqrt(sumSquares / frameSamples) / 32768;
+      levels[frameIndex++] = rms > 0 ? Math.max(MIN_DB, 20 * Math.log10(rms)) : MIN_DB;
+    }
+  }
+  return levels.subarray(0, frameIndex);
+}
+
+/**
+ * Energy-based voice activity detection. Thresholds adapt to each track's noise floor
+ * (10th-percentile frame level), so a quiet home office and a noisy café are judged
+ * relative to their own background rather than a fixed level.
+ */
+export async function detectSpeechSegments(wavPath: string): Promise<{ segments: SpeechSegment[]; speechMs: number }> {
+  const levels = await frameLevelsDb(wavPath);
+  const durationMs = levels.length * FRAME_MS;
+  if (levels.length === 0) return { segments: [], speechMs: 0 };
+
+  const sorted = Float64Array.from(levels).sort();
+  const noiseFloorDb = sorted[Math.floor(0.1 * (sorted.length - 1))];
+  const onsetDb = Math.max(ABSOLUTE_FLOOR_DB, noiseFloorDb + ONSET_MARGIN_DB);
+  const releaseDb = Math.max(ABSOLUTE_FLOOR_DB, noiseFloorDb + RELEASE_MARGIN_DB);
+
+  // Raw voiced runs in frame units
+  const runs: [number, number][] = [];
+  let runStart = -1;
+  for (let i = 0; i < levels.length; i++) {
+    if (runStart === -1) {
+      if (levels[i] >= onsetDb) runStart = i;
+    } else if (levels[i] < releaseDb) {
+      runs.push([runStart, i]);
+      runStart = -1;
+    }
+  }
+  if (runStart !== -1) runs.push([runStart, levels.length]);
+
+  // Bridge short pauses, then drop what is still too short to be speech
+  const minPauseFrames = Math.round(MIN_PAUSE_MS / FRAME_MS);
+  const merged: [number, number][] = [];
+  for (const run of runs) {
+    const last = merged[merged.length - 1];
+    if (last && run[0] - last[1] < minPauseFrames) {
+      last[1] = run[1];
+    } else {
+      merged.push([run[0], run[1]]);
+    }
+  }
+  const minSegmentFrames = Math.round(MIN_SEGMENT_MS / FRAME_MS);
+  const voiced = merged.filter(([start, end]) => end - start >= minSegmentFrames);
+
+  // Padding can make neighbours touch — fold those back together
+  const segments: SpeechSegment[] = [];
+  for (const [start, end] of voiced) {
+    const startMs = Math.max(0, start * FRAME_MS - PAD_MS);
+    const endMs = Math.min(durationMs, end * FRAME_MS + PAD_MS);
+    const last = segments[segments.length - 1];
+    if (last && startMs <= last.endMs) {
+      last.endMs = endMs;
+    } else {
+      segments.push({ startMs, endMs });
+    }
+  }
+
+  const speechMs = segments.reduce((sum, s) => sum + (s.endMs - s.startMs), 0);
+  return { segments, speechMs };
+}
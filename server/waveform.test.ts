@@ -0,0 +1,87 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { writeTestWav } from "./test-support/wav";
+import { computeWaveformPeaks } from "./waveform";
+
+let dir: string;
+
+const tone = (amplitude: number) => (t: number) => amplitude * Math.sin(2 * Math.PI * 440 * t);
+/** A tone from 1.0 s to 1.5 s in 2.5 s of digital silence */
+const burst = (amplitude: number) => (t: number) => (t >= 1 && t < 1.5 ? tone(amplitude)(t) : 0);
+
+before(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "waveform-test-"));
+  writeTestWav(path.join(dir, "silence.wav"), 1, () => 0);
+  writeTestWav(path.join(dir, "burst.wav"), 2.5, burst(0.5));
+  writeTestWav(path.join(dir, "clipped.wav"), 2.5, burst(3));
+  // 5040 samples: ten full 10 ms pixels and half of an eleventh
+  writeTestWav(path.join(dir, "ragged.wav"), 0.105, tone(0.25));
+});
+
+after(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+/** [min, max] of pixel `i` */
+const pixel = (data: number[], i: number) => [data[2 * i], data[2 * i + 1]];
+
+test("silence draws a flat line", async () => {
+  const peaks = await computeWaveformPeaks(path.join(dir, "silence.wav"));
+  assert.equal(peaks.sample_rate, 48000);
+  assert.equal(peaks.samples_per_pixel, 480);
+  assert.equal(peaks.length, 100);
+  assert.equal(peaks.data.length, 200);
+  assert.ok(peaks.data.every((v) => v === 0));
+});
+
+test("a tone burst only shows up in the pixels it covers", async () => {
+  const peaks = await computeWaveformPeaks(path.join(dir, "burst.wav"));
+  assert.equal(peaks.length, 250);
+  for (let i = 0; i < peaks.length; i++) {
+    const [min, max] = pixel(peaks.data, i);
+    if (i >= 100 && i < 150) {
+      // Half scale is ±64 in 8 bits
+      assert.ok(min <= -62 && min >= -64, `pixel ${i} min ${min}`);
+      assert.ok(max >= 62 && max <= 64, `pixel ${i} max ${max}`);
+    } else {
+      assert.deepEqual([min, max], [0, 0], `pixel ${i}`);
+    }
+  }
+});
+
+test("clipped audio pins the peaks to full scale", async () => {
+  const peaks = await computeWaveformPeaks(path.join(dir, "clipped.wav"));
+  for (let i = 100; i < 150; i++) {
+    assert.deepEqual(pixel(peaks.data, i), [-128, 127], `pixel ${i}`);
+  }
+  assert.deepEqual(pixel(peaks.data, 99), [0, 0]);
+});
+
+test("a partial last pixel still gets a peak, and coarser pixels halve the length", async () => {
+  const peaks = await computeWaveformPeaks(path.join(dir, "ragged.wav"));
+  assert.equal(peaks.length, 11);
+  const [min, max] = pixel(peaks.data, 10);
+  assert.ok(min < 0 && max > 0);
+
+  const coarse = await computeWaveformPeaks(path.join(dir, "burst.wav"), 960);
+  assert.equal(coarse.samples_per_pixel, 960);
+  assert.equal(coarse.length, 125);
+});
+
+test("other work keeps running while a file is read", async () => {
+  let turns = 0;
+  const tick = () => {
+    turns++;
+    timer = setImmediate(tick);
+  };
+  let timer = setImmediate(tick);
+  try {
+    await computeWaveformPeaks(path.join(dir, "burst.wav"), 48);
+  } finally {
+    clearImmediate(timer);
+  }
+  assert.ok(turns > 1, `event loop ran ${turns} times`);
+});
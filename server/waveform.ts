@@ -0,0 +1,49 @@
+import { readWavInfo, readBlocks } from "./audio-analysis";
+import type { WaveformPeaks } from "@shared/schema";
+
+/** 480 samples at 48 kHz = one peak pair per 10 ms, fine enough to zoom into single words */
+const DEFAULT_SAMPLES_PER_PIXEL = 480;
+
+/**
+ * Compute min/max peaks for a 16-bit PCM WAV, downmixed to mono and scaled to 8 bits.
+ * The file is read in blocks so hour-long sessions don't have to fit in memory.
+ */
+export async function computeWaveformPeaks(wavPath: string, samplesPerPixel = DEFAULT_SAMPLES_PER_PIXEL): Promise<WaveformPeaks> {
+  const info = readWavInfo(wavPath);
+  if (info.bitsPerSample !== 16) {
+    throw new Error(`Unsupported WAV bit depth: ${info.bitsPerSample}`);
+  }
+
+  const bytesPerFrame = 2 * info.channels;
+  const pixelBytes = samplesPerPixel * bytesPerFrame;
+  const data: number[] = [];
+  const toByte = (sample: number) => Math.max(-128, Math.min(127, Math.round(sample / 256)));
+  const end = info.dataOffset + info.totalSamples * bytesPerFrame;
+
+  for await (const block of readBlocks(wavPath, info.dataOffset, end, pixelBytes * 256)) {
+    // The last pixel of the file may cover fewer samples than the rest
+    for (let p = 0; p < block.length; p += pixelBytes) {
+      const pixelEnd = Math.min(p + pixelBytes, block.length);
+      let min = 32767;
+      let max = -32768;
+      for (let f = p; f + bytesPerFrame <= pixelEnd; f += bytesPerFrame) {
+        let sum = 0;
+        for (let c = 0; c < info.channels; c++) sum += block.readInt16LE(f + c * 2);
+        const sample = sum / info.channels;
+        if (sample < min) min = sample;
+        if (sample > max) max = sample;
+      }
+      data.push(toByte(min), toByte(max));
+    }
+  }
+
+  return {
+    version: 2,
+    channels: 1,
+    sample_rate: info.sampleRate,
+    samples_per_pixel: samplesPerPixel,
+    bits: 8,
+    length: data.length / 2,
+    data,
+  };
+}
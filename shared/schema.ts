@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, boolean, integer, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, boolean, integer, jsonb, date, unique, index, real } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -8,206 +8,234 @@ export const ONBOARDING_PROMPTS = [
   { type: "speak" as const, text: "Record yourself speaking naturally for about 30 seconds. Talk about anything \u2014 your day, a hobby, what you had for lunch.", duration: 30 },
 ];
 
-// Task type definitions — shared between client + server
-export const TASK_TYPES = [
-  {
-    id: "whispered-conversation",
-    archived: true,
-    name: "Whispered Conversation",
-    description: "Have a quiet, whispered conversation with your partner.",
-    hourlyRate: 30,
-    availableUntil: "2026-03-09",
-    requiresPartner: true,
-    instructions: [
-      "Find a quiet room with minimal background noise.",
-      "Have a normal phone conversation but whispering or in a soft voice throughout the call.",
-      "Discuss any topic you like — the content does not matter, only the vocal style.",
-      "Aim for at least 30 minutes of natural conversation.",
-    ],
-  },
-  {
-    id: "whispered-english",
-    paused: true,
-    name: "Whispered Conversation - English",
-    description: "Have a quiet, whispered conversation in English with your partner.",
-    hourlyRate: 30,
-    availableUntil: "2026-03-09",
-    requiresPartner: true,
-    instructions: [
-      "Find a quiet room with minimal background noise.",
-      "Have a normal phone conversation but whispering or in a soft voice throughout the call.",
-      "Speak in English for the entire conversation.",
-      "Discuss any topic you like — the content does not matter, only the vocal style.",
-      "Aim for at least 30 minutes of natural conversation.",
-    ],
-  },
-  {
-    id: "whispered-spanish",
-    paused: true,
-    name: "Whispered Conversation - Spanish",
-    description: "Have a quiet, whispered conversation in Spanish with your partner.",
-    hourlyRate: 30,
-    availableUntil: "2026-03-09",
-    requiresPartner: true,
-    instructions: [
-      "Find a quiet room with minimal background noise.",
-      "Have a normal phone conversation but whispering or in a soft voice throughout the call.",
-      "Speak in Spanish for the entire conversation.",
-      "Discuss any topic you like — the content does not matter, only the vocal style.",
-      "Aim for at least 30 minutes of natural conversation.",
-    ],
-  },
-  {
-    id: "whispered-portuguese",
-    paused: true,
-    name: "Whispered Conversation - Portuguese",
-    description: "Have a quiet, whispered conversation in Portuguese with your partner.",
-    hourlyRate: 30,
-    availableUntil: "2026-03-09",
-    requiresPartner: true,
-    instructions: [
-      "Find a quiet room with minimal background noise.",
-      "Have a normal phone conversation but whispering or in a soft voice throughout the call.",
-      "Speak in Portuguese for the entire conversation.",
-      "Discuss any topic you like — the content does not matter, only the vocal style.",
-      "Aim for at least 30 minutes of natural conversation.",
-    ],
-  },
-  {
-    id: "general-emotional",
-    name: "General Emotional Conversation",
-    description: "Have a natural, emotionally expressive conversation with your partner.",
-    hourlyRate: 50,
-    availableUntil: "2026-03-06",
-    requiresPartner: true,
-    archived: true,
-    instructions: [
-      "Find a comfortable, private space.",
-      "Have a natural 10–20 minute phone conversation with your partner.",
-      "Talk naturally with your friend, but slightly exaggerate your emotions — maybe you go on an angry rant about something at one point, or get really excited about something coming up, or share something that made you sad.",
-      "Don't force it — just have a real conversation and let the emotion come through. When you feel something, lean into it a bit more than usual.",
-      "When you're done, press Stop Recording.",
-    ],
-  },
-  {
-    id: "emotion-joy",
-    archived: true,
-    name: "Emotional Conversation - Joy / Excitement",
-    description: "Have a joyful, happy conversation with your partner.",
-    hourlyRate: 20,
-    payType: "fixed" as const,
-    availableUntil: "2026-03-07",
-    requiresPartner: true,
-    sampleAudio: "/samples/emotion-joy.wav",
-    sampleAudioDescription: "Listen to a sample to get an idea of what a highly emotional section for 'joy/excitement' sounds like.",
-    instructions: [
-      "Find a comfortable, private space.",
-      "Have a conversation that naturally brings out joyful and happy emotions.",
-      "Discuss things that make you genuinely happy — good memories, exciting news, things you're grateful for.",
-      "Example call breakdown: ~2 min catching up with your friend, ~3 min excitedly sharing something great that happened to you recently, ~1 min winding down the conversation, then press Stop Recording.",
-    ],
-  },
-  {
-    id: "emotion-surprise",
-    archived: true,
-    name: "Emotional Conversation - Surprise",
-    description: "Have a surprised, shocked conversation with your partner.",
-    hourlyRate: 20,
-    payType: "fixed" as const,
-    availableUntil: "2026-03-07",
-    requiresPartner: true,
-    instructions: [
-      "Find a comfortable, private space.",
-      "Have a conversation that naturally brings out surprise and shock.",
-      "Share unexpected stories, surprising facts, or role-play revealing shocking news to each other.",
-      "Example call breakdown: ~2 min catching up with your friend, ~3 min revealing something unexpected or reacting to surprising news from each other, ~1 min winding down the conversation, then press Stop Recording.",
-    ],
-  },
-  {
-    id: "emotion-fear",
-    archived: true,
-    name: "Emotional Conversation - Fear",
-    description: "Have a fearful, scared conversation with your partner.",
-    hourlyRate: 20,
-    payType: "fixed" as const,
-    availableUntil: "2026-03-07",
-    requiresPartner: true,
-    instructions: [
-      "Find a comfortable, private space.",
-      "Have a conversation that naturally brings out fear and being scared.",
-      "Discuss scary experiences, fears, or creepy stories together.",
-      "Example call breakdown: ~2 min catching up with your friend, ~3 min telling each other about something that genuinely scared you or a creepy experience, ~1 min winding down the conversation, then press Stop Recording.",
-    ],
-  },
-  {
-    id: "emotion-anger",
-    archived: true,
-    name: "Emotional Conversation - Anger",
-    description: "Have an angry, frustrated conversation with your partner.",
-    hourlyRate: 20,
-    payType: "fixed" as const,
-    availableUntil: "2026-03-07",
-    requiresPartner: true,
-    instructions: [
-      "Find a comfortable, private space.",
-      "Have a conversation that naturally brings out anger and frustration.",
-      "Discuss things that frustrate you, vent about annoyances, or role-play a heated debate.",
-      "Example call breakdown: ~2 min catching up with your friend, ~3 min going on an angry rant about something that really pissed you off last week, ~1 min winding down the conversation, then press Stop Recording.",
-    ],
-  },
-  {
-    id: "emotion-sadness",
-    archived: true,
-    name: "Emotional Conversation - Sadness",
-    description: "Have a sad, upset conversation with your partner.",
-    hourlyRate: 20,
-    payType: "fixed" as const,
-    availableUntil: "2026-03-07",
-    requiresPartner: true,
-    instructions: [
-      "Find a comfortable, private space.",
-      "Have a conversation that naturally brings out sadness and being upset.",
-      "Discuss bittersweet memories, disappointments, or role-play comforting each other through tough times.",
-      "Example call breakdown: ~2 min catching up with your friend, ~3 min talking about something that made you feel sad or a difficult time you went through, ~1 min winding down the conversation, then press Stop Recording.",
-    ],
-  },
-  {
-    id: "emotion-confusion",
-    archived: true,
-    name: "Emotional Conversation - Confusion",
-    description: "Have a confused, puzzled conversation with your partner.",
-    hourlyRate: 20,
-    payType: "fixed" as const,
-    availableUntil: "2026-03-07",
-    requiresPartner: true,
-    sampleAudio: "/samples/emotion-confusion.wav",
-    sampleAudioDescription: "Listen to a sample to get an idea of what a highly emotional section for 'confusion' sounds like.",
-    instructions: [
-      "Find a comfortable, private space.",
-      "Have a conversation that naturally brings out confusion and puzzlement.",
-      "Discuss confusing topics, try to figure out something tricky together, or role-play being baffled by something.",
-      "Example call breakdown: ~2 min catching up with your friend, ~3 min trying to work through something confusing together or reacting to a baffling situation, ~1 min winding down the conversation, then press Stop Recording.",
-    ],
-  },
-  {
-    id: "emotion-pride",
-    archived: true,
-    name: "Emotional Conversation - Pride",
-    description: "Have a proud, triumphant conversation with your partner.",
-    hourlyRate: 20,
-    payType: "fixed" as const,
-    availableUntil: "2026-03-07",
-    requiresPartner: true,
-    instructions: [
-      "Find a comfortable, private space.",
-      "Have a conversation that naturally brings out pride and triumph.",
-      "Share accomplishments, celebrate wins, or role-play achieving something great together.",
-      "Example call breakdown: ~2 min catching up with your friend, ~3 min proudly telling them about something you accomplished or a big win you had, ~1 min winding down the conversation, then press Stop Recording.",
-    ],
-  },
+// Task type fields that describe what contributors are asked to record. Editing any of
+// these bumps the task type's version so existing sessions keep their original definition.
+export const TASK_TYPE_DEFINITION_FIELDS = [
+  "name",
+  "description",
+  "instructions",
+  "hourlyRate",
+  "payType",
+  "estimatedMinutes",
+  "requiresPartner",
+  "sampleAudio",
+  "sampleAudioDescription",
 ] as const;
 
-export type TaskTypeId = (typeof TASK_TYPES)[number]["id"];
+// Staff permissions, each guarding a group of /api/admin routes and the admin page
+// controls that call them. Shared so the client can hide what a role can't use.
+export const PERMISSIONS = [
+  "users.view",
+  "users.approve",
+  "users.block",
+  "users.manage_roles",
+  "sessions.view",
+  "sessions.review",
+  "sessions.pay",
+  "task_types.manage",
+  "exports.create",
+  "jobs.manage",
+  "emails.manage",
+  "rate_limits.manage",
+  "retention.manage",
+] as const;
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const ROLES = ["user", "reviewer", "recruiter", "payments", "admin", "superadmin"] as const;
+export type Role = (typeof ROLES)[number];
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  user: [],
+  // QA: listens to and judges submitted sessions
+  reviewer: ["sessions.view", "sessions.review"],
+  // Screens new contributors' applications and onboarding samples
+  recruiter: ["users.view", "users.approve"],
+  payments: ["sessions.view", "sessions.pay", "exports.create"],
+  // Runs the platform day to day; everything but handing out roles
+  admin: PERMISSIONS.filter((p) => p !== "users.manage_roles"),
+  superadmin: PERMISSIONS,
+};
+
+export const ROLE_DESCRIPTIONS: Record<Role, string> = {
+  user: "Contributor",
+  reviewer: "Reviews and approves recorded sessions",
+  recruiter: "Approves new contributors",
+  payments: "Marks sessions paid and exports data",
+  admin: "Everything except changing roles",
+  superadmin: "Everything, including changing roles",
+};
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && (ROLES as readonly string[]).includes(value);
+}
+
+/** Unknown roles (e.g. from an older deploy) have no permissions */
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return isRole(role) && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/** Whether the role can use the admin page at all */
+export function isStaffRole(role: string | null | undefined): boolean {
+  return isRole(role) && ROLE_PERMISSIONS[role].length > 0;
+}
+
+export type TaskTypeAvailability = "available" | "paused" | "archived" | "scheduled" | "expired";
+
+/** Whether new sessions can be started for a task type right now */
+export function getTaskTypeAvailability(
+  taskType: { paused: boolean; archived: boolean; availableFrom: string | null; availableUntil: string | null },
+  now: Date = new Date(),
+): TaskTypeAvailability {
+  if (taskType.archived) return "archived";
+  if (taskType.paused) return "paused";
+  if (taskType.availableFrom && new Date(taskType.availableFrom) > now) return "scheduled";
+  if (taskType.availableUntil && new Date(taskType.availableUntil) < now) return "expired";
+  return "available";
+}
+
+/** The definition fields of a task type, as snapshotted into its version history */
+export function pickTaskTypeDefinition(taskType: TaskType): TaskTypeDefinition {
+  return Object.fromEntries(
+    TASK_TYPE_DEFINITION_FIELDS.map((field) => [field, taskType[field]])
+  ) as TaskTypeDefinition;
+}
+
+// Audio quality measurements written by the processing pipeline. Shared by recordings
+// and onboarding samples; every column is null until the file has been processed.
+function audioQualityColumns() {
+  return {
+    loudnessLufs: real("loudness_lufs"),
+    truePeakDb: real("true_peak_db"),
+    clippingRatio: real("clipping_ratio"),
+    noiseFloorDb: real("noise_floor_db"),
+    snrDb: real("snr_db"),
+    silenceRatio: real("silence_ratio"),
+    probedDurationMs: integer("probed_duration_ms"),
+    qualityMeasuredAt: timestamp("quality_measured_at"),
+  };
+}
+
+export interface AudioQualityMetrics {
+  loudnessLufs: number | null;
+  truePeakDb: number | null;
+  clippingRatio: number | null;
+  noiseFloorDb: number | null;
+  snrDb: number | null;
+  silenceRatio: number | null;
+  probedDurationMs: number | null;
+  qualityMeasuredAt: Date | null;
+}
+
+export type AudioQualityIssue = "too_quiet" | "too_loud" | "clipping" | "noisy" | "mostly_silent";
+
+/** Thresholds reviewers treat as a bad take — tuned for close-mic conversational speech */
+export function getAudioQualityIssues(metrics: Partial<AudioQualityMetrics>): AudioQualityIssue[] {
+  const issues: AudioQualityIssue[] = [];
+  if (metrics.loudnessLufs != null && metrics.loudnessLufs < -35) issues.push("too_quiet");
+  if (metrics.truePeakDb != null && metrics.truePeakDb > -0.5) issues.push("too_loud");
+  if (metrics.clippingRatio != null && metrics.clippingRatio > 0.001) issues.push("clipping");
+  if (metrics.snrDb != null && metrics.snrDb < 15) issues.push("noisy");
+  if (metrics.silenceRatio != null && metrics.silenceRatio > 0.7) issues.push("mostly_silent");
+  return issues;
+}
+
+/**
+ * Talk time per speaker role from VAD. Only the newest segmented track of each speaker
+ * counts, since earlier attempts in the same room were superseded by it.
+ */
+export function getSpeechTimeBySpeaker(
+  tracks: Pick<Recording, "speakerId" | "speechMs" | "createdAt">[]
+): Record<string, number> {
+  const latest: Record<string, { speechMs: number; createdAt: number }> = {};
+  for (const track of tracks) {
+    if (!track.speakerId || track.speechMs == null) continue;
+    const createdAt = new Date(track.createdAt).getTime();
+    const current = latest[track.speakerId];
+    if (!current || createdAt > current.createdAt) {
+      latest[track.speakerId] = { speechMs: track.speechMs, createdAt };
+    }
+  }
+  const totals: Record<string, number> = {};
+  for (const speakerId of Object.keys(latest).sort()) totals[speakerId] = latest[speakerId].speechMs;
+  return totals;
+}
+
+/** How a track's alignment offset was determined */
+export type AlignmentMethod = "xcorr" | "timestamps" | "none";
+
+/**
+ * Min/max waveform peaks in audiowaveform's JSON layout (version 2, 8-bit): `data`
+ * holds interleaved [min, max] pairs, one pair per `samples_per_pixel` input samples.
+ */
+export interface WaveformPeaks {
+  version: 2;
+  channels: 1;
+  sample_rate: number;
+  samples_per_pixel: number;
+  bits: 8;
+  length: number;
+  data: number[];
+}
+
+/** One recognised word, positioned in the speaker's processed WAV */
+export interface TranscriptWord {
+  word: string;
+  startMs: number;
+  endMs: number;
+  confidence: number | null;
+}
+
+/** Admin transcript search hit: the transcript text plus where the track came from */
+export interface TranscriptSearchResult {
+  recordingId: string;
+  provider: string;
+  language: string | null;
+  expectedLanguage: string | null;
+  text: string;
+  speakerId: string | null;
+  processedFolder: string | null;
+  taskType: string | null;
+  updatedAt: Date;
+}
+
+/** A suspected duplicate as seen from one of our recordings: the other upload it overlaps */
+export interface DuplicateMatchSummary {
+  recordingId: string;
+  matchedRecordingId: string | null;
+  matchedSampleId: string | null;
+  matchedUserId: string;
+  matchedUserEmail: string | null;
+  matchedFolder: string | null;
+  score: number;
+  /** Where our audio starts within the matched upload */
+  offsetMs: number;
+}
+
+// Named deliverable formats the processing pipeline can render for every track.
+// Task types choose which of these land in processed/{folder}/.
+export const AUDIO_OUTPUT_PROFILE_IDS = ["wav-48k-16", "wav-48k-24", "wav-16k-16", "flac-48k-16", "wav-48k-16-norm"] as const;
+export type AudioOutputProfileId = (typeof AUDIO_OUTPUT_PROFILE_IDS)[number];
+
+export interface AudioOutputProfile {
+  label: string;
+  shortLabel: string;
+  extension: "wav" | "flac";
+  sampleRate: number;
+  bitDepth: 16 | 24;
+  /** Integrated loudness target (EBU R128); omitted means the level is left as recorded */
+  loudnessLufs?: number;
+}
+
+export const AUDIO_OUTPUT_PROFILES: Record<AudioOutputProfileId, AudioOutputProfile> = {
+  "wav-48k-16": { label: "WAV 48 kHz 16-bit", shortLabel: "WAV", extension: "wav", sampleRate: 48000, bitDepth: 16 },
+  "wav-48k-24": { label: "WAV 48 kHz 24-bit", shortLabel: "24-bit", extension: "wav", sampleRate: 48000, bitDepth: 24 },
+  "wav-16k-16": { label: "WAV 16 kHz 16-bit (ASR)", shortLabel: "16k", extension: "wav", sampleRate: 16000, bitDepth: 16 },
+  "flac-48k-16": { label: "FLAC 48 kHz 16-bit", shortLabel: "FLAC", extension: "flac", sampleRate: 48000, bitDepth: 16 },
+  "wav-48k-16-norm": { label: "WAV 48 kHz 16-bit, -23 LUFS", shortLabel: "Norm", extension: "wav", sampleRate: 48000, bitDepth: 16, loudnessLufs: -23 },
+};
+
+/** The working copy every track gets — quality analysis, alignment and mixes all read it */
+export const DEFAULT_OUTPUT_PROFILE: AudioOutputProfileId = "wav-48k-16";
 
 // Users table
 export const users = pgTable("users", {
@@ -221,15 +249,51 @@ export const users = pgTable("users", {
   samplesCompletedAt: timestamp("samples_completed_at"),
   shortKey: varchar("short_key", { length: 8 }).unique(),
   referredBy: varchar("referred_by"),
+  emailVerifiedAt: timestamp("email_verified_at"),
+  // Sessions record the version they signed in at; bumping it signs the user out everywhere
+  sessionVersion: integer("session_version").notNull().default(0),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Single-use links sent by email. Rows hold an HMAC of the token keyed by the session
+// secret, never the token itself.
+export const AUTH_TOKEN_PURPOSES = ["password_reset", "email_verification"] as const;
+export type AuthTokenPurpose = (typeof AUTH_TOKEN_PURPOSES)[number];
+
+export const authTokens = pgTable("auth_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  purpose: text("purpose").$type<AuthTokenPurpose>().notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (t) => [index("auth_tokens_user_purpose_idx").on(t.userId, t.purpose)]);
+
+// Rate limit counters, one per policy and subject ("ip:<address>" or "account:<id or email>").
+// `strikes` counts lockouts so repeat offenders are locked out for longer each time.
+export const rateLimitBuckets = pgTable("rate_limit_buckets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  policy: text("policy").notNull(),
+  subject: text("subject").notNull(),
+  count: integer("count").notNull().default(0),
+  windowStart: timestamp("window_start").defaultNow().notNull(),
+  strikes: integer("strikes").notNull().default(0),
+  lockedUntil: timestamp("locked_until"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (t) => [
+  unique("rate_limit_buckets_policy_subject").on(t.policy, t.subject),
+  index("rate_limit_buckets_locked_until_idx").on(t.lockedUntil),
+]);
+
 // Rooms table
 export const rooms = pgTable("rooms", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull().unique(),
+  // Join URL and name at the video provider; the columns predate providers other than Daily
   dailyRoomUrl: text("daily_room_url").notNull(),
   dailyRoomName: text("daily_room_name").notNull(),
+  rtcProvider: text("rtc_provider").notNull().default("daily"),
   createdBy: varchar("created_by").notNull().references(() => users.id),
   expiresAt: timestamp("expires_at").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -251,9 +315,13 @@ export const onboardingSamples = pgTable("onboarding_samples", {
   channels: integer("channels").notNull().default(1),
   processedFolder: text("processed_folder"),
   wavS3Key: text("wav_s3_key"),
+  ...audioQualityColumns(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+export const UPLOAD_VERIFICATION_STATUSES = ["pending", "verified", "failed"] as const;
+export type UploadVerificationStatus = (typeof UPLOAD_VERIFICATION_STATUSES)[number];
+
 // Recordings table
 export const recordings = pgTable("recordings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -271,6 +339,31 @@ export const recordings = pgTable("recordings", {
   speakerId: text("speaker_id"),
   processedFolder: text("processed_folder"),
   wavS3Key: text("wav_s3_key"),
+  // Waveform peaks JSON stored next to the WAV, for the admin player
+  peaksS3Key: text("peaks_s3_key"),
+  ...audioQualityColumns(),
+  // Total voiced time from VAD segmentation — the "talk time" used for pay and QA
+  speechMs: integer("speech_ms"),
+  // Cosine similarity of this track's voice to the uploader's onboarding sample, and whether
+  // it fell below the embedding provider's threshold (another person may be speaking)
+  speakerSimilarity: real("speaker_similarity"),
+  speakerMismatch: boolean("speaker_mismatch"),
+  // Server-side check of the uploaded object; duration, size and format above are overwritten
+  // with the measured values once it passes
+  verificationStatus: text("verification_status").$type<UploadVerificationStatus>().notNull().default("pending"),
+  verificationError: text("verification_error"),
+  verifiedAt: timestamp("verified_at"),
+  checksumSha256: text("checksum_sha256"),
+  codec: text("codec"),
+  // Set while the browser is still streaming parts to an S3 multipart upload
+  multipartUploadId: text("multipart_upload_id"),
+  // When the client's MediaRecorder started, corrected to the server clock
+  clientStartedAt: timestamp("client_started_at"),
+  // Cross-track alignment: ms trimmed from the start of this track so it lines up with the other speaker
+  alignmentOffsetMs: real("alignment_offset_ms"),
+  alignmentMethod: text("alignment_method").$type<AlignmentMethod>(),
+  alignmentConfidence: real("alignment_confidence"),
+  alignedWavS3Key: text("aligned_wav_s3_key"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -308,6 +401,7 @@ export const notifications = pgTable("notifications", {
 export const taskSessions = pgTable("task_sessions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   taskType: text("task_type").notNull(),
+  taskTypeVersion: integer("task_type_version"),
   userId: varchar("user_id").notNull().references(() => users.id),
   partnerId: varchar("partner_id").references(() => users.id),
   partnerEmail: text("partner_email"),
@@ -320,6 +414,279 @@ export const taskSessions = pgTable("task_sessions", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Task types table (the task catalog)
+export const taskTypes = pgTable("task_types", {
+  id: varchar("id").primaryKey(),
+  name: text("name").notNull(),
+  description: text("description").notNull(),
+  instructions: jsonb("instructions").$type<string[]>().notNull().default([]),
+  hourlyRate: integer("hourly_rate").notNull(),
+  payType: text("pay_type").notNull().default("hourly"),
+  estimatedMinutes: integer("estimated_minutes"),
+  requiresPartner: boolean("requires_partner").notNull().default(true),
+  sampleAudio: text("sample_audio"),
+  sampleAudioDescription: text("sample_audio_description"),
+  availableFrom: date("available_from"),
+  availableUntil: date("available_until"),
+  paused: boolean("paused").notNull().default(false),
+  archived: boolean("archived").notNull().default(false),
+  sortOrder: integer("sort_order").notNull().default(0),
+  outputProfiles: jsonb("output_profiles").$type<AudioOutputProfileId[]>().notNull().default([DEFAULT_OUTPUT_PROFILE]),
+  // Language contributors are asked to speak (ISO 639-1), checked against what transcription detects
+  language: text("language"),
+  version: integer("version").notNull().default(1),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Task type versions table — snapshot of the definition fields for every version
+export const taskTypeVersions = pgTable("task_type_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taskTypeId: varchar("task_type_id").notNull().references(() => taskTypes.id),
+  version: integer("version").notNull(),
+  definition: jsonb("definition").$type<TaskTypeDefinition>().notNull(),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (t) => [unique("task_type_versions_task_type_version").on(t.taskTypeId, t.version)]);
+
+// One processed/{name}/ folder per room. Numbers come from the processed_folder_seq
+// sequence and are claimed once per room, so both partners' tracks land together.
+export const processedFolders = pgTable("processed_folders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  roomId: varchar("room_id").notNull().references(() => rooms.id).unique(),
+  number: integer("number").notNull().unique(),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Per-track renders of each output profile in processed/{folder}/
+export const recordingArtifacts = pgTable("recording_artifacts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  recordingId: varchar("recording_id").notNull().references(() => recordings.id),
+  profile: text("profile").$type<AudioOutputProfileId>().notNull(),
+  s3Key: text("s3_key").notNull(),
+  fileSize: integer("file_size"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (t) => [unique("recording_artifacts_recording_profile").on(t.recordingId, t.profile)]);
+
+// Utterance boundaries found by VAD on each processed speaker track, in ms from the WAV start
+export const recordingSegments = pgTable("recording_segments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  recordingId: varchar("recording_id").notNull().references(() => recordings.id),
+  seq: integer("seq").notNull(),
+  startMs: integer("start_ms").notNull(),
+  endMs: integer("end_ms").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (t) => [unique("recording_segments_recording_seq").on(t.recordingId, t.seq)]);
+
+// ASR output for each processed speaker track; `language` is what the provider detected
+export const transcripts = pgTable("transcripts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  recordingId: varchar("recording_id").notNull().references(() => recordings.id).unique(),
+  provider: text("provider").notNull(),
+  language: text("language"),
+  text: text("text").notNull(),
+  words: jsonb("words").$type<TranscriptWord[]>().notNull().default([]),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Acoustic fingerprint of each processed recording or onboarding sample
+export const audioFingerprints = pgTable("audio_fingerprints", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  recordingId: varchar("recording_id").references(() => recordings.id).unique(),
+  sampleId: varchar("sample_id").references(() => onboardingSamples.id).unique(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  roomId: varchar("room_id").references(() => rooms.id),
+  durationMs: integer("duration_ms").notNull(),
+  hashCount: integer("hash_count").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Inverted index of sub-fingerprint hashes → where they occur
+export const fingerprintHashes = pgTable("fingerprint_hashes", {
+  fingerprintId: varchar("fingerprint_id").notNull().references(() => audioFingerprints.id),
+  hash: integer("hash").notNull(),
+  frame: integer("frame").notNull(),
+}, (t) => [
+  index("fingerprint_hashes_hash_idx").on(t.hash),
+  index("fingerprint_hashes_fingerprint_idx").on(t.fingerprintId),
+]);
+
+// Pairs of uploads whose fingerprints overlap; `fingerprintId` is always the later upload
+export const duplicateMatches = pgTable("duplicate_matches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  fingerprintId: varchar("fingerprint_id").notNull().references(() => audioFingerprints.id),
+  matchedFingerprintId: varchar("matched_fingerprint_id").notNull().references(() => audioFingerprints.id),
+  score: real("score").notNull(),
+  hits: integer("hits").notNull(),
+  offsetMs: integer("offset_ms").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (t) => [unique("duplicate_matches_pair").on(t.fingerprintId, t.matchedFingerprintId)]);
+
+// Voice embeddings of processed recordings and onboarding samples, per embedding provider
+export const speakerEmbeddings = pgTable("speaker_embeddings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  recordingId: varchar("recording_id").references(() => recordings.id).unique(),
+  sampleId: varchar("sample_id").references(() => onboardingSamples.id).unique(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  provider: text("provider").notNull(),
+  embedding: jsonb("embedding").$type<number[]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Folder-level artifacts derived from all tracks in a processed/{folder}/ (e.g. conversation mixes)
+export const FOLDER_ARTIFACT_KINDS = ["stereo_mix", "mono_mix"] as const;
+export type FolderArtifactKind = (typeof FOLDER_ARTIFACT_KINDS)[number];
+
+export const folderArtifacts = pgTable("folder_artifacts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  folder: text("folder").notNull(),
+  roomId: varchar("room_id").notNull().references(() => rooms.id),
+  kind: text("kind").$type<FolderArtifactKind>().notNull(),
+  s3Key: text("s3_key").notNull(),
+  durationMs: integer("duration_ms"),
+  sourceRecordingIds: jsonb("source_recording_ids").$type<string[]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (t) => [unique("folder_artifacts_folder_kind").on(t.folder, t.kind)]);
+
+// Background jobs table (Postgres-backed work queue)
+export const JOB_STATUSES = ["queued", "running", "retrying", "completed", "dead"] as const;
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+export const jobs = pgTable("jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: text("type").notNull(),
+  key: text("key"),
+  payload: jsonb("payload").notNull(),
+  status: text("status").$type<JobStatus>().notNull().default("queued"),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(5),
+  runAt: timestamp("run_at").defaultNow().notNull(),
+  lockedAt: timestamp("locked_at"),
+  lockedBy: text("locked_by"),
+  lastError: text("last_error"),
+  result: jsonb("result"),
+  userId: varchar("user_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+}, (t) => [
+  index("jobs_status_run_at_idx").on(t.status, t.runAt),
+  index("jobs_type_key_idx").on(t.type, t.key),
+]);
+
+// Retention: which stored objects may be deleted or archived, and when
+export const RETENTION_ARTIFACT_TYPES = [
+  "raw_upload",
+  "processed_webm",
+  "working_wav",
+  "aligned_wav",
+  "waveform_peaks",
+  "rendered_profile",
+  "conversation_mix",
+  "orphaned_object",
+] as const;
+export type RetentionArtifactType = (typeof RETENTION_ARTIFACT_TYPES)[number];
+
+export const RETENTION_ARTIFACT_LABELS: Record<RetentionArtifactType, string> = {
+  raw_upload: "Raw uploads (recordings/)",
+  processed_webm: "Processed WebM copies",
+  working_wav: "Working WAVs",
+  aligned_wav: "Aligned WAVs",
+  waveform_peaks: "Waveform peaks",
+  rendered_profile: "Rendered output profiles",
+  conversation_mix: "Conversation mixes",
+  orphaned_object: "Orphaned objects (no database row)",
+};
+
+/**
+ * Session status as retention sees it. Rejection is a reviewer verdict (the session itself
+ * goes back to recording), so it takes precedence over the session's own status.
+ */
+export const RETENTION_SESSION_STATUSES = ["completed", "rejected", "cancelled", "in_progress", "no_session"] as const;
+export type RetentionSessionStatus = (typeof RETENTION_SESSION_STATUSES)[number];
+
+export function getRetentionSessionStatus(session: Pick<TaskSession, "status" | "reviewerStatus"> | undefined): RetentionSessionStatus {
+  if (!session) return "no_session";
+  if (session.reviewerStatus === "rejected") return "rejected";
+  if (session.status === "completed") return "completed";
+  if (session.status === "cancelled") return "cancelled";
+  return "in_progress";
+}
+
+export const RETENTION_ACTIONS = ["delete", "archive"] as const;
+export type RetentionAction = (typeof RETENTION_ACTIONS)[number];
+
+export const retentionRules = pgTable("retention_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  artifactType: text("artifact_type").$type<RetentionArtifactType>().notNull(),
+  // Null applies the rule whatever the session's status
+  sessionStatus: text("session_status").$type<RetentionSessionStatus>(),
+  action: text("action").$type<RetentionAction>().notNull(),
+  afterDays: integer("after_days").notNull(),
+  enabled: boolean("enabled").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const RETENTION_SWEEP_STATUSES = ["queued", "running", "completed", "failed"] as const;
+export type RetentionSweepStatus = (typeof RETENTION_SWEEP_STATUSES)[number];
+
+// One run of the sweeper. Dry runs only plan; an applying run executes a reviewed dry run's plan.
+export const retentionSweeps = pgTable("retention_sweeps", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  dryRun: boolean("dry_run").notNull(),
+  planSweepId: varchar("plan_sweep_id"),
+  status: text("status").$type<RetentionSweepStatus>().notNull().default("queued"),
+  objectCount: integer("object_count"),
+  error: text("error"),
+  triggeredBy: varchar("triggered_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  finishedAt: timestamp("finished_at"),
+});
+
+// What a sweep planned (dry run) or did (applied run) to each object
+export const retentionActions = pgTable("retention_actions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sweepId: varchar("sweep_id").notNull().references(() => retentionSweeps.id),
+  ruleId: varchar("rule_id").notNull(),
+  artifactType: text("artifact_type").$type<RetentionArtifactType>().notNull(),
+  action: text("action").$type<RetentionAction>().notNull(),
+  s3Key: text("s3_key").notNull(),
+  recordingId: varchar("recording_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (t) => [
+  index("retention_actions_sweep_idx").on(t.sweepId),
+  index("retention_actions_s3_key_idx").on(t.s3Key),
+]);
+
+// Outgoing email. Each message is rendered and stored before it is handed to the
+// transport, so a send that fails is retried by the job queue and stays visible to admins.
+export const EMAIL_STATUSES = ["queued", "retrying", "sent", "failed"] as const;
+export type EmailStatus = (typeof EMAIL_STATUSES)[number];
+
+export const emailOutbox = pgTable("email_outbox", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  template: text("template").notNull(),
+  templateVersion: integer("template_version").notNull(),
+  toAddress: text("to_address").notNull(),
+  subject: text("subject").notNull(),
+  html: text("html").notNull(),
+  text: text("text").notNull(),
+  params: jsonb("params").$type<Record<string, unknown>>().notNull(),
+  status: text("status").$type<EmailStatus>().notNull().default("queued"),
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  transport: text("transport"),
+  messageId: text("message_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  sentAt: timestamp("sent_at"),
+}, (t) => [index("email_outbox_status_idx").on(t.status, t.createdAt)]);
+
 // Blocked emails table
 export const blockedEmails = pgTable("blocked_emails", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -340,6 +707,19 @@ export const loginSchema = z.object({
   password: z.string().min(6).max(100),
 });
 
+export const forgotPasswordSchema = z.object({
+  username: z.string().email("Please enter a valid email address"),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(6).max(100),
+});
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1),
+});
+
 export const onboardingSchema = z.object({
   firstName: z.string().min(1),
   lastName: z.string().min(1),
@@ -370,6 +750,61 @@ export const inviteTaskPartnerSchema = z.object({
   email: z.string().email(),
 });
 
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+export const createTaskTypeSchema = z.object({
+  id: z.string().min(1).max(64).regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "ID must be lowercase letters, numbers and dashes"),
+  name: z.string().min(1).max(200),
+  description: z.string().min(1),
+  instructions: z.array(z.string().min(1)).min(1),
+  hourlyRate: z.number().int().min(0),
+  payType: z.enum(["hourly", "fixed"]).default("hourly"),
+  estimatedMinutes: z.number().int().positive().nullable().optional(),
+  requiresPartner: z.boolean().default(true),
+  sampleAudio: z.string().min(1).nullable().optional(),
+  sampleAudioDescription: z.string().min(1).nullable().optional(),
+  availableFrom: dateString.nullable().optional(),
+  availableUntil: dateString.nullable().optional(),
+  paused: z.boolean().default(false),
+  archived: z.boolean().default(false),
+  sortOrder: z.number().int().default(0),
+  outputProfiles: z.array(z.enum(AUDIO_OUTPUT_PROFILE_IDS)).min(1, "Select at least one output profile").default([DEFAULT_OUTPUT_PROFILE]),
+  language: z.string().regex(/^[a-z]{2}$/, "Language must be a two-letter ISO 639-1 code").nullable().optional(),
+});
+
+export const updateTaskTypeSchema = createTaskTypeSchema.omit({ id: true }).partial();
+
+export const EXPORT_FORMATS = ["jsonl", "csv", "hf"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// Dataset export request — always limited to approved (completed) task sessions
+export const exportRequestSchema = z.object({
+  format: z.enum(EXPORT_FORMATS),
+  taskType: z.string().min(1).optional(),
+  from: dateString.optional(),
+  to: dateString.optional(),
+  paid: z.boolean().optional(),
+  reviewerStatus: z.enum(["approved", "rejected", "unsure"]).optional(),
+});
+
+export const createRetentionRuleSchema = z.object({
+  artifactType: z.enum(RETENTION_ARTIFACT_TYPES),
+  sessionStatus: z.enum(RETENTION_SESSION_STATUSES).nullable().default(null),
+  action: z.enum(RETENTION_ACTIONS),
+  // At least a day, so uploads still in flight never look old enough to sweep
+  afterDays: z.number().int().min(1).max(3650),
+  enabled: z.boolean().default(true),
+}).refine((rule) => rule.artifactType !== "orphaned_object" || rule.sessionStatus === null, {
+  message: "Orphaned objects have no session, so their rules can't filter by status",
+  path: ["sessionStatus"],
+});
+
+export const updateRetentionRuleSchema = z.object({
+  action: z.enum(RETENTION_ACTIONS).optional(),
+  afterDays: z.number().int().min(1).max(3650).optional(),
+  enabled: z.boolean().optional(),
+});
+
 // Type exports
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -381,3 +816,25 @@ export type RoomInvitation = typeof roomInvitations.$inferSelect;
 export type Notification = typeof notifications.$inferSelect;
 export type TaskSession = typeof taskSessions.$inferSelect;
 export type BlockedEmail = typeof blockedEmails.$inferSelect;
+export type OutboxEmail = typeof emailOutbox.$inferSelect;
+export type AuthToken = typeof authTokens.$inferSelect;
+export type RateLimitBucket = typeof rateLimitBuckets.$inferSelect;
+export type TaskType = typeof taskTypes.$inferSelect;
+export type InsertTaskType = z.input<typeof createTaskTypeSchema>;
+export type TaskTypeDefinition = Pick<TaskType, (typeof TASK_TYPE_DEFINITION_FIELDS)[number]>;
+export type TaskTypeVersion = typeof taskTypeVersions.$inferSelect;
+export type Job = typeof jobs.$inferSelect;
+export type RecordingArtifact = typeof recordingArtifacts.$inferSelect;
+export type ProcessedFolder = typeof processedFolders.$inferSelect;
+export type RecordingSegment = typeof recordingSegments.$inferSelect;
+export type Transcript = typeof transcripts.$inferSelect;
+export type AudioFingerprint = typeof audioFingerprints.$inferSelect;
+export type DuplicateMatch = typeof duplicateMatches.$inferSelect;
+export type SpeakerEmbedding = typeof speakerEmbeddings.$inferSelect;
+export type FolderArtifact = typeof folderArtifacts.$inferSelect;
+export type ExportRequest = z.infer<typeof exportRequestSchema>;
+export type RetentionRule = typeof retentionRules.$inferSelect;
+export type InsertRetentionRule = z.infer<typeof createRetentionRuleSchema>;
+export type RetentionSweep = typeof retentionSweeps.$inferSelect;
+export type RetentionActionRecord = typeof retentionActions.$inferSelect;
+export type ExportFilters = Omit<ExportRequest, "format">;
@@ -76,6 +76,324 @@ pool.query(\`
     created_at TIMESTAMP NOT NULL DEFAULT now(),
     updated_at TIMESTAMP NOT NULL DEFAULT now()
   );
+
+  CREATE TABLE IF NOT EXISTS task_types (
+    id VARCHAR PRIMARY KEY,
+    name TEXT NOT NULL,
+    description TEXT NOT NULL,
+    instructions JSONB NOT NULL DEFAULT '[]',
+    hourly_rate INTEGER NOT NULL,
+    pay_type TEXT NOT NULL DEFAULT 'hourly',
+    estimated_minutes INTEGER,
+    requires_partner BOOLEAN NOT NULL DEFAULT true,
+    sample_audio TEXT,
+    sample_audio_description TEXT,
+    available_from DATE,
+    available_until DATE,
+    paused BOOLEAN NOT NULL DEFAULT false,
+    archived BOOLEAN NOT NULL DEFAULT false,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    version INTEGER NOT NULL DEFAULT 1,
+    created_at TIMESTAMP NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP NOT NULL DEFAULT now()
+  );
+
+  CREATE TABLE IF NOT EXISTS task_type_versions (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    task_type_id VARCHAR NOT NULL REFERENCES task_types(id),
+    version INTEGER NOT NULL,
+    definition JSONB NOT NULL,
+    created_by VARCHAR REFERENCES users(id),
+    created_at TIMESTAMP NOT NULL DEFAULT now(),
+    CONSTRAINT task_type_versions_task_type_version UNIQUE (task_type_id, version)
+  );
+
+  ALTER TABLE task_sessions ADD COLUMN IF NOT EXISTS task_type_version INTEGER;
+
+  CREATE TABLE IF NOT EXISTS jobs (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    type TEXT NOT NULL,
+    key TEXT,
+    payload JSONB NOT NULL,
+    status TEXT NOT NULL DEFAULT 'queued',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 5,
+    run_at TIMESTAMP NOT NULL DEFAULT now(),
+    locked_at TIMESTAMP,
+    locked_by TEXT,
+    last_error TEXT,
+    result JSONB,
+    user_id VARCHAR REFERENCES users(id),
+    created_at TIMESTAMP NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP NOT NULL DEFAULT now(),
+    completed_at TIMESTAMP
+  );
+  CREATE INDEX IF NOT EXISTS jobs_status_run_at_idx ON jobs (status, run_at);
+  CREATE INDEX IF NOT EXISTS jobs_type_key_idx ON jobs (type, key);
+
+  ALTER TABLE recordings
+    ADD COLUMN IF NOT EXISTS loudness_lufs REAL,
+    ADD COLUMN IF NOT EXISTS true_peak_db REAL,
+    ADD COLUMN IF NOT EXISTS clipping_ratio REAL,
+    ADD COLUMN IF NOT EXISTS noise_floor_db REAL,
+    ADD COLUMN IF NOT EXISTS snr_db REAL,
+    ADD COLUMN IF NOT EXISTS silence_ratio REAL,
+    ADD COLUMN IF NOT EXISTS probed_duration_ms INTEGER,
+    ADD COLUMN IF NOT EXISTS quality_measured_at TIMESTAMP;
+
+  ALTER TABLE onboarding_samples
+    ADD COLUMN IF NOT EXISTS loudness_lufs REAL,
+    ADD COLUMN IF NOT EXISTS true_peak_db REAL,
+    ADD COLUMN IF NOT EXISTS clipping_ratio REAL,
+    ADD COLUMN IF NOT EXISTS noise_floor_db REAL,
+    ADD COLUMN IF NOT EXISTS snr_db REAL,
+    ADD COLUMN IF NOT EXISTS silence_ratio REAL,
+    ADD COLUMN IF NOT EXISTS probed_duration_ms INTEGER,
+    ADD COLUMN IF NOT EXISTS quality_measured_at TIMESTAMP;
+
+  ALTER TABLE recordings
+    ADD COLUMN IF NOT EXISTS client_started_at TIMESTAMP,
+    ADD COLUMN IF NOT EXISTS alignment_offset_ms REAL,
+    ADD COLUMN IF NOT EXISTS alignment_method TEXT,
+    ADD COLUMN IF NOT EXISTS alignment_confidence REAL,
+    ADD COLUMN IF NOT EXISTS aligned_wav_s3_key TEXT;
+
+  CREATE TABLE IF NOT EXISTS folder_artifacts (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    folder TEXT NOT NULL,
+    room_id VARCHAR NOT NULL REFERENCES rooms(id),
+    kind TEXT NOT NULL,
+    s3_key TEXT NOT NULL,
+    duration_ms INTEGER,
+    source_recording_ids JSONB NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP NOT NULL DEFAULT now(),
+    CONSTRAINT folder_artifacts_folder_kind UNIQUE (folder, kind)
+  );
+
+  ALTER TABLE recordings ADD COLUMN IF NOT EXISTS multipart_upload_id TEXT;
+
+  ALTER TABLE task_types ADD COLUMN IF NOT EXISTS output_profiles JSONB NOT NULL DEFAULT '[\"wav-48k-16\"]';
+
+  CREATE TABLE IF NOT EXISTS recording_artifacts (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    recording_id VARCHAR NOT NULL REFERENCES recordings(id),
+    profile TEXT NOT NULL,
+    s3_key TEXT NOT NULL,
+    file_size INTEGER,
+    created_at TIMESTAMP NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP NOT NULL DEFAULT now(),
+    CONSTRAINT recording_artifacts_recording_profile UNIQUE (recording_id, profile)
+  );
+
+  ALTER TABLE recordings ADD COLUMN IF NOT EXISTS peaks_s3_key TEXT;
+
+  ALTER TABLE recordings ADD COLUMN IF NOT EXISTS speech_ms INTEGER;
+
+  CREATE TABLE IF NOT EXISTS recording_segments (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    recording_id VARCHAR NOT NULL REFERENCES recordings(id),
+    seq INTEGER NOT NULL,
+    start_ms INTEGER NOT NULL,
+    end_ms INTEGER NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT now(),
+    CONSTRAINT recording_segments_recording_seq UNIQUE (recording_id, seq)
+  );
+
+  ALTER TABLE task_types ADD COLUMN IF NOT EXISTS language TEXT;
+  UPDATE task_types SET language = 'en' WHERE id = 'whispered-english' AND language IS NULL;
+  UPDATE task_types SET language = 'es' WHERE id = 'whispered-spanish' AND language IS NULL;
+  UPDATE task_types SET language = 'pt' WHERE id = 'whispered-portuguese' AND language IS NULL;
+
+  CREATE TABLE IF NOT EXISTS transcripts (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    recording_id VARCHAR NOT NULL UNIQUE REFERENCES recordings(id),
+    provider TEXT NOT NULL,
+    language TEXT,
+    text TEXT NOT NULL,
+    words JSONB NOT NULL DEFAULT '[]',
+    created_at TIMESTAMP NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP NOT NULL DEFAULT now()
+  );
+
+  CREATE TABLE IF NOT EXISTS processed_folders (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    room_id VARCHAR NOT NULL UNIQUE REFERENCES rooms(id),
+    number INTEGER NOT NULL UNIQUE,
+    name TEXT NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT now()
+  );
+  CREATE SEQUENCE IF NOT EXISTS processed_folder_seq;
+
+  INSERT INTO processed_folders (room_id, number, name)
+    SELECT DISTINCT ON (room_id) room_id, (regexp_match(processed_folder, '^[0-9]+'))[1]::int, processed_folder
+      FROM recordings WHERE processed_folder ~ '^[0-9]+'
+      ORDER BY room_id, created_at
+    ON CONFLICT DO NOTHING;
+
+  SELECT setval('processed_folder_seq', GREATEST(m, 1), m > 0) FROM (
+    SELECT GREATEST(
+      (SELECT CASE WHEN is_called THEN last_value ELSE 0 END FROM processed_folder_seq),
+      (SELECT COALESCE(MAX(number), 0) FROM processed_folders),
+      (SELECT COALESCE(MAX((regexp_match(processed_folder, '^[0-9]+'))[1]::int), 0) FROM recordings),
+      (SELECT COALESCE(MAX((regexp_match(processed_folder, '^[0-9]+'))[1]::int), 0) FROM onboarding_samples)
+    ) AS m
+  ) t;
+
+  CREATE TABLE IF NOT EXISTS audio_fingerprints (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    recording_id VARCHAR UNIQUE REFERENCES recordings(id),
+    sample_id VARCHAR UNIQUE REFERENCES onboarding_samples(id),
+    user_id VARCHAR NOT NULL REFERENCES users(id),
+    room_id VARCHAR REFERENCES rooms(id),
+    duration_ms INTEGER NOT NULL,
+    hash_count INTEGER NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT now()
+  );
+
+  CREATE TABLE IF NOT EXISTS fingerprint_hashes (
+    fingerprint_id VARCHAR NOT NULL REFERENCES audio_fingerprints(id),
+    hash INTEGER NOT NULL,
+    frame INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS fingerprint_hashes_hash_idx ON fingerprint_hashes (hash);
+  CREATE INDEX IF NOT EXISTS fingerprint_hashes_fingerprint_idx ON fingerprint_hashes (fingerprint_id);
+
+  CREATE TABLE IF NOT EXISTS duplicate_matches (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    fingerprint_id VARCHAR NOT NULL REFERENCES audio_fingerprints(id),
+    matched_fingerprint_id VARCHAR NOT NULL REFERENCES audio_fingerprints(id),
+    score REAL NOT NULL,
+    hits INTEGER NOT NULL,
+    offset_ms INTEGER NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT now(),
+    CONSTRAINT duplicate_matches_pair UNIQUE (fingerprint_id, matched_fingerprint_id)
+  );
+
+  ALTER TABLE recordings ADD COLUMN IF NOT EXISTS speaker_similarity REAL;
+  ALTER TABLE recordings ADD COLUMN IF NOT EXISTS speaker_mismatch BOOLEAN;
+
+  CREATE TABLE IF NOT EXISTS speaker_embeddings (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    recording_id VARCHAR UNIQUE REFERENCES recordings(id),
+    sample_id VARCHAR UNIQUE REFERENCES onboarding_samples(id),
+    user_id VARCHAR NOT NULL REFERENCES users(id),
+    provider TEXT NOT NULL,
+    embedding JSONB NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT now()
+  );
+
+  CREATE TABLE IF NOT EXISTS retention_rules (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    artifact_type TEXT NOT NULL,
+    session_status TEXT,
+    action TEXT NOT NULL,
+    after_days INTEGER NOT NULL,
+    enabled BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP NOT NULL DEFAULT now()
+  );
+
+  CREATE TABLE IF NOT EXISTS retention_sweeps (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    dry_run BOOLEAN NOT NULL,
+    plan_sweep_id VARCHAR,
+    status TEXT NOT NULL DEFAULT 'queued',
+    object_count INTEGER,
+    error TEXT,
+    triggered_by VARCHAR REFERENCES users(id),
+    created_at TIMESTAMP NOT NULL DEFAULT now(),
+    finished_at TIMESTAMP
+  );
+
+  CREATE TABLE IF NOT EXISTS retention_actions (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    sweep_id VARCHAR NOT NULL REFERENCES retention_sweeps(id),
+    rule_id VARCHAR NOT NULL,
+    artifact_type TEXT NOT NULL,
+    action TEXT NOT NULL,
+    s3_key TEXT NOT NULL,
+    recording_id VARCHAR,
+    created_at TIMESTAMP NOT NULL DEFAULT now()
+  );
+  CREATE INDEX IF NOT EXISTS retention_actions_sweep_idx ON retention_actions (sweep_id);
+  CREATE INDEX IF NOT EXISTS retention_actions_s3_key_idx ON retention_actions (s3_key);
+
+  ALTER TABLE recordings ADD COLUMN IF NOT EXISTS verification_status TEXT NOT NULL DEFAULT 'pending';
+  ALTER TABLE recordings ADD COLUMN IF NOT EXISTS verification_error TEXT;
+  ALTER TABLE recordings ADD COLUMN IF NOT EXISTS verified_at TIMESTAMP;
+  ALTER TABLE recordings ADD COLUMN IF NOT EXISTS checksum_sha256 TEXT;
+  ALTER TABLE recordings ADD COLUMN IF NOT EXISTS codec TEXT;
+  -- Recordings processed before verification existed were accepted as they were
+  UPDATE recordings SET verification_status = 'verified'
+   WHERE verification_status = 'pending' AND processed_folder IS NOT NULL;
+
+  CREATE TABLE IF NOT EXISTS email_outbox (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    template TEXT NOT NULL,
+    template_version INTEGER NOT NULL,
+    to_address TEXT NOT NULL,
+    subject TEXT NOT NULL,
+    html TEXT NOT NULL,
+    text TEXT NOT NULL,
+    params JSONB NOT NULL,
+    status TEXT NOT NULL DEFAULT 'queued',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    transport TEXT,
+    message_id TEXT,
+    created_at TIMESTAMP NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP NOT NULL DEFAULT now(),
+    sent_at TIMESTAMP
+  );
+  CREATE INDEX IF NOT EXISTS email_outbox_status_idx ON email_outbox (status, created_at);
+
+  ALTER TABLE rooms ADD COLUMN IF NOT EXISTS rtc_provider TEXT NOT NULL DEFAULT 'daily';
+
+  ALTER TABLE users ADD COLUMN IF NOT EXISTS email_verified_at TIMESTAMP;
+  ALTER TABLE users ADD COLUMN IF NOT EXISTS session_version INTEGER NOT NULL DEFAULT 0;
+  -- Accounts from before verification existed keep working; runs once, before auth_tokens exists
+  UPDATE users SET email_verified_at = created_at
+   WHERE email_verified_at IS NULL AND to_regclass('auth_tokens') IS NULL;
+  CREATE TABLE IF NOT EXISTS auth_tokens (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id VARCHAR NOT NULL REFERENCES users(id),
+    purpose TEXT NOT NULL,
+    token_hash TEXT NOT NULL UNIQUE,
+    expires_at TIMESTAMP NOT NULL,
+    used_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT now()
+  );
+  CREATE INDEX IF NOT EXISTS auth_tokens_user_purpose_idx ON auth_tokens (user_id, purpose);
+
+  CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    policy TEXT NOT NULL,
+    subject TEXT NOT NULL,
+    count INTEGER NOT NULL DEFAULT 0,
+    window_start TIMESTAMP NOT NULL DEFAULT now(),
+    strikes INTEGER NOT NULL DEFAULT 0,
+    locked_until TIMESTAMP,
+    updated_at TIMESTAMP NOT NULL DEFAULT now(),
+    CONSTRAINT rate_limit_buckets_policy_subject UNIQUE (policy, subject)
+  );
+  CREATE INDEX IF NOT EXISTS rate_limit_buckets_locked_until_idx ON rate_limit_buckets (locked_until);
+
+  -- One row per data backfill that has run, for backfills no new table or column can guard
+  CREATE TABLE IF NOT EXISTS data_migrations (
+    name TEXT PRIMARY KEY,
+    applied_at TIMESTAMP NOT NULL DEFAULT now()
+  );
+
+  -- Admins from before granular roles keep every permission, including managing roles.
+  -- Runs once: later demotions to admin are left alone.
+  WITH first_run AS (
+    INSERT INTO data_migrations (name) VALUES ('promote_admins_to_superadmin')
+    ON CONFLICT DO NOTHING
+    RETURNING name
+  )
+  UPDATE users SET role = 'superadmin'
+   WHERE role = 'admin' AND EXISTS (SELECT 1 FROM first_run);
 \`).then(() => { console.log('Database tables ready'); pool.end(); })
   .catch(err => { console.error(err); pool.end(); process.exit(1); });
 "